@@ -0,0 +1,51 @@
+'use strict';
+
+const bio = require('../src/bufio');
+
+const ITERATIONS = 1000000;
+
+const record = {
+  version: 1,
+  time: 1526000000,
+  value: 50000000,
+  hash: Buffer.alloc(32, 0xaa),
+  script: Buffer.alloc(25, 0xbb),
+  name: 'hello world'
+};
+
+function getSize(rec) {
+  return 4 + 4 + 8 + 32
+    + bio.encoding.sizeVarBytes(rec.script)
+    + bio.encoding.sizeVarString(rec.name, 'ascii');
+}
+
+function write(bw, rec) {
+  bw.writeU32(rec.version);
+  bw.writeU32(rec.time);
+  bw.writeU64(rec.value);
+  bw.writeHash(rec.hash);
+  bw.writeVarBytes(rec.script);
+  bw.writeVarString(rec.name, 'ascii');
+  return bw.render();
+}
+
+function bench(name, create) {
+  const start = process.hrtime();
+
+  let total = 0;
+
+  for (let i = 0; i < ITERATIONS; i++)
+    total += write(create(record), record).length;
+
+  const [sec, ns] = process.hrtime(start);
+  const ms = sec * 1000 + ns / 1e6;
+  const rate = (ITERATIONS / (ms / 1000)) | 0;
+
+  console.log('%s: %d ops in %dms (%d ops/sec, %d bytes)',
+    name, ITERATIONS, ms.toFixed(2), rate, total);
+}
+
+bench('BufferWriter', () => new bio.BufferWriter());
+bench('GrowableWriter', () => new bio.GrowableWriter());
+bench('GrowableWriter (presized)', rec => new bio.GrowableWriter(getSize(rec)));
+bench('StaticWriter', rec => new bio.StaticWriter(getSize(rec)));
@@ -0,0 +1,889 @@
+/*!
+ * asn1.js - asn.1 der encoding for bufio
+ * Copyright (c) 2018, Andrew Sun (MIT License).
+ * https://github.com/as-com/bufio
+ */
+
+'use strict';
+
+import * as bytes from "./bytes";
+import * as encoding from "./encoding";
+import EncodingError, {LimitError, NonCanonicalError, OutOfBoundsError} from "./error";
+import BufferReader from "./reader";
+import BufferWriter, {IWriter} from "./writer";
+
+/*
+ * Constants
+ */
+
+/**
+ * Tag classes.
+ * @enum {Number}
+ */
+
+export const classes = {
+	UNIVERSAL: 0,
+	APPLICATION: 1,
+	CONTEXT: 2,
+	PRIVATE: 3
+};
+
+/**
+ * Universal tags.
+ * @enum {Number}
+ */
+
+export const types = {
+	BOOLEAN: 1,
+	INTEGER: 2,
+	BITSTRING: 3,
+	OCTSTRING: 4,
+	NULL: 5,
+	OID: 6,
+	ENUM: 10,
+	UTF8STRING: 12,
+	SEQUENCE: 16,
+	SET: 17,
+	NUMSTRING: 18,
+	PRINTSTRING: 19,
+	T61STRING: 20,
+	IA5STRING: 22,
+	UTCTIME: 23,
+	GENTIME: 24
+};
+
+const UTC_TIME = /^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})Z$/;
+const GEN_TIME = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(?:\.(\d*[1-9]))?Z$/;
+
+/**
+ * Element header.
+ */
+
+export class Header {
+	cls: number;
+	constructed: boolean;
+	tag: number;
+	size: number;
+
+	constructor(cls: number, constructed: boolean, tag: number, size: number) {
+		this.cls = cls;
+		this.constructed = constructed;
+		this.tag = tag;
+		this.size = size;
+	}
+}
+
+/**
+ * Bit string contents.
+ */
+
+export class BitString {
+	data: Uint8Array;
+	unused: number;
+
+	constructor(data: Uint8Array, unused: number) {
+		this.data = data;
+		this.unused = unused;
+	}
+}
+
+/*
+ * Headers
+ */
+
+/**
+ * Read an element header, leaving the reader
+ * positioned at the start of its contents.
+ * @param {BufferReader} br
+ * @returns {Header}
+ */
+
+export function readHeader(br: BufferReader) {
+	const off = br.offset;
+	const id = br.readU8();
+	const cls = id >>> 6;
+	const constructed = (id & 0x20) !== 0;
+
+	let tag = id & 0x1f;
+
+	if (tag === 0x1f) {
+		tag = 0;
+
+		for (let i = 0; ; i++) {
+			const ch = br.readU8();
+
+			if (i === 0 && ch === 0x80)
+				throw new NonCanonicalError(off, 'Non-minimal tag');
+
+			if (i === 4)
+				throw new LimitError(off, 'Tag exceeds limit');
+
+			tag = tag * 0x80 + (ch & 0x7f);
+
+			if ((ch & 0x80) === 0)
+				break;
+		}
+
+		if (tag < 0x1f)
+			throw new NonCanonicalError(off, 'Non-minimal tag');
+	}
+
+	return new Header(cls, constructed, tag, readLength(br, off));
+}
+
+/**
+ * Read an element header without advancing.
+ * @param {BufferReader} br
+ * @returns {Header}
+ */
+
+export function peekHeader(br: BufferReader) {
+	const off = br.offset;
+
+	try {
+		return readHeader(br);
+	} finally {
+		br.offset = off;
+	}
+}
+
+/**
+ * Write an element header.
+ * @param {IWriter} bw
+ * @param {Number} tag
+ * @param {Boolean} constructed
+ * @param {Number} size - Contents size.
+ * @param {Number?} cls - Tag class (default: universal).
+ */
+
+export function writeHeader(bw: IWriter, tag: number, constructed: boolean,
+                            size: number, cls = classes.UNIVERSAL) {
+	const id = (cls << 6) | (constructed ? 0x20 : 0);
+
+	if (tag < 0x1f) {
+		bw.writeU8(id | tag);
+	} else {
+		bw.writeU8(id | 0x1f);
+
+		const len = sizeBase128(tag);
+
+		for (let i = len - 1; i >= 0; i--) {
+			const ch = Math.floor(tag / 2 ** (i * 7)) & 0x7f;
+			bw.writeU8(i > 0 ? ch | 0x80 : ch);
+		}
+	}
+
+	if (size < 0x80) {
+		bw.writeU8(size);
+		return bw;
+	}
+
+	const len = encoding.sizeUIntBE(size);
+
+	bw.writeU8(0x80 | len);
+
+	for (let i = len - 1; i >= 0; i--)
+		bw.writeU8(Math.floor(size / 2 ** (i * 8)) & 0xff);
+
+	return bw;
+}
+
+/**
+ * Calculate size of an element header.
+ * @param {Number} tag
+ * @param {Number} size - Contents size.
+ * @returns {Number}
+ */
+
+export function sizeHeader(tag: number, size: number) {
+	let total = tag < 0x1f ? 1 : 1 + sizeBase128(tag);
+
+	total += 1;
+
+	if (size >= 0x80)
+		total += encoding.sizeUIntBE(size);
+
+	return total;
+}
+
+/**
+ * Read an element header and check its tag.
+ * @param {BufferReader} br
+ * @param {Number} tag
+ * @param {Boolean} constructed
+ * @param {Number?} cls - Tag class (default: universal).
+ * @returns {Number} Contents size.
+ */
+
+export function expect(br: BufferReader, tag: number, constructed: boolean,
+                       cls = classes.UNIVERSAL) {
+	const off = br.offset;
+	const hdr = readHeader(br);
+
+	if (hdr.cls !== cls || hdr.tag !== tag || hdr.constructed !== constructed)
+		throw new EncodingError(off, 'Unexpected tag');
+
+	return hdr.size;
+}
+
+/*
+ * Constructed
+ */
+
+/**
+ * Read a SEQUENCE as a child reader.
+ * @param {BufferReader} br
+ * @returns {BufferReader}
+ */
+
+export function readSequence(br: BufferReader) {
+	return br.readChild(expect(br, types.SEQUENCE, true));
+}
+
+/**
+ * Read a SET as a child reader. The elements
+ * must be sorted by their encodings, as DER
+ * requires for SET OF.
+ * @param {BufferReader} br
+ * @returns {BufferReader}
+ */
+
+export function readSet(br: BufferReader) {
+	const child = br.readChild(expect(br, types.SET, true));
+	const start = child.offset;
+
+	let prev = null;
+
+	while (child.left() > 0) {
+		const off = child.offset;
+		const item = readElement(child);
+
+		if (prev && bytes.compare(prev, item) > 0)
+			throw new NonCanonicalError(off, 'Unsorted set');
+
+		prev = item;
+	}
+
+	child.offset = start;
+
+	return child;
+}
+
+/**
+ * Read an explicitly tagged, context-specific
+ * element as a child reader.
+ * @param {BufferReader} br
+ * @param {Number} tag
+ * @returns {BufferReader}
+ */
+
+export function readExplicit(br: BufferReader, tag: number) {
+	return br.readChild(expect(br, tag, true, classes.CONTEXT));
+}
+
+/**
+ * Write a constructed element. The contents are
+ * rendered once to compute the length and then
+ * copied to the destination writer.
+ * @param {IWriter} bw
+ * @param {Number} tag
+ * @param {Function} func - Called with the writer.
+ * @param {Number?} cls - Tag class (default: universal).
+ */
+
+export function writeConstructed(bw: IWriter, tag: number,
+                                 func: (bw: IWriter) => void,
+                                 cls = classes.UNIVERSAL) {
+	const contents = new BufferWriter();
+
+	func(contents);
+
+	const data = contents.render();
+
+	writeHeader(bw, tag, true, data.length, cls);
+	bw.writeBytes(data);
+
+	return bw;
+}
+
+/**
+ * Write a SEQUENCE.
+ * @param {IWriter} bw
+ * @param {Function} func - Called with the writer.
+ */
+
+export function writeSequence(bw: IWriter, func: (bw: IWriter) => void) {
+	return writeConstructed(bw, types.SEQUENCE, func);
+}
+
+/**
+ * Write a SET. The elements written by `func`
+ * are sorted by their encodings, as DER requires
+ * for SET OF.
+ * @param {IWriter} bw
+ * @param {Function} func - Called with the writer.
+ */
+
+export function writeSet(bw: IWriter, func: (bw: IWriter) => void) {
+	const contents = new BufferWriter();
+
+	func(contents);
+
+	const data = contents.render();
+	const br = new BufferReader(data, true);
+	const items = [];
+
+	while (br.left() > 0)
+		items.push(readElement(br));
+
+	items.sort(bytes.compare);
+
+	writeHeader(bw, types.SET, true, data.length);
+
+	for (const item of items)
+		bw.writeBytes(item);
+
+	return bw;
+}
+
+/**
+ * Write an explicitly tagged, context-specific element.
+ * @param {IWriter} bw
+ * @param {Number} tag
+ * @param {Function} func - Called with the writer.
+ */
+
+export function writeExplicit(bw: IWriter, tag: number,
+                              func: (bw: IWriter) => void) {
+	return writeConstructed(bw, tag, func, classes.CONTEXT);
+}
+
+/*
+ * Primitives
+ */
+
+/**
+ * Read a BOOLEAN.
+ * @param {BufferReader} br
+ * @returns {Boolean}
+ */
+
+export function readBoolean(br: BufferReader) {
+	const off = br.offset;
+	const size = expect(br, types.BOOLEAN, false);
+
+	if (size !== 1)
+		throw new EncodingError(off, 'Invalid boolean');
+
+	const value = br.readU8();
+
+	if (value !== 0x00 && value !== 0xff)
+		throw new NonCanonicalError(off, 'Non-canonical boolean');
+
+	return value === 0xff;
+}
+
+/**
+ * Write a BOOLEAN.
+ * @param {IWriter} bw
+ * @param {Boolean} value
+ */
+
+export function writeBoolean(bw: IWriter, value: boolean) {
+	writeHeader(bw, types.BOOLEAN, false, 1);
+	bw.writeU8(value ? 0xff : 0x00);
+	return bw;
+}
+
+/**
+ * Read an INTEGER.
+ * @param {BufferReader} br
+ * @returns {BigInt}
+ */
+
+export function readInteger(br: BufferReader) {
+	const off = br.offset;
+	const size = expect(br, types.INTEGER, false);
+	return readInt(br, size, off);
+}
+
+/**
+ * Write an INTEGER.
+ * @param {IWriter} bw
+ * @param {BigInt|Number} num
+ */
+
+export function writeInteger(bw: IWriter, num: bigint | number) {
+	const data = intToBytes(num, bw.getSize());
+	writeHeader(bw, types.INTEGER, false, data.length);
+	bw.writeBytes(data);
+	return bw;
+}
+
+/**
+ * Read an ENUMERATED.
+ * @param {BufferReader} br
+ * @returns {BigInt}
+ */
+
+export function readEnum(br: BufferReader) {
+	const off = br.offset;
+	const size = expect(br, types.ENUM, false);
+	return readInt(br, size, off);
+}
+
+/**
+ * Write an ENUMERATED.
+ * @param {IWriter} bw
+ * @param {BigInt|Number} num
+ */
+
+export function writeEnum(bw: IWriter, num: bigint | number) {
+	const data = intToBytes(num, bw.getSize());
+	writeHeader(bw, types.ENUM, false, data.length);
+	bw.writeBytes(data);
+	return bw;
+}
+
+/**
+ * Read a BIT STRING.
+ * @param {BufferReader} br
+ * @returns {BitString}
+ */
+
+export function readBitString(br: BufferReader) {
+	const off = br.offset;
+	const size = expect(br, types.BITSTRING, false);
+
+	if (size === 0)
+		throw new EncodingError(off, 'Invalid bit string');
+
+	const unused = br.readU8();
+	const data = br.readBytes(size - 1);
+
+	if (unused > 7 || (data.length === 0 && unused !== 0))
+		throw new EncodingError(off, 'Invalid bit string');
+
+	if (data.length > 0 && (data[data.length - 1] & ((1 << unused) - 1)) !== 0)
+		throw new NonCanonicalError(off, 'Non-zero padding bits');
+
+	return new BitString(data, unused);
+}
+
+/**
+ * Write a BIT STRING.
+ * @param {IWriter} bw
+ * @param {Uint8Array} data
+ * @param {Number?} unused - Unused bits in the last byte.
+ */
+
+export function writeBitString(bw: IWriter, data: Uint8Array, unused = 0) {
+	writeHeader(bw, types.BITSTRING, false, data.length + 1);
+	bw.writeU8(unused);
+	bw.writeBytes(data);
+	return bw;
+}
+
+/**
+ * Read an OCTET STRING.
+ * @param {BufferReader} br
+ * @param {Boolean?} zeroCopy
+ * @returns {Buffer}
+ */
+
+export function readOctetString(br: BufferReader, zeroCopy?: boolean) {
+	return br.readBytes(expect(br, types.OCTSTRING, false), zeroCopy);
+}
+
+/**
+ * Write an OCTET STRING.
+ * @param {IWriter} bw
+ * @param {Uint8Array} data
+ */
+
+export function writeOctetString(bw: IWriter, data: Uint8Array) {
+	writeHeader(bw, types.OCTSTRING, false, data.length);
+	bw.writeBytes(data);
+	return bw;
+}
+
+/**
+ * Read a NULL.
+ * @param {BufferReader} br
+ * @returns {null}
+ */
+
+export function readNull(br: BufferReader) {
+	const off = br.offset;
+
+	if (expect(br, types.NULL, false) !== 0)
+		throw new EncodingError(off, 'Invalid null');
+
+	return null;
+}
+
+/**
+ * Write a NULL.
+ * @param {IWriter} bw
+ */
+
+export function writeNull(bw: IWriter) {
+	return writeHeader(bw, types.NULL, false, 0);
+}
+
+/**
+ * Read an OBJECT IDENTIFIER as a dotted string.
+ * @param {BufferReader} br
+ * @returns {String}
+ */
+
+export function readOID(br: BufferReader) {
+	const off = br.offset;
+	const data = br.readBytes(expect(br, types.OID, false), true);
+
+	if (data.length === 0 || (data[data.length - 1] & 0x80))
+		throw new EncodingError(off, 'Invalid OID');
+
+	const arcs = [];
+
+	let arc = 0n;
+	let start = true;
+
+	for (const ch of data) {
+		if (start && ch === 0x80)
+			throw new NonCanonicalError(off, 'Non-minimal OID arc');
+
+		arc = (arc << 7n) | BigInt(ch & 0x7f);
+		start = (ch & 0x80) === 0;
+
+		if (!start)
+			continue;
+
+		if (arcs.length === 0) {
+			const first = arc < 80n ? arc / 40n : 2n;
+			arcs.push(first, arc - first * 40n);
+		} else {
+			arcs.push(arc);
+		}
+
+		arc = 0n;
+	}
+
+	return arcs.join('.');
+}
+
+/**
+ * Write an OBJECT IDENTIFIER.
+ * @param {IWriter} bw
+ * @param {String} oid - Dotted string.
+ */
+
+export function writeOID(bw: IWriter, oid: string) {
+	const data = oidToBytes(oid, bw.getSize());
+	writeHeader(bw, types.OID, false, data.length);
+	bw.writeBytes(data);
+	return bw;
+}
+
+/**
+ * Read a character string of any of the
+ * universal string types.
+ * @param {BufferReader} br
+ * @returns {String}
+ */
+
+export function readString(br: BufferReader) {
+	const off = br.offset;
+	const hdr = readHeader(br);
+
+	if (hdr.cls !== classes.UNIVERSAL || hdr.constructed)
+		throw new EncodingError(off, 'Unexpected tag');
+
+	switch (hdr.tag) {
+		case types.UTF8STRING:
+			return br.readString('utf8', hdr.size);
+		case types.NUMSTRING:
+		case types.PRINTSTRING:
+		case types.T61STRING:
+		case types.IA5STRING:
+			return br.readString('latin1', hdr.size);
+	}
+
+	throw new EncodingError(off, 'Unexpected tag');
+}
+
+/**
+ * Write a character string.
+ * @param {IWriter} bw
+ * @param {String} str
+ * @param {Number?} tag - String type (default: UTF8String).
+ */
+
+export function writeString(bw: IWriter, str: string, tag = types.UTF8STRING) {
+	const enc = tag === types.UTF8STRING ? 'utf8' : 'latin1';
+	writeHeader(bw, tag, false, bytes.byteLength(str, enc));
+	bw.writeString(str, enc);
+	return bw;
+}
+
+/*
+ * Time
+ */
+
+/**
+ * Read a UTCTime or GeneralizedTime.
+ * @param {BufferReader} br
+ * @returns {Date}
+ */
+
+export function readTime(br: BufferReader) {
+	const hdr = peekHeader(br);
+
+	if (hdr.tag === types.UTCTIME)
+		return readUTCTime(br);
+
+	return readGeneralizedTime(br);
+}
+
+/**
+ * Read a UTCTime. Two digit years below
+ * 50 are in the 21st century.
+ * @param {BufferReader} br
+ * @returns {Date}
+ */
+
+export function readUTCTime(br: BufferReader) {
+	const off = br.offset;
+	const size = expect(br, types.UTCTIME, false);
+	const m = UTC_TIME.exec(br.readString('latin1', size));
+
+	if (!m)
+		throw new EncodingError(off, 'Invalid time');
+
+	const year = Number(m[1]);
+
+	return toDate(year < 50 ? 2000 + year : 1900 + year, m, 0, off);
+}
+
+/**
+ * Write a UTCTime.
+ * @param {IWriter} bw
+ * @param {Date} date - Between 1950 and 2049.
+ */
+
+export function writeUTCTime(bw: IWriter, date: Date) {
+	const year = date.getUTCFullYear();
+
+	if (year < 1950 || year > 2049)
+		throw new EncodingError(bw.getSize(), 'Invalid time');
+
+	const str = pad(year % 100, 2) + formatTime(date) + 'Z';
+
+	writeHeader(bw, types.UTCTIME, false, str.length);
+	bw.writeString(str, 'latin1');
+
+	return bw;
+}
+
+/**
+ * Read a GeneralizedTime.
+ * @param {BufferReader} br
+ * @returns {Date}
+ */
+
+export function readGeneralizedTime(br: BufferReader) {
+	const off = br.offset;
+	const size = expect(br, types.GENTIME, false);
+	const m = GEN_TIME.exec(br.readString('latin1', size));
+
+	if (!m)
+		throw new EncodingError(off, 'Invalid time');
+
+	const ms = m[7] ? Number((m[7] + '00').slice(0, 3)) : 0;
+
+	return toDate(Number(m[1]), m, ms, off);
+}
+
+/**
+ * Write a GeneralizedTime.
+ * @param {IWriter} bw
+ * @param {Date} date
+ */
+
+export function writeGeneralizedTime(bw: IWriter, date: Date) {
+	const year = date.getUTCFullYear();
+
+	if (year < 0 || year > 9999)
+		throw new EncodingError(bw.getSize(), 'Invalid time');
+
+	let str = pad(year, 4) + formatTime(date);
+
+	const ms = date.getUTCMilliseconds();
+
+	if (ms > 0)
+		str += '.' + pad(ms, 3).replace(/0+$/, '');
+
+	str += 'Z';
+
+	writeHeader(bw, types.GENTIME, false, str.length);
+	bw.writeString(str, 'latin1');
+
+	return bw;
+}
+
+/*
+ * Helpers
+ */
+
+function readLength(br: BufferReader, off: number) {
+	const ch = br.readU8();
+
+	let size = ch;
+
+	if (ch === 0x80)
+		throw new NonCanonicalError(off, 'Indefinite length');
+
+	if (ch > 0x80) {
+		const len = ch & 0x7f;
+
+		if (len > 6)
+			throw new LimitError(off, 'Length exceeds limit');
+
+		size = 0;
+
+		for (let i = 0; i < len; i++)
+			size = size * 0x100 + br.readU8();
+
+		if (size < 0x80 || size < 2 ** ((len - 1) * 8))
+			throw new NonCanonicalError(off, 'Non-minimal length');
+	}
+
+	if (size > br.left())
+		throw new OutOfBoundsError(off);
+
+	return size;
+}
+
+function readInt(br: BufferReader, size: number, off: number) {
+	const data = br.readBytes(size, true);
+
+	if (data.length === 0)
+		throw new EncodingError(off, 'Invalid integer');
+
+	if (data.length > 1) {
+		if ((data[0] === 0x00 && (data[1] & 0x80) === 0)
+			|| (data[0] === 0xff && (data[1] & 0x80) !== 0)) {
+			throw new NonCanonicalError(off, 'Non-minimal integer');
+		}
+	}
+
+	const num = BigInt('0x' + bytes.toString(data, 'hex'));
+
+	return BigInt.asIntN(data.length * 8, num);
+}
+
+function intToBytes(num: bigint | number, off: number) {
+	if (typeof num === 'number') {
+		if (!Number.isSafeInteger(num))
+			throw new EncodingError(off, 'Invalid integer');
+		num = BigInt(num);
+	}
+
+	let len = 1;
+
+	while (num < -(1n << BigInt(len * 8 - 1)) || num >= (1n << BigInt(len * 8 - 1)))
+		len += 1;
+
+	const hex = BigInt.asUintN(len * 8, num).toString(16);
+
+	return bytes.fromString(hex.padStart(len * 2, '0'), 'hex');
+}
+
+function oidToBytes(oid: string, off: number) {
+	const parts = oid.split('.');
+
+	if (parts.length < 2 || !parts.every(part => /^(0|[1-9]\d*)$/.test(part)))
+		throw new EncodingError(off, 'Invalid OID');
+
+	const arcs = parts.map(BigInt);
+
+	if (arcs[0] > 2n || (arcs[0] < 2n && arcs[1] >= 40n))
+		throw new EncodingError(off, 'Invalid OID');
+
+	arcs.splice(0, 2, arcs[0] * 40n + arcs[1]);
+
+	const out = [];
+
+	for (let arc of arcs) {
+		const chunk = [Number(arc & 0x7fn)];
+
+		arc >>= 7n;
+
+		while (arc > 0n) {
+			chunk.unshift(Number(arc & 0x7fn) | 0x80);
+			arc >>= 7n;
+		}
+
+		out.push(...chunk);
+	}
+
+	const data = bytes.alloc(out.length);
+	data.set(out, 0);
+
+	return data;
+}
+
+function toDate(year: number, m: string[], ms: number, off: number) {
+	const month = Number(m[2]);
+	const day = Number(m[3]);
+	const hour = Number(m[4]);
+	const min = Number(m[5]);
+	const sec = Number(m[6]);
+
+	const date = new Date(Date.UTC(year, month - 1, day, hour, min, sec, ms));
+
+	// Date.UTC treats years 0-99 as 1900-1999.
+	date.setUTCFullYear(year);
+
+	if (date.getUTCMonth() !== month - 1
+		|| date.getUTCDate() !== day
+		|| date.getUTCHours() !== hour
+		|| date.getUTCMinutes() !== min
+		|| date.getUTCSeconds() !== sec) {
+		throw new EncodingError(off, 'Invalid time');
+	}
+
+	return date;
+}
+
+function formatTime(date: Date) {
+	return pad(date.getUTCMonth() + 1, 2)
+		+ pad(date.getUTCDate(), 2)
+		+ pad(date.getUTCHours(), 2)
+		+ pad(date.getUTCMinutes(), 2)
+		+ pad(date.getUTCSeconds(), 2);
+}
+
+function pad(num: number | string, size: number) {
+	return String(num).padStart(size, '0');
+}
+
+function readElement(br: BufferReader) {
+	const off = br.offset;
+	const hdr = readHeader(br);
+
+	br.seek(hdr.size);
+
+	return bytes.slice(br.data, off, br.offset);
+}
+
+function sizeBase128(num: number) {
+	let len = 1;
+
+	while (num >= 0x80) {
+		num = Math.floor(num / 0x80);
+		len += 1;
+	}
+
+	return len;
+}
@@ -0,0 +1,808 @@
+/*!
+ * asyncreader.js - async buffer reader for bufio
+ * Copyright (c) 2018, Andrew Sun (MIT License).
+ * https://github.com/as-com/bufio
+ */
+
+'use strict';
+
+import * as assert from "assert";
+import {Readable} from "stream";
+import * as bytes from "./bytes";
+import * as encoding from "./encoding";
+import EncodingError, {LimitError, OutOfBoundsError} from "./error";
+import {U64} from "n64";
+
+/*
+ * Constants
+ */
+
+const EMPTY = bytes.alloc(0);
+const MAX_SIZE = 8 << 20;
+
+/**
+ * Async Buffer Reader
+ */
+
+export default class AsyncBufferReader {
+	iter: AsyncIterator<Uint8Array>;
+	data: Buffer;
+	view: DataView;
+	pos: number;
+	chunks: Uint8Array[];
+	pending: number;
+	offset: number;
+	maxSize: number;
+	zeroCopy: boolean;
+	stack: number[];
+
+	/**
+	 * Create an async buffer reader.
+	 * @constructor
+	 * @param {Readable|AsyncIterable} source - Stream or
+	 * async iterable yielding buffers.
+	 * @param {Number?} maxSize - Maximum number of bytes to
+	 * hold in the internal buffer for a single read.
+	 * @param {Boolean?} zeroCopy - Do not reallocate buffers when
+	 * slicing. Note that this can lead to memory leaks if not used
+	 * carefully.
+	 */
+
+	constructor(source: Readable | AsyncIterable<Uint8Array>, maxSize?: number, zeroCopy?: boolean) {
+		const iterable = source as AsyncIterable<Uint8Array>;
+
+		assert(iterable && typeof iterable[Symbol.asyncIterator] === 'function',
+			'Must pass a readable stream or async iterable.');
+		assert(maxSize == null || (maxSize >>> 0) === maxSize);
+
+		this.iter = iterable[Symbol.asyncIterator]();
+		this.data = EMPTY;
+		this.view = bytes.view(EMPTY);
+		this.pos = 0;
+		this.chunks = [];
+		this.pending = 0;
+		this.offset = 0;
+		this.maxSize = maxSize != null ? maxSize : MAX_SIZE;
+		this.zeroCopy = zeroCopy || false;
+		this.stack = [];
+	}
+
+	/**
+	 * Assertion.
+	 * @param {Boolean} value
+	 */
+
+	assert(value: boolean) {
+		if (!value)
+			throw new OutOfBoundsError(this.offset, 'Out of bounds read', this.assert);
+	}
+
+	/**
+	 * Assertion.
+	 * @param {Boolean} value
+	 * @param {String} reason
+	 */
+
+	enforce(value: boolean, reason: string) {
+		if (!value)
+			throw new EncodingError(this.offset, reason, this.enforce);
+	}
+
+	/**
+	 * Calculate number of bytes currently buffered.
+	 * @returns {Number}
+	 */
+
+	buffered() {
+		return this.data.length - this.pos + this.pending;
+	}
+
+	/**
+	 * Pull the next chunk from the source. Chunks
+	 * are queued until a read needs them.
+	 * @private
+	 * @returns {Promise<Boolean>} False on end of stream.
+	 */
+
+	async pull() {
+		const {done, value} = await this.iter.next();
+
+		if (done)
+			return false;
+
+		assert(value instanceof Uint8Array, 'Source must yield buffers.');
+
+		if (value.length > 0) {
+			this.chunks.push(value);
+			this.pending += value.length;
+		}
+
+		return true;
+	}
+
+	/**
+	 * Merge queued chunks into the current buffer.
+	 * @private
+	 */
+
+	merge() {
+		if (this.pos === this.data.length && this.chunks.length === 1)
+			this.data = bytes.wrap(this.chunks[0]);
+		else
+			this.data = bytes.concat([this.data.subarray(this.pos), ...this.chunks]);
+
+		this.view = bytes.view(this.data);
+		this.pos = 0;
+		this.chunks = [];
+		this.pending = 0;
+	}
+
+	/**
+	 * Wait until at least `size` bytes are buffered.
+	 * @param {Number} size
+	 * @returns {Promise}
+	 * @throws on end of stream or when `size` exceeds the limit.
+	 */
+
+	async ensure(size: number) {
+		if (size > this.maxSize)
+			throw new LimitError(this.offset, 'Read exceeds buffer limit');
+
+		while (this.buffered() < size)
+			this.assert(await this.pull());
+
+		if (this.data.length - this.pos < size)
+			this.merge();
+	}
+
+	/**
+	 * Skip a number of bytes.
+	 * @param {Number} off - Offset (positive only).
+	 * @returns {Promise<AsyncBufferReader>}
+	 */
+
+	async seek(off: number) {
+		assert(off >= 0);
+
+		while (off > 0) {
+			if (this.pos === this.data.length)
+				await this.ensure(1);
+
+			const size = Math.min(off, this.data.length - this.pos);
+
+			this.pos += size;
+			this.offset += size;
+
+			off -= size;
+		}
+
+		return this;
+	}
+
+	/**
+	 * Mark the current starting position.
+	 */
+
+	start() {
+		this.stack.push(this.offset);
+		return this.offset;
+	}
+
+	/**
+	 * Stop reading. Pop the start position off the stack
+	 * and calculate the size of the data read.
+	 * @returns {Number} Size.
+	 * @throws on empty stack.
+	 */
+
+	end() {
+		assert(this.stack.length > 0);
+
+		const start = this.stack.pop();
+
+		return this.offset - start;
+	}
+
+	/**
+	 * Destroy the reader. Remove references to the data
+	 * and close the underlying source. Errors raised while
+	 * closing the source are ignored.
+	 */
+
+	destroy() {
+		if (this.iter.return)
+			Promise.resolve(this.iter.return()).catch(() => {});
+
+		this.data = EMPTY;
+		this.view = bytes.view(EMPTY);
+		this.pos = 0;
+		this.chunks = [];
+		this.pending = 0;
+		this.offset = 0;
+		this.stack.length = 0;
+
+		return this;
+	}
+
+	/**
+	 * Read uint8.
+	 * @returns {Promise<Number>}
+	 */
+
+	async readU8() {
+		await this.ensure(1);
+		const ret = this.data[this.pos];
+		this.pos += 1;
+		this.offset += 1;
+		return ret;
+	}
+
+	/**
+	 * Read uint16le.
+	 * @returns {Promise<Number>}
+	 */
+
+	async readU16() {
+		await this.ensure(2);
+		const ret = this.view.getUint16(this.pos, true);
+		this.pos += 2;
+		this.offset += 2;
+		return ret;
+	}
+
+	/**
+	 * Read uint16be.
+	 * @returns {Promise<Number>}
+	 */
+
+	async readU16BE() {
+		await this.ensure(2);
+		const ret = this.view.getUint16(this.pos, false);
+		this.pos += 2;
+		this.offset += 2;
+		return ret;
+	}
+
+	/**
+	 * Read uint32le.
+	 * @returns {Promise<Number>}
+	 */
+
+	async readU32() {
+		await this.ensure(4);
+		const ret = this.view.getUint32(this.pos, true);
+		this.pos += 4;
+		this.offset += 4;
+		return ret;
+	}
+
+	/**
+	 * Read uint32be.
+	 * @returns {Promise<Number>}
+	 */
+
+	async readU32BE() {
+		await this.ensure(4);
+		const ret = this.view.getUint32(this.pos, false);
+		this.pos += 4;
+		this.offset += 4;
+		return ret;
+	}
+
+	/**
+	 * Read uint64le as a js number.
+	 * @returns {Promise<Number>}
+	 */
+
+	async readU64() {
+		await this.ensure(8);
+		const ret = encoding.readU64(this.data, this.pos);
+		this.pos += 8;
+		this.offset += 8;
+		return ret;
+	}
+
+	/**
+	 * Read uint64be as a js number.
+	 * @returns {Promise<Number>}
+	 */
+
+	async readU64BE() {
+		await this.ensure(8);
+		const ret = encoding.readU64BE(this.data, this.pos);
+		this.pos += 8;
+		this.offset += 8;
+		return ret;
+	}
+
+	/**
+	 * Read int8.
+	 * @returns {Promise<Number>}
+	 */
+
+	async readI8() {
+		await this.ensure(1);
+		const ret = this.view.getInt8(this.pos);
+		this.pos += 1;
+		this.offset += 1;
+		return ret;
+	}
+
+	/**
+	 * Read int16le.
+	 * @returns {Promise<Number>}
+	 */
+
+	async readI16() {
+		await this.ensure(2);
+		const ret = this.view.getInt16(this.pos, true);
+		this.pos += 2;
+		this.offset += 2;
+		return ret;
+	}
+
+	/**
+	 * Read int16be.
+	 * @returns {Promise<Number>}
+	 */
+
+	async readI16BE() {
+		await this.ensure(2);
+		const ret = this.view.getInt16(this.pos, false);
+		this.pos += 2;
+		this.offset += 2;
+		return ret;
+	}
+
+	/**
+	 * Read int32le.
+	 * @returns {Promise<Number>}
+	 */
+
+	async readI32() {
+		await this.ensure(4);
+		const ret = this.view.getInt32(this.pos, true);
+		this.pos += 4;
+		this.offset += 4;
+		return ret;
+	}
+
+	/**
+	 * Read int32be.
+	 * @returns {Promise<Number>}
+	 */
+
+	async readI32BE() {
+		await this.ensure(4);
+		const ret = this.view.getInt32(this.pos, false);
+		this.pos += 4;
+		this.offset += 4;
+		return ret;
+	}
+
+	/**
+	 * Read int64le as a js number.
+	 * @returns {Promise<Number>}
+	 */
+
+	async readI64() {
+		await this.ensure(8);
+		const ret = encoding.readI64(this.data, this.pos);
+		this.pos += 8;
+		this.offset += 8;
+		return ret;
+	}
+
+	/**
+	 * Read int64be as a js number.
+	 * @returns {Promise<Number>}
+	 */
+
+	async readI64BE() {
+		await this.ensure(8);
+		const ret = encoding.readI64BE(this.data, this.pos);
+		this.pos += 8;
+		this.offset += 8;
+		return ret;
+	}
+
+	/**
+	 * Read uint64le.
+	 * @returns {Promise<U64>}
+	 */
+
+	async readU64N() {
+		await this.ensure(8);
+		const ret = encoding.readU64N(this.data, this.pos);
+		this.pos += 8;
+		this.offset += 8;
+		return ret;
+	}
+
+	/**
+	 * Read uint64be.
+	 * @returns {Promise<U64>}
+	 */
+
+	async readU64BEN() {
+		await this.ensure(8);
+		const ret = encoding.readU64BEN(this.data, this.pos);
+		this.pos += 8;
+		this.offset += 8;
+		return ret;
+	}
+
+	/**
+	 * Read int64le.
+	 * @returns {Promise<I64>}
+	 */
+
+	async readI64N() {
+		await this.ensure(8);
+		const ret = encoding.readI64N(this.data, this.pos);
+		this.pos += 8;
+		this.offset += 8;
+		return ret;
+	}
+
+	/**
+	 * Read int64be.
+	 * @returns {Promise<I64>}
+	 */
+
+	async readI64BEN() {
+		await this.ensure(8);
+		const ret = encoding.readI64BEN(this.data, this.pos);
+		this.pos += 8;
+		this.offset += 8;
+		return ret;
+	}
+
+	/**
+	 * Read uint64le as a bigint.
+	 * @returns {Promise<BigInt>}
+	 */
+
+	async readU64Big() {
+		await this.ensure(8);
+		const ret = encoding.readU64Big(this.data, this.pos);
+		this.pos += 8;
+		this.offset += 8;
+		return ret;
+	}
+
+	/**
+	 * Read uint64be as a bigint.
+	 * @returns {Promise<BigInt>}
+	 */
+
+	async readU64BEBig() {
+		await this.ensure(8);
+		const ret = encoding.readU64BEBig(this.data, this.pos);
+		this.pos += 8;
+		this.offset += 8;
+		return ret;
+	}
+
+	/**
+	 * Read int64le as a bigint.
+	 * @returns {Promise<BigInt>}
+	 */
+
+	async readI64Big() {
+		await this.ensure(8);
+		const ret = encoding.readI64Big(this.data, this.pos);
+		this.pos += 8;
+		this.offset += 8;
+		return ret;
+	}
+
+	/**
+	 * Read int64be as a bigint.
+	 * @returns {Promise<BigInt>}
+	 */
+
+	async readI64BEBig() {
+		await this.ensure(8);
+		const ret = encoding.readI64BEBig(this.data, this.pos);
+		this.pos += 8;
+		this.offset += 8;
+		return ret;
+	}
+
+	/**
+	 * Read float le.
+	 * @returns {Promise<Number>}
+	 */
+
+	async readFloat() {
+		await this.ensure(4);
+		const ret = this.view.getFloat32(this.pos, true);
+		this.pos += 4;
+		this.offset += 4;
+		return ret;
+	}
+
+	/**
+	 * Read float be.
+	 * @returns {Promise<Number>}
+	 */
+
+	async readFloatBE() {
+		await this.ensure(4);
+		const ret = this.view.getFloat32(this.pos, false);
+		this.pos += 4;
+		this.offset += 4;
+		return ret;
+	}
+
+	/**
+	 * Read double float le.
+	 * @returns {Promise<Number>}
+	 */
+
+	async readDouble() {
+		await this.ensure(8);
+		const ret = this.view.getFloat64(this.pos, true);
+		this.pos += 8;
+		this.offset += 8;
+		return ret;
+	}
+
+	/**
+	 * Read double float be.
+	 * @returns {Promise<Number>}
+	 */
+
+	async readDoubleBE() {
+		await this.ensure(8);
+		const ret = this.view.getFloat64(this.pos, false);
+		this.pos += 8;
+		this.offset += 8;
+		return ret;
+	}
+
+	/**
+	 * Wait until a full varint is buffered.
+	 * @private
+	 * @returns {Promise}
+	 */
+
+	async ensureVarint() {
+		await this.ensure(1);
+
+		switch (this.data[this.pos]) {
+			case 0xff:
+				await this.ensure(9);
+				break;
+			case 0xfe:
+				await this.ensure(5);
+				break;
+			case 0xfd:
+				await this.ensure(3);
+				break;
+		}
+	}
+
+	/**
+	 * Wait until a full varint (type 2) is buffered.
+	 * @private
+	 * @returns {Promise}
+	 */
+
+	async ensureVarint2() {
+		// A 64 bit varint (type 2) never exceeds 10 bytes.
+		for (let i = 1; i <= 10; i++) {
+			await this.ensure(i);
+
+			if ((this.data[this.pos + i - 1] & 0x80) === 0)
+				break;
+		}
+	}
+
+	/**
+	 * Read a varint.
+	 * @returns {Promise<Number>}
+	 */
+
+	async readVarint(): Promise<number> {
+		await this.ensureVarint();
+		const {size, value} = encoding.readVarint(this.data, this.pos);
+		this.pos += size;
+		this.offset += size;
+		return value as number;
+	}
+
+	/**
+	 * Read a varint.
+	 * @returns {Promise<U64>}
+	 */
+
+	async readVarintN(): Promise<U64> {
+		await this.ensureVarint();
+		const {size, value} = encoding.readVarintN(this.data, this.pos);
+		this.pos += size;
+		this.offset += size;
+		return value as U64;
+	}
+
+	/**
+	 * Read a varint.
+	 * @returns {Promise<BigInt>}
+	 */
+
+	async readVarintBig(): Promise<bigint> {
+		await this.ensureVarint();
+		const {size, value} = encoding.readVarintBig(this.data, this.pos);
+		this.pos += size;
+		this.offset += size;
+		return value as bigint;
+	}
+
+	/**
+	 * Read a varint (type 2).
+	 * @returns {Promise<Number>}
+	 */
+
+	async readVarint2(): Promise<number> {
+		await this.ensureVarint2();
+		const {size, value} = encoding.readVarint2(this.data, this.pos);
+		this.pos += size;
+		this.offset += size;
+		return value as number;
+	}
+
+	/**
+	 * Read a varint (type 2).
+	 * @returns {Promise<U64>}
+	 */
+
+	async readVarint2N(): Promise<U64> {
+		await this.ensureVarint2();
+		const {size, value} = encoding.readVarint2N(this.data, this.pos);
+		this.pos += size;
+		this.offset += size;
+		return value as U64;
+	}
+
+	/**
+	 * Read a varint (type 2).
+	 * @returns {Promise<BigInt>}
+	 */
+
+	async readVarint2Big(): Promise<bigint> {
+		await this.ensureVarint2();
+		const {size, value} = encoding.readVarint2Big(this.data, this.pos);
+		this.pos += size;
+		this.offset += size;
+		return value as bigint;
+	}
+
+	/**
+	 * Read N bytes (will do a fast slice if zero copy).
+	 * @param {Number} size
+	 * @param {Boolean?} zeroCopy - Do a fast buffer
+	 * slice instead of allocating a new buffer (warning:
+	 * may cause memory leaks if not used with care).
+	 * @returns {Promise<Buffer>}
+	 */
+
+	async readBytes(size: number, zeroCopy?: boolean): Promise<Buffer> {
+		this.assert(size >= 0);
+		await this.ensure(size);
+
+		let ret;
+		if (this.zeroCopy || zeroCopy) {
+			ret = bytes.slice(this.data, this.pos, this.pos + size);
+		} else {
+			ret = bytes.allocUnsafe(size);
+			bytes.copy(this.data, ret, 0, this.pos, this.pos + size);
+		}
+
+		this.pos += size;
+		this.offset += size;
+
+		return ret;
+	}
+
+	/**
+	 * Read a varint number of bytes (will do a fast slice if zero copy).
+	 * @param {Boolean?} zeroCopy - Do a fast buffer
+	 * slice instead of allocating a new buffer (warning:
+	 * may cause memory leaks if not used with care).
+	 * @returns {Promise<Buffer>}
+	 */
+
+	async readVarBytes(zeroCopy?: boolean): Promise<Buffer> {
+		return this.readBytes(await this.readVarint(), zeroCopy);
+	}
+
+	/**
+	 * Read a string.
+	 * @param {String} enc - Any buffer-supported encoding.
+	 * @param {Number} size
+	 * @returns {Promise<String>}
+	 */
+
+	async readString(enc: string, size: number) {
+		this.assert(size >= 0);
+		await this.ensure(size);
+		const ret = bytes.toString(this.data, enc, this.pos, this.pos + size);
+		this.pos += size;
+		this.offset += size;
+		return ret;
+	}
+
+	/**
+	 * Read a 32-byte hash.
+	 * @param {String} enc - `"hex"` or `null`.
+	 * @returns {Promise<Hash|Buffer>}
+	 */
+
+	async readHash(enc: string) {
+		if (enc)
+			return this.readString(enc, 32);
+		return this.readBytes(32);
+	}
+
+	/**
+	 * Read string of a varint length.
+	 * @param {String} enc - Any buffer-supported encoding.
+	 * @param {Number?} limit - Size limit.
+	 * @returns {Promise<String>}
+	 */
+
+	async readVarString(enc: string, limit?: number) {
+		const size = await this.readVarint();
+		if (limit && size > limit)
+			throw new LimitError(this.offset, 'String exceeds limit.');
+		return this.readString(enc, size);
+	}
+
+	/**
+	 * Read a null-terminated string.
+	 * @param {String} enc - Any buffer-supported encoding.
+	 * @returns {Promise<String>}
+	 */
+
+	async readNullString(enc: string) {
+		const end = this.data.indexOf(0, this.pos);
+
+		let size = end - this.pos;
+
+		if (end === -1) {
+			// Scan queued chunks for the terminator
+			// so that they are only merged once.
+			size = this.data.length - this.pos;
+
+			for (let i = 0; ;) {
+				if (size >= this.maxSize)
+					throw new LimitError(this.offset, 'Read exceeds buffer limit');
+
+				if (i === this.chunks.length) {
+					this.assert(await this.pull());
+					continue;
+				}
+
+				const chunk = this.chunks[i++];
+				const j = chunk.indexOf(0);
+
+				if (j !== -1) {
+					size += j;
+					break;
+				}
+
+				size += chunk.length;
+			}
+		}
+
+		await this.ensure(size + 1);
+
+		const ret = await this.readString(enc, size);
+
+		this.pos += 1;
+		this.offset += 1;
+
+		return ret;
+	}
+}
@@ -0,0 +1,436 @@
+/*!
+ * bencode.js - bencoding for bufio
+ * Copyright (c) 2018, Andrew Sun (MIT License).
+ * https://github.com/as-com/bufio
+ */
+
+'use strict';
+
+import * as bytes from "./bytes";
+import EncodingError, {LimitError, NonCanonicalError, OutOfBoundsError, TrailingDataError} from "./error";
+import BufferReader from "./reader";
+import SizeWriter from "./sizewriter";
+import StaticWriter from "./staticwriter";
+import {IWriter} from "./writer";
+
+/*
+ * Constants
+ */
+
+const MAX_DEPTH = 64;
+const MAX_SAFE = BigInt(Number.MAX_SAFE_INTEGER);
+
+const INT = 0x69; // i
+const LIST = 0x6c; // l
+const DICT = 0x64; // d
+const END = 0x65; // e
+const COLON = 0x3a; // :
+const MINUS = 0x2d; // -
+const ZERO = 0x30; // 0
+const NINE = 0x39; // 9
+
+export interface DecodeOptions {
+	zeroCopy?: boolean;
+	strict?: boolean;
+	maxDepth?: number;
+}
+
+/**
+ * Decoder
+ */
+
+class Decoder {
+	br: BufferReader;
+	zeroCopy: boolean;
+	strict: boolean;
+	maxDepth: number;
+	depth: number;
+
+	constructor(br: BufferReader, options: DecodeOptions) {
+		this.br = br;
+		this.zeroCopy = options.zeroCopy || false;
+		this.strict = options.strict != null ? options.strict : true;
+		this.maxDepth = options.maxDepth != null ? options.maxDepth : MAX_DEPTH;
+		this.depth = 0;
+	}
+
+	enter(off: number) {
+		this.depth += 1;
+
+		if (this.depth > this.maxDepth)
+			throw new LimitError(off, 'Depth exceeds limit');
+	}
+
+	peek() {
+		const ch = this.br.readU8();
+		this.br.seek(-1);
+		return ch;
+	}
+
+	readItem(skip: boolean): any {
+		const off = this.br.offset;
+		const ch = this.peek();
+
+		switch (ch) {
+			case INT:
+				return this.readInt();
+			case LIST:
+				return this.readList(skip);
+			case DICT:
+				return this.readDict(skip);
+		}
+
+		if (ch >= ZERO && ch <= NINE)
+			return this.readBytes(skip);
+
+		throw new EncodingError(off, 'Invalid type');
+	}
+
+	readDigits(end: number) {
+		const off = this.br.offset;
+
+		let str = '';
+
+		for (;;) {
+			const ch = this.br.readU8();
+
+			if (ch === end)
+				break;
+
+			if ((ch < ZERO || ch > NINE) && !(ch === MINUS && str.length === 0))
+				throw new EncodingError(off, 'Invalid integer');
+
+			str += String.fromCharCode(ch);
+		}
+
+		if (str === '' || str === '-')
+			throw new EncodingError(off, 'Invalid integer');
+
+		if (str === '-0' || /^-?0\d/.test(str))
+			throw new NonCanonicalError(off, 'Non-canonical integer');
+
+		return str;
+	}
+
+	readInt() {
+		this.br.seek(1);
+
+		const str = this.readDigits(END);
+
+		if (str.length < 16)
+			return Number(str);
+
+		const num = BigInt(str);
+
+		if (num >= -MAX_SAFE && num <= MAX_SAFE)
+			return Number(num);
+
+		return num;
+	}
+
+	readBytes(skip: boolean): Buffer {
+		const off = this.br.offset;
+		const str = this.readDigits(COLON);
+
+		if (str[0] === '-')
+			throw new EncodingError(off, 'Invalid length');
+
+		const size = Number(str);
+
+		if (size > this.br.left())
+			throw new OutOfBoundsError(off);
+
+		if (skip) {
+			this.br.seek(size);
+			return null;
+		}
+
+		return this.br.readBytes(size, this.zeroCopy);
+	}
+
+	readList(skip: boolean) {
+		const off = this.br.offset;
+		const items = [];
+
+		this.br.seek(1);
+		this.enter(off);
+
+		while (this.peek() !== END) {
+			const item = this.readItem(skip);
+
+			if (!skip)
+				items.push(item);
+		}
+
+		this.br.seek(1);
+		this.depth -= 1;
+
+		return items;
+	}
+
+	readDict(skip: boolean) {
+		const off = this.br.offset;
+		const obj = {};
+
+		let last: Uint8Array = null;
+
+		this.br.seek(1);
+		this.enter(off);
+
+		while (this.peek() !== END) {
+			const start = this.br.offset;
+			const ch = this.peek();
+
+			if (ch < ZERO || ch > NINE)
+				throw new EncodingError(start, 'Invalid dictionary key');
+
+			const key = this.readBytes(false);
+
+			if (this.strict && last) {
+				const cmp = bytes.compare(last, key);
+
+				if (cmp === 0)
+					throw new NonCanonicalError(start, 'Duplicate dictionary key');
+
+				if (cmp > 0)
+					throw new NonCanonicalError(start, 'Unsorted dictionary key');
+			}
+
+			last = key;
+
+			const value = this.readItem(skip);
+
+			if (!skip) {
+				Object.defineProperty(obj, bytes.toString(key, 'latin1'), {
+					value,
+					enumerable: true,
+					configurable: true,
+					writable: true
+				});
+			}
+		}
+
+		this.br.seek(1);
+		this.depth -= 1;
+
+		return obj;
+	}
+}
+
+/*
+ * Encoding
+ */
+
+/**
+ * Write a bencoded value. Strings are written as utf8
+ * byte strings. Dictionary keys are written as latin1
+ * (mirroring decoding) and sorted.
+ * @param {IWriter} bw
+ * @param {*} value
+ */
+
+export function write(bw: IWriter, value: any) {
+	switch (typeof value) {
+		case 'number':
+			if (!Number.isSafeInteger(value))
+				throw new EncodingError(bw.getSize(), 'Invalid integer');
+		// fallthrough
+		case 'bigint':
+			bw.writeU8(INT);
+			bw.writeString(value.toString(10), 'latin1');
+			bw.writeU8(END);
+			return bw;
+		case 'string':
+			writeBytes(bw, bytes.fromString(value, 'utf8'));
+			return bw;
+	}
+
+	if (value instanceof Uint8Array) {
+		writeBytes(bw, value);
+		return bw;
+	}
+
+	if (Array.isArray(value)) {
+		bw.writeU8(LIST);
+
+		for (const item of value)
+			write(bw, item);
+
+		bw.writeU8(END);
+
+		return bw;
+	}
+
+	if (value instanceof Map) {
+		writeDict(bw, Array.from(value));
+		return bw;
+	}
+
+	if (value !== null && typeof value === 'object') {
+		const proto = Object.getPrototypeOf(value);
+
+		if (proto === Object.prototype || proto === null) {
+			writeDict(bw, Object.keys(value).map(key => [key, value[key]]));
+			return bw;
+		}
+	}
+
+	throw new EncodingError(bw.getSize(), 'Unsupported type');
+}
+
+/**
+ * Calculate encoded size of a value.
+ * @param {*} value
+ * @returns {Number}
+ */
+
+export function size(value: any) {
+	const sw = new SizeWriter();
+	write(sw, value);
+	return sw.render();
+}
+
+/**
+ * Bencode a value.
+ * @param {*} value
+ * @returns {Buffer}
+ */
+
+export function encode(value: any) {
+	const bw = new StaticWriter(size(value));
+	write(bw, value);
+	return bw.render();
+}
+
+/*
+ * Decoding
+ */
+
+/**
+ * Read a bencoded value. Byte strings are returned
+ * as buffers and dictionaries as objects with
+ * latin1 keys.
+ * @param {BufferReader} br
+ * @param {Object?} options
+ * @param {Boolean?} options.zeroCopy - Slice byte strings
+ * rather than copying them.
+ * @param {Boolean?} options.strict - Require sorted, unique
+ * dictionary keys (default: true).
+ * @param {Number?} options.maxDepth - Maximum nesting depth.
+ * @returns {*}
+ */
+
+export function read(br: BufferReader, options: DecodeOptions = {}) {
+	return new Decoder(br, options).readItem(false);
+}
+
+/**
+ * Decode a bencoded value, rejecting trailing data.
+ * @param {Uint8Array} data
+ * @param {Object?} options
+ * @returns {*}
+ */
+
+export function decode(data: Uint8Array, options: DecodeOptions = {}) {
+	const br = new BufferReader(data);
+	const value = read(br, options);
+
+	if (br.left() > 0)
+		throw new TrailingDataError(br.offset);
+
+	return value;
+}
+
+/**
+ * Validate and skip a bencoded value.
+ * @param {BufferReader} br
+ * @param {Object?} options
+ */
+
+export function skip(br: BufferReader, options: DecodeOptions = {}) {
+	new Decoder(br, options).readItem(true);
+	return br;
+}
+
+/**
+ * Read the raw bytes of a bencoded value.
+ * @param {BufferReader} br
+ * @param {Object?} options
+ * @returns {Buffer}
+ */
+
+export function readRaw(br: BufferReader, options: DecodeOptions = {}) {
+	br.start();
+	skip(br, options);
+	return br.endData(options.zeroCopy);
+}
+
+/**
+ * Get the raw bytes of a value in a top-level
+ * dictionary, such as the `info` dictionary of
+ * a torrent file (whose hash is the info hash).
+ * @param {Uint8Array} data
+ * @param {String} key
+ * @param {Object?} options
+ * @returns {Buffer|null}
+ */
+
+export function getRaw(data: Uint8Array, key: string,
+                       options: DecodeOptions = {}) {
+	const br = new BufferReader(data);
+	const dec = new Decoder(br, options);
+
+	if (dec.peek() !== DICT)
+		throw new EncodingError(0, 'Expected a dictionary');
+
+	br.seek(1);
+
+	while (dec.peek() !== END) {
+		const name = dec.readBytes(false);
+
+		if (bytes.toString(name, 'latin1') === key)
+			return readRaw(br, options);
+
+		dec.readItem(true);
+	}
+
+	return null;
+}
+
+/*
+ * Helpers
+ */
+
+function writeBytes(bw: IWriter, data: Uint8Array) {
+	bw.writeString(data.length.toString(10), 'latin1');
+	bw.writeU8(COLON);
+	bw.writeBytes(data);
+}
+
+function writeDict(bw: IWriter, entries: [any, any][]) {
+	const keys: [Uint8Array, any][] = entries.map(([key, value]) => {
+		if (typeof key === 'string')
+			key = bytes.fromString(key, 'latin1');
+
+		if (!(key instanceof Uint8Array))
+			throw new EncodingError(bw.getSize(), 'Invalid dictionary key');
+
+		return [key, value] as [Uint8Array, any];
+	});
+
+	keys.sort((a, b) => bytes.compare(a[0], b[0]));
+
+	bw.writeU8(DICT);
+
+	for (let i = 0; i < keys.length; i++) {
+		const [key, value] = keys[i];
+
+		if (i > 0 && bytes.compare(keys[i - 1][0], key) === 0)
+			throw new EncodingError(bw.getSize(), 'Duplicate dictionary key');
+
+		writeBytes(bw, key);
+		write(bw, value);
+	}
+
+	bw.writeU8(END);
+}
@@ -0,0 +1,125 @@
+/*!
+ * bitreader.js - bit reader for bufio
+ * Copyright (c) 2018, Andrew Sun (MIT License).
+ * https://github.com/as-com/bufio
+ */
+
+'use strict';
+
+import * as assert from "assert";
+import BufferReader from "./reader";
+
+/**
+ * Bit ordering within a byte.
+ * `msb`: the first bit is the most significant
+ * bit of the byte, and values are big-endian.
+ * `lsb`: the first bit is the least significant
+ * bit of the byte, and values are little-endian.
+ */
+
+export type BitOrder = 'msb' | 'lsb';
+
+/**
+ * Bit Reader
+ * Reads values which are not byte aligned. Bytes
+ * are pulled from a `BufferReader` on demand, so a
+ * buffer reader can hand off mid-stream and pick
+ * up again at the next byte boundary.
+ */
+
+export default class BitReader {
+	br: BufferReader;
+	order: BitOrder;
+	byte: number;
+	bits: number;
+
+	/**
+	 * Create a bit reader.
+	 * @constructor
+	 * @param {BufferReader|Uint8Array} data
+	 * @param {BitOrder?} order - Bit order (default: msb).
+	 */
+
+	constructor(data: BufferReader | Uint8Array, order: BitOrder = 'msb') {
+		assert(order === 'msb' || order === 'lsb', 'Invalid bit order.');
+
+		this.br = data instanceof BufferReader
+			? data
+			: new BufferReader(data);
+
+		this.order = order;
+		this.byte = 0;
+		this.bits = 0;
+	}
+
+	/**
+	 * Calculate number of bits left to read.
+	 * @returns {Number}
+	 */
+
+	left() {
+		return this.bits + this.br.left() * 8;
+	}
+
+	/**
+	 * Discard the remaining bits of the current
+	 * byte. The underlying buffer reader is then
+	 * positioned at the next byte.
+	 */
+
+	alignToByte() {
+		this.byte = 0;
+		this.bits = 0;
+		return this;
+	}
+
+	/**
+	 * Read a single bit.
+	 * @returns {Number} 0 or 1.
+	 */
+
+	readBit() {
+		if (this.bits === 0) {
+			this.byte = this.br.readU8();
+			this.bits = 8;
+		}
+
+		this.bits -= 1;
+
+		if (this.order === 'msb')
+			return (this.byte >>> this.bits) & 1;
+
+		return (this.byte >>> (7 - this.bits)) & 1;
+	}
+
+	/**
+	 * Read an unsigned integer of `n` bits.
+	 * @param {Number} n - Bit width (0-53).
+	 * @returns {Number}
+	 */
+
+	readBits(n: number) {
+		assert((n >>> 0) === n && n <= 53, 'Invalid bit width.');
+
+		let value = 0;
+
+		if (this.order === 'msb') {
+			for (let i = 0; i < n; i++)
+				value = value * 2 + this.readBit();
+		} else {
+			for (let i = 0; i < n; i++)
+				value += this.readBit() * 2 ** i;
+		}
+
+		return value;
+	}
+
+	/**
+	 * Read a single bit as a boolean.
+	 * @returns {Boolean}
+	 */
+
+	readBool() {
+		return this.readBit() === 1;
+	}
+}
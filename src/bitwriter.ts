@@ -0,0 +1,143 @@
+/*!
+ * bitwriter.js - bit writer for bufio
+ * Copyright (c) 2018, Andrew Sun (MIT License).
+ * https://github.com/as-com/bufio
+ */
+
+'use strict';
+
+import * as assert from "assert";
+import {LimitError} from "./error";
+import BufferWriter, {IWriter} from "./writer";
+import {BitOrder} from "./bitreader";
+
+/**
+ * Bit Writer
+ * Writes values which are not byte aligned. Whole
+ * bytes are flushed to an underlying writer, which
+ * may be written to directly after `alignToByte()`.
+ */
+
+export default class BitWriter {
+	bw: IWriter;
+	order: BitOrder;
+	byte: number;
+	bits: number;
+
+	/**
+	 * Create a bit writer.
+	 * @constructor
+	 * @param {IWriter?} bw - Underlying writer (default: BufferWriter).
+	 * @param {BitOrder?} order - Bit order (default: msb).
+	 */
+
+	constructor(bw?: IWriter, order: BitOrder = 'msb') {
+		assert(order === 'msb' || order === 'lsb', 'Invalid bit order.');
+
+		this.bw = bw || new BufferWriter();
+		this.order = order;
+		this.byte = 0;
+		this.bits = 0;
+	}
+
+	/**
+	 * Get size of data written so far,
+	 * counting a partial byte as a full byte.
+	 * @returns {Number}
+	 */
+
+	getSize() {
+		return this.bw.getSize() + (this.bits > 0 ? 1 : 0);
+	}
+
+	/**
+	 * Pad the current byte with zero bits
+	 * and flush it to the underlying writer.
+	 */
+
+	alignToByte() {
+		if (this.bits > 0) {
+			this.bw.writeU8(this.byte);
+			this.byte = 0;
+			this.bits = 0;
+		}
+
+		return this;
+	}
+
+	/**
+	 * Align to a byte boundary and render
+	 * the underlying writer.
+	 * @returns {Buffer} Rendered buffer.
+	 */
+
+	render() {
+		this.alignToByte();
+		return this.bw.render();
+	}
+
+	/**
+	 * Write a single bit.
+	 * @param {Number} bit - 0 or 1.
+	 */
+
+	writeBit(bit: number) {
+		if (this.order === 'msb')
+			this.byte |= (bit & 1) << (7 - this.bits);
+		else
+			this.byte |= (bit & 1) << this.bits;
+
+		this.bits += 1;
+
+		if (this.bits === 8) {
+			this.bw.writeU8(this.byte);
+			this.byte = 0;
+			this.bits = 0;
+		}
+
+		return this;
+	}
+
+	/**
+	 * Write an unsigned integer as `n` bits.
+	 * @param {Number} value
+	 * @param {Number} n - Bit width (0-53).
+	 */
+
+	writeBits(value: number, n: number) {
+		assert((n >>> 0) === n && n <= 53, 'Invalid bit width.');
+		assert(Number.isSafeInteger(value) && value >= 0, 'Invalid value.');
+
+		if (value >= 2 ** n)
+			throw new LimitError(this.bw.getSize(), 'Value exceeds bit width');
+
+		if (this.order === 'msb') {
+			for (let i = n - 1; i >= 0; i--)
+				this.writeBit(getBit(value, i));
+		} else {
+			for (let i = 0; i < n; i++)
+				this.writeBit(getBit(value, i));
+		}
+
+		return this;
+	}
+
+	/**
+	 * Write a boolean as a single bit.
+	 * @param {Boolean} value
+	 */
+
+	writeBool(value: boolean) {
+		return this.writeBit(value ? 1 : 0);
+	}
+}
+
+/*
+ * Helpers
+ */
+
+function getBit(value: number, i: number) {
+	if (i < 32)
+		return (value >>> i) & 1;
+	return Math.floor(value / 2 ** i) & 1;
+}
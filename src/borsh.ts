@@ -0,0 +1,599 @@
+/*!
+ * borsh.js - borsh serialization for bufio
+ * Copyright (c) 2018, Andrew Sun (MIT License).
+ * https://github.com/as-com/bufio
+ */
+
+'use strict';
+
+import * as assert from "assert";
+import * as bytes from "./bytes";
+import EncodingError, {LimitError, NonCanonicalError, OutOfBoundsError, TrailingDataError} from "./error";
+import BufferReader from "./reader";
+import SizeWriter from "./sizewriter";
+import StaticWriter from "./staticwriter";
+import {IWriter} from "./writer";
+
+/**
+ * Primitive type names. Integers up to 32 bits are
+ * numbers, 64 and 128 bit integers are bigints.
+ * `string` is a u32-prefixed utf8 string and `bytes`
+ * a u32-prefixed buffer (`Vec<u8>`).
+ */
+
+export type PrimitiveName =
+	'u8' | 'u16' | 'u32' | 'u64' | 'u128'
+	| 'i8' | 'i16' | 'i32' | 'i64' | 'i128'
+	| 'f32' | 'f64' | 'bool' | 'string' | 'bytes';
+
+/**
+ * Schema description.
+ *
+ * - `{option: T}` - `Option<T>`, `null` for `None`.
+ * - `{array: {type: T, len?: N}}` - `[T; N]`, or `Vec<T>`
+ *   with a u32 length prefix when `len` is omitted.
+ * - `{set: T}` - `HashSet<T>` as a `Set`.
+ * - `{map: {key: K, value: V}}` - `HashMap<K, V>` as a `Map`.
+ * - `{struct: {...}}` - fields in declaration order.
+ * - `{enum: {...}}` - variants in declaration order, the
+ *   u8 discriminant being the variant's index. A variant
+ *   with a `null` schema carries no data. Values are
+ *   objects with a single key naming the variant.
+ */
+
+export type Schema =
+	PrimitiveName
+	| {option: Schema}
+	| {array: {type: Schema, len?: number}}
+	| {set: Schema}
+	| {map: {key: Schema, value: Schema}}
+	| {struct: {[name: string]: Schema}}
+	| {enum: {[name: string]: Schema | null}};
+
+/*
+ * Constants
+ */
+
+const INTS = {
+	u8: [8, false],
+	u16: [16, false],
+	u32: [32, false],
+	u64: [64, false],
+	u128: [128, false],
+	i8: [8, true],
+	i16: [16, true],
+	i32: [32, true],
+	i64: [64, true],
+	i128: [128, true]
+};
+
+/**
+ * Maximum length of a sequence whose items
+ * may encode to zero bytes, and which the
+ * remaining input therefore cannot bound.
+ */
+
+const MAX_EMPTY_ITEMS = 0x10000;
+
+/*
+ * Encoding
+ */
+
+/**
+ * Write a value described by a schema.
+ * @param {IWriter} bw
+ * @param {Schema} schema
+ * @param {*} value
+ */
+
+export function write(bw: IWriter, schema: Schema, value: any) {
+	if (typeof schema === 'string') {
+		writePrimitive(bw, schema, value);
+		return bw;
+	}
+
+	if ('option' in schema) {
+		if (value == null) {
+			bw.writeU8(0);
+		} else {
+			bw.writeU8(1);
+			write(bw, schema.option, value);
+		}
+		return bw;
+	}
+
+	if ('array' in schema) {
+		const {type, len} = schema.array;
+
+		if (!Array.isArray(value))
+			throw new EncodingError(bw.getSize(), 'Expected an array');
+
+		if (len != null) {
+			if (value.length !== len)
+				throw new EncodingError(bw.getSize(), 'Invalid array length');
+		} else {
+			writeLength(bw, value.length);
+		}
+
+		for (const item of value)
+			write(bw, type, item);
+
+		return bw;
+	}
+
+	if ('set' in schema) {
+		if (!(value instanceof Set))
+			throw new EncodingError(bw.getSize(), 'Expected a set');
+
+		const keys = sortKeys(bw, Array.from(value));
+
+		writeLength(bw, keys.length);
+
+		for (const key of keys)
+			write(bw, schema.set, key);
+
+		return bw;
+	}
+
+	if ('map' in schema) {
+		if (!(value instanceof Map))
+			throw new EncodingError(bw.getSize(), 'Expected a map');
+
+		const keys = sortKeys(bw, Array.from(value.keys()));
+
+		writeLength(bw, keys.length);
+
+		for (const key of keys) {
+			write(bw, schema.map.key, key);
+			write(bw, schema.map.value, value.get(key));
+		}
+
+		return bw;
+	}
+
+	if ('struct' in schema) {
+		if (value == null || typeof value !== 'object')
+			throw new EncodingError(bw.getSize(), 'Expected an object');
+
+		for (const name of Object.keys(schema.struct))
+			write(bw, schema.struct[name], value[name]);
+
+		return bw;
+	}
+
+	if ('enum' in schema) {
+		const keys = value != null && typeof value === 'object'
+			? Object.keys(value)
+			: [];
+
+		const names = Object.keys(schema.enum);
+		const index = keys.length === 1 ? names.indexOf(keys[0]) : -1;
+
+		if (index === -1)
+			throw new EncodingError(bw.getSize(), 'Invalid enum variant');
+
+		if (index > 0xff)
+			throw new EncodingError(bw.getSize(), 'Too many enum variants');
+
+		bw.writeU8(index);
+
+		const type = schema.enum[names[index]];
+
+		if (type !== null)
+			write(bw, type, value[names[index]]);
+
+		return bw;
+	}
+
+	return assert(false, 'Invalid schema.');
+}
+
+/**
+ * Calculate encoded size of a value.
+ * @param {Schema} schema
+ * @param {*} value
+ * @returns {Number}
+ */
+
+export function size(schema: Schema, value: any) {
+	const sw = new SizeWriter();
+	write(sw, schema, value);
+	return sw.render();
+}
+
+/**
+ * Encode a value.
+ * @param {Schema} schema
+ * @param {*} value
+ * @returns {Buffer}
+ */
+
+export function encode(schema: Schema, value: any) {
+	const bw = new StaticWriter(size(schema, value));
+	write(bw, schema, value);
+	return bw.render();
+}
+
+/*
+ * Decoding
+ */
+
+/**
+ * Read a value described by a schema. Map and set
+ * keys must be sorted and unique. Sequences of
+ * zero-sized items hold at most 65536 entries.
+ * @param {BufferReader} br
+ * @param {Schema} schema
+ * @returns {*}
+ */
+
+export function read(br: BufferReader, schema: Schema): any {
+	if (typeof schema === 'string')
+		return readPrimitive(br, schema);
+
+	if ('option' in schema) {
+		const off = br.offset;
+		const flag = br.readU8();
+
+		if (flag > 1)
+			throw new EncodingError(off, 'Invalid option');
+
+		return flag === 1 ? read(br, schema.option) : null;
+	}
+
+	if ('array' in schema) {
+		const {type, len} = schema.array;
+		const count = len != null ? len : readLength(br, minSize(type));
+		const items = [];
+
+		for (let i = 0; i < count; i++)
+			items.push(read(br, type));
+
+		return items;
+	}
+
+	if ('set' in schema) {
+		const count = readLength(br, minSize(schema.set));
+		const items = new Set();
+
+		let last = null;
+
+		for (let i = 0; i < count; i++) {
+			const off = br.offset;
+			const key = read(br, schema.set);
+
+			if (i > 0)
+				checkOrder(off, last, key);
+
+			items.add(key);
+			last = key;
+		}
+
+		return items;
+	}
+
+	if ('map' in schema) {
+		const count = readLength(br, minSize(schema.map.key)
+			+ minSize(schema.map.value));
+		const items = new Map();
+
+		let last = null;
+
+		for (let i = 0; i < count; i++) {
+			const off = br.offset;
+			const key = read(br, schema.map.key);
+
+			if (i > 0)
+				checkOrder(off, last, key);
+
+			items.set(key, read(br, schema.map.value));
+			last = key;
+		}
+
+		return items;
+	}
+
+	if ('struct' in schema) {
+		const obj = {};
+
+		for (const name of Object.keys(schema.struct))
+			obj[name] = read(br, schema.struct[name]);
+
+		return obj;
+	}
+
+	if ('enum' in schema) {
+		const off = br.offset;
+		const index = br.readU8();
+		const names = Object.keys(schema.enum);
+
+		if (index >= names.length)
+			throw new EncodingError(off, 'Invalid enum variant');
+
+		const name = names[index];
+		const type = schema.enum[name];
+
+		return {[name]: type !== null ? read(br, type) : null};
+	}
+
+	return assert(false, 'Invalid schema.');
+}
+
+/**
+ * Decode a value, rejecting trailing data.
+ * @param {Schema} schema
+ * @param {Uint8Array} data
+ * @returns {*}
+ */
+
+export function decode(schema: Schema, data: Uint8Array) {
+	const br = new BufferReader(data);
+	const value = read(br, schema);
+
+	if (br.left() > 0)
+		throw new TrailingDataError(br.offset);
+
+	return value;
+}
+
+/*
+ * Helpers
+ */
+
+function writePrimitive(bw: IWriter, name: string, value: any) {
+	if (INTS.hasOwnProperty(name)) {
+		const [bits, signed] = INTS[name];
+		writeInt(bw, bits, signed, value);
+		return;
+	}
+
+	switch (name) {
+		case 'f32':
+		case 'f64':
+			if (typeof value !== 'number' || value !== value)
+				throw new EncodingError(bw.getSize(), 'Invalid float');
+
+			if (name === 'f32')
+				bw.writeFloat(value);
+			else
+				bw.writeDouble(value);
+
+			return;
+		case 'bool':
+			if (typeof value !== 'boolean')
+				throw new EncodingError(bw.getSize(), 'Invalid boolean');
+
+			bw.writeU8(value ? 1 : 0);
+
+			return;
+		case 'string': {
+			if (typeof value !== 'string')
+				throw new EncodingError(bw.getSize(), 'Invalid string');
+
+			const data = bytes.fromString(value, 'utf8');
+
+			writeLength(bw, data.length);
+			bw.writeBytes(data);
+
+			return;
+		}
+		case 'bytes':
+			if (!(value instanceof Uint8Array))
+				throw new EncodingError(bw.getSize(), 'Invalid bytes');
+
+			writeLength(bw, value.length);
+			bw.writeBytes(value);
+
+			return;
+	}
+
+	assert(false, `Unknown type: ${name}.`);
+}
+
+function readPrimitive(br: BufferReader, name: string) {
+	if (INTS.hasOwnProperty(name)) {
+		const [bits, signed] = INTS[name];
+		return readInt(br, bits, signed);
+	}
+
+	switch (name) {
+		case 'f32':
+		case 'f64': {
+			const off = br.offset;
+			const value = name === 'f32' ? br.readFloat() : br.readDouble();
+
+			if (value !== value)
+				throw new EncodingError(off, 'Invalid float');
+
+			return value;
+		}
+		case 'bool': {
+			const off = br.offset;
+			const value = br.readU8();
+
+			if (value > 1)
+				throw new EncodingError(off, 'Invalid boolean');
+
+			return value === 1;
+		}
+		case 'string': {
+			const off = br.offset;
+			const data = br.readBytes(readLength(br, 1), true);
+			const str = bytes.toString(data, 'utf8');
+
+			if (bytes.compare(bytes.fromString(str, 'utf8'), data) !== 0)
+				throw new EncodingError(off, 'Invalid utf8 string');
+
+			return str;
+		}
+		case 'bytes':
+			return br.readBytes(readLength(br, 1));
+	}
+
+	return assert(false, `Unknown type: ${name}.`);
+}
+
+function writeInt(bw: IWriter, bits: number, signed: boolean, value: any) {
+	if (bits <= 32 ? !Number.isInteger(value) : typeof value !== 'bigint')
+		throw new EncodingError(bw.getSize(), 'Invalid integer');
+
+	const num = BigInt(value);
+	const min = signed ? -(1n << BigInt(bits - 1)) : 0n;
+	const max = signed ? (1n << BigInt(bits - 1)) - 1n : (1n << BigInt(bits)) - 1n;
+
+	if (num < min || num > max)
+		throw new EncodingError(bw.getSize(), 'Integer out of range');
+
+	switch (bits) {
+		case 8:
+			bw.writeU8(value & 0xff);
+			break;
+		case 16:
+			bw.writeU16(value & 0xffff);
+			break;
+		case 32:
+			bw.writeU32(value >>> 0);
+			break;
+		case 64:
+			bw.writeU64Big(BigInt.asUintN(64, num));
+			break;
+		case 128:
+			bw.writeU64Big(BigInt.asUintN(64, num));
+			bw.writeU64Big(BigInt.asUintN(64, num >> 64n));
+			break;
+	}
+}
+
+function readInt(br: BufferReader, bits: number, signed: boolean) {
+	switch (bits) {
+		case 8:
+			return signed ? br.readI8() : br.readU8();
+		case 16:
+			return signed ? br.readI16() : br.readU16();
+		case 32:
+			return signed ? br.readI32() : br.readU32();
+		case 64:
+			return signed ? br.readI64Big() : br.readU64Big();
+	}
+
+	const lo = br.readU64Big();
+	const hi = br.readU64Big();
+	const num = (hi << 64n) | lo;
+
+	return signed ? BigInt.asIntN(128, num) : num;
+}
+
+function writeLength(bw: IWriter, length: number) {
+	if (length > 0xffffffff)
+		throw new EncodingError(bw.getSize(), 'Length exceeds u32');
+
+	bw.writeU32(length);
+}
+
+function readLength(br: BufferReader, itemSize: number) {
+	const off = br.offset;
+	const length = br.readU32();
+
+	// Every item occupies at least `itemSize` bytes,
+	// so a larger count cannot be valid. Zero-sized
+	// items are bounded by an explicit limit instead.
+	if (itemSize === 0) {
+		if (length > MAX_EMPTY_ITEMS)
+			throw new LimitError(off, 'Too many elements');
+	} else if (length > Math.floor(br.left() / itemSize)) {
+		throw new OutOfBoundsError(off);
+	}
+
+	return length;
+}
+
+function minSize(schema: Schema): number {
+	if (typeof schema === 'string') {
+		if (INTS.hasOwnProperty(schema))
+			return INTS[schema][0] / 8;
+
+		switch (schema) {
+			case 'f32':
+				return 4;
+			case 'f64':
+				return 8;
+			case 'bool':
+				return 1;
+			default:
+				return 4;
+		}
+	}
+
+	if ('option' in schema || 'enum' in schema)
+		return 1;
+
+	if ('array' in schema) {
+		const {type, len} = schema.array;
+		return len != null ? len * minSize(type) : 4;
+	}
+
+	if ('set' in schema || 'map' in schema)
+		return 4;
+
+	if ('struct' in schema) {
+		let size = 0;
+
+		for (const name of Object.keys(schema.struct))
+			size += minSize(schema.struct[name]);
+
+		return size;
+	}
+
+	throw new Error('Invalid schema.');
+}
+
+function compareKeys(a: any, b: any) {
+	if ((typeof a === 'number' || typeof a === 'bigint')
+		&& (typeof b === 'number' || typeof b === 'bigint')) {
+		return a < b ? -1 : a > b ? 1 : 0;
+	}
+
+	if (typeof a === 'string' && typeof b === 'string')
+		return bytes.compare(bytes.fromString(a, 'utf8'), bytes.fromString(b, 'utf8'));
+
+	if (a instanceof Uint8Array && b instanceof Uint8Array)
+		return bytes.compare(a, b);
+
+	if (typeof a === 'boolean' && typeof b === 'boolean')
+		return Number(a) - Number(b);
+
+	return null;
+}
+
+function sortKeys(bw: IWriter, keys: any[]) {
+	const cmp = (a, b) => {
+		const res = compareKeys(a, b);
+
+		if (res === null)
+			throw new EncodingError(bw.getSize(), 'Unsupported key type');
+
+		return res;
+	};
+
+	keys.sort(cmp);
+
+	for (let i = 1; i < keys.length; i++) {
+		if (cmp(keys[i - 1], keys[i]) === 0)
+			throw new EncodingError(bw.getSize(), 'Duplicate key');
+	}
+
+	return keys;
+}
+
+function checkOrder(off: number, last: any, key: any) {
+	const cmp = compareKeys(last, key);
+
+	if (cmp === null)
+		throw new EncodingError(off, 'Unsupported key type');
+
+	if (cmp === 0)
+		throw new NonCanonicalError(off, 'Duplicate key');
+
+	if (cmp > 0)
+		throw new NonCanonicalError(off, 'Unsorted key');
+}
@@ -0,0 +1,561 @@
+/*!
+ * bson.js - binary json for bufio
+ * Copyright (c) 2018, Andrew Sun (MIT License).
+ * https://github.com/as-com/bufio
+ */
+
+'use strict';
+
+import * as assert from "assert";
+import * as bytes from "./bytes";
+import EncodingError, {LimitError, OutOfBoundsError, TrailingDataError} from "./error";
+import BufferReader from "./reader";
+import BufferWriter, {IWriter} from "./writer";
+
+/*
+ * Constants
+ */
+
+/**
+ * Element types.
+ * @enum {Number}
+ */
+
+export const types = {
+	DOUBLE: 0x01,
+	STRING: 0x02,
+	DOCUMENT: 0x03,
+	ARRAY: 0x04,
+	BINARY: 0x05,
+	OBJECTID: 0x07,
+	BOOLEAN: 0x08,
+	DATE: 0x09,
+	NULL: 0x0a,
+	REGEX: 0x0b,
+	INT32: 0x10,
+	TIMESTAMP: 0x11,
+	INT64: 0x12,
+	DECIMAL128: 0x13,
+	MINKEY: 0xff,
+	MAXKEY: 0x7f
+};
+
+/**
+ * Binary subtypes.
+ * @enum {Number}
+ */
+
+export const subtypes = {
+	GENERIC: 0x00,
+	FUNCTION: 0x01,
+	BINARY_OLD: 0x02,
+	UUID_OLD: 0x03,
+	UUID: 0x04,
+	MD5: 0x05,
+	ENCRYPTED: 0x06,
+	COLUMN: 0x07,
+	USER: 0x80
+};
+
+const MAX_DEPTH = 100;
+const MIN_DOCUMENT = 5;
+const INT32_MIN = -0x80000000;
+const INT32_MAX = 0x7fffffff;
+const INT64_MIN = -(1n << 63n);
+const INT64_MAX = (1n << 63n) - 1n;
+
+export interface DecodeOptions {
+	maxDepth?: number;
+}
+
+/**
+ * ObjectId
+ * A 12 byte identifier.
+ */
+
+export class ObjectId {
+	data: Buffer;
+
+	constructor(data: Uint8Array) {
+		assert(data instanceof Uint8Array && data.length === 12, 'Invalid ObjectId.');
+		this.data = bytes.wrap(data);
+	}
+
+	/**
+	 * Get the creation time in seconds.
+	 * @returns {Number}
+	 */
+
+	getTime() {
+		return new BufferReader(this.data).readU32BE();
+	}
+
+	toString() {
+		return bytes.toString(this.data, 'hex');
+	}
+
+	static fromString(str: string) {
+		assert(/^[0-9a-fA-F]{24}$/.test(str), 'Invalid ObjectId.');
+		return new ObjectId(bytes.fromString(str, 'hex'));
+	}
+}
+
+/**
+ * Binary data with a subtype.
+ */
+
+export class Binary {
+	subtype: number;
+	data: Buffer;
+
+	constructor(data: Uint8Array, subtype = subtypes.GENERIC) {
+		assert((subtype & 0xff) === subtype, 'Invalid subtype.');
+		this.subtype = subtype;
+		this.data = bytes.wrap(data);
+	}
+}
+
+/**
+ * Decimal128, held as its raw little-endian bytes.
+ */
+
+export class Decimal128 {
+	data: Buffer;
+
+	constructor(data: Uint8Array) {
+		assert(data instanceof Uint8Array && data.length === 16, 'Invalid Decimal128.');
+		this.data = bytes.wrap(data);
+	}
+}
+
+/**
+ * Internal timestamp (as used by replication).
+ */
+
+export class Timestamp {
+	increment: number;
+	time: number;
+
+	constructor(increment: number, time: number) {
+		this.increment = increment;
+		this.time = time;
+	}
+}
+
+/**
+ * Regular expression with BSON option flags.
+ */
+
+export class Regex {
+	pattern: string;
+	flags: string;
+
+	constructor(pattern: string, flags = '') {
+		this.pattern = pattern;
+		this.flags = flags.split('').sort().join('');
+	}
+}
+
+/**
+ * Minimum key.
+ */
+
+export class MinKey {}
+
+/**
+ * Maximum key.
+ */
+
+export class MaxKey {}
+
+/**
+ * Decoder
+ */
+
+class Decoder {
+	br: BufferReader;
+	maxDepth: number;
+	depth: number;
+
+	constructor(br: BufferReader, options: DecodeOptions) {
+		this.br = br;
+		this.maxDepth = options.maxDepth != null ? options.maxDepth : MAX_DEPTH;
+		this.depth = 0;
+	}
+
+	enter(off: number) {
+		this.depth += 1;
+
+		if (this.depth > this.maxDepth)
+			throw new LimitError(off, 'Depth exceeds limit');
+	}
+
+	readDocument(array: boolean) {
+		const off = this.br.offset;
+		const size = this.br.readI32();
+
+		if (size < MIN_DOCUMENT)
+			throw new EncodingError(off, 'Invalid document length');
+
+		if (size - 4 > this.br.left())
+			throw new OutOfBoundsError(off);
+
+		const end = off + size - 1;
+		const obj = array ? [] : {};
+
+		this.enter(off);
+
+		while (this.br.offset < end) {
+			const start = this.br.offset;
+			const type = this.br.readU8();
+			const key = this.br.readNullString('utf8');
+			const value = this.readValue(type, start);
+
+			if (this.br.offset > end)
+				throw new EncodingError(start, 'Element exceeds document');
+
+			if (array) {
+				(obj as any[]).push(value);
+			} else {
+				Object.defineProperty(obj, key, {
+					value,
+					enumerable: true,
+					configurable: true,
+					writable: true
+				});
+			}
+		}
+
+		if (this.br.readU8() !== 0)
+			throw new EncodingError(end, 'Invalid document terminator');
+
+		this.depth -= 1;
+
+		return obj;
+	}
+
+	readValue(type: number, off: number) {
+		const br = this.br;
+
+		switch (type) {
+			case types.DOUBLE:
+				return br.readDouble();
+			case types.STRING:
+				return this.readString();
+			case types.DOCUMENT:
+				return this.readDocument(false);
+			case types.ARRAY:
+				return this.readDocument(true);
+			case types.BINARY: {
+				const size = br.readI32();
+
+				if (size < 0)
+					throw new EncodingError(off, 'Invalid binary length');
+
+				const subtype = br.readU8();
+
+				return new Binary(br.readBytes(size), subtype);
+			}
+			case types.OBJECTID:
+				return new ObjectId(br.readBytes(12));
+			case types.BOOLEAN: {
+				const value = br.readU8();
+
+				if (value > 1)
+					throw new EncodingError(off, 'Invalid boolean');
+
+				return value === 1;
+			}
+			case types.DATE:
+				return new Date(Number(br.readI64Big()));
+			case types.NULL:
+				return null;
+			case types.REGEX: {
+				const pattern = br.readNullString('utf8');
+				const flags = br.readNullString('utf8');
+				return new Regex(pattern, flags);
+			}
+			case types.INT32:
+				return br.readI32();
+			case types.TIMESTAMP: {
+				const increment = br.readU32();
+				const time = br.readU32();
+				return new Timestamp(increment, time);
+			}
+			case types.INT64:
+				return br.readI64Big();
+			case types.DECIMAL128:
+				return new Decimal128(br.readBytes(16));
+			case types.MINKEY:
+				return new MinKey();
+			case types.MAXKEY:
+				return new MaxKey();
+		}
+
+		throw new EncodingError(off, 'Unsupported type');
+	}
+
+	readString() {
+		const off = this.br.offset;
+		const size = this.br.readI32();
+
+		if (size < 1)
+			throw new EncodingError(off, 'Invalid string length');
+
+		if (size > this.br.left())
+			throw new OutOfBoundsError(off);
+
+		const str = this.br.readString('utf8', size - 1);
+
+		if (this.br.readU8() !== 0)
+			throw new EncodingError(off, 'Invalid string terminator');
+
+		return str;
+	}
+}
+
+/*
+ * Encoding
+ */
+
+/**
+ * Write a document. Its int32 length is reserved
+ * and backfilled once the elements are written.
+ * Numbers are written as int32 when they fit and
+ * as doubles otherwise, bigints as int64.
+ * Undefined fields are skipped.
+ * @param {IWriter} bw
+ * @param {Object|Map} doc
+ */
+
+export function write(bw: IWriter, doc: object) {
+	if (doc instanceof Map) {
+		writeDocument(bw, Array.from(doc));
+		return bw;
+	}
+
+	if (doc === null || typeof doc !== 'object' || Array.isArray(doc))
+		throw new EncodingError(bw.getSize(), 'Expected a document');
+
+	writeDocument(bw, Object.keys(doc).map(key => [key, doc[key]]));
+
+	return bw;
+}
+
+/**
+ * Encode a document.
+ * @param {Object|Map} doc
+ * @returns {Buffer}
+ */
+
+export function encode(doc: object) {
+	const bw = new BufferWriter();
+	write(bw, doc);
+	return bw.render();
+}
+
+/*
+ * Decoding
+ */
+
+/**
+ * Read a document. Int64s are returned as bigints,
+ * dates as `Date` objects.
+ * @param {BufferReader} br
+ * @param {Object?} options
+ * @param {Number?} options.maxDepth - Maximum nesting depth.
+ * @returns {Object}
+ */
+
+export function read(br: BufferReader, options: DecodeOptions = {}) {
+	return new Decoder(br, options).readDocument(false);
+}
+
+/**
+ * Decode a document, rejecting trailing data.
+ * @param {Uint8Array} data
+ * @param {Object?} options
+ * @returns {Object}
+ */
+
+export function decode(data: Uint8Array, options: DecodeOptions = {}) {
+	const br = new BufferReader(data);
+	const doc = read(br, options);
+
+	if (br.left() > 0)
+		throw new TrailingDataError(br.offset);
+
+	return doc;
+}
+
+/**
+ * Read a stream of concatenated documents,
+ * such as a raw collection dump.
+ * @param {Uint8Array} data
+ * @param {Object?} options
+ * @returns {Object[]}
+ */
+
+export function decodeAll(data: Uint8Array, options: DecodeOptions = {}) {
+	const br = new BufferReader(data);
+	const docs = [];
+
+	while (br.left() > 0)
+		docs.push(read(br, options));
+
+	return docs;
+}
+
+/*
+ * Helpers
+ */
+
+function writeDocument(bw: IWriter, entries: [any, any][]) {
+	const ph = bw.reserveU32();
+
+	for (const [key, value] of entries) {
+		if (value === undefined)
+			continue;
+
+		writeElement(bw, key, value);
+	}
+
+	bw.writeU8(0);
+
+	ph.fill(bw.getSize() - ph.offset);
+}
+
+function writeKey(bw: IWriter, type: number, key: string) {
+	if (typeof key !== 'string' || key.indexOf('\0') !== -1)
+		throw new EncodingError(bw.getSize(), 'Invalid key');
+
+	bw.writeU8(type);
+	bw.writeNullString(key, 'utf8');
+}
+
+function writeElement(bw: IWriter, key: string, value: any) {
+	switch (typeof value) {
+		case 'number':
+			if (Number.isInteger(value) && value >= INT32_MIN && value <= INT32_MAX) {
+				writeKey(bw, types.INT32, key);
+				bw.writeI32(value);
+			} else {
+				writeKey(bw, types.DOUBLE, key);
+				bw.writeDouble(value);
+			}
+			return;
+		case 'bigint':
+			if (value < INT64_MIN || value > INT64_MAX)
+				throw new EncodingError(bw.getSize(), 'Integer out of range');
+
+			writeKey(bw, types.INT64, key);
+			bw.writeI64Big(value);
+
+			return;
+		case 'string': {
+			const size = bytes.byteLength(value, 'utf8');
+
+			writeKey(bw, types.STRING, key);
+			bw.writeI32(size + 1);
+			bw.writeNullString(value, 'utf8');
+
+			return;
+		}
+		case 'boolean':
+			writeKey(bw, types.BOOLEAN, key);
+			bw.writeU8(value ? 1 : 0);
+			return;
+	}
+
+	if (value === null || value === undefined) {
+		writeKey(bw, types.NULL, key);
+		return;
+	}
+
+	if (value instanceof Date) {
+		writeKey(bw, types.DATE, key);
+		bw.writeI64(value.getTime());
+		return;
+	}
+
+	if (value instanceof ObjectId) {
+		writeKey(bw, types.OBJECTID, key);
+		bw.writeBytes(value.data);
+		return;
+	}
+
+	if (value instanceof Binary || value instanceof Uint8Array) {
+		const bin = value instanceof Binary ? value : new Binary(value);
+
+		writeKey(bw, types.BINARY, key);
+		bw.writeI32(bin.data.length);
+		bw.writeU8(bin.subtype);
+		bw.writeBytes(bin.data);
+
+		return;
+	}
+
+	if (value instanceof Decimal128) {
+		writeKey(bw, types.DECIMAL128, key);
+		bw.writeBytes(value.data);
+		return;
+	}
+
+	if (value instanceof Timestamp) {
+		writeKey(bw, types.TIMESTAMP, key);
+		bw.writeU32(value.increment);
+		bw.writeU32(value.time);
+		return;
+	}
+
+	if (value instanceof Regex || value instanceof RegExp) {
+		const re = value instanceof Regex
+			? value
+			: new Regex(value.source, value.flags);
+
+		if (re.pattern.indexOf('\0') !== -1 || re.flags.indexOf('\0') !== -1)
+			throw new EncodingError(bw.getSize(), 'Invalid regex');
+
+		writeKey(bw, types.REGEX, key);
+		bw.writeNullString(re.pattern, 'utf8');
+		bw.writeNullString(re.flags, 'utf8');
+
+		return;
+	}
+
+	if (value instanceof MinKey) {
+		writeKey(bw, types.MINKEY, key);
+		return;
+	}
+
+	if (value instanceof MaxKey) {
+		writeKey(bw, types.MAXKEY, key);
+		return;
+	}
+
+	if (Array.isArray(value)) {
+		writeKey(bw, types.ARRAY, key);
+		writeDocument(bw, value.map((item, i) => {
+			return [i.toString(10), item === undefined ? null : item];
+		}));
+		return;
+	}
+
+	if (value instanceof Map) {
+		writeKey(bw, types.DOCUMENT, key);
+		writeDocument(bw, Array.from(value));
+		return;
+	}
+
+	if (typeof value === 'object') {
+		const proto = Object.getPrototypeOf(value);
+
+		if (proto === Object.prototype || proto === null) {
+			writeKey(bw, types.DOCUMENT, key);
+			writeDocument(bw, Object.keys(value).map(k => [k, value[k]]));
+			return;
+		}
+	}
+
+	throw new EncodingError(bw.getSize(), 'Unsupported type');
+}
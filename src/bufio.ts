@@ -6,26 +6,55 @@
 
 'use strict';
 
+import * as asn1 from "./asn1";
+import * as bencode from "./bencode";
+import * as borsh from "./borsh";
+import * as bson from "./bson";
+import * as bytes from "./bytes";
+import * as cbor from "./cbor";
 import * as encoding from "./encoding";
+import * as field from "./field";
+import * as msgpack from "./msgpack";
+import * as protobuf from "./protobuf";
+import * as rlp from "./rlp";
+import * as ssz from "./ssz";
+import * as tlv from "./tlv";
+import * as xdr from "./xdr";
 
 import BufferReader from './reader';
 import StaticWriter from './staticwriter';
 import BufferWriter from './writer';
+import GrowableWriter from './growablewriter';
 import SizeWriter from './sizewriter';
 import HashWriter from './hashwriter';
 
 
-export {default as EncodingError} from "./error";
+export {
+	default as EncodingError,
+	OutOfBoundsError,
+	NonCanonicalError,
+	ChecksumError,
+	LimitError,
+	TrailingDataError
+} from "./error";
 export {default as BufferReader} from "./reader";
+export {default as AsyncBufferReader} from "./asyncreader";
+export {default as BitReader} from "./bitreader";
+export {default as BitWriter} from "./bitwriter";
 export {default as BufferWriter} from "./writer";
 export {default as StaticWriter} from "./staticwriter";
+export {default as GrowableWriter} from "./growablewriter";
 export {default as SizeWriter} from "./sizewriter";
 export {default as HashWriter} from "./hashwriter";
+export {default as Placeholder} from "./placeholder";
 export {default as Struct} from "./struct";
+export {struct} from "./schema";
+export {Framer, Deframer} from "./framer";
+export {TLVReader, TLVWriter} from "./tlv";
 
-export {encoding}
+export {asn1, bencode, borsh, bson, bytes, cbor, encoding, field, msgpack, protobuf, rlp, ssz, tlv, xdr}
 
-export function read(data: Buffer, zeroCopy?: boolean) {
+export function read(data: Uint8Array, zeroCopy?: boolean) {
 	return new BufferReader(data, zeroCopy);
 }
 
@@ -37,6 +66,10 @@ export function write(size?: number) {
 		: new BufferWriter();
 }
 
+export function grow(size?: number) {
+	return new GrowableWriter(size);
+}
+
 export function pool(size: number) {
 	return StaticWriter.pool(size);
 }
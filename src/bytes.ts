@@ -0,0 +1,580 @@
+/*!
+ * bytes.js - byte array backend for bufio
+ * Copyright (c) 2018, Andrew Sun (MIT License).
+ * https://github.com/as-com/bufio
+ */
+
+'use strict';
+
+/*
+ * Constants
+ */
+
+const NodeBuffer: typeof Buffer | null =
+	typeof Buffer === 'function' && typeof Buffer.allocUnsafe === 'function'
+		? Buffer
+		: null;
+
+const HEX = '0123456789abcdef';
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const HEX_TABLE: string[] = [];
+const BASE64_TABLE = new Int8Array(256).fill(-1);
+
+for (let i = 0; i < 256; i++)
+	HEX_TABLE.push(HEX[i >>> 4] + HEX[i & 15]);
+
+for (let i = 0; i < 64; i++)
+	BASE64_TABLE[BASE64.charCodeAt(i)] = i;
+
+BASE64_TABLE[0x2d] = 62; // '-'
+BASE64_TABLE[0x5f] = 63; // '_'
+
+/**
+ * Whether node.js buffers are available.
+ * @const {Boolean}
+ */
+
+export const native = NodeBuffer !== null;
+
+/**
+ * String encoding supported by the built-in codecs.
+ */
+
+export type Encoding = 'hex' | 'base64' | 'utf8' | 'utf-8' | 'ascii' | 'latin1' | 'binary';
+
+/**
+ * String codec.
+ */
+
+export interface Codec {
+	/**
+	 * Calculate the encoded size of a string.
+	 */
+	byteLength(str: string): number;
+	/**
+	 * Write a string at `off`, returning bytes written.
+	 */
+	write(dst: Uint8Array, str: string, off: number): number;
+	/**
+	 * Decode bytes `start` through `end` to a string.
+	 */
+	read(data: Uint8Array, start: number, end: number): string;
+}
+
+/**
+ * Allocate a zero-filled byte array. Returns
+ * a `Buffer` when running under node.js.
+ * @param {Number} size
+ * @returns {Buffer}
+ */
+
+export function alloc(size: number): Buffer {
+	if (NodeBuffer)
+		return NodeBuffer.alloc(size);
+	return new Uint8Array(size) as Buffer;
+}
+
+/**
+ * Allocate an uninitialized byte array where the
+ * platform allows it (node.js), otherwise zero-filled.
+ * @param {Number} size
+ * @returns {Buffer}
+ */
+
+export function allocUnsafe(size: number): Buffer {
+	if (NodeBuffer)
+		return NodeBuffer.allocUnsafe(size);
+	return new Uint8Array(size) as Buffer;
+}
+
+/**
+ * Wrap a byte array without copying. Plain
+ * `Uint8Array`s become `Buffer`s under node.js.
+ * @param {Uint8Array} data
+ * @returns {Buffer}
+ */
+
+export function wrap(data: Uint8Array): Buffer {
+	if (NodeBuffer && !NodeBuffer.isBuffer(data))
+		return NodeBuffer.from(data.buffer, data.byteOffset, data.byteLength);
+	return data as Buffer;
+}
+
+/**
+ * Slice a byte array without copying.
+ * @param {Uint8Array} data
+ * @param {Number} start
+ * @param {Number} end
+ * @returns {Buffer}
+ */
+
+export function slice(data: Uint8Array, start: number, end: number): Buffer {
+	return wrap(data.subarray(start, end));
+}
+
+/**
+ * Copy `src[start:end]` into `dst` at `off`.
+ * @param {Uint8Array} src
+ * @param {Uint8Array} dst
+ * @param {Number} off
+ * @param {Number?} start
+ * @param {Number?} end
+ * @returns {Number} Bytes copied.
+ */
+
+export function copy(src: Uint8Array, dst: Uint8Array, off: number,
+                     start = 0, end = src.length): number {
+	if (start !== 0 || end !== src.length)
+		src = src.subarray(start, end);
+
+	dst.set(src, off);
+
+	return src.length;
+}
+
+/**
+ * Concatenate byte arrays into a new byte array.
+ * @param {Uint8Array[]} list
+ * @returns {Buffer}
+ */
+
+export function concat(list: Uint8Array[]): Buffer {
+	let size = 0;
+
+	for (const data of list)
+		size += data.length;
+
+	const out = allocUnsafe(size);
+
+	let off = 0;
+
+	for (const data of list)
+		off += copy(data, out, off);
+
+	return out;
+}
+
+/**
+ * Compare two byte arrays lexicographically.
+ * @param {Uint8Array} a
+ * @param {Uint8Array} b
+ * @returns {Number} -1, 0 or 1.
+ */
+
+export function compare(a: Uint8Array, b: Uint8Array): number {
+	const len = Math.min(a.length, b.length);
+
+	for (let i = 0; i < len; i++) {
+		if (a[i] !== b[i])
+			return a[i] < b[i] ? -1 : 1;
+	}
+
+	if (a.length !== b.length)
+		return a.length < b.length ? -1 : 1;
+
+	return 0;
+}
+
+/**
+ * Create a data view spanning a byte array.
+ * @param {Uint8Array} data
+ * @returns {DataView}
+ */
+
+export function view(data: Uint8Array): DataView {
+	return new DataView(data.buffer, data.byteOffset, data.byteLength);
+}
+
+/**
+ * Get the built-in codec for an encoding.
+ * @param {String?} enc
+ * @returns {Codec}
+ * @throws on unknown encoding.
+ */
+
+export function getCodec(enc?: string): Codec {
+	switch (enc) {
+		case undefined:
+		case null:
+		case 'utf8':
+		case 'utf-8':
+			return utf8;
+		case 'hex':
+			return hex;
+		case 'base64':
+			return base64;
+		case 'ascii':
+			return ascii;
+		case 'latin1':
+		case 'binary':
+			return latin1;
+	}
+
+	throw new Error(`Unknown encoding: ${enc}.`);
+}
+
+/**
+ * Calculate the encoded size of a string.
+ * @param {String} str
+ * @param {String?} enc
+ * @returns {Number}
+ */
+
+export function byteLength(str: string, enc?: string): number {
+	if (NodeBuffer)
+		return NodeBuffer.byteLength(str, enc as BufferEncoding);
+	return getCodec(enc).byteLength(str);
+}
+
+/**
+ * Write a string into a byte array.
+ * @param {Uint8Array} dst
+ * @param {String} str
+ * @param {Number} off
+ * @param {String?} enc
+ * @returns {Number} Bytes written.
+ */
+
+export function write(dst: Uint8Array, str: string, off: number, enc?: string): number {
+	if (NodeBuffer)
+		return wrap(dst).write(str, off, dst.length - off, enc as BufferEncoding);
+	return getCodec(enc).write(dst, str, off);
+}
+
+/**
+ * Decode a byte range to a string.
+ * @param {Uint8Array} data
+ * @param {String?} enc
+ * @param {Number?} start
+ * @param {Number?} end
+ * @returns {String}
+ */
+
+export function toString(data: Uint8Array, enc?: string,
+                         start = 0, end = data.length): string {
+	if (NodeBuffer)
+		return wrap(data).toString(enc as BufferEncoding, start, end);
+	return getCodec(enc).read(data, start, end);
+}
+
+/**
+ * Encode a string to a new byte array.
+ * @param {String} str
+ * @param {String?} enc
+ * @returns {Buffer}
+ */
+
+export function fromString(str: string, enc?: string): Buffer {
+	if (NodeBuffer)
+		return NodeBuffer.from(str, enc as BufferEncoding);
+
+	const codec = getCodec(enc);
+	const data = new Uint8Array(codec.byteLength(str));
+	const size = codec.write(data, str, 0);
+
+	return data.subarray(0, size) as Buffer;
+}
+
+/*
+ * Codecs
+ */
+
+export const hex: Codec = {
+	byteLength(str: string) {
+		return str.length >>> 1;
+	},
+
+	write(dst: Uint8Array, str: string, off: number) {
+		const size = str.length >>> 1;
+
+		let i = 0;
+
+		// Stop at the first invalid pair, like node.
+		for (; i < size; i++) {
+			const hi = parseHex(str.charCodeAt(i * 2));
+			const lo = parseHex(str.charCodeAt(i * 2 + 1));
+
+			if ((hi | lo) < 0)
+				break;
+
+			dst[off + i] = (hi << 4) | lo;
+		}
+
+		return i;
+	},
+
+	read(data: Uint8Array, start: number, end: number) {
+		let str = '';
+
+		for (let i = start; i < end; i++)
+			str += HEX_TABLE[data[i]];
+
+		return str;
+	}
+};
+
+export const base64: Codec = {
+	byteLength(str: string) {
+		let len = str.length;
+
+		while (len > 0 && str.charCodeAt(len - 1) === 0x3d)
+			len -= 1;
+
+		return (len * 3) >>> 2;
+	},
+
+	write(dst: Uint8Array, str: string, off: number) {
+		const start = off;
+
+		let acc = 0;
+		let bits = 0;
+
+		for (let i = 0; i < str.length; i++) {
+			const ch = str.charCodeAt(i);
+
+			if (ch === 0x3d)
+				break;
+
+			const val = ch < 256 ? BASE64_TABLE[ch] : -1;
+
+			if (val === -1)
+				continue;
+
+			acc = ((acc << 6) | val) & 0xffffff;
+			bits += 6;
+
+			if (bits >= 8) {
+				bits -= 8;
+				dst[off++] = (acc >>> bits) & 0xff;
+			}
+		}
+
+		return off - start;
+	},
+
+	read(data: Uint8Array, start: number, end: number) {
+		let str = '';
+		let i = start;
+
+		for (; i + 3 <= end; i += 3) {
+			const n = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+			str += BASE64[n >>> 18]
+				+ BASE64[(n >>> 12) & 63]
+				+ BASE64[(n >>> 6) & 63]
+				+ BASE64[n & 63];
+		}
+
+		if (end - i === 1) {
+			const n = data[i] << 16;
+			str += BASE64[n >>> 18] + BASE64[(n >>> 12) & 63] + '==';
+		} else if (end - i === 2) {
+			const n = (data[i] << 16) | (data[i + 1] << 8);
+			str += BASE64[n >>> 18]
+				+ BASE64[(n >>> 12) & 63]
+				+ BASE64[(n >>> 6) & 63]
+				+ '=';
+		}
+
+		return str;
+	}
+};
+
+export const utf8: Codec = {
+	byteLength(str: string) {
+		let size = 0;
+
+		for (let i = 0; i < str.length; i++) {
+			const ch = str.charCodeAt(i);
+
+			if (ch < 0x80) {
+				size += 1;
+			} else if (ch < 0x800) {
+				size += 2;
+			} else if (isPair(str, i)) {
+				size += 4;
+				i += 1;
+			} else {
+				size += 3;
+			}
+		}
+
+		return size;
+	},
+
+	write(dst: Uint8Array, str: string, off: number) {
+		const start = off;
+
+		for (let i = 0; i < str.length; i++) {
+			let ch = str.charCodeAt(i);
+
+			if (ch >= 0xd800 && ch <= 0xdfff) {
+				if (isPair(str, i)) {
+					ch = 0x10000 + ((ch & 0x3ff) << 10) + (str.charCodeAt(i + 1) & 0x3ff);
+					i += 1;
+				} else {
+					ch = 0xfffd;
+				}
+			}
+
+			if (ch < 0x80) {
+				dst[off++] = ch;
+			} else if (ch < 0x800) {
+				dst[off++] = 0xc0 | (ch >>> 6);
+				dst[off++] = 0x80 | (ch & 0x3f);
+			} else if (ch < 0x10000) {
+				dst[off++] = 0xe0 | (ch >>> 12);
+				dst[off++] = 0x80 | ((ch >>> 6) & 0x3f);
+				dst[off++] = 0x80 | (ch & 0x3f);
+			} else {
+				dst[off++] = 0xf0 | (ch >>> 18);
+				dst[off++] = 0x80 | ((ch >>> 12) & 0x3f);
+				dst[off++] = 0x80 | ((ch >>> 6) & 0x3f);
+				dst[off++] = 0x80 | (ch & 0x3f);
+			}
+		}
+
+		return off - start;
+	},
+
+	read(data: Uint8Array, start: number, end: number) {
+		const codes: number[] = [];
+
+		let i = start;
+
+		while (i < end) {
+			const lead = data[i++];
+
+			if (lead < 0x80) {
+				codes.push(lead);
+				continue;
+			}
+
+			let need = 0;
+			let min = 0;
+			let ch = 0xfffd;
+
+			if (lead >= 0xc2 && lead <= 0xdf) {
+				need = 1;
+				min = 0x80;
+				ch = lead & 0x1f;
+			} else if (lead >= 0xe0 && lead <= 0xef) {
+				need = 2;
+				min = 0x800;
+				ch = lead & 0x0f;
+			} else if (lead >= 0xf0 && lead <= 0xf4) {
+				need = 3;
+				min = 0x10000;
+				ch = lead & 0x07;
+			}
+
+			let j = 0;
+
+			for (; j < need && i + j < end; j++) {
+				const next = data[i + j];
+
+				if ((next & 0xc0) !== 0x80)
+					break;
+
+				ch = (ch << 6) | (next & 0x3f);
+			}
+
+			if (j < need) {
+				// Truncated sequence.
+				ch = 0xfffd;
+				i += j;
+			} else if (ch < min || ch > 0x10ffff || (ch >= 0xd800 && ch <= 0xdfff)) {
+				// Overlong or out of range: only skip the lead byte.
+				ch = 0xfffd;
+			} else {
+				i += need;
+			}
+
+			if (ch > 0xffff) {
+				ch -= 0x10000;
+				codes.push(0xd800 | (ch >>> 10), 0xdc00 | (ch & 0x3ff));
+			} else {
+				codes.push(ch);
+			}
+		}
+
+		return fromCodes(codes);
+	}
+};
+
+export const ascii: Codec = {
+	byteLength(str: string) {
+		return str.length;
+	},
+
+	write(dst: Uint8Array, str: string, off: number) {
+		for (let i = 0; i < str.length; i++)
+			dst[off + i] = str.charCodeAt(i) & 0xff;
+		return str.length;
+	},
+
+	read(data: Uint8Array, start: number, end: number) {
+		const codes: number[] = [];
+
+		for (let i = start; i < end; i++)
+			codes.push(data[i] & 0x7f);
+
+		return fromCodes(codes);
+	}
+};
+
+export const latin1: Codec = {
+	byteLength(str: string) {
+		return str.length;
+	},
+
+	write(dst: Uint8Array, str: string, off: number) {
+		for (let i = 0; i < str.length; i++)
+			dst[off + i] = str.charCodeAt(i) & 0xff;
+		return str.length;
+	},
+
+	read(data: Uint8Array, start: number, end: number) {
+		const codes: number[] = [];
+
+		for (let i = start; i < end; i++)
+			codes.push(data[i]);
+
+		return fromCodes(codes);
+	}
+};
+
+/*
+ * Helpers
+ */
+
+function parseHex(ch: number) {
+	if (ch >= 0x30 && ch <= 0x39)
+		return ch - 0x30;
+
+	ch |= 0x20;
+
+	if (ch >= 0x61 && ch <= 0x66)
+		return ch - 0x61 + 10;
+
+	return -1;
+}
+
+function isPair(str: string, i: number) {
+	const ch = str.charCodeAt(i);
+
+	if (ch < 0xd800 || ch > 0xdbff || i + 1 >= str.length)
+		return false;
+
+	return (str.charCodeAt(i + 1) & 0xfc00) === 0xdc00;
+}
+
+function fromCodes(codes: number[]) {
+	let str = '';
+
+	// Avoid exceeding the maximum argument count.
+	for (let i = 0; i < codes.length; i += 0x1000)
+		str += String.fromCharCode.apply(null, codes.slice(i, i + 0x1000));
+
+	return str;
+}
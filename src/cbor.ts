@@ -0,0 +1,814 @@
+/*!
+ * cbor.js - concise binary object representation for bufio
+ * Copyright (c) 2018, Andrew Sun (MIT License).
+ * https://github.com/as-com/bufio
+ */
+
+'use strict';
+
+import {I64, U64} from "n64";
+import * as bytes from "./bytes";
+import EncodingError, {LimitError, NonCanonicalError, TrailingDataError} from "./error";
+import BufferReader from "./reader";
+import SizeWriter from "./sizewriter";
+import BufferWriter, {IWriter} from "./writer";
+
+/*
+ * Constants
+ */
+
+/**
+ * Major types.
+ * @enum {Number}
+ */
+
+export const types = {
+	UINT: 0,
+	NINT: 1,
+	BYTES: 2,
+	TEXT: 3,
+	ARRAY: 4,
+	MAP: 5,
+	TAG: 6,
+	SIMPLE: 7
+};
+
+const INDEFINITE = 31;
+const BREAK = 0xff;
+
+const MAX_DEPTH = 64;
+const MAX_LENGTH = 8 << 20;
+
+const U64_MAX = (1n << 64n) - 1n;
+const I64_MIN = -(1n << 63n);
+
+export interface EncodeOptions {
+	canonical?: boolean;
+	maxDepth?: number;
+}
+
+export interface DecodeOptions {
+	canonical?: boolean;
+	maxDepth?: number;
+	maxLength?: number;
+	n64?: boolean;
+	maps?: boolean;
+	tags?: {[tag: number]: (value: any) => any};
+}
+
+/**
+ * Tagged data item (major type 6).
+ */
+
+export class Tag {
+	tag: number | bigint;
+	value: any;
+
+	constructor(tag: number | bigint, value: any) {
+		this.tag = tag;
+		this.value = value;
+	}
+}
+
+/**
+ * Simple value (major type 7) with
+ * no JavaScript equivalent.
+ */
+
+export class Simple {
+	value: number;
+
+	constructor(value: number) {
+		this.value = value;
+	}
+}
+
+/**
+ * Encoder
+ */
+
+class Encoder {
+	bw: IWriter;
+	canonical: boolean;
+	maxDepth: number;
+	depth: number;
+
+	constructor(bw: IWriter, options: EncodeOptions) {
+		this.bw = bw;
+		this.canonical = options.canonical || false;
+		this.maxDepth = options.maxDepth != null ? options.maxDepth : MAX_DEPTH;
+		this.depth = 0;
+	}
+
+	enter() {
+		this.depth += 1;
+
+		if (this.depth > this.maxDepth)
+			throw new LimitError(this.bw.getSize(), 'Depth exceeds limit');
+	}
+
+	writeItem(value: any) {
+		switch (typeof value) {
+			case 'undefined':
+				this.bw.writeU8(0xf7);
+				return;
+			case 'boolean':
+				this.bw.writeU8(value ? 0xf5 : 0xf4);
+				return;
+			case 'number':
+				this.writeNumber(value);
+				return;
+			case 'bigint':
+				this.writeBigInt(value);
+				return;
+			case 'string':
+				writeHeader(this.bw, types.TEXT, bytes.byteLength(value, 'utf8'));
+				this.bw.writeString(value, 'utf8');
+				return;
+		}
+
+		if (value === null) {
+			this.bw.writeU8(0xf6);
+			return;
+		}
+
+		if (value instanceof Uint8Array) {
+			writeHeader(this.bw, types.BYTES, value.length);
+			this.bw.writeBytes(value);
+			return;
+		}
+
+		if (value instanceof U64 || value instanceof I64) {
+			this.writeBigInt(BigInt(value.toString(10)));
+			return;
+		}
+
+		if (Array.isArray(value)) {
+			writeHeader(this.bw, types.ARRAY, value.length);
+
+			this.enter();
+
+			for (const item of value)
+				this.writeItem(item);
+
+			this.depth -= 1;
+			return;
+		}
+
+		if (value instanceof Map) {
+			this.writeMap(Array.from(value));
+			return;
+		}
+
+		if (value instanceof Tag) {
+			writeHeader(this.bw, types.TAG, value.tag);
+			this.enter();
+			this.writeItem(value.value);
+			this.depth -= 1;
+			return;
+		}
+
+		if (value instanceof Simple) {
+			if ((value.value & 0xff) !== value.value
+				|| (value.value >= 24 && value.value < 32)) {
+				throw new EncodingError(this.bw.getSize(), 'Invalid simple value');
+			}
+
+			writeHeader(this.bw, types.SIMPLE, value.value);
+			return;
+		}
+
+		const proto = Object.getPrototypeOf(value);
+
+		if (proto === Object.prototype || proto === null) {
+			this.writeMap(Object.keys(value).map(key => [key, value[key]]));
+			return;
+		}
+
+		throw new EncodingError(this.bw.getSize(), 'Unsupported type');
+	}
+
+	writeNumber(num: number) {
+		if (Number.isSafeInteger(num) && !Object.is(num, -0)) {
+			if (num >= 0)
+				writeHeader(this.bw, types.UINT, num);
+			else
+				writeHeader(this.bw, types.NINT, -1 - num);
+			return;
+		}
+
+		const half = toHalf(num);
+
+		if (half !== -1) {
+			this.bw.writeU8(0xf9);
+			this.bw.writeU16BE(half);
+		} else if (Math.fround(num) === num) {
+			this.bw.writeU8(0xfa);
+			this.bw.writeFloatBE(num);
+		} else {
+			this.bw.writeU8(0xfb);
+			this.bw.writeDoubleBE(num);
+		}
+	}
+
+	writeBigInt(num: bigint) {
+		let major = types.UINT;
+
+		if (num < 0n) {
+			major = types.NINT;
+			num = -1n - num;
+		}
+
+		if (num <= U64_MAX) {
+			writeHeader(this.bw, major, num);
+			return;
+		}
+
+		let hex = num.toString(16);
+
+		if (hex.length & 1)
+			hex = '0' + hex;
+
+		const data = bytes.fromString(hex, 'hex');
+
+		writeHeader(this.bw, types.TAG, major === types.UINT ? 2 : 3);
+		writeHeader(this.bw, types.BYTES, data.length);
+		this.bw.writeBytes(data);
+	}
+
+	writeMap(entries: [any, any][]) {
+		writeHeader(this.bw, types.MAP, entries.length);
+
+		this.enter();
+
+		if (!this.canonical) {
+			for (const [key, value] of entries) {
+				this.writeItem(key);
+				this.writeItem(value);
+			}
+			this.depth -= 1;
+			return;
+		}
+
+		// Deterministic encoding (RFC 8949, section
+		// 4.2.1) sorts keys by their encoded bytes.
+		const keys: [Buffer, any][] = entries.map(([key, value]) => {
+			const enc = new Encoder(new BufferWriter(), this);
+			enc.depth = this.depth;
+			enc.writeItem(key);
+			return [enc.bw.render(), value] as [Buffer, any];
+		});
+
+		keys.sort((a, b) => bytes.compare(a[0], b[0]));
+
+		for (let i = 0; i < keys.length; i++) {
+			const [key, value] = keys[i];
+
+			if (i > 0 && bytes.compare(keys[i - 1][0], key) === 0)
+				throw new EncodingError(this.bw.getSize(), 'Duplicate map key');
+
+			this.bw.writeBytes(key);
+			this.writeItem(value);
+		}
+
+		this.depth -= 1;
+	}
+}
+
+/**
+ * Decoder
+ */
+
+class Decoder {
+	br: BufferReader;
+	canonical: boolean;
+	maxDepth: number;
+	maxLength: number;
+	n64: boolean;
+	maps: boolean;
+	tags: {[tag: number]: (value: any) => any};
+	depth: number;
+
+	constructor(br: BufferReader, options: DecodeOptions) {
+		this.br = br;
+		this.canonical = options.canonical || false;
+		this.maxDepth = options.maxDepth != null ? options.maxDepth : MAX_DEPTH;
+		this.maxLength = options.maxLength != null ? options.maxLength : MAX_LENGTH;
+		this.n64 = options.n64 || false;
+		this.maps = options.maps || false;
+		this.tags = options.tags || {};
+		this.depth = 0;
+	}
+
+	enter(off: number) {
+		this.depth += 1;
+
+		if (this.depth > this.maxDepth)
+			throw new LimitError(off, 'Depth exceeds limit');
+	}
+
+	isBreak() {
+		if (this.br.readU8() === BREAK)
+			return true;
+
+		this.br.seek(-1);
+
+		return false;
+	}
+
+	readArgument(info: number, off: number): number | bigint {
+		let value: number | bigint;
+		let min: number;
+
+		switch (info) {
+			case 24:
+				value = this.br.readU8();
+				min = 24;
+				break;
+			case 25:
+				value = this.br.readU16BE();
+				min = 0x100;
+				break;
+			case 26:
+				value = this.br.readU32BE();
+				min = 0x10000;
+				break;
+			case 27:
+				value = this.br.readU64BEBig();
+				min = 0x100000000;
+				if (value <= BigInt(Number.MAX_SAFE_INTEGER))
+					value = Number(value);
+				break;
+			default:
+				if (info < 24)
+					return info;
+				throw new EncodingError(off, 'Invalid additional info');
+		}
+
+		if (this.canonical && value < min)
+			throw new NonCanonicalError(off, 'Non-canonical argument');
+
+		return value;
+	}
+
+	readLength(info: number, off: number) {
+		const len = this.readArgument(info, off);
+
+		if (typeof len !== 'number' || len > this.maxLength)
+			throw new LimitError(off, 'Length exceeds limit');
+
+		return len;
+	}
+
+	readItem(): any {
+		const off = this.br.offset;
+		const byte = this.br.readU8();
+		const major = byte >>> 5;
+		const info = byte & 0x1f;
+
+		if (info === INDEFINITE) {
+			if (byte === BREAK)
+				throw new EncodingError(off, 'Unexpected break');
+
+			if (major < types.BYTES || major === types.TAG)
+				throw new EncodingError(off, 'Invalid additional info');
+
+			if (this.canonical)
+				throw new NonCanonicalError(off, 'Indefinite length');
+		}
+
+		switch (major) {
+			case types.UINT:
+				return this.readInt(this.readArgument(info, off), false);
+			case types.NINT:
+				return this.readInt(this.readArgument(info, off), true);
+			case types.BYTES:
+			case types.TEXT:
+				return this.readString(major, info, off);
+			case types.ARRAY:
+				return this.readArray(info, off);
+			case types.MAP:
+				return this.readMap(info, off);
+			case types.TAG:
+				return this.readTag(info, off);
+			default:
+				return this.readSimple(info, off);
+		}
+	}
+
+	readInt(value: number | bigint, neg: boolean) {
+		if (typeof value === 'number') {
+			if (!neg)
+				return value;
+
+			if (value < Number.MAX_SAFE_INTEGER)
+				return -1 - value;
+
+			value = BigInt(value);
+		}
+
+		return this.toInt(neg ? -1n - value : value);
+	}
+
+	toInt(num: bigint): any {
+		if (num >= -BigInt(Number.MAX_SAFE_INTEGER)
+			&& num <= BigInt(Number.MAX_SAFE_INTEGER)) {
+			return Number(num);
+		}
+
+		if (this.n64) {
+			if (num >= 0n && num <= U64_MAX)
+				return U64.fromString(num.toString(10), 10);
+
+			if (num < 0n && num >= I64_MIN)
+				return I64.fromString(num.toString(10), 10);
+		}
+
+		return num;
+	}
+
+	readString(major: number, info: number, off: number) {
+		if (info !== INDEFINITE) {
+			const len = this.readLength(info, off);
+
+			if (major === types.TEXT)
+				return this.br.readString('utf8', len);
+
+			return this.br.readBytes(len);
+		}
+
+		const chunks = [];
+
+		let total = 0;
+
+		while (!this.isBreak()) {
+			const start = this.br.offset;
+			const byte = this.br.readU8();
+
+			if ((byte >>> 5) !== major || (byte & 0x1f) === INDEFINITE)
+				throw new EncodingError(start, 'Invalid string chunk');
+
+			const len = this.readLength(byte & 0x1f, start);
+
+			total += len;
+
+			if (total > this.maxLength)
+				throw new LimitError(start, 'Length exceeds limit');
+
+			chunks.push(this.br.readBytes(len, true));
+		}
+
+		const data = bytes.concat(chunks);
+
+		if (major === types.TEXT)
+			return bytes.toString(data, 'utf8');
+
+		return data;
+	}
+
+	readArray(info: number, off: number) {
+		const items = [];
+
+		this.enter(off);
+
+		if (info === INDEFINITE) {
+			while (!this.isBreak()) {
+				if (items.length >= this.maxLength)
+					throw new LimitError(off, 'Length exceeds limit');
+				items.push(this.readItem());
+			}
+		} else {
+			const len = this.readLength(info, off);
+
+			for (let i = 0; i < len; i++)
+				items.push(this.readItem());
+		}
+
+		this.depth -= 1;
+
+		return items;
+	}
+
+	readMap(info: number, off: number) {
+		const entries: [any, any][] = [];
+
+		let len = -1;
+		let last: Buffer = null;
+
+		this.enter(off);
+
+		if (info !== INDEFINITE)
+			len = this.readLength(info, off);
+
+		while (len !== -1 ? entries.length < len : !this.isBreak()) {
+			if (entries.length >= this.maxLength)
+				throw new LimitError(off, 'Length exceeds limit');
+
+			const start = this.br.offset;
+			const key = this.readItem();
+
+			if (this.canonical) {
+				const raw = bytes.slice(this.br.data, start, this.br.offset);
+
+				if (last && bytes.compare(last, raw) >= 0)
+					throw new NonCanonicalError(start, 'Unsorted map key');
+
+				last = raw;
+			}
+
+			entries.push([key, this.readItem()]);
+		}
+
+		this.depth -= 1;
+
+		if (this.maps || !entries.every(([key]) => typeof key === 'string'))
+			return new Map(entries);
+
+		const obj = {};
+
+		for (const [key, value] of entries) {
+			Object.defineProperty(obj, key, {
+				value,
+				enumerable: true,
+				configurable: true,
+				writable: true
+			});
+		}
+
+		return obj;
+	}
+
+	readTag(info: number, off: number) {
+		const tag = this.readArgument(info, off);
+
+		this.enter(off);
+
+		const value = this.readItem();
+
+		this.depth -= 1;
+
+		if (tag === 2 || tag === 3) {
+			if (!(value instanceof Uint8Array))
+				throw new EncodingError(off, 'Invalid bignum');
+
+			let num = value.length > 0
+				? BigInt('0x' + bytes.toString(value, 'hex'))
+				: 0n;
+
+			if (this.canonical && (value[0] === 0 || num <= U64_MAX))
+				throw new NonCanonicalError(off, 'Non-canonical bignum');
+
+			if (tag === 3)
+				num = -1n - num;
+
+			return this.toInt(num);
+		}
+
+		if (typeof tag === 'number' && this.tags[tag])
+			return this.tags[tag](value);
+
+		return new Tag(tag, value);
+	}
+
+	readSimple(info: number, off: number) {
+		switch (info) {
+			case 20:
+				return false;
+			case 21:
+				return true;
+			case 22:
+				return null;
+			case 23:
+				return undefined;
+			case 24: {
+				const value = this.br.readU8();
+
+				if (value < 32)
+					throw new EncodingError(off, 'Invalid simple value');
+
+				return new Simple(value);
+			}
+			case 25: {
+				const half = this.br.readU16BE();
+				const num = fromHalf(half);
+
+				if (this.canonical && num !== num && half !== 0x7e00)
+					throw new NonCanonicalError(off, 'Non-canonical float');
+
+				return num;
+			}
+			case 26: {
+				const num = this.br.readFloatBE();
+
+				if (this.canonical && toHalf(num) !== -1)
+					throw new NonCanonicalError(off, 'Non-canonical float');
+
+				return num;
+			}
+			case 27: {
+				const num = this.br.readDoubleBE();
+
+				if (this.canonical && (num !== num || Math.fround(num) === num))
+					throw new NonCanonicalError(off, 'Non-canonical float');
+
+				return num;
+			}
+			default:
+				if (info < 20)
+					return new Simple(info);
+				throw new EncodingError(off, 'Invalid additional info');
+		}
+	}
+}
+
+/*
+ * API
+ */
+
+/**
+ * Encode a value as CBOR.
+ * @param {*} value
+ * @param {Object?} options
+ * @param {Boolean?} options.canonical - Sort map keys (default: false).
+ * @param {Number?} options.maxDepth - Maximum nesting depth.
+ * @returns {Buffer}
+ */
+
+export function encode(value: any, options: EncodeOptions = {}) {
+	const bw = new BufferWriter();
+	write(bw, value, options);
+	return bw.render();
+}
+
+/**
+ * Write a value as CBOR.
+ * @param {IWriter} bw
+ * @param {*} value
+ * @param {Object?} options
+ */
+
+export function write(bw: IWriter, value: any, options: EncodeOptions = {}) {
+	new Encoder(bw, options).writeItem(value);
+	return bw;
+}
+
+/**
+ * Calculate encoded size of a value.
+ * @param {*} value
+ * @param {Object?} options
+ * @returns {Number}
+ */
+
+export function size(value: any, options: EncodeOptions = {}) {
+	const sw = new SizeWriter();
+	write(sw, value, options);
+	return sw.render();
+}
+
+/**
+ * Decode a single CBOR data item, rejecting
+ * trailing data.
+ * @param {Uint8Array} data
+ * @param {Object?} options
+ * @param {Boolean?} options.canonical - Reject non-deterministic
+ * encodings (default: false).
+ * @param {Number?} options.maxDepth - Maximum nesting depth.
+ * @param {Number?} options.maxLength - Maximum string length
+ * or item count.
+ * @param {Boolean?} options.n64 - Return 64 bit integers outside
+ * of the safe range as `U64`/`I64` rather than bigint.
+ * @param {Boolean?} options.maps - Always decode maps to `Map`
+ * (default: only maps with non-string keys).
+ * @param {Object?} options.tags - Tag decoders by tag number.
+ * @returns {*}
+ */
+
+export function decode(data: Uint8Array, options: DecodeOptions = {}) {
+	const br = new BufferReader(data);
+	const value = read(br, options);
+
+	if (br.left() > 0)
+		throw new TrailingDataError(br.offset);
+
+	return value;
+}
+
+/**
+ * Read a single CBOR data item.
+ * @param {BufferReader} br
+ * @param {Object?} options
+ * @returns {*}
+ */
+
+export function read(br: BufferReader, options: DecodeOptions = {}) {
+	return new Decoder(br, options).readItem();
+}
+
+/**
+ * Write a data item header in its shortest form.
+ * @param {IWriter} bw
+ * @param {Number} major
+ * @param {Number|BigInt} value
+ */
+
+export function writeHeader(bw: IWriter, major: number, value: number | bigint) {
+	if (typeof value === 'bigint') {
+		if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+			bw.writeU8((major << 5) | 27);
+			bw.writeU64BEBig(value);
+			return bw;
+		}
+		value = Number(value);
+	}
+
+	if (value < 24) {
+		bw.writeU8((major << 5) | value);
+	} else if (value <= 0xff) {
+		bw.writeU8((major << 5) | 24);
+		bw.writeU8(value);
+	} else if (value <= 0xffff) {
+		bw.writeU8((major << 5) | 25);
+		bw.writeU16BE(value);
+	} else if (value <= 0xffffffff) {
+		bw.writeU8((major << 5) | 26);
+		bw.writeU32BE(value);
+	} else {
+		bw.writeU8((major << 5) | 27);
+		bw.writeU64BE(value);
+	}
+
+	return bw;
+}
+
+/**
+ * Write the start of an indefinite-length
+ * string, array or map.
+ * @param {IWriter} bw
+ * @param {Number} major
+ */
+
+export function writeIndefinite(bw: IWriter, major: number) {
+	bw.writeU8((major << 5) | INDEFINITE);
+	return bw;
+}
+
+/**
+ * Write a break, ending an indefinite-length item.
+ * @param {IWriter} bw
+ */
+
+export function writeBreak(bw: IWriter) {
+	bw.writeU8(BREAK);
+	return bw;
+}
+
+/*
+ * Helpers
+ */
+
+function fromHalf(half: number) {
+	const exp = (half >>> 10) & 0x1f;
+	const mant = half & 0x3ff;
+
+	let num;
+
+	if (exp === 0)
+		num = mant * 2 ** -24;
+	else if (exp !== 0x1f)
+		num = (mant + 0x400) * 2 ** (exp - 25);
+	else
+		num = mant === 0 ? Infinity : NaN;
+
+	return half & 0x8000 ? -num : num;
+}
+
+function toHalf(num: number) {
+	if (num !== num)
+		return 0x7e00;
+
+	const sign = num < 0 || Object.is(num, -0) ? 0x8000 : 0;
+	const abs = Math.abs(num);
+
+	if (abs === 0)
+		return sign;
+
+	if (abs === Infinity)
+		return sign | 0x7c00;
+
+	if (abs < 2 ** -24 || abs > 65504)
+		return -1;
+
+	let half;
+
+	if (abs < 2 ** -14) {
+		half = abs * 2 ** 24;
+	} else {
+		const exp = Math.floor(Math.log2(abs));
+		half = ((exp + 15) << 10) + (abs / 2 ** exp - 1) * 0x400;
+	}
+
+	if (half % 1 !== 0 || fromHalf(half) !== abs)
+		return -1;
+
+	return sign | half;
+}
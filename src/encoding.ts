@@ -9,7 +9,9 @@
 
 import {I64, U64} from "n64";
 
-import EncodingError from "./error";
+import * as bytes from "./bytes";
+import EncodingError, {LimitError, NonCanonicalError, OutOfBoundsError} from "./error";
+
 /*
  * Constants
  */
@@ -17,226 +19,495 @@ import EncodingError from "./error";
 const BASE128_MAX = U64.UINT64_MAX.shrn(7);
 const {MAX_SAFE_INTEGER} = Number;
 
+const U64_MAX = (1n << 64n) - 1n;
+const I64_MAX = (1n << 63n) - 1n;
+const I64_MIN = -(1n << 63n);
+const BASE128_MAX_BIG = U64_MAX >> 7n;
+const MAX_SAFE_BIG = BigInt(MAX_SAFE_INTEGER);
+
 /*
  * Module
  */
 
+/**
+ * Read uint16le.
+ * @param {Uint8Array} data
+ * @param {Number} off
+ * @returns {Number}
+ */
+
+export function readU16(data: Uint8Array, off: number) {
+	return data[off] | (data[off + 1] << 8);
+}
+
+/**
+ * Read uint16be.
+ * @param {Uint8Array} data
+ * @param {Number} off
+ * @returns {Number}
+ */
+
+export function readU16BE(data: Uint8Array, off: number) {
+	return (data[off] << 8) | data[off + 1];
+}
+
+/**
+ * Read uint32le.
+ * @param {Uint8Array} data
+ * @param {Number} off
+ * @returns {Number}
+ */
+
+export function readU32(data: Uint8Array, off: number) {
+	return (data[off]
+		| (data[off + 1] << 8)
+		| (data[off + 2] << 16)) + data[off + 3] * 0x1000000;
+}
+
+/**
+ * Read uint32be.
+ * @param {Uint8Array} data
+ * @param {Number} off
+ * @returns {Number}
+ */
+
+export function readU32BE(data: Uint8Array, off: number) {
+	return data[off] * 0x1000000
+		+ ((data[off + 1] << 16)
+		| (data[off + 2] << 8)
+		| data[off + 3]);
+}
+
+/**
+ * Read int32le.
+ * @param {Uint8Array} data
+ * @param {Number} off
+ * @returns {Number}
+ */
+
+export function readI32(data: Uint8Array, off: number) {
+	return data[off]
+		| (data[off + 1] << 8)
+		| (data[off + 2] << 16)
+		| (data[off + 3] << 24);
+}
+
+/**
+ * Read int32be.
+ * @param {Uint8Array} data
+ * @param {Number} off
+ * @returns {Number}
+ */
+
+export function readI32BE(data: Uint8Array, off: number) {
+	return (data[off] << 24)
+		| (data[off + 1] << 16)
+		| (data[off + 2] << 8)
+		| data[off + 3];
+}
+
+/**
+ * Write uint16le (or int16le).
+ * @param {Uint8Array} dst
+ * @param {Number} num
+ * @param {Number} off
+ * @returns {Number} Buffer offset.
+ */
+
+export function writeU16(dst: Uint8Array, num: number, off: number) {
+	dst[off++] = num;
+	dst[off++] = num >>> 8;
+	return off;
+}
+
+/**
+ * Write uint16be (or int16be).
+ * @param {Uint8Array} dst
+ * @param {Number} num
+ * @param {Number} off
+ * @returns {Number} Buffer offset.
+ */
+
+export function writeU16BE(dst: Uint8Array, num: number, off: number) {
+	dst[off++] = num >>> 8;
+	dst[off++] = num;
+	return off;
+}
+
+/**
+ * Write uint32le (or int32le).
+ * @param {Uint8Array} dst
+ * @param {Number} num
+ * @param {Number} off
+ * @returns {Number} Buffer offset.
+ */
+
+export function writeU32(dst: Uint8Array, num: number, off: number) {
+	dst[off++] = num;
+	dst[off++] = num >>> 8;
+	dst[off++] = num >>> 16;
+	dst[off++] = num >>> 24;
+	return off;
+}
+
+/**
+ * Write uint32be (or int32be).
+ * @param {Uint8Array} dst
+ * @param {Number} num
+ * @param {Number} off
+ * @returns {Number} Buffer offset.
+ */
+
+export function writeU32BE(dst: Uint8Array, num: number, off: number) {
+	dst[off++] = num >>> 24;
+	dst[off++] = num >>> 16;
+	dst[off++] = num >>> 8;
+	dst[off++] = num;
+	return off;
+}
+
 /**
  * Read uint64le as a js number.
- * @param {Buffer} data
+ * @param {Uint8Array} data
  * @param {Number} off
  * @returns {Number}
  * @throws on num > MAX_SAFE_INTEGER
  */
 
-export function readU64(data: Buffer, off: number) {
-	const hi = data.readUInt32LE(off + 4, true);
-	const lo = data.readUInt32LE(off, true);
-	enforce((hi & 0xffe00000) === 0, off, 'Number exceeds 2^53-1');
+export function readU64(data: Uint8Array, off: number) {
+	check(off + 8 <= data.length, off);
+	const hi = readU32(data, off + 4);
+	const lo = readU32(data, off);
+	limit((hi & 0xffe00000) === 0, off, 'Number exceeds 2^53-1');
 	return hi * 0x100000000 + lo;
 }
 
 /**
  * Read uint64be as a js number.
- * @param {Buffer} data
+ * @param {Uint8Array} data
  * @param {Number} off
  * @returns {Number}
  * @throws on num > MAX_SAFE_INTEGER
  */
 
-export function readU64BE(data: Buffer, off: number) {
-	const hi = data.readUInt32BE(off, true);
-	const lo = data.readUInt32BE(off + 4, true);
-	enforce((hi & 0xffe00000) === 0, off, 'Number exceeds 2^53-1');
+export function readU64BE(data: Uint8Array, off: number) {
+	check(off + 8 <= data.length, off);
+	const hi = readU32BE(data, off);
+	const lo = readU32BE(data, off + 4);
+	limit((hi & 0xffe00000) === 0, off, 'Number exceeds 2^53-1');
 	return hi * 0x100000000 + lo;
 }
 
 /**
  * Read int64be as a js number.
- * @param {Buffer} data
+ * @param {Uint8Array} data
  * @param {Number} off
  * @returns {Number}
  * @throws on num > MAX_SAFE_INTEGER
  */
 
-export function readI64(data: Buffer, off: number) {
-	const hi = data.readInt32LE(off + 4, true);
-	const lo = data.readUInt32LE(off, true);
-	enforce(isSafe(hi, lo), 'Number exceeds 2^53-1');
+export function readI64(data: Uint8Array, off: number) {
+	check(off + 8 <= data.length, off);
+	const hi = readI32(data, off + 4);
+	const lo = readU32(data, off);
+	limit(isSafe(hi, lo), off, 'Number exceeds 2^53-1');
 	return hi * 0x100000000 + lo;
 }
 
 /**
  * Read int64be as a js number.
- * @param {Buffer} data
+ * @param {Uint8Array} data
  * @param {Number} off
  * @returns {Number}
  * @throws on num > MAX_SAFE_INTEGER
  */
 
-export function readI64BE(data: Buffer, off: number) {
-	const hi = data.readInt32BE(off, true);
-	const lo = data.readUInt32BE(off + 4, true);
-	enforce(isSafe(hi, lo), 'Number exceeds 2^53-1');
+export function readI64BE(data: Uint8Array, off: number) {
+	check(off + 8 <= data.length, off);
+	const hi = readI32BE(data, off);
+	const lo = readU32BE(data, off + 4);
+	limit(isSafe(hi, lo), off, 'Number exceeds 2^53-1');
 	return hi * 0x100000000 + lo;
 }
 
 /**
  * Write a javascript number as a uint64le.
- * @param {Buffer} dst
+ * @param {Uint8Array} dst
  * @param {Number} num
  * @param {Number} off
  * @returns {Number} Buffer offset.
  * @throws on num > MAX_SAFE_INTEGER
  */
 
-export function writeU64(dst: Buffer, num: number, off: number) {
+export function writeU64(dst: Uint8Array, num: number, off: number) {
 	return write64(dst, num, off, false);
 }
 
 /**
  * Write a javascript number as a uint64be.
- * @param {Buffer} dst
+ * @param {Uint8Array} dst
  * @param {Number} num
  * @param {Number} off
  * @returns {Number} Buffer offset.
  * @throws on num > MAX_SAFE_INTEGER
  */
 
-export function writeU64BE(dst: Buffer, num: number, off: number) {
+export function writeU64BE(dst: Uint8Array, num: number, off: number) {
 	return write64(dst, num, off, true);
 }
 
 /**
  * Write a javascript number as an int64le.
- * @param {Buffer} dst
+ * @param {Uint8Array} dst
  * @param {Number} num
  * @param {Number} off
  * @returns {Number} Buffer offset.
  * @throws on num > MAX_SAFE_INTEGER
  */
 
-export function writeI64(dst: Buffer, num: number, off: number) {
+export function writeI64(dst: Uint8Array, num: number, off: number) {
 	return write64(dst, num, off, false);
 }
 
 /**
  * Write a javascript number as an int64be.
- * @param {Buffer} dst
+ * @param {Uint8Array} dst
  * @param {Number} num
  * @param {Number} off
  * @returns {Number} Buffer offset.
  * @throws on num > MAX_SAFE_INTEGER
  */
 
-export function writeI64BE(dst: Buffer, num: number, off: number) {
+export function writeI64BE(dst: Uint8Array, num: number, off: number) {
 	return write64(dst, num, off, true);
 }
 
 /**
  * Read uint64le.
- * @param {Buffer} data
+ * @param {Uint8Array} data
  * @param {Number} off
  * @returns {U64}
  */
 
-export function readU64N(data: Buffer, off: number) {
+export function readU64N(data: Uint8Array, off: number) {
+	check(off + 8 <= data.length, off);
 	return U64.readLE(data, off);
 }
 
 /**
  * Read uint64be.
- * @param {Buffer} data
+ * @param {Uint8Array} data
  * @param {Number} off
  * @returns {U64}
  */
 
-export function readU64BEN(data: Buffer, off: number) {
+export function readU64BEN(data: Uint8Array, off: number) {
+	check(off + 8 <= data.length, off);
 	return U64.readBE(data, off);
 }
 
 /**
  * Read int64le.
- * @param {Buffer} data
+ * @param {Uint8Array} data
  * @param {Number} off
  * @returns {I64}
  */
 
-export function readI64N(data: Buffer, off: number) {
+export function readI64N(data: Uint8Array, off: number) {
+	check(off + 8 <= data.length, off);
 	return I64.readLE(data, off);
 }
 
 /**
  * Read int64be.
- * @param {Buffer} data
+ * @param {Uint8Array} data
  * @param {Number} off
  * @returns {I64}
  */
 
-export function readI64BEN(data: Buffer, off: number) {
+export function readI64BEN(data: Uint8Array, off: number) {
+	check(off + 8 <= data.length, off);
 	return I64.readBE(data, off);
 }
 
 /**
  * Write uint64le.
- * @param {Buffer} dst
+ * @param {Uint8Array} dst
  * @param {U64} num
  * @param {Number} off
  * @returns {Number} Buffer offset.
  */
 
-export function writeU64N(dst: Buffer, num: U64, off: number): number {
+export function writeU64N(dst: Uint8Array, num: U64, off: number): number {
 	enforce(!num.sign, off, 'Signed');
+	checkWrite(off + 8 <= dst.length, off);
 	return num.writeLE(dst, off);
 }
 
 /**
  * Write uint64be.
- * @param {Buffer} dst
+ * @param {Uint8Array} dst
  * @param {U64} num
  * @param {Number} off
  * @returns {Number} Buffer offset.
  */
 
-export function writeU64BEN(dst: Buffer, num: U64, off: number) {
+export function writeU64BEN(dst: Uint8Array, num: U64, off: number) {
 	enforce(!num.sign, off, 'Signed');
+	checkWrite(off + 8 <= dst.length, off);
 	return num.writeBE(dst, off);
 }
 
 /**
  * Write int64le.
- * @param {Buffer} dst
+ * @param {Uint8Array} dst
  * @param {U64} num
  * @param {Number} off
  * @returns {Number} Buffer offset.
  */
 
-export function writeI64N(dst: Buffer, num: U64, off: number) {
+export function writeI64N(dst: Uint8Array, num: U64, off: number) {
 	enforce(num.sign, off, 'Not signed');
+	checkWrite(off + 8 <= dst.length, off);
 	return num.writeLE(dst, off);
 }
 
 /**
  * Write int64be.
- * @param {Buffer} dst
+ * @param {Uint8Array} dst
  * @param {I64} num
  * @param {Number} off
  * @returns {Number} Buffer offset.
  */
 
-export function writeI64BEN(dst: Buffer, num: I64, off: number) {
+export function writeI64BEN(dst: Uint8Array, num: I64, off: number) {
 	enforce(num.sign, off, 'Not signed');
+	checkWrite(off + 8 <= dst.length, off);
 	return num.writeBE(dst, off);
 }
 
+/**
+ * Read uint64le as a bigint.
+ * @param {Uint8Array} data
+ * @param {Number} off
+ * @returns {BigInt}
+ */
+
+export function readU64Big(data: Uint8Array, off: number): bigint {
+	check(off + 8 <= data.length, off);
+	const hi = readU32(data, off + 4);
+	const lo = readU32(data, off);
+	return (BigInt(hi) << 32n) | BigInt(lo);
+}
+
+/**
+ * Read uint64be as a bigint.
+ * @param {Uint8Array} data
+ * @param {Number} off
+ * @returns {BigInt}
+ */
+
+export function readU64BEBig(data: Uint8Array, off: number): bigint {
+	check(off + 8 <= data.length, off);
+	const hi = readU32BE(data, off);
+	const lo = readU32BE(data, off + 4);
+	return (BigInt(hi) << 32n) | BigInt(lo);
+}
+
+/**
+ * Read int64le as a bigint.
+ * @param {Uint8Array} data
+ * @param {Number} off
+ * @returns {BigInt}
+ */
+
+export function readI64Big(data: Uint8Array, off: number): bigint {
+	check(off + 8 <= data.length, off);
+	const hi = readI32(data, off + 4);
+	const lo = readU32(data, off);
+	return (BigInt(hi) << 32n) | BigInt(lo);
+}
+
+/**
+ * Read int64be as a bigint.
+ * @param {Uint8Array} data
+ * @param {Number} off
+ * @returns {BigInt}
+ */
+
+export function readI64BEBig(data: Uint8Array, off: number): bigint {
+	check(off + 8 <= data.length, off);
+	const hi = readI32BE(data, off);
+	const lo = readU32BE(data, off + 4);
+	return (BigInt(hi) << 32n) | BigInt(lo);
+}
+
+/**
+ * Write a bigint as a uint64le.
+ * @param {Uint8Array} dst
+ * @param {BigInt} num
+ * @param {Number} off
+ * @returns {Number} Buffer offset.
+ * @throws on num < 0 or num > 2^64-1
+ */
+
+export function writeU64Big(dst: Uint8Array, num: bigint, off: number) {
+	enforce(num >= 0n, off, 'Signed');
+	limit(num <= U64_MAX, off, 'Number exceeds 2^64-1');
+	return write64Big(dst, num, off, false);
+}
+
+/**
+ * Write a bigint as a uint64be.
+ * @param {Uint8Array} dst
+ * @param {BigInt} num
+ * @param {Number} off
+ * @returns {Number} Buffer offset.
+ * @throws on num < 0 or num > 2^64-1
+ */
+
+export function writeU64BEBig(dst: Uint8Array, num: bigint, off: number) {
+	enforce(num >= 0n, off, 'Signed');
+	limit(num <= U64_MAX, off, 'Number exceeds 2^64-1');
+	return write64Big(dst, num, off, true);
+}
+
+/**
+ * Write a bigint as an int64le.
+ * @param {Uint8Array} dst
+ * @param {BigInt} num
+ * @param {Number} off
+ * @returns {Number} Buffer offset.
+ * @throws on num outside of [-2^63, 2^63-1]
+ */
+
+export function writeI64Big(dst: Uint8Array, num: bigint, off: number) {
+	limit(num >= I64_MIN && num <= I64_MAX, off, 'Number exceeds 2^63-1');
+	return write64Big(dst, num, off, false);
+}
+
+/**
+ * Write a bigint as an int64be.
+ * @param {Uint8Array} dst
+ * @param {BigInt} num
+ * @param {Number} off
+ * @returns {Number} Buffer offset.
+ * @throws on num outside of [-2^63, 2^63-1]
+ */
+
+export function writeI64BEBig(dst: Uint8Array, num: bigint, off: number) {
+	limit(num >= I64_MIN && num <= I64_MAX, off, 'Number exceeds 2^63-1');
+	return write64Big(dst, num, off, true);
+}
+
 /**
  * Read a varint.
- * @param {Buffer} data
+ * @param {Uint8Array} data
  * @param {Number} off
  * @returns {Object}
  */
 
-export function readVarint(data: Buffer, off: number): Varint {
+export function readVarint(data: Uint8Array, off: number): Varint {
 	let value, size;
 
 	check(off < data.length, off);
@@ -246,19 +517,19 @@ export function readVarint(data: Buffer, off: number): Varint {
 			size = 9;
 			check(off + size <= data.length, off);
 			value = readU64(data, off + 1);
-			enforce(value > 0xffffffff, off, 'Non-canonical varint');
+			canonical(value > 0xffffffff, off);
 			break;
 		case 0xfe:
 			size = 5;
 			check(off + size <= data.length, off);
-			value = data.readUInt32LE(off + 1, true);
-			enforce(value > 0xffff, off, 'Non-canonical varint');
+			value = readU32(data, off + 1);
+			canonical(value > 0xffff, off);
 			break;
 		case 0xfd:
 			size = 3;
 			check(off + size <= data.length, off);
 			value = data[off + 1] | (data[off + 2] << 8);
-			enforce(value >= 0xfd, off, 'Non-canonical varint');
+			canonical(value >= 0xfd, off);
 			break;
 		default:
 			size = 1;
@@ -271,13 +542,15 @@ export function readVarint(data: Buffer, off: number): Varint {
 
 /**
  * Write a varint.
- * @param {Buffer} dst
+ * @param {Uint8Array} dst
  * @param {Number} num
  * @param {Number} off
  * @returns {Number} Buffer offset.
  */
 
-export function writeVarint(dst: Buffer, num: number, off: number) {
+export function writeVarint(dst: Uint8Array, num: number, off: number) {
+	checkWrite(off + sizeVarint(num) <= dst.length, off);
+
 	if (num < 0xfd) {
 		dst[off++] = num & 0xff;
 		return off;
@@ -325,19 +598,19 @@ export function sizeVarint(num: number) {
 
 /**
  * Read a varint.
- * @param {Buffer} data
+ * @param {Uint8Array} data
  * @param {Number} off
  * @returns {Object}
  */
 
-export function readVarintN(data: Buffer, off: number): Varint {
+export function readVarintN(data: Uint8Array, off: number): Varint {
 	check(off < data.length, off);
 
 	if (data[off] === 0xff) {
 		const size = 9;
 		check(off + size <= data.length, off);
 		const value = readU64N(data, off + 1);
-		enforce(value.hi !== 0, off, 'Non-canonical varint');
+		canonical(value.hi !== 0, off);
 		return new Varint(size, value);
 	}
 
@@ -348,16 +621,17 @@ export function readVarintN(data: Buffer, off: number): Varint {
 
 /**
  * Write a varint.
- * @param {Buffer} dst
+ * @param {Uint8Array} dst
  * @param {U64} num
  * @param {Number} off
  * @returns {Number} Buffer offset.
  */
 
-export function writeVarintN(dst: Buffer, num: U64, off: number): number {
+export function writeVarintN(dst: Uint8Array, num: U64, off: number): number {
 	enforce(!num.sign, off, 'Signed');
 
 	if (num.hi !== 0) {
+		checkWrite(off + 9 <= dst.length, off);
 		dst[off++] = 0xff;
 		return writeU64N(dst, num, off);
 	}
@@ -380,14 +654,72 @@ export function sizeVarintN(num: U64) {
 	return sizeVarint(num.toInt());
 }
 
+/**
+ * Read a varint.
+ * @param {Uint8Array} data
+ * @param {Number} off
+ * @returns {Object}
+ */
+
+export function readVarintBig(data: Uint8Array, off: number): Varint {
+	check(off < data.length, off);
+
+	if (data[off] === 0xff) {
+		const size = 9;
+		check(off + size <= data.length, off);
+		const value = readU64Big(data, off + 1);
+		canonical(value > 0xffffffffn, off);
+		return new Varint(size, value);
+	}
+
+	const {size, value} = readVarint(data, off);
+
+	return new Varint(size, BigInt(value as number));
+}
+
+/**
+ * Write a varint.
+ * @param {Uint8Array} dst
+ * @param {BigInt} num
+ * @param {Number} off
+ * @returns {Number} Buffer offset.
+ */
+
+export function writeVarintBig(dst: Uint8Array, num: bigint, off: number): number {
+	enforce(num >= 0n, off, 'Signed');
+
+	if (num > 0xffffffffn) {
+		checkWrite(off + 9 <= dst.length, off);
+		dst[off++] = 0xff;
+		return writeU64Big(dst, num, off);
+	}
+
+	return writeVarint(dst, Number(num), off);
+}
+
+/**
+ * Calculate size of varint.
+ * @param {BigInt} num
+ * @returns {Number} size
+ */
+
+export function sizeVarintBig(num: bigint) {
+	enforce(num >= 0n, 0, 'Signed');
+
+	if (num > 0xffffffffn)
+		return 9;
+
+	return sizeVarint(Number(num));
+}
+
 /**
  * Read a varint (type 2).
- * @param {Buffer} data
+ * @param {Uint8Array} data
  * @param {Number} off
  * @returns {Object}
  */
 
-export function readVarint2(data: Buffer, off: number) {
+export function readVarint2(data: Uint8Array, off: number) {
 	let num = 0;
 	let size = 0;
 
@@ -398,7 +730,7 @@ export function readVarint2(data: Buffer, off: number) {
 		size += 1;
 
 		// Number.MAX_SAFE_INTEGER >>> 7
-		enforce(num <= 0x3fffffffffff - (ch & 0x7f), off, 'Number exceeds 2^53-1');
+		limit(num <= 0x3fffffffffff - (ch & 0x7f), off, 'Number exceeds 2^53-1');
 
 		// num = (num << 7) | (ch & 0x7f);
 		num = (num * 0x80) + (ch & 0x7f);
@@ -406,7 +738,7 @@ export function readVarint2(data: Buffer, off: number) {
 		if ((ch & 0x80) === 0)
 			break;
 
-		enforce(num !== MAX_SAFE_INTEGER, off, 'Number exceeds 2^53-1');
+		limit(num !== MAX_SAFE_INTEGER, off, 'Number exceeds 2^53-1');
 		num += 1;
 	}
 
@@ -415,13 +747,13 @@ export function readVarint2(data: Buffer, off: number) {
 
 /**
  * Write a varint (type 2).
- * @param {Buffer} dst
+ * @param {Uint8Array} dst
  * @param {Number} num
  * @param {Number} off
  * @returns {Number} Buffer offset.
  */
 
-export function writeVarint2(dst: Buffer, num: number, off: number) {
+export function writeVarint2(dst: Uint8Array, num: number, off: number) {
 	const tmp = [];
 
 	let len = 0;
@@ -435,7 +767,7 @@ export function writeVarint2(dst: Buffer, num: number, off: number) {
 		len += 1;
 	}
 
-	check(off + len + 1 <= dst.length, off);
+	checkWrite(off + len + 1 <= dst.length, off);
 
 	do {
 		dst[off++] = tmp[len];
@@ -466,12 +798,12 @@ export function sizeVarint2(num: number) {
 
 /**
  * Read a varint (type 2).
- * @param {Buffer} data
+ * @param {Uint8Array} data
  * @param {Number} off
  * @returns {Object}
  */
 
-export function readVarint2N(data: Buffer, off: number) {
+export function readVarint2N(data: Uint8Array, off: number) {
 	const num = new U64();
 
 	let size = 0;
@@ -482,14 +814,14 @@ export function readVarint2N(data: Buffer, off: number) {
 		const ch = data[off++];
 		size += 1;
 
-		enforce(num.lte(BASE128_MAX), off, 'Number exceeds 2^64-1');
+		limit(num.lte(BASE128_MAX), off, 'Number exceeds 2^64-1');
 
 		num.ishln(7).iorn(ch & 0x7f);
 
 		if ((ch & 0x80) === 0)
 			break;
 
-		enforce(!num.eq(U64.UINT64_MAX), off, 'Number exceeds 2^64-1');
+		limit(!num.eq(U64.UINT64_MAX), off, 'Number exceeds 2^64-1');
 		num.iaddn(1);
 	}
 
@@ -498,13 +830,13 @@ export function readVarint2N(data: Buffer, off: number) {
 
 /**
  * Write a varint (type 2).
- * @param {Buffer} dst
+ * @param {Uint8Array} dst
  * @param {U64} num
  * @param {Number} off
  * @returns {Number} Buffer offset.
  */
 
-export function writeVarint2N(dst: Buffer, num: U64, off: number) {
+export function writeVarint2N(dst: Uint8Array, num: U64, off: number) {
 	enforce(!num.sign, off, 'Signed');
 
 	if (num.hi === 0)
@@ -524,7 +856,7 @@ export function writeVarint2N(dst: Buffer, num: U64, off: number) {
 		len += 1;
 	}
 
-	enforce(off + len + 1 <= dst.length, off, 'Out of bounds write');
+	checkWrite(off + len + 1 <= dst.length, off);
 
 	do {
 		dst[off++] = tmp[len];
@@ -560,99 +892,743 @@ export function sizeVarint2N(num: U64) {
 }
 
 /**
- * Get size of varint-prefixed bytes.
- * @param {Buffer} data
- * @returns {Number}
+ * Read a varint (type 2).
+ * @param {Uint8Array} data
+ * @param {Number} off
+ * @returns {Object}
  */
 
-export function sizeVarBytes(data: Buffer): number {
-	return sizeVarint(data.length) + data.length;
-}
+export function readVarint2Big(data: Uint8Array, off: number) {
+	let num = 0n;
+	let size = 0;
 
-/**
- * Get size of varint-prefixed length.
- * @param {Number} len
- * @returns {Number}
- */
+	for (; ;) {
+		check(off < data.length, off);
 
-export function sizeVarlen(len: number) {
-	return sizeVarint(len) + len;
-}
+		const ch = data[off++];
+		size += 1;
 
-/**
- * Get size of varint-prefixed string.
- * @param {String} str
- * @param {String} enc
- * @returns {Number}
- */
+		limit(num <= BASE128_MAX_BIG, off, 'Number exceeds 2^64-1');
 
-export function sizeVarString(str: string | Buffer, enc: string): number {
-	if (typeof str !== 'string')
-		return sizeVarBytes(str);
+		num = (num << 7n) | BigInt(ch & 0x7f);
 
-	const len = Buffer.byteLength(str, enc);
+		if ((ch & 0x80) === 0)
+			break;
 
-	return sizeVarint(len) + len;
+		limit(num !== U64_MAX, off, 'Number exceeds 2^64-1');
+		num += 1n;
+	}
+
+	return new Varint(size, num);
 }
 
-/*
- * Helpers
+/**
+ * Write a varint (type 2).
+ * @param {Uint8Array} dst
+ * @param {BigInt} num
+ * @param {Number} off
+ * @returns {Number} Buffer offset.
  */
 
-function isSafe(hi: number, lo: number) {
-	if (hi < 0) {
-		hi = ~hi;
-		if (lo === 0)
-			hi += 1;
-	}
-
-	return (hi & 0xffe00000) === 0;
-}
+export function writeVarint2Big(dst: Uint8Array, num: bigint, off: number) {
+	enforce(num >= 0n, off, 'Signed');
+	limit(num <= U64_MAX, off, 'Number exceeds 2^64-1');
 
-function write64(dst: Buffer, num: number, off: number, be: boolean) {
-	let neg = false;
+	if (num <= 0xffffffffn)
+		return writeVarint2(dst, Number(num), off);
 
-	if (num < 0) {
-		num = -num;
-		neg = true;
-	}
+	const tmp = [];
 
-	let hi = (num * (1 / 0x100000000)) | 0;
-	let lo = num | 0;
+	let len = 0;
 
-	if (neg) {
-		if (lo === 0) {
-			hi = (~hi + 1) | 0;
-		} else {
-			hi = ~hi;
-			lo = ~lo + 1;
-		}
+	for (; ;) {
+		tmp[len] = Number(num & 0x7fn) | (len ? 0x80 : 0x00);
+		if (num <= 0x7fn)
+			break;
+		num = (num >> 7n) - 1n;
+		len += 1;
 	}
 
-	if (be) {
-		off = dst.writeInt32BE(hi, off, true);
-		off = dst.writeInt32BE(lo, off, true);
-	} else {
-		off = dst.writeInt32LE(lo, off, true);
-		off = dst.writeInt32LE(hi, off, true);
-	}
+	checkWrite(off + len + 1 <= dst.length, off);
+
+	do {
+		dst[off++] = tmp[len];
+	} while (len--);
 
 	return off;
 }
 
-export class Varint {
-	size: number;
-	value: number | U64;
+/**
+ * Calculate size of varint (type 2).
+ * @param {BigInt} num
+ * @returns {Number} size
+ */
 
-	constructor(size: number, value: number | U64) {
-		this.size = size;
-		this.value = value;
+export function sizeVarint2Big(num: bigint) {
+	enforce(num >= 0n, 0, 'Signed');
+
+	if (num <= 0xffffffffn)
+		return sizeVarint2(Number(num));
+
+	let size = 0;
+
+	for (; ;) {
+		size += 1;
+		if (num <= 0x7fn)
+			break;
+		num = (num >> 7n) - 1n;
+	}
+
+	return size;
+}
+
+/**
+ * Read an unsigned LEB128 varint.
+ * @param {Uint8Array} data
+ * @param {Number} off
+ * @returns {Object}
+ */
+
+export function readULEB128(data: Uint8Array, off: number) {
+	const start = off;
+
+	let num = 0;
+	let mul = 1;
+	let size = 0;
+	let ch;
+
+	for (; ;) {
+		check(off < data.length, off);
+
+		ch = data[off++];
+		size += 1;
+
+		num += (ch & 0x7f) * mul;
+		mul *= 0x80;
+
+		if ((ch & 0x80) === 0)
+			break;
+
+		limit(size < 10, start, 'Number exceeds 2^53-1');
+	}
+
+	canonical(size === 1 || ch !== 0x00, start);
+	limit(num <= MAX_SAFE_INTEGER, start, 'Number exceeds 2^53-1');
+
+	return new Varint(size, num);
+}
+
+/**
+ * Write an unsigned LEB128 varint.
+ * @param {Uint8Array} dst
+ * @param {Number} num
+ * @param {Number} off
+ * @returns {Number} Buffer offset.
+ */
+
+export function writeULEB128(dst: Uint8Array, num: number, off: number) {
+	enforce(Number.isSafeInteger(num), off, 'Number exceeds 2^53-1');
+	enforce(num >= 0, off, 'Signed');
+	checkWrite(off + sizeULEB128(num) <= dst.length, off);
+
+	for (; ;) {
+		const ch = num % 0x80;
+
+		num = (num - ch) / 0x80;
+
+		if (num === 0) {
+			dst[off++] = ch;
+			break;
+		}
+
+		dst[off++] = ch | 0x80;
+	}
+
+	return off;
+}
+
+/**
+ * Calculate size of an unsigned LEB128 varint.
+ * @param {Number} num
+ * @returns {Number} size
+ */
+
+export function sizeULEB128(num: number) {
+	enforce(num >= 0, 0, 'Signed');
+
+	let size = 1;
+
+	while (num > 0x7f) {
+		num = Math.floor(num / 0x80);
+		size += 1;
+	}
+
+	return size;
+}
+
+/**
+ * Read an unsigned LEB128 varint.
+ * @param {Uint8Array} data
+ * @param {Number} off
+ * @returns {Object}
+ */
+
+export function readULEB128N(data: Uint8Array, off: number) {
+	const {size, value} = readULEB128Big(data, off);
+	return new Varint(size, U64.fromString(value.toString(10), 10));
+}
+
+/**
+ * Write an unsigned LEB128 varint.
+ * @param {Uint8Array} dst
+ * @param {U64} num
+ * @param {Number} off
+ * @returns {Number} Buffer offset.
+ */
+
+export function writeULEB128N(dst: Uint8Array, num: U64, off: number) {
+	enforce(!num.sign, off, 'Signed');
+	return writeULEB128Big(dst, BigInt(num.toString(10)), off);
+}
+
+/**
+ * Calculate size of an unsigned LEB128 varint.
+ * @param {U64} num
+ * @returns {Number} size
+ */
+
+export function sizeULEB128N(num: U64) {
+	enforce(!num.sign, 0, 'Signed');
+	return sizeULEB128Big(BigInt(num.toString(10)));
+}
+
+/**
+ * Read an unsigned LEB128 varint.
+ * @param {Uint8Array} data
+ * @param {Number} off
+ * @returns {Object}
+ */
+
+export function readULEB128Big(data: Uint8Array, off: number) {
+	const start = off;
+
+	let num = 0n;
+	let shift = 0n;
+	let size = 0;
+	let ch;
+
+	for (; ;) {
+		check(off < data.length, off);
+
+		ch = data[off++];
+		size += 1;
+
+		num |= BigInt(ch & 0x7f) << shift;
+		shift += 7n;
+
+		if ((ch & 0x80) === 0)
+			break;
+
+		limit(size < 10, start, 'Number exceeds 2^64-1');
+	}
+
+	canonical(size === 1 || ch !== 0x00, start);
+	limit(num <= U64_MAX, start, 'Number exceeds 2^64-1');
+
+	return new Varint(size, num);
+}
+
+/**
+ * Write an unsigned LEB128 varint.
+ * @param {Uint8Array} dst
+ * @param {BigInt} num
+ * @param {Number} off
+ * @returns {Number} Buffer offset.
+ */
+
+export function writeULEB128Big(dst: Uint8Array, num: bigint, off: number) {
+	limit(num <= U64_MAX, off, 'Number exceeds 2^64-1');
+	checkWrite(off + sizeULEB128Big(num) <= dst.length, off);
+
+	for (; ;) {
+		const ch = Number(num & 0x7fn);
+
+		num >>= 7n;
+
+		if (num === 0n) {
+			dst[off++] = ch;
+			break;
+		}
+
+		dst[off++] = ch | 0x80;
+	}
+
+	return off;
+}
+
+/**
+ * Calculate size of an unsigned LEB128 varint.
+ * @param {BigInt} num
+ * @returns {Number} size
+ */
+
+export function sizeULEB128Big(num: bigint) {
+	enforce(num >= 0n, 0, 'Signed');
+
+	let size = 1;
+
+	while (num > 0x7fn) {
+		num >>= 7n;
+		size += 1;
+	}
+
+	return size;
+}
+
+/**
+ * Read a signed LEB128 varint.
+ * @param {Uint8Array} data
+ * @param {Number} off
+ * @returns {Object}
+ */
+
+export function readSLEB128(data: Uint8Array, off: number) {
+	const {size, value} = readSLEB128Big(data, off);
+	const num = value as bigint;
+
+	limit(num >= -MAX_SAFE_BIG && num <= MAX_SAFE_BIG, off, 'Number exceeds 2^53-1');
+
+	return new Varint(size, Number(num));
+}
+
+/**
+ * Write a signed LEB128 varint.
+ * @param {Uint8Array} dst
+ * @param {Number} num
+ * @param {Number} off
+ * @returns {Number} Buffer offset.
+ */
+
+export function writeSLEB128(dst: Uint8Array, num: number, off: number) {
+	enforce(Number.isSafeInteger(num), off, 'Number exceeds 2^53-1');
+	return writeSLEB128Big(dst, BigInt(num), off);
+}
+
+/**
+ * Calculate size of a signed LEB128 varint.
+ * @param {Number} num
+ * @returns {Number} size
+ */
+
+export function sizeSLEB128(num: number) {
+	enforce(Number.isSafeInteger(num), 0, 'Number exceeds 2^53-1');
+	return sizeSLEB128Big(BigInt(num));
+}
+
+/**
+ * Read a signed LEB128 varint.
+ * @param {Uint8Array} data
+ * @param {Number} off
+ * @returns {Object}
+ */
+
+export function readSLEB128N(data: Uint8Array, off: number) {
+	const {size, value} = readSLEB128Big(data, off);
+	return new Varint(size, I64.fromString(value.toString(10), 10));
+}
+
+/**
+ * Write a signed LEB128 varint.
+ * @param {Uint8Array} dst
+ * @param {I64} num
+ * @param {Number} off
+ * @returns {Number} Buffer offset.
+ */
+
+export function writeSLEB128N(dst: Uint8Array, num: I64, off: number) {
+	return writeSLEB128Big(dst, BigInt(num.toString(10)), off);
+}
+
+/**
+ * Calculate size of a signed LEB128 varint.
+ * @param {I64} num
+ * @returns {Number} size
+ */
+
+export function sizeSLEB128N(num: I64) {
+	return sizeSLEB128Big(BigInt(num.toString(10)));
+}
+
+/**
+ * Read a signed LEB128 varint.
+ * @param {Uint8Array} data
+ * @param {Number} off
+ * @returns {Object}
+ */
+
+export function readSLEB128Big(data: Uint8Array, off: number) {
+	const start = off;
+
+	let num = 0n;
+	let shift = 0n;
+	let size = 0;
+	let prev = 0;
+	let ch = 0;
+
+	for (; ;) {
+		check(off < data.length, off);
+
+		prev = ch;
+		ch = data[off++];
+		size += 1;
+
+		num |= BigInt(ch & 0x7f) << shift;
+		shift += 7n;
+
+		if ((ch & 0x80) === 0)
+			break;
+
+		limit(size < 10, start, 'Number exceeds 64 bits');
+	}
+
+	if (ch & 0x40)
+		num -= 1n << shift;
+
+	// The last byte must carry more than the sign
+	// extension of the one before it.
+	canonical(size === 1
+		|| !((ch === 0x00 && !(prev & 0x40))
+			|| (ch === 0x7f && (prev & 0x40))), start);
+
+	limit(num >= I64_MIN && num <= I64_MAX, start, 'Number exceeds 64 bits');
+
+	return new Varint(size, num);
+}
+
+/**
+ * Write a signed LEB128 varint.
+ * @param {Uint8Array} dst
+ * @param {BigInt} num
+ * @param {Number} off
+ * @returns {Number} Buffer offset.
+ */
+
+export function writeSLEB128Big(dst: Uint8Array, num: bigint, off: number) {
+	checkWrite(off + sizeSLEB128Big(num) <= dst.length, off);
+
+	for (; ;) {
+		const ch = Number(num & 0x7fn);
+
+		num >>= 7n;
+
+		if ((num === 0n && !(ch & 0x40)) || (num === -1n && (ch & 0x40))) {
+			dst[off++] = ch;
+			break;
+		}
+
+		dst[off++] = ch | 0x80;
+	}
+
+	return off;
+}
+
+/**
+ * Calculate size of a signed LEB128 varint.
+ * @param {BigInt} num
+ * @returns {Number} size
+ */
+
+export function sizeSLEB128Big(num: bigint) {
+	limit(num >= I64_MIN && num <= I64_MAX, 0, 'Number exceeds 64 bits');
+
+	let size = 1;
+
+	for (; ;) {
+		const ch = Number(num & 0x7fn);
+
+		num >>= 7n;
+
+		if ((num === 0n && !(ch & 0x40)) || (num === -1n && (ch & 0x40)))
+			break;
+
+		size += 1;
+	}
+
+	return size;
+}
+
+/**
+ * Read a zigzag-encoded LEB128 varint.
+ * @param {Uint8Array} data
+ * @param {Number} off
+ * @returns {Object}
+ */
+
+export function readZigzag(data: Uint8Array, off: number) {
+	const {size, value} = readULEB128(data, off);
+	const num = value as number;
+
+	if (num % 2 === 0)
+		return new Varint(size, num / 2);
+
+	return new Varint(size, -(num + 1) / 2);
+}
+
+/**
+ * Write a zigzag-encoded LEB128 varint.
+ * @param {Uint8Array} dst
+ * @param {Number} num
+ * @param {Number} off
+ * @returns {Number} Buffer offset.
+ */
+
+export function writeZigzag(dst: Uint8Array, num: number, off: number) {
+	return writeULEB128(dst, toZigzag(num, off), off);
+}
+
+/**
+ * Calculate size of a zigzag-encoded LEB128 varint.
+ * @param {Number} num
+ * @returns {Number} size
+ */
+
+export function sizeZigzag(num: number) {
+	return sizeULEB128(toZigzag(num, 0));
+}
+
+/**
+ * Read a zigzag-encoded LEB128 varint.
+ * @param {Uint8Array} data
+ * @param {Number} off
+ * @returns {Object}
+ */
+
+export function readZigzagN(data: Uint8Array, off: number) {
+	const {size, value} = readZigzagBig(data, off);
+	return new Varint(size, I64.fromString(value.toString(10), 10));
+}
+
+/**
+ * Write a zigzag-encoded LEB128 varint.
+ * @param {Uint8Array} dst
+ * @param {I64} num
+ * @param {Number} off
+ * @returns {Number} Buffer offset.
+ */
+
+export function writeZigzagN(dst: Uint8Array, num: I64, off: number) {
+	return writeZigzagBig(dst, BigInt(num.toString(10)), off);
+}
+
+/**
+ * Calculate size of a zigzag-encoded LEB128 varint.
+ * @param {I64} num
+ * @returns {Number} size
+ */
+
+export function sizeZigzagN(num: I64) {
+	return sizeZigzagBig(BigInt(num.toString(10)));
+}
+
+/**
+ * Read a zigzag-encoded LEB128 varint.
+ * @param {Uint8Array} data
+ * @param {Number} off
+ * @returns {Object}
+ */
+
+export function readZigzagBig(data: Uint8Array, off: number) {
+	const {size, value} = readULEB128Big(data, off);
+	const num = value as bigint;
+
+	return new Varint(size, (num >> 1n) ^ -(num & 1n));
+}
+
+/**
+ * Write a zigzag-encoded LEB128 varint.
+ * @param {Uint8Array} dst
+ * @param {BigInt} num
+ * @param {Number} off
+ * @returns {Number} Buffer offset.
+ */
+
+export function writeZigzagBig(dst: Uint8Array, num: bigint, off: number) {
+	return writeULEB128Big(dst, toZigzagBig(num, off), off);
+}
+
+/**
+ * Calculate size of a zigzag-encoded LEB128 varint.
+ * @param {BigInt} num
+ * @returns {Number} size
+ */
+
+export function sizeZigzagBig(num: bigint) {
+	return sizeULEB128Big(toZigzagBig(num, 0));
+}
+
+/**
+ * Get size of varint-prefixed bytes.
+ * @param {Uint8Array} data
+ * @returns {Number}
+ */
+
+export function sizeVarBytes(data: Uint8Array): number {
+	return sizeVarint(data.length) + data.length;
+}
+
+/**
+ * Get size of varint-prefixed length.
+ * @param {Number} len
+ * @returns {Number}
+ */
+
+export function sizeVarlen(len: number) {
+	return sizeVarint(len) + len;
+}
+
+/**
+ * Get size of varint-prefixed string.
+ * @param {String} str
+ * @param {String} enc
+ * @returns {Number}
+ */
+
+export function sizeVarString(str: string | Uint8Array, enc: string): number {
+	if (typeof str !== 'string')
+		return sizeVarBytes(str);
+
+	const len = bytes.byteLength(str, enc);
+
+	return sizeVarint(len) + len;
+}
+
+/**
+ * Get size of an unsigned integer written big-endian
+ * with no leading zeroes (as used by long-form lengths).
+ * @param {Number} num
+ * @returns {Number}
+ */
+
+export function sizeUIntBE(num: number) {
+	let len = 0;
+
+	while (num > 0) {
+		num = Math.floor(num / 0x100);
+		len += 1;
+	}
+
+	return len;
+}
+
+/*
+ * Helpers
+ */
+
+function isSafe(hi: number, lo: number) {
+	if (hi < 0) {
+		hi = ~hi;
+		if (lo === 0)
+			hi += 1;
+	}
+
+	return (hi & 0xffe00000) === 0;
+}
+
+function write64(dst: Uint8Array, num: number, off: number, be: boolean) {
+	checkWrite(off + 8 <= dst.length, off);
+
+	let neg = false;
+
+	if (num < 0) {
+		num = -num;
+		neg = true;
+	}
+
+	let hi = (num * (1 / 0x100000000)) | 0;
+	let lo = num | 0;
+
+	if (neg) {
+		if (lo === 0) {
+			hi = (~hi + 1) | 0;
+		} else {
+			hi = ~hi;
+			lo = ~lo + 1;
+		}
+	}
+
+	if (be) {
+		off = writeU32BE(dst, hi, off);
+		off = writeU32BE(dst, lo, off);
+	} else {
+		off = writeU32(dst, lo, off);
+		off = writeU32(dst, hi, off);
+	}
+
+	return off;
+}
+
+function write64Big(dst: Uint8Array, num: bigint, off: number, be: boolean) {
+	checkWrite(off + 8 <= dst.length, off);
+
+	num = BigInt.asUintN(64, num);
+
+	const hi = Number(num >> 32n);
+	const lo = Number(num & 0xffffffffn);
+
+	if (be) {
+		off = writeU32BE(dst, hi, off);
+		off = writeU32BE(dst, lo, off);
+	} else {
+		off = writeU32(dst, lo, off);
+		off = writeU32(dst, hi, off);
+	}
+
+	return off;
+}
+
+function toZigzag(num: number, offset: number) {
+	enforce(Number.isSafeInteger(num), offset, 'Number exceeds 2^53-1');
+
+	const value = num >= 0 ? num * 2 : -num * 2 - 1;
+
+	limit(value <= MAX_SAFE_INTEGER, offset, 'Number exceeds 2^53-1');
+
+	return value;
+}
+
+function toZigzagBig(num: bigint, offset: number) {
+	limit(num >= I64_MIN && num <= I64_MAX, offset, 'Number exceeds 64 bits');
+	return num >= 0n ? num << 1n : (-num << 1n) - 1n;
+}
+
+export class Varint {
+	size: number;
+	value: number | U64 | bigint;
+
+	constructor(size: number, value: number | U64 | bigint) {
+		this.size = size;
+		this.value = value;
 	}
 }
 
 function check(value, offset) {
 	if (!value)
-		throw new EncodingError(offset, 'Out of bounds read', check);
+		throw new OutOfBoundsError(offset, 'Out of bounds read', check);
+}
+
+function checkWrite(value, offset) {
+	if (!value)
+		throw new OutOfBoundsError(offset, 'Out of bounds write', checkWrite);
+}
+
+function canonical(value, offset) {
+	if (!value)
+		throw new NonCanonicalError(offset, 'Non-canonical varint', canonical);
+}
+
+function limit(value, offset, reason) {
+	if (!value)
+		throw new LimitError(offset, reason, limit);
 }
 
 function enforce(value, offset, reason?) {
@@ -14,6 +14,10 @@
 
 export default class EncodingError extends Error {
 	type: string;
+	code: string;
+	offset: number;
+	reason: string;
+	path: string;
 
 	/**
 	 * Create an encoding error.
@@ -22,13 +26,129 @@ export default class EncodingError extends Error {
 	 * @param {String} reason
 	 * @param start
 	 */
+
 	constructor(offset: number, reason: string, start?: Function) {
 		super();
 
 		this.type = 'EncodingError';
-		this.message = `${reason} (offset=${offset}).`;
+		this.code = 'ERR_ENCODING';
+		this.offset = offset;
+		this.reason = reason;
+		this.path = '';
+		this.message = formatMessage(this);
 
 		if (Error.captureStackTrace)
 			Error.captureStackTrace(this, start || EncodingError);
 	}
+
+	/**
+	 * Prepend a segment to the field path, e.g.
+	 * `txs`, `[3]` or `Block`. Path segments are
+	 * added from the innermost field outwards.
+	 * @param {String} segment
+	 * @returns {EncodingError}
+	 */
+
+	addPath(segment: string) {
+		if (this.path.length === 0)
+			this.path = segment;
+		else if (this.path[0] === '[')
+			this.path = segment + this.path;
+		else
+			this.path = `${segment}.${this.path}`;
+
+		this.message = formatMessage(this);
+
+		return this;
+	}
+
+	/**
+	 * Shift the error offset, e.g. to rebase an
+	 * error from a nested payload onto its parent.
+	 * @param {Number} offset
+	 * @returns {EncodingError}
+	 */
+
+	addOffset(offset: number) {
+		this.offset += offset;
+		this.message = formatMessage(this);
+		return this;
+	}
+}
+
+/**
+ * Out Of Bounds Error
+ * Thrown when a read or write exceeds the
+ * bounds of the underlying buffer.
+ * @extends {EncodingError}
+ */
+
+export class OutOfBoundsError extends EncodingError {
+	constructor(offset: number, reason = 'Out of bounds read', start?: Function) {
+		super(offset, reason, start || OutOfBoundsError);
+		this.code = 'ERR_OUT_OF_BOUNDS';
+	}
+}
+
+/**
+ * Non-Canonical Error
+ * Thrown when data decodes to a valid value
+ * but was not encoded in its canonical form.
+ * @extends {EncodingError}
+ */
+
+export class NonCanonicalError extends EncodingError {
+	constructor(offset: number, reason = 'Non-canonical encoding', start?: Function) {
+		super(offset, reason, start || NonCanonicalError);
+		this.code = 'ERR_NON_CANONICAL';
+	}
+}
+
+/**
+ * Checksum Error
+ * @extends {EncodingError}
+ */
+
+export class ChecksumError extends EncodingError {
+	constructor(offset: number, reason = 'Checksum mismatch.', start?: Function) {
+		super(offset, reason, start || ChecksumError);
+		this.code = 'ERR_CHECKSUM';
+	}
+}
+
+/**
+ * Limit Error
+ * Thrown when a value or length exceeds
+ * a numeric range or configured limit.
+ * @extends {EncodingError}
+ */
+
+export class LimitError extends EncodingError {
+	constructor(offset: number, reason = 'Limit exceeded', start?: Function) {
+		super(offset, reason, start || LimitError);
+		this.code = 'ERR_LIMIT';
+	}
+}
+
+/**
+ * Trailing Data Error
+ * @extends {EncodingError}
+ */
+
+export class TrailingDataError extends EncodingError {
+	constructor(offset: number, reason = 'Trailing data', start?: Function) {
+		super(offset, reason, start || TrailingDataError);
+		this.code = 'ERR_TRAILING';
+	}
+}
+
+/*
+ * Helpers
+ */
+
+function formatMessage(err: EncodingError) {
+	if (err.path.length === 0)
+		return `${err.reason} (offset=${err.offset}).`;
+
+	return `${err.reason} (offset=${err.offset}, path=${err.path}).`;
 }
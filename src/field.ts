@@ -0,0 +1,114 @@
+/*!
+ * field.js - struct field decorators for bufio
+ * Copyright (c) 2018, Andrew Sun (MIT License).
+ * https://github.com/as-com/bufio
+ */
+
+'use strict';
+
+import {I64, U64} from "n64";
+import Struct, {StructConstructor} from "./struct";
+import {PrefixType} from "./prefix";
+import {ArrayType, FieldSpec, FieldType, getType, Layout, StringEncoding} from "./schema";
+
+/**
+ * Property decorator which only applies to
+ * properties of type `T`.
+ */
+
+export type FieldDecorator<T> = <K extends string>(target: {[P in K]: T}, key: K) => void;
+
+/**
+ * Register a field on the decorated class.
+ * Fields are serialized in declaration order.
+ * Use `declare` fields, or class field definitions
+ * reset the defaults set by the Struct constructor.
+ * @param {FieldSpec} spec
+ * @returns {Function} Decorator.
+ */
+
+export function type<T = any>(spec: FieldSpec): FieldDecorator<T> {
+	const field = getType(spec);
+
+	return (target: any, key: string) => {
+		getLayout(target.constructor).add(key, field);
+	};
+}
+
+export const u8 = () => type<number>('u8');
+export const u16 = () => type<number>('u16');
+export const u16BE = () => type<number>('u16be');
+export const u32 = () => type<number>('u32');
+export const u32BE = () => type<number>('u32be');
+export const u64 = () => type<number>('u64');
+export const u64BE = () => type<number>('u64be');
+export const i8 = () => type<number>('i8');
+export const i16 = () => type<number>('i16');
+export const i16BE = () => type<number>('i16be');
+export const i32 = () => type<number>('i32');
+export const i32BE = () => type<number>('i32be');
+export const i64 = () => type<number>('i64');
+export const i64BE = () => type<number>('i64be');
+export const float = () => type<number>('float');
+export const floatBE = () => type<number>('floatbe');
+export const double = () => type<number>('double');
+export const doubleBE = () => type<number>('doublebe');
+export const varint = () => type<number>('varint');
+export const varint2 = () => type<number>('varint2');
+
+export const u64Big = () => type<bigint>('u64big');
+export const u64BEBig = () => type<bigint>('u64bebig');
+export const i64Big = () => type<bigint>('i64big');
+export const i64BEBig = () => type<bigint>('i64bebig');
+export const varintBig = () => type<bigint>('varintbig');
+export const varint2Big = () => type<bigint>('varint2big');
+
+export const u64N = () => type<U64>('u64n');
+export const u64BEN = () => type<U64>('u64ben');
+export const i64N = () => type<I64>('i64n');
+export const i64BEN = () => type<I64>('i64ben');
+export const varintN = () => type<U64>('varintn');
+export const varint2N = () => type<U64>('varint2n');
+
+export const varString = (enc: StringEncoding = 'utf8') => type<string>(`varstring:${enc}`);
+export const nullString = (enc: StringEncoding = 'utf8') => type<string>(`nullstring:${enc}`);
+export const varBytes = () => type<Buffer>('varbytes');
+export const bytes = (size: number) => type<Buffer>(`bytes:${size}`);
+export const hash = () => type<Buffer>('hash');
+
+/**
+ * Register a nested struct field.
+ * @param {Function} ctor - Struct class.
+ * @returns {Function} Decorator.
+ */
+
+export function struct<T extends Struct>(ctor: StructConstructor<T>): FieldDecorator<T> {
+	return type<T>(ctor);
+}
+
+/**
+ * Register a length-prefixed array field.
+ * @param {FieldSpec} item - Item type.
+ * @param {PrefixType?} prefix - Count prefix (default: varint).
+ * @returns {Function} Decorator.
+ */
+
+export function array<T extends Struct>(item: StructConstructor<T>, prefix?: PrefixType): FieldDecorator<T[]>;
+export function array<T>(item: FieldType<T>, prefix?: PrefixType): FieldDecorator<T[]>;
+export function array(item: string, prefix?: PrefixType): FieldDecorator<any[]>;
+export function array(item: FieldSpec, prefix?: PrefixType): FieldDecorator<any[]> {
+	return type(new ArrayType(getType(item), prefix));
+}
+
+/*
+ * Helpers
+ */
+
+function getLayout(ctor: any): Layout {
+	if (!ctor.hasOwnProperty('layout')) {
+		const parent: Layout | undefined = ctor.layout;
+		ctor.layout = parent ? parent.clone() : new Layout();
+	}
+
+	return ctor.layout;
+}
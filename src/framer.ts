@@ -0,0 +1,223 @@
+/*!
+ * framer.js - length-prefixed message framing for bufio
+ * Copyright (c) 2018, Andrew Sun (MIT License).
+ * https://github.com/as-com/bufio
+ */
+
+'use strict';
+
+import * as assert from "assert";
+import {Transform} from "stream";
+import * as bytes from "./bytes";
+import {LimitError, OutOfBoundsError} from "./error";
+import Struct, {StructConstructor} from "./struct";
+import {PrefixType, peekPrefix, readPrefix, sizePrefix, writePrefix} from "./prefix";
+
+/*
+ * Constants
+ */
+
+const MAX_SIZE = 8 << 20;
+
+export interface FramerOptions {
+	prefix?: PrefixType;
+	maxSize?: number;
+}
+
+export interface DeframerOptions<T extends Struct = Struct> extends FramerOptions {
+	struct?: StructConstructor<T>;
+}
+
+/**
+ * Framer
+ * Prepends a length prefix to every buffer
+ * or struct written to the stream.
+ * @extends {Transform}
+ */
+
+export class Framer extends Transform {
+	prefix: PrefixType;
+	maxSize: number;
+	offset: number;
+
+	/**
+	 * Create a framer.
+	 * @constructor
+	 * @param {Object?} options
+	 * @param {PrefixType?} options.prefix - Length prefix (default: varint).
+	 * @param {Number?} options.maxSize - Maximum frame size.
+	 */
+
+	constructor(options: FramerOptions = {}) {
+		super({writableObjectMode: true});
+
+		this.prefix = options.prefix || 'varint';
+		this.maxSize = options.maxSize != null ? options.maxSize : MAX_SIZE;
+		this.offset = 0;
+
+		sizePrefix(this.prefix, 0);
+	}
+
+	_transform(chunk: Buffer | Struct, enc: string, callback: Function) {
+		let frame;
+
+		try {
+			frame = this.frame(chunk);
+		} catch (e) {
+			callback(e);
+			return;
+		}
+
+		this.offset += frame.length;
+
+		callback(null, frame);
+	}
+
+	/**
+	 * Encode a single frame.
+	 * @param {Buffer|Struct} chunk
+	 * @returns {Buffer}
+	 */
+
+	frame(chunk: Uint8Array | Struct) {
+		const data = chunk instanceof Struct
+			? chunk.encode()
+			: chunk;
+
+		assert(data instanceof Uint8Array, 'Must write a Buffer or Struct.');
+
+		if (data.length > this.maxSize)
+			throw new LimitError(this.offset, 'Frame exceeds limit');
+
+		const size = sizePrefix(this.prefix, data.length);
+		const frame = bytes.allocUnsafe(size + data.length);
+
+		writePrefix(frame, this.prefix, data.length, 0);
+		bytes.copy(data, frame, size);
+
+		return frame;
+	}
+}
+
+/**
+ * Deframer
+ * Splits a byte stream into length-prefixed frames,
+ * optionally decoding each frame into a struct.
+ * @extends {Transform}
+ */
+
+export class Deframer<T extends Struct = Struct> extends Transform {
+	prefix: PrefixType;
+	maxSize: number;
+	struct: StructConstructor<T> | null;
+	chunks: Buffer[];
+	total: number;
+	waiting: number;
+	offset: number;
+
+	/**
+	 * Create a deframer.
+	 * @constructor
+	 * @param {Object?} options
+	 * @param {PrefixType?} options.prefix - Length prefix (default: varint).
+	 * @param {Number?} options.maxSize - Maximum frame size.
+	 * @param {Function?} options.struct - Struct to decode frames into.
+	 */
+
+	constructor(options: DeframerOptions<T> = {}) {
+		super({readableObjectMode: true});
+
+		this.prefix = options.prefix || 'varint';
+		this.maxSize = options.maxSize != null ? options.maxSize : MAX_SIZE;
+		this.struct = options.struct || null;
+		this.chunks = [];
+		this.total = 0;
+		this.waiting = 0;
+		this.offset = 0;
+
+		sizePrefix(this.prefix, 0);
+	}
+
+	_transform(chunk: Buffer, enc: string, callback: Function) {
+		this.chunks.push(chunk);
+		this.total += chunk.length;
+
+		// Chunks of a partial frame are only
+		// concatenated once the frame is complete.
+		if (this.total < this.waiting) {
+			callback();
+			return;
+		}
+
+		try {
+			this.parse();
+		} catch (e) {
+			callback(e);
+			return;
+		}
+
+		callback();
+	}
+
+	_flush(callback: Function) {
+		if (this.total > 0) {
+			callback(new OutOfBoundsError(this.offset, 'Truncated frame'));
+			return;
+		}
+
+		callback();
+	}
+
+	/**
+	 * Emit all complete frames from the pending data.
+	 * @private
+	 */
+
+	parse() {
+		const data = this.chunks.length === 1
+			? this.chunks[0]
+			: bytes.concat(this.chunks);
+
+		let off = 0;
+
+		this.waiting = 0;
+
+		for (; ;) {
+			const start = off;
+			const size = peekPrefix(this.prefix, data, off);
+
+			if (size === -1)
+				break;
+
+			const {value} = readPrefix(this.prefix, data, off);
+			const len = value as number;
+
+			if (len > this.maxSize)
+				throw new LimitError(this.offset, 'Frame exceeds limit');
+
+			if (off + size + len > data.length) {
+				this.waiting = size + len;
+				break;
+			}
+
+			off += size;
+
+			const frame = bytes.allocUnsafe(len);
+			bytes.copy(data, frame, 0, off, off + len);
+
+			off += len;
+
+			this.offset += off - start;
+
+			if (this.struct)
+				this.push(new this.struct().decode(frame));
+			else
+				this.push(frame);
+		}
+
+		const rest = bytes.slice(data, off, data.length);
+
+		this.chunks = rest.length > 0 ? [rest] : [];
+		this.total = rest.length;
+	}
+}
@@ -0,0 +1,910 @@
+/*!
+ * growablewriter.js - growable buffer writer for bufio
+ * Copyright (c) 2018, Andrew Sun (MIT License).
+ * https://github.com/as-com/bufio
+ */
+
+'use strict';
+
+import * as assert from "assert";
+import * as bytes from "./bytes";
+import * as encoding from "./encoding";
+import EncodingError from "./error";
+import {I64, U64} from "n64";
+import {IWriter} from "./writer";
+import Placeholder from "./placeholder";
+import {PrefixType, sizePrefix, writePrefix} from "./prefix";
+import * as rlp from "./rlp";
+
+/*
+ * Constants
+ */
+
+const EMPTY = bytes.alloc(0);
+const DEFAULT_SIZE = 256;
+
+/**
+ * Growable Writer
+ * Writes directly into a single backing buffer
+ * which doubles in size whenever it fills up.
+ */
+
+export default class GrowableWriter implements IWriter {
+	data: Buffer;
+	view: DataView;
+	offset: number;
+	pending: Placeholder[];
+	sections: Placeholder[];
+
+	/**
+	 * Create a growable writer.
+	 * @constructor
+	 * @param {Number?} size - Initial capacity.
+	 */
+
+	constructor(size?: number) {
+		assert(size == null || (size >>> 0) === size);
+
+		this.data = bytes.allocUnsafe(size || DEFAULT_SIZE);
+		this.view = bytes.view(this.data);
+		this.offset = 0;
+		this.pending = [];
+		this.sections = [];
+	}
+
+	/**
+	 * Ensure there is room for `size` more bytes,
+	 * growing the backing buffer if necessary.
+	 * @param {Number} size
+	 */
+
+	ensure(size: number) {
+		const needed = this.offset + size;
+
+		if (needed <= this.data.length)
+			return this;
+
+		let capacity = Math.max(this.data.length, DEFAULT_SIZE);
+
+		while (capacity < needed)
+			capacity *= 2;
+
+		const data = bytes.allocUnsafe(capacity);
+		bytes.copy(this.data, data, 0);
+		this.data = data;
+		this.view = bytes.view(data);
+
+		return this;
+	}
+
+	/**
+	 * Render the final buffer. This is a slice of the
+	 * backing buffer unless more than a fifth of it is
+	 * unused, in which case the data is copied so the
+	 * spare capacity can be freed.
+	 * @returns {Buffer} Rendered buffer.
+	 */
+
+	render() {
+		const {data, offset} = this;
+
+		if (this.pending.length > 0)
+			throw new EncodingError(this.pending[0].offset, 'Unfilled placeholder');
+
+		this.destroy();
+
+		if (data.length - offset > (offset >>> 2)) {
+			const out = bytes.allocUnsafe(offset);
+			bytes.copy(data, out, 0, 0, offset);
+			return out;
+		}
+
+		return bytes.slice(data, 0, offset);
+	}
+
+	/**
+	 * Get size of data written so far.
+	 * @returns {Number}
+	 */
+
+	getSize() {
+		return this.offset;
+	}
+
+	/**
+	 * Seek to relative offset.
+	 * @param {Number} offset
+	 */
+
+	seek(offset: number) {
+		if (offset > 0)
+			this.ensure(offset);
+		this.offset += offset;
+		return this;
+	}
+
+	/**
+	 * Destroy the buffer writer.
+	 */
+
+	destroy() {
+		this.data = EMPTY;
+		this.view = bytes.view(EMPTY);
+		this.offset = 0;
+		this.pending.length = 0;
+		this.sections.length = 0;
+		return this;
+	}
+
+	/**
+	 * Write uint8.
+	 * @param {Number} value
+	 */
+
+	writeU8(value: number) {
+		this.ensure(1);
+		this.view.setUint8(this.offset, value);
+		this.offset += 1;
+		return this;
+	}
+
+	/**
+	 * Write uint16le.
+	 * @param {Number} value
+	 */
+
+	writeU16(value: number) {
+		this.ensure(2);
+		this.view.setUint16(this.offset, value, true);
+		this.offset += 2;
+		return this;
+	}
+
+	/**
+	 * Write uint16be.
+	 * @param {Number} value
+	 */
+
+	writeU16BE(value: number) {
+		this.ensure(2);
+		this.view.setUint16(this.offset, value, false);
+		this.offset += 2;
+		return this;
+	}
+
+	/**
+	 * Write uint32le.
+	 * @param {Number} value
+	 */
+
+	writeU32(value: number) {
+		this.ensure(4);
+		this.view.setUint32(this.offset, value, true);
+		this.offset += 4;
+		return this;
+	}
+
+	/**
+	 * Write uint32be.
+	 * @param {Number} value
+	 */
+
+	writeU32BE(value: number) {
+		this.ensure(4);
+		this.view.setUint32(this.offset, value, false);
+		this.offset += 4;
+		return this;
+	}
+
+	/**
+	 * Write uint64le.
+	 * @param {Number} value
+	 */
+
+	writeU64(value: number) {
+		this.ensure(8);
+		this.offset = encoding.writeU64(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write uint64be.
+	 * @param {Number} value
+	 */
+
+	writeU64BE(value: number) {
+		this.ensure(8);
+		this.offset = encoding.writeU64BE(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write uint64le.
+	 * @param {U64} value
+	 */
+
+	writeU64N(value: U64) {
+		this.ensure(8);
+		this.offset = encoding.writeU64N(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write uint64be.
+	 * @param {U64} value
+	 */
+
+	writeU64BEN(value: U64) {
+		this.ensure(8);
+		this.offset = encoding.writeU64BEN(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write int8.
+	 * @param {Number} value
+	 */
+
+	writeI8(value: number) {
+		this.ensure(1);
+		this.view.setInt8(this.offset, value);
+		this.offset += 1;
+		return this;
+	}
+
+	/**
+	 * Write int16le.
+	 * @param {Number} value
+	 */
+
+	writeI16(value: number) {
+		this.ensure(2);
+		this.view.setInt16(this.offset, value, true);
+		this.offset += 2;
+		return this;
+	}
+
+	/**
+	 * Write int16be.
+	 * @param {Number} value
+	 */
+
+	writeI16BE(value: number) {
+		this.ensure(2);
+		this.view.setInt16(this.offset, value, false);
+		this.offset += 2;
+		return this;
+	}
+
+	/**
+	 * Write int32le.
+	 * @param {Number} value
+	 */
+
+	writeI32(value: number) {
+		this.ensure(4);
+		this.view.setInt32(this.offset, value, true);
+		this.offset += 4;
+		return this;
+	}
+
+	/**
+	 * Write int32be.
+	 * @param {Number} value
+	 */
+
+	writeI32BE(value: number) {
+		this.ensure(4);
+		this.view.setInt32(this.offset, value, false);
+		this.offset += 4;
+		return this;
+	}
+
+	/**
+	 * Write int64le.
+	 * @param {Number} value
+	 */
+
+	writeI64(value: number) {
+		this.ensure(8);
+		this.offset = encoding.writeI64(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write int64be.
+	 * @param {Number} value
+	 */
+
+	writeI64BE(value: number) {
+		this.ensure(8);
+		this.offset = encoding.writeI64BE(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write int64le.
+	 * @param {I64} value
+	 */
+
+	writeI64N(value: I64) {
+		this.ensure(8);
+		this.offset = encoding.writeI64N(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write int64be.
+	 * @param {I64} value
+	 */
+
+	writeI64BEN(value: I64) {
+		this.ensure(8);
+		this.offset = encoding.writeI64BEN(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write uint64le.
+	 * @param {BigInt} value
+	 */
+
+	writeU64Big(value: bigint) {
+		this.ensure(8);
+		this.offset = encoding.writeU64Big(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write uint64be.
+	 * @param {BigInt} value
+	 */
+
+	writeU64BEBig(value: bigint) {
+		this.ensure(8);
+		this.offset = encoding.writeU64BEBig(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write int64le.
+	 * @param {BigInt} value
+	 */
+
+	writeI64Big(value: bigint) {
+		this.ensure(8);
+		this.offset = encoding.writeI64Big(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write int64be.
+	 * @param {BigInt} value
+	 */
+
+	writeI64BEBig(value: bigint) {
+		this.ensure(8);
+		this.offset = encoding.writeI64BEBig(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write float le.
+	 * @param {Number} value
+	 */
+
+	writeFloat(value: number) {
+		this.ensure(4);
+		this.view.setFloat32(this.offset, value, true);
+		this.offset += 4;
+		return this;
+	}
+
+	/**
+	 * Write float be.
+	 * @param {Number} value
+	 */
+
+	writeFloatBE(value: number) {
+		this.ensure(4);
+		this.view.setFloat32(this.offset, value, false);
+		this.offset += 4;
+		return this;
+	}
+
+	/**
+	 * Write double le.
+	 * @param {Number} value
+	 */
+
+	writeDouble(value: number) {
+		this.ensure(8);
+		this.view.setFloat64(this.offset, value, true);
+		this.offset += 8;
+		return this;
+	}
+
+	/**
+	 * Write double be.
+	 * @param {Number} value
+	 */
+
+	writeDoubleBE(value: number) {
+		this.ensure(8);
+		this.view.setFloat64(this.offset, value, false);
+		this.offset += 8;
+		return this;
+	}
+
+	/**
+	 * Write a varint.
+	 * @param {Number} value
+	 */
+
+	writeVarint(value: number) {
+		this.ensure(encoding.sizeVarint(value));
+		this.offset = encoding.writeVarint(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write a varint.
+	 * @param {U64} value
+	 */
+
+	writeVarintN(value: U64) {
+		this.ensure(encoding.sizeVarintN(value));
+		this.offset = encoding.writeVarintN(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write a varint (type 2).
+	 * @param {Number} value
+	 */
+
+	writeVarint2(value: number) {
+		this.ensure(encoding.sizeVarint2(value));
+		this.offset = encoding.writeVarint2(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write a varint (type 2).
+	 * @param {U64} value
+	 */
+
+	writeVarint2N(value: U64) {
+		this.ensure(encoding.sizeVarint2N(value));
+		this.offset = encoding.writeVarint2N(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write a varint.
+	 * @param {BigInt} value
+	 */
+
+	writeVarintBig(value: bigint) {
+		this.ensure(encoding.sizeVarintBig(value));
+		this.offset = encoding.writeVarintBig(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write a varint (type 2).
+	 * @param {BigInt} value
+	 */
+
+	writeVarint2Big(value: bigint) {
+		this.ensure(encoding.sizeVarint2Big(value));
+		this.offset = encoding.writeVarint2Big(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write an unsigned LEB128 varint.
+	 * @param {Number} value
+	 */
+
+	writeULEB128(value: number) {
+		this.ensure(encoding.sizeULEB128(value));
+		this.offset = encoding.writeULEB128(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write an unsigned LEB128 varint.
+	 * @param {U64} value
+	 */
+
+	writeULEB128N(value: U64) {
+		this.ensure(encoding.sizeULEB128N(value));
+		this.offset = encoding.writeULEB128N(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write an unsigned LEB128 varint.
+	 * @param {BigInt} value
+	 */
+
+	writeULEB128Big(value: bigint) {
+		this.ensure(encoding.sizeULEB128Big(value));
+		this.offset = encoding.writeULEB128Big(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write a signed LEB128 varint.
+	 * @param {Number} value
+	 */
+
+	writeSLEB128(value: number) {
+		this.ensure(encoding.sizeSLEB128(value));
+		this.offset = encoding.writeSLEB128(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write a signed LEB128 varint.
+	 * @param {I64} value
+	 */
+
+	writeSLEB128N(value: I64) {
+		this.ensure(encoding.sizeSLEB128N(value));
+		this.offset = encoding.writeSLEB128N(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write a signed LEB128 varint.
+	 * @param {BigInt} value
+	 */
+
+	writeSLEB128Big(value: bigint) {
+		this.ensure(encoding.sizeSLEB128Big(value));
+		this.offset = encoding.writeSLEB128Big(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write a zigzag-encoded LEB128 varint.
+	 * @param {Number} value
+	 */
+
+	writeZigzag(value: number) {
+		this.ensure(encoding.sizeZigzag(value));
+		this.offset = encoding.writeZigzag(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write a zigzag-encoded LEB128 varint.
+	 * @param {I64} value
+	 */
+
+	writeZigzagN(value: I64) {
+		this.ensure(encoding.sizeZigzagN(value));
+		this.offset = encoding.writeZigzagN(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write a zigzag-encoded LEB128 varint.
+	 * @param {BigInt} value
+	 */
+
+	writeZigzagBig(value: bigint) {
+		this.ensure(encoding.sizeZigzagBig(value));
+		this.offset = encoding.writeZigzagBig(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write bytes.
+	 * @param {Uint8Array} value
+	 */
+
+	writeBytes(value: Uint8Array) {
+		if (value.length === 0)
+			return this;
+
+		this.ensure(value.length);
+		bytes.copy(value, this.data, this.offset);
+
+		this.offset += value.length;
+		return this;
+	}
+
+	/**
+	 * Write bytes with a varint length before them.
+	 * @param {Uint8Array} value
+	 */
+
+	writeVarBytes(value: Uint8Array) {
+		this.writeVarint(value.length);
+		this.writeBytes(value);
+		return this;
+	}
+
+	/**
+	 * Copy bytes.
+	 * @param {Uint8Array} value
+	 * @param {Number} start
+	 * @param {Number} end
+	 */
+
+	copy(value: Uint8Array, start: number, end: number) {
+		const len = end - start;
+
+		if (len === 0)
+			return this;
+
+		this.ensure(len);
+
+		bytes.copy(value, this.data, this.offset, start, end);
+		this.offset += len;
+
+		return this;
+	}
+
+	/**
+	 * Write string to buffer.
+	 * @param {String|Uint8Array} value
+	 * @param {String?} enc - Any buffer-supported encoding.
+	 */
+
+	writeString(value: string | Uint8Array, enc?: string) {
+		if (value.length === 0)
+			return this;
+
+		if (typeof value !== 'string')
+			return this.writeBytes(value);
+
+		const size = bytes.byteLength(value, enc);
+
+		this.ensure(size);
+		bytes.write(this.data, value, this.offset, enc);
+
+		this.offset += size;
+
+		return this;
+	}
+
+	/**
+	 * Write a 32 byte hash.
+	 * @param {Hash} value
+	 */
+
+	writeHash(value: string | Uint8Array) {
+		this.ensure(32);
+		if (typeof value !== 'string') {
+			assert(value.length === 32);
+			this.writeBytes(value);
+			return this;
+		}
+		assert(value.length === 64);
+		bytes.write(this.data, value, this.offset, 'hex');
+		this.offset += 32;
+		return this;
+	}
+
+	/**
+	 * Write a string with a varint length before it.
+	 * @param {String} value
+	 * @param {String?} enc - Any buffer-supported encoding.
+	 */
+
+	writeVarString(value: string, enc?: string) {
+		if (value.length === 0) {
+			this.writeVarint(0);
+			return this;
+		}
+
+		const size = bytes.byteLength(value, enc);
+
+		this.writeVarint(size);
+		this.ensure(size);
+		bytes.write(this.data, value, this.offset, enc);
+
+		this.offset += size;
+
+		return this;
+	}
+
+	/**
+	 * Write a null-terminated string.
+	 * @param {String|Uint8Array} value
+	 * @param {String?} enc - Any buffer-supported encoding.
+	 */
+
+	writeNullString(value: string | Uint8Array, enc?: string) {
+		this.writeString(value, enc);
+		this.writeU8(0);
+		return this;
+	}
+
+	/**
+	 * Write an RLP item.
+	 * @param {RLPValue} value
+	 */
+
+	writeRLP(value: rlp.RLPValue) {
+		rlp.write(this, value);
+		return this;
+	}
+
+	/**
+	 * Calculate and write a checksum for the data written so far.
+	 * @param {Function} hash
+	 */
+
+	writeChecksum(hash: Function) {
+		this.ensure(4);
+		const data = bytes.slice(this.data, 0, this.offset);
+		bytes.copy(hash(data), this.data, this.offset, 0, 4);
+		this.offset += 4;
+		return this;
+	}
+
+	/**
+	 * Fill N bytes with value.
+	 * @param {Number} value
+	 * @param {Number} size
+	 */
+
+	fill(value: number, size: number) {
+		assert(size >= 0);
+
+		if (size === 0)
+			return this;
+
+		this.ensure(size);
+		this.data.fill(value, this.offset, this.offset + size);
+		this.offset += size;
+
+		return this;
+	}
+
+	/**
+	 * Reserve a length or count field to be filled in later.
+	 * @param {PrefixType} type
+	 * @returns {Placeholder}
+	 */
+
+	reserve(type: PrefixType) {
+		const ph = new Placeholder(this, type, this.offset);
+
+		if (!ph.isVariable())
+			this.seek(sizePrefix(type, 0));
+
+		this.pending.push(ph);
+
+		return ph;
+	}
+
+	/**
+	 * Reserve a uint8 to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveU8() {
+		return this.reserve('u8');
+	}
+
+	/**
+	 * Reserve a uint16le to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveU16() {
+		return this.reserve('u16');
+	}
+
+	/**
+	 * Reserve a uint16be to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveU16BE() {
+		return this.reserve('u16be');
+	}
+
+	/**
+	 * Reserve a uint32le to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveU32() {
+		return this.reserve('u32');
+	}
+
+	/**
+	 * Reserve a uint32be to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveU32BE() {
+		return this.reserve('u32be');
+	}
+
+	/**
+	 * Reserve a varint to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveVarint() {
+		return this.reserve('varint');
+	}
+
+	/**
+	 * Reserve a varint (type 2) to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveVarint2() {
+		return this.reserve('varint2');
+	}
+
+	/**
+	 * Begin a length-delimited section. The byte length of
+	 * everything written until the matching `endSection()`
+	 * is written before it using the given prefix.
+	 * @param {PrefixType?} type - Length prefix (default: varint).
+	 */
+
+	beginSection(type: PrefixType = 'varint') {
+		this.sections.push(this.reserve(type));
+		return this;
+	}
+
+	/**
+	 * End the current section and fill in its length.
+	 * @throws on empty stack.
+	 */
+
+	endSection() {
+		assert(this.sections.length > 0);
+
+		const ph = this.sections.pop();
+
+		ph.fill(this.offset - ph.getEnd());
+
+		return this;
+	}
+
+	/**
+	 * Write the value of a reserved field.
+	 * @private
+	 * @param {Placeholder} ph
+	 * @param {Number} value
+	 */
+
+	fillPlaceholder(ph: Placeholder, value: number) {
+		const index = this.pending.indexOf(ph);
+
+		assert(index !== -1, 'Unknown placeholder.');
+
+		if (!ph.isVariable()) {
+			writePrefix(this.data, ph.type, value, ph.offset);
+			this.pending.splice(index, 1);
+			return;
+		}
+
+		const size = sizePrefix(ph.type, value);
+
+		this.ensure(size);
+
+		// Shift everything written since the
+		// reservation to make room for the field.
+		this.data.copyWithin(ph.offset + size, ph.offset, this.offset);
+		writePrefix(this.data, ph.type, value, ph.offset);
+
+		this.offset += size;
+		this.pending.splice(index, 1);
+
+		for (let i = index; i < this.pending.length; i++)
+			this.pending[i].offset += size;
+	}
+}
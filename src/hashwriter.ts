@@ -7,6 +7,7 @@
 'use strict';
 
 import * as assert from "assert";
+import * as bytes from "./bytes";
 import * as encoding from "./encoding";
 import {Hash} from "crypto";
 
@@ -14,17 +15,23 @@ import {Hash} from "crypto";
  * Constants
  */
 
-const POOL0 = Buffer.allocUnsafe(0);
-const POOL8 = Buffer.allocUnsafe(1);
-const POOL16 = Buffer.allocUnsafe(2);
-const POOL24 = Buffer.allocUnsafe(3);
-const POOL32 = Buffer.allocUnsafe(4);
-const POOL40 = Buffer.allocUnsafe(5);
-const POOL48 = Buffer.allocUnsafe(6);
-const POOL56 = Buffer.allocUnsafe(7);
-const POOL64 = Buffer.allocUnsafe(8);
-const POOL72 = Buffer.allocUnsafe(9);
-const POOL256 = Buffer.allocUnsafe(32);
+const POOL0 = bytes.allocUnsafe(0);
+const POOL8 = bytes.allocUnsafe(1);
+const POOL16 = bytes.allocUnsafe(2);
+const POOL24 = bytes.allocUnsafe(3);
+const POOL32 = bytes.allocUnsafe(4);
+const POOL40 = bytes.allocUnsafe(5);
+const POOL48 = bytes.allocUnsafe(6);
+const POOL56 = bytes.allocUnsafe(7);
+const POOL64 = bytes.allocUnsafe(8);
+const POOL72 = bytes.allocUnsafe(9);
+const POOL80 = bytes.allocUnsafe(10);
+const POOL256 = bytes.allocUnsafe(32);
+
+const VIEW8 = bytes.view(POOL8);
+const VIEW16 = bytes.view(POOL16);
+const VIEW32 = bytes.view(POOL32);
+const VIEW64 = bytes.view(POOL64);
 
 const poolBySize = [
 	POOL0,
@@ -36,7 +43,8 @@ const poolBySize = [
 	POOL48,
 	POOL56,
 	POOL64,
-	POOL72
+	POOL72,
+	POOL80
 ];
 
 export interface ICtx {
@@ -134,7 +142,7 @@ export default class HashWriter {
 	 */
 
 	writeU8(value) {
-		POOL8.writeUInt8(value, 0, true);
+		VIEW8.setUint8(0, value);
 		this.ctx.update(POOL8);
 		return this;
 	}
@@ -145,7 +153,7 @@ export default class HashWriter {
 	 */
 
 	writeU16(value) {
-		POOL16.writeUInt16LE(value, 0, true);
+		VIEW16.setUint16(0, value, true);
 		this.ctx.update(POOL16);
 		return this;
 	}
@@ -156,7 +164,7 @@ export default class HashWriter {
 	 */
 
 	writeU16BE(value) {
-		POOL16.writeUInt16BE(value, 0, true);
+		VIEW16.setUint16(0, value, false);
 		this.ctx.update(POOL16);
 		return this;
 	}
@@ -167,7 +175,7 @@ export default class HashWriter {
 	 */
 
 	writeU32(value) {
-		POOL32.writeUInt32LE(value, 0, true);
+		VIEW32.setUint32(0, value, true);
 		this.ctx.update(POOL32);
 		return this;
 	}
@@ -178,7 +186,7 @@ export default class HashWriter {
 	 */
 
 	writeU32BE(value) {
-		POOL32.writeUInt32BE(value, 0, true);
+		VIEW32.setUint32(0, value, false);
 		this.ctx.update(POOL32);
 		return this;
 	}
@@ -233,7 +241,7 @@ export default class HashWriter {
 	 */
 
 	writeI8(value) {
-		POOL8.writeInt8(value, 0, true);
+		VIEW8.setInt8(0, value);
 		this.ctx.update(POOL8);
 		return this;
 	}
@@ -244,7 +252,7 @@ export default class HashWriter {
 	 */
 
 	writeI16(value) {
-		POOL16.writeInt16LE(value, 0, true);
+		VIEW16.setInt16(0, value, true);
 		this.ctx.update(POOL16);
 		return this;
 	}
@@ -255,7 +263,7 @@ export default class HashWriter {
 	 */
 
 	writeI16BE(value) {
-		POOL16.writeInt16BE(value, 0, true);
+		VIEW16.setInt16(0, value, false);
 		this.ctx.update(POOL16);
 		return this;
 	}
@@ -266,7 +274,7 @@ export default class HashWriter {
 	 */
 
 	writeI32(value) {
-		POOL32.writeInt32LE(value, 0, true);
+		VIEW32.setInt32(0, value, true);
 		this.ctx.update(POOL32);
 		return this;
 	}
@@ -277,7 +285,7 @@ export default class HashWriter {
 	 */
 
 	writeI32BE(value) {
-		POOL32.writeInt32BE(value, 0, true);
+		VIEW32.setInt32(0, value, false);
 		this.ctx.update(POOL32);
 		return this;
 	}
@@ -326,13 +334,57 @@ export default class HashWriter {
 		return this;
 	}
 
+	/**
+	 * Write uint64le.
+	 * @param {BigInt} value
+	 */
+
+	writeU64Big(value) {
+		encoding.writeU64Big(POOL64, value, 0);
+		this.ctx.update(POOL64);
+		return this;
+	}
+
+	/**
+	 * Write uint64be.
+	 * @param {BigInt} value
+	 */
+
+	writeU64BEBig(value) {
+		encoding.writeU64BEBig(POOL64, value, 0);
+		this.ctx.update(POOL64);
+		return this;
+	}
+
+	/**
+	 * Write int64le.
+	 * @param {BigInt} value
+	 */
+
+	writeI64Big(value) {
+		encoding.writeI64Big(POOL64, value, 0);
+		this.ctx.update(POOL64);
+		return this;
+	}
+
+	/**
+	 * Write int64be.
+	 * @param {BigInt} value
+	 */
+
+	writeI64BEBig(value) {
+		encoding.writeI64BEBig(POOL64, value, 0);
+		this.ctx.update(POOL64);
+		return this;
+	}
+
 	/**
 	 * Write float le.
 	 * @param {Number} value
 	 */
 
 	writeFloat(value) {
-		POOL32.writeFloatLE(value, 0, true);
+		VIEW32.setFloat32(0, value, true);
 		this.ctx.update(POOL32);
 		return this;
 	}
@@ -343,7 +395,7 @@ export default class HashWriter {
 	 */
 
 	writeFloatBE(value) {
-		POOL32.writeFloatBE(value, 0, true);
+		VIEW32.setFloat32(0, value, false);
 		this.ctx.update(POOL32);
 		return this;
 	}
@@ -354,7 +406,7 @@ export default class HashWriter {
 	 */
 
 	writeDouble(value) {
-		POOL64.writeDoubleLE(value, 0, true);
+		VIEW64.setFloat64(0, value, true);
 		this.ctx.update(POOL64);
 		return this;
 	}
@@ -365,7 +417,7 @@ export default class HashWriter {
 	 */
 
 	writeDoubleBE(value) {
-		POOL64.writeDoubleBE(value, 0, true);
+		VIEW64.setFloat64(0, value, false);
 		this.ctx.update(POOL64);
 		return this;
 	}
@@ -422,6 +474,149 @@ export default class HashWriter {
 		return this;
 	}
 
+	/**
+	 * Write a varint.
+	 * @param {BigInt} value
+	 */
+
+	writeVarintBig(value) {
+		const size = encoding.sizeVarintBig(value);
+		const pool = poolBySize[size];
+		encoding.writeVarintBig(pool, value, 0);
+		this.ctx.update(pool);
+		return this;
+	}
+
+	/**
+	 * Write a varint (type 2).
+	 * @param {BigInt} value
+	 */
+
+	writeVarint2Big(value) {
+		const size = encoding.sizeVarint2Big(value);
+		const pool = poolBySize[size];
+		encoding.writeVarint2Big(pool, value, 0);
+		this.ctx.update(pool);
+		return this;
+	}
+
+	/**
+	 * Write an unsigned LEB128 varint.
+	 * @param {Number} value
+	 */
+
+	writeULEB128(value) {
+		const size = encoding.sizeULEB128(value);
+		const pool = poolBySize[size];
+		encoding.writeULEB128(pool, value, 0);
+		this.ctx.update(pool);
+		return this;
+	}
+
+	/**
+	 * Write an unsigned LEB128 varint.
+	 * @param {U64} value
+	 */
+
+	writeULEB128N(value) {
+		const size = encoding.sizeULEB128N(value);
+		const pool = poolBySize[size];
+		encoding.writeULEB128N(pool, value, 0);
+		this.ctx.update(pool);
+		return this;
+	}
+
+	/**
+	 * Write an unsigned LEB128 varint.
+	 * @param {BigInt} value
+	 */
+
+	writeULEB128Big(value) {
+		const size = encoding.sizeULEB128Big(value);
+		const pool = poolBySize[size];
+		encoding.writeULEB128Big(pool, value, 0);
+		this.ctx.update(pool);
+		return this;
+	}
+
+	/**
+	 * Write a signed LEB128 varint.
+	 * @param {Number} value
+	 */
+
+	writeSLEB128(value) {
+		const size = encoding.sizeSLEB128(value);
+		const pool = poolBySize[size];
+		encoding.writeSLEB128(pool, value, 0);
+		this.ctx.update(pool);
+		return this;
+	}
+
+	/**
+	 * Write a signed LEB128 varint.
+	 * @param {I64} value
+	 */
+
+	writeSLEB128N(value) {
+		const size = encoding.sizeSLEB128N(value);
+		const pool = poolBySize[size];
+		encoding.writeSLEB128N(pool, value, 0);
+		this.ctx.update(pool);
+		return this;
+	}
+
+	/**
+	 * Write a signed LEB128 varint.
+	 * @param {BigInt} value
+	 */
+
+	writeSLEB128Big(value) {
+		const size = encoding.sizeSLEB128Big(value);
+		const pool = poolBySize[size];
+		encoding.writeSLEB128Big(pool, value, 0);
+		this.ctx.update(pool);
+		return this;
+	}
+
+	/**
+	 * Write a zigzag-encoded LEB128 varint.
+	 * @param {Number} value
+	 */
+
+	writeZigzag(value) {
+		const size = encoding.sizeZigzag(value);
+		const pool = poolBySize[size];
+		encoding.writeZigzag(pool, value, 0);
+		this.ctx.update(pool);
+		return this;
+	}
+
+	/**
+	 * Write a zigzag-encoded LEB128 varint.
+	 * @param {I64} value
+	 */
+
+	writeZigzagN(value) {
+		const size = encoding.sizeZigzagN(value);
+		const pool = poolBySize[size];
+		encoding.writeZigzagN(pool, value, 0);
+		this.ctx.update(pool);
+		return this;
+	}
+
+	/**
+	 * Write a zigzag-encoded LEB128 varint.
+	 * @param {BigInt} value
+	 */
+
+	writeZigzagBig(value) {
+		const size = encoding.sizeZigzagBig(value);
+		const pool = poolBySize[size];
+		encoding.writeZigzagBig(pool, value, 0);
+		this.ctx.update(pool);
+		return this;
+	}
+
 	/**
 	 * Write bytes.
 	 * @param {Buffer} value
@@ -466,7 +661,7 @@ export default class HashWriter {
 			return this;
 
 		if (typeof value === 'string')
-			value = Buffer.from(value, enc);
+			value = bytes.fromString(value, enc);
 
 		this.ctx.update(value);
 		return this;
@@ -484,7 +679,7 @@ export default class HashWriter {
 			return this;
 		}
 		assert(value.length === 64);
-		POOL256.write(value, 0, undefined, 'hex'); // TODO
+		bytes.write(POOL256, value, 0, 'hex');
 		this.ctx.update(POOL256);
 		return this;
 	}
@@ -501,7 +696,7 @@ export default class HashWriter {
 			return this;
 		}
 
-		const size = Buffer.byteLength(value, enc);
+		const size = bytes.byteLength(value, enc);
 
 		this.writeVarint(size);
 		this.ctx.update(value, enc);
@@ -542,13 +737,13 @@ export default class HashWriter {
 			return this;
 
 		if (size <= 32) {
-			const data = POOL256.slice(0, size);
+			const data = bytes.slice(POOL256, 0, size);
 			data.fill(value);
 			this.ctx.update(data);
 			return this;
 		}
 
-		const data = Buffer.allocUnsafe(size);
+		const data = bytes.allocUnsafe(size);
 		data.fill(value);
 
 		this.ctx.update(data);
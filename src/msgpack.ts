@@ -0,0 +1,752 @@
+/*!
+ * msgpack.js - messagepack for bufio
+ * Copyright (c) 2018, Andrew Sun (MIT License).
+ * https://github.com/as-com/bufio
+ */
+
+'use strict';
+
+import * as assert from "assert";
+import {I64, U64} from "n64";
+import * as bytes from "./bytes";
+import EncodingError, {LimitError, TrailingDataError} from "./error";
+import BufferReader from "./reader";
+import SizeWriter from "./sizewriter";
+import StaticWriter from "./staticwriter";
+import BufferWriter, {IWriter} from "./writer";
+
+/*
+ * Constants
+ */
+
+const MAX_DEPTH = 64;
+const MAX_LENGTH = 8 << 20;
+
+const U64_MAX = (1n << 64n) - 1n;
+const I64_MIN = -(1n << 63n);
+const MAX_SAFE = BigInt(Number.MAX_SAFE_INTEGER);
+
+const TIMESTAMP = -1;
+
+export interface EncodeOptions {
+	extensions?: Extensions;
+	maxDepth?: number;
+}
+
+export interface DecodeOptions {
+	extensions?: Extensions;
+	maxDepth?: number;
+	maxLength?: number;
+	n64?: boolean;
+	maps?: boolean;
+}
+
+/**
+ * Extension codec. Encoding errors thrown by `decode`
+ * are passed through with their offsets rebased onto
+ * the enclosing input, other errors are wrapped in an
+ * EncodingError. `encode` is called once per value.
+ */
+
+export interface ExtCodec<T = any> {
+	type: number;
+	match(value: any): boolean;
+	encode(value: T): Uint8Array;
+	decode(data: Uint8Array): T;
+}
+
+/**
+ * Extension value with no registered codec.
+ */
+
+export class Ext {
+	type: number;
+	data: Uint8Array;
+
+	constructor(type: number, data: Uint8Array) {
+		this.type = type;
+		this.data = data;
+	}
+}
+
+/**
+ * Extensions
+ * Table of extension codecs, keyed by type.
+ */
+
+export class Extensions {
+	codecs: Map<number, ExtCodec>;
+
+	/**
+	 * Create an extension table.
+	 * @constructor
+	 */
+
+	constructor() {
+		this.codecs = new Map();
+	}
+
+	/**
+	 * Register an extension codec, replacing
+	 * any existing codec for its type.
+	 * @param {ExtCodec} codec
+	 */
+
+	register(codec: ExtCodec) {
+		assert((codec.type << 24 >> 24) === codec.type, 'Invalid extension type.');
+		this.codecs.set(codec.type, codec);
+		return this;
+	}
+
+	/**
+	 * Remove an extension codec.
+	 * @param {Number} type
+	 */
+
+	unregister(type: number) {
+		this.codecs.delete(type);
+		return this;
+	}
+
+	/**
+	 * Get the codec for an extension type.
+	 * @param {Number} type
+	 * @returns {ExtCodec|null}
+	 */
+
+	get(type: number) {
+		return this.codecs.get(type) || null;
+	}
+
+	/**
+	 * Find a codec able to encode a value.
+	 * @param {*} value
+	 * @returns {ExtCodec|null}
+	 */
+
+	find(value: any) {
+		for (const codec of this.codecs.values()) {
+			if (codec.match(value))
+				return codec;
+		}
+		return null;
+	}
+
+	/**
+	 * Clone the extension table.
+	 * @returns {Extensions}
+	 */
+
+	clone() {
+		const copy = new Extensions();
+
+		for (const codec of this.codecs.values())
+			copy.register(codec);
+
+		return copy;
+	}
+}
+
+/**
+ * Timestamp extension (type -1). Dates are
+ * encoded with millisecond precision using
+ * the smallest of the 32, 64 and 96 bit forms.
+ */
+
+export const timestamp: ExtCodec<Date> = {
+	type: TIMESTAMP,
+
+	match(value: any) {
+		return value instanceof Date;
+	},
+
+	encode(date: Date) {
+		const ms = date.getTime();
+		const sec = Math.floor(ms / 1000);
+		const nsec = (ms - sec * 1000) * 1e6;
+
+		if (sec >= 0 && sec < 2 ** 34) {
+			if (nsec === 0 && sec < 2 ** 32) {
+				const bw = new StaticWriter(4);
+				bw.writeU32BE(sec);
+				return bw.render();
+			}
+
+			const bw = new StaticWriter(8);
+			bw.writeU32BE(nsec * 4 + Math.floor(sec / 2 ** 32));
+			bw.writeU32BE(sec >>> 0);
+			return bw.render();
+		}
+
+		const bw = new StaticWriter(12);
+		bw.writeU32BE(nsec);
+		bw.writeI64BE(sec);
+		return bw.render();
+	},
+
+	decode(data: Uint8Array) {
+		const br = new BufferReader(data);
+
+		let sec, nsec;
+
+		switch (data.length) {
+			case 4:
+				nsec = 0;
+				sec = br.readU32BE();
+				break;
+			case 8: {
+				const hi = br.readU32BE();
+				nsec = hi >>> 2;
+				sec = (hi & 3) * 2 ** 32 + br.readU32BE();
+				break;
+			}
+			case 12:
+				nsec = br.readU32BE();
+				sec = br.readI64BE();
+				break;
+			default:
+				throw new EncodingError(0, 'Invalid timestamp');
+		}
+
+		if (nsec > 999999999)
+			throw new EncodingError(0, 'Invalid timestamp');
+
+		return new Date(sec * 1000 + Math.floor(nsec / 1e6));
+	}
+};
+
+/**
+ * Default extension table.
+ * @const {Extensions}
+ */
+
+export const extensions = new Extensions().register(timestamp);
+
+/**
+ * Encoder
+ */
+
+class Encoder {
+	bw: IWriter;
+	extensions: Extensions;
+	maxDepth: number;
+	depth: number;
+
+	constructor(bw: IWriter, options: EncodeOptions) {
+		this.bw = bw;
+		this.extensions = options.extensions || extensions;
+		this.maxDepth = options.maxDepth != null ? options.maxDepth : MAX_DEPTH;
+		this.depth = 0;
+	}
+
+	enter() {
+		this.depth += 1;
+
+		if (this.depth > this.maxDepth)
+			throw new LimitError(this.bw.getSize(), 'Depth exceeds limit');
+	}
+
+	writeItem(value: any) {
+		const bw = this.bw;
+
+		switch (typeof value) {
+			case 'undefined':
+				bw.writeU8(0xc0);
+				return;
+			case 'boolean':
+				bw.writeU8(value ? 0xc3 : 0xc2);
+				return;
+			case 'number':
+				this.writeNumber(value);
+				return;
+			case 'bigint':
+				this.writeBigInt(value);
+				return;
+			case 'string':
+				this.writeString(value);
+				return;
+		}
+
+		if (value === null) {
+			bw.writeU8(0xc0);
+			return;
+		}
+
+		if (value instanceof Uint8Array) {
+			this.writeHeader(value.length, -1, 0xc4, 0xc5, 0xc6);
+			bw.writeBytes(value);
+			return;
+		}
+
+		if (value instanceof U64 || value instanceof I64) {
+			this.writeBigInt(BigInt(value.toString(10)));
+			return;
+		}
+
+		if (Array.isArray(value)) {
+			this.writeHeader(value.length, 0x90, -1, 0xdc, 0xdd);
+
+			this.enter();
+
+			for (const item of value)
+				this.writeItem(item);
+
+			this.depth -= 1;
+			return;
+		}
+
+		if (value instanceof Map) {
+			this.writeMap(Array.from(value));
+			return;
+		}
+
+		if (value instanceof Ext) {
+			this.writeExt(value.type, value.data);
+			return;
+		}
+
+		const codec = this.extensions.find(value);
+
+		if (codec) {
+			this.writeExt(codec.type, codec.encode(value));
+			return;
+		}
+
+		const proto = Object.getPrototypeOf(value);
+
+		if (proto === Object.prototype || proto === null) {
+			this.writeMap(Object.keys(value).map(key => [key, value[key]]));
+			return;
+		}
+
+		throw new EncodingError(bw.getSize(), 'Unsupported type');
+	}
+
+	writeHeader(len: number, fix: number, b8: number, b16: number, b32: number) {
+		const bw = this.bw;
+
+		if (fix !== -1 && len < (fix === 0xa0 ? 32 : 16)) {
+			bw.writeU8(fix | len);
+		} else if (b8 !== -1 && len <= 0xff) {
+			bw.writeU8(b8);
+			bw.writeU8(len);
+		} else if (len <= 0xffff) {
+			bw.writeU8(b16);
+			bw.writeU16BE(len);
+		} else if (len <= 0xffffffff) {
+			bw.writeU8(b32);
+			bw.writeU32BE(len);
+		} else {
+			throw new LimitError(bw.getSize(), 'Length exceeds 2^32-1');
+		}
+	}
+
+	writeNumber(num: number) {
+		const bw = this.bw;
+
+		if (!Number.isSafeInteger(num)) {
+			if (Math.fround(num) === num) {
+				bw.writeU8(0xca);
+				bw.writeFloatBE(num);
+			} else {
+				bw.writeU8(0xcb);
+				bw.writeDoubleBE(num);
+			}
+			return;
+		}
+
+		if (num >= 0) {
+			if (num <= 0x7f) {
+				bw.writeU8(num);
+			} else if (num <= 0xff) {
+				bw.writeU8(0xcc);
+				bw.writeU8(num);
+			} else if (num <= 0xffff) {
+				bw.writeU8(0xcd);
+				bw.writeU16BE(num);
+			} else if (num <= 0xffffffff) {
+				bw.writeU8(0xce);
+				bw.writeU32BE(num);
+			} else {
+				bw.writeU8(0xcf);
+				bw.writeU64BE(num);
+			}
+			return;
+		}
+
+		if (num >= -0x20) {
+			bw.writeI8(num);
+		} else if (num >= -0x80) {
+			bw.writeU8(0xd0);
+			bw.writeI8(num);
+		} else if (num >= -0x8000) {
+			bw.writeU8(0xd1);
+			bw.writeI16BE(num);
+		} else if (num >= -0x80000000) {
+			bw.writeU8(0xd2);
+			bw.writeI32BE(num);
+		} else {
+			bw.writeU8(0xd3);
+			bw.writeI64BE(num);
+		}
+	}
+
+	writeBigInt(num: bigint) {
+		if (num >= -MAX_SAFE && num <= MAX_SAFE) {
+			this.writeNumber(Number(num));
+			return;
+		}
+
+		if (num > 0n && num <= U64_MAX) {
+			this.bw.writeU8(0xcf);
+			this.bw.writeU64BEBig(num);
+			return;
+		}
+
+		if (num < 0n && num >= I64_MIN) {
+			this.bw.writeU8(0xd3);
+			this.bw.writeI64BEBig(num);
+			return;
+		}
+
+		throw new LimitError(this.bw.getSize(), 'Number exceeds 64 bits');
+	}
+
+	writeString(str: string) {
+		this.writeHeader(bytes.byteLength(str, 'utf8'), 0xa0, 0xd9, 0xda, 0xdb);
+		this.bw.writeString(str, 'utf8');
+	}
+
+	writeMap(entries: [any, any][]) {
+		this.writeHeader(entries.length, 0x80, -1, 0xde, 0xdf);
+
+		this.enter();
+
+		for (const [key, value] of entries) {
+			this.writeItem(key);
+			this.writeItem(value);
+		}
+
+		this.depth -= 1;
+	}
+
+	writeExt(type: number, data: Uint8Array) {
+		const bw = this.bw;
+
+		if ((type << 24 >> 24) !== type)
+			throw new EncodingError(bw.getSize(), 'Invalid extension type');
+
+		switch (data.length) {
+			case 1:
+				bw.writeU8(0xd4);
+				break;
+			case 2:
+				bw.writeU8(0xd5);
+				break;
+			case 4:
+				bw.writeU8(0xd6);
+				break;
+			case 8:
+				bw.writeU8(0xd7);
+				break;
+			case 16:
+				bw.writeU8(0xd8);
+				break;
+			default:
+				this.writeHeader(data.length, -1, 0xc7, 0xc8, 0xc9);
+				break;
+		}
+
+		bw.writeI8(type);
+		bw.writeBytes(data);
+	}
+}
+
+/**
+ * Decoder
+ */
+
+class Decoder {
+	br: BufferReader;
+	extensions: Extensions;
+	maxDepth: number;
+	maxLength: number;
+	n64: boolean;
+	maps: boolean;
+	depth: number;
+
+	constructor(br: BufferReader, options: DecodeOptions) {
+		this.br = br;
+		this.extensions = options.extensions || extensions;
+		this.maxDepth = options.maxDepth != null ? options.maxDepth : MAX_DEPTH;
+		this.maxLength = options.maxLength != null ? options.maxLength : MAX_LENGTH;
+		this.n64 = options.n64 || false;
+		this.maps = options.maps || false;
+		this.depth = 0;
+	}
+
+	enter(off: number) {
+		this.depth += 1;
+
+		if (this.depth > this.maxDepth)
+			throw new LimitError(off, 'Depth exceeds limit');
+	}
+
+	check(len: number, off: number) {
+		if (len > this.maxLength)
+			throw new LimitError(off, 'Length exceeds limit');
+		return len;
+	}
+
+	readItem(): any {
+		const br = this.br;
+		const off = br.offset;
+		const byte = br.readU8();
+
+		if (byte <= 0x7f)
+			return byte;
+
+		if (byte >= 0xe0)
+			return byte - 0x100;
+
+		if (byte <= 0x8f)
+			return this.readMap(byte & 0x0f, off);
+
+		if (byte <= 0x9f)
+			return this.readArray(byte & 0x0f, off);
+
+		if (byte <= 0xbf)
+			return this.readString(byte & 0x1f, off);
+
+		switch (byte) {
+			case 0xc0:
+				return null;
+			case 0xc2:
+				return false;
+			case 0xc3:
+				return true;
+			case 0xc4:
+				return br.readBytes(this.check(br.readU8(), off));
+			case 0xc5:
+				return br.readBytes(this.check(br.readU16BE(), off));
+			case 0xc6:
+				return br.readBytes(this.check(br.readU32BE(), off));
+			case 0xc7:
+				return this.readExt(br.readU8(), off);
+			case 0xc8:
+				return this.readExt(br.readU16BE(), off);
+			case 0xc9:
+				return this.readExt(br.readU32BE(), off);
+			case 0xca:
+				return br.readFloatBE();
+			case 0xcb:
+				return br.readDoubleBE();
+			case 0xcc:
+				return br.readU8();
+			case 0xcd:
+				return br.readU16BE();
+			case 0xce:
+				return br.readU32BE();
+			case 0xcf:
+				return this.toInt(br.readU64BEBig());
+			case 0xd0:
+				return br.readI8();
+			case 0xd1:
+				return br.readI16BE();
+			case 0xd2:
+				return br.readI32BE();
+			case 0xd3:
+				return this.toInt(br.readI64BEBig());
+			case 0xd4:
+				return this.readExt(1, off);
+			case 0xd5:
+				return this.readExt(2, off);
+			case 0xd6:
+				return this.readExt(4, off);
+			case 0xd7:
+				return this.readExt(8, off);
+			case 0xd8:
+				return this.readExt(16, off);
+			case 0xd9:
+				return this.readString(br.readU8(), off);
+			case 0xda:
+				return this.readString(br.readU16BE(), off);
+			case 0xdb:
+				return this.readString(br.readU32BE(), off);
+			case 0xdc:
+				return this.readArray(br.readU16BE(), off);
+			case 0xdd:
+				return this.readArray(br.readU32BE(), off);
+			case 0xde:
+				return this.readMap(br.readU16BE(), off);
+			case 0xdf:
+				return this.readMap(br.readU32BE(), off);
+		}
+
+		throw new EncodingError(off, 'Invalid type');
+	}
+
+	toInt(num: bigint): any {
+		if (num >= -MAX_SAFE && num <= MAX_SAFE)
+			return Number(num);
+
+		if (this.n64) {
+			return num < 0n
+				? I64.fromString(num.toString(10), 10)
+				: U64.fromString(num.toString(10), 10);
+		}
+
+		return num;
+	}
+
+	readString(len: number, off: number) {
+		return this.br.readString('utf8', this.check(len, off));
+	}
+
+	readArray(len: number, off: number) {
+		const items = [];
+
+		this.check(len, off);
+		this.enter(off);
+
+		for (let i = 0; i < len; i++)
+			items.push(this.readItem());
+
+		this.depth -= 1;
+
+		return items;
+	}
+
+	readMap(len: number, off: number) {
+		const entries: [any, any][] = [];
+
+		this.check(len, off);
+		this.enter(off);
+
+		for (let i = 0; i < len; i++)
+			entries.push([this.readItem(), this.readItem()]);
+
+		this.depth -= 1;
+
+		if (this.maps || !entries.every(([key]) => typeof key === 'string'))
+			return new Map(entries);
+
+		const obj = {};
+
+		for (const [key, value] of entries) {
+			Object.defineProperty(obj, key, {
+				value,
+				enumerable: true,
+				configurable: true,
+				writable: true
+			});
+		}
+
+		return obj;
+	}
+
+	readExt(len: number, off: number) {
+		this.check(len, off);
+
+		const type = this.br.readI8();
+		const start = this.br.offset;
+		const data = this.br.readBytes(len);
+		const codec = this.extensions.get(type);
+
+		if (!codec)
+			return new Ext(type, data);
+
+		try {
+			return codec.decode(data);
+		} catch (e) {
+			if (e instanceof EncodingError)
+				throw e.addOffset(start);
+			throw new EncodingError(off, `Invalid extension: ${e.message}`);
+		}
+	}
+}
+
+/*
+ * API
+ */
+
+/**
+ * Encode a value as msgpack. The value is walked
+ * once, so extension codecs run once per value,
+ * and a single buffer is allocated on render.
+ * @param {*} value
+ * @param {Object?} options
+ * @param {Extensions?} options.extensions - Extension table
+ * (default: `msgpack.extensions`).
+ * @param {Number?} options.maxDepth - Maximum nesting depth.
+ * @returns {Buffer}
+ */
+
+export function encode(value: any, options: EncodeOptions = {}) {
+	const bw = new BufferWriter();
+	write(bw, value, options);
+	return bw.render();
+}
+
+/**
+ * Write a value as msgpack.
+ * @param {IWriter} bw
+ * @param {*} value
+ * @param {Object?} options
+ */
+
+export function write(bw: IWriter, value: any, options: EncodeOptions = {}) {
+	new Encoder(bw, options).writeItem(value);
+	return bw;
+}
+
+/**
+ * Calculate encoded size of a value.
+ * @param {*} value
+ * @param {Object?} options
+ * @returns {Number}
+ */
+
+export function size(value: any, options: EncodeOptions = {}) {
+	const sw = new SizeWriter();
+	write(sw, value, options);
+	return sw.render();
+}
+
+/**
+ * Decode a single msgpack value,
+ * rejecting trailing data.
+ * @param {Uint8Array} data
+ * @param {Object?} options
+ * @param {Extensions?} options.extensions - Extension table
+ * (default: `msgpack.extensions`).
+ * @param {Number?} options.maxDepth - Maximum nesting depth.
+ * @param {Number?} options.maxLength - Maximum string length
+ * or item count.
+ * @param {Boolean?} options.n64 - Return 64 bit integers outside
+ * of the safe range as `U64`/`I64` rather than bigint.
+ * @param {Boolean?} options.maps - Always decode maps to `Map`
+ * (default: only maps with non-string keys).
+ * @returns {*}
+ */
+
+export function decode(data: Uint8Array, options: DecodeOptions = {}) {
+	const br = new BufferReader(data);
+	const value = read(br, options);
+
+	if (br.left() > 0)
+		throw new TrailingDataError(br.offset);
+
+	return value;
+}
+
+/**
+ * Read a single msgpack value.
+ * @param {BufferReader} br
+ * @param {Object?} options
+ * @returns {*}
+ */
+
+export function read(br: BufferReader, options: DecodeOptions = {}) {
+	return new Decoder(br, options).readItem();
+}
@@ -7,13 +7,13 @@ declare module "n64" {
 		lo: number;
 		hi: number;
 
-		readLE(data: Buffer, off: number): this;
+		readLE(data: Uint8Array, off: number): this;
 
-		readBE(data: Buffer, off: number): this;
+		readBE(data: Uint8Array, off: number): this;
 
-		writeLE(data: Buffer, off: number): number;
+		writeLE(data: Uint8Array, off: number): number;
 
-		writeBE(data: Buffer, off: number): number;
+		writeBE(data: Uint8Array, off: number): number;
 
 		iaddn(num: number): this;
 
@@ -37,31 +37,49 @@ declare module "n64" {
 		clone(): this;
 
 		toInt(): number;
+
+		toNumber(): number;
+
+		toString(base?: number, pad?: number): string;
+
+		toJSON(): string;
 	}
 
 	export class I64 extends N64 {
-		static readLE(data: Buffer, off: number): I64;
+		static readLE(data: Uint8Array, off: number): I64;
 
-		static readBE(data: Buffer, off: number): I64;
+		static readBE(data: Uint8Array, off: number): I64;
 
-		static writeLE(data: Buffer, off: number): I64;
+		static writeLE(data: Uint8Array, off: number): I64;
 
-		static writeBE(data: Buffer, off: number): I64;
+		static writeBE(data: Uint8Array, off: number): I64;
 
 		static fromInt(lo: number): I64;
+
+		static fromNumber(num: number): I64;
+
+		static fromString(str: string, base?: number): I64;
+
+		static fromJSON(json: string): I64;
 	}
 
 	export class U64 extends N64 {
 		static UINT64_MAX: U64;
 
-		static readLE(data: Buffer, off: number): U64;
+		static readLE(data: Uint8Array, off: number): U64;
 
-		static readBE(data: Buffer, off: number): U64;
+		static readBE(data: Uint8Array, off: number): U64;
 
-		static writeLE(data: Buffer, off: number): U64;
+		static writeLE(data: Uint8Array, off: number): U64;
 
-		static writeBE(data: Buffer, off: number): U64;
+		static writeBE(data: Uint8Array, off: number): U64;
 
 		static fromInt(lo: number): U64;
+
+		static fromNumber(num: number): U64;
+
+		static fromString(str: string, base?: number): U64;
+
+		static fromJSON(json: string): U64;
 	}
 }
@@ -0,0 +1,83 @@
+/*!
+ * placeholder.js - reserved writer fields for bufio
+ * Copyright (c) 2018, Andrew Sun (MIT License).
+ * https://github.com/as-com/bufio
+ */
+
+'use strict';
+
+import * as assert from "assert";
+import {PrefixType, sizePrefix} from "./prefix";
+
+export interface IPlaceholderWriter {
+	fillPlaceholder(ph: Placeholder, value: number): any;
+}
+
+/**
+ * Placeholder
+ * A field reserved in a writer which
+ * is filled in once its value is known.
+ */
+
+export default class Placeholder {
+	writer: IPlaceholderWriter;
+	type: PrefixType;
+	offset: number;
+	filled: boolean;
+	value: number;
+
+	/**
+	 * Create a placeholder.
+	 * @constructor
+	 * @param {Object} writer
+	 * @param {PrefixType} type
+	 * @param {Number} offset
+	 */
+
+	constructor(writer: IPlaceholderWriter, type: PrefixType, offset: number) {
+		this.writer = writer;
+		this.type = type;
+		this.offset = offset;
+		this.filled = false;
+		this.value = 0;
+	}
+
+	/**
+	 * Whether the size of the field depends on its value.
+	 * @returns {Boolean}
+	 */
+
+	isVariable() {
+		return this.type === 'varint' || this.type === 'varint2';
+	}
+
+	/**
+	 * Get the offset directly after the reserved
+	 * field (before it is filled).
+	 * @returns {Number}
+	 */
+
+	getEnd() {
+		if (this.isVariable())
+			return this.offset;
+		return this.offset + sizePrefix(this.type, 0);
+	}
+
+	/**
+	 * Fill in the reserved field.
+	 * @param {Number} value
+	 * @returns {Placeholder}
+	 */
+
+	fill(value: number) {
+		assert(!this.filled, 'Placeholder already filled.');
+		assert(Number.isSafeInteger(value) && value >= 0);
+
+		this.writer.fillPlaceholder(this, value);
+
+		this.filled = true;
+		this.value = value;
+
+		return this;
+	}
+}
@@ -0,0 +1,185 @@
+/*!
+ * prefix.js - length prefixes for bufio
+ * Copyright (c) 2018, Andrew Sun (MIT License).
+ * https://github.com/as-com/bufio
+ */
+
+'use strict';
+
+import * as encoding from "./encoding";
+import {Varint} from "./encoding";
+import {LimitError, OutOfBoundsError} from "./error";
+
+/**
+ * Length prefix type.
+ */
+
+export type PrefixType = 'varint' | 'varint2' | 'u8' | 'u16' | 'u16be' | 'u32' | 'u32be';
+
+/**
+ * Calculate size of a length prefix.
+ * @param {PrefixType} type
+ * @param {Number} num
+ * @returns {Number} size
+ */
+
+export function sizePrefix(type: PrefixType, num: number): number {
+	switch (type) {
+		case 'varint':
+			return encoding.sizeVarint(num);
+		case 'varint2':
+			return encoding.sizeVarint2(num);
+		case 'u8':
+			return 1;
+		case 'u16':
+		case 'u16be':
+			return 2;
+		case 'u32':
+		case 'u32be':
+			return 4;
+		default:
+			throw new Error('Unknown prefix type.');
+	}
+}
+
+/**
+ * Calculate the size of an encoded length prefix
+ * from its leading bytes without decoding it.
+ * @param {PrefixType} type
+ * @param {Uint8Array} data
+ * @param {Number} off
+ * @returns {Number} size, or -1 if more data is needed.
+ */
+
+export function peekPrefix(type: PrefixType, data: Uint8Array, off: number): number {
+	let size;
+
+	switch (type) {
+		case 'varint':
+			if (off >= data.length)
+				return -1;
+
+			switch (data[off]) {
+				case 0xff:
+					size = 9;
+					break;
+				case 0xfe:
+					size = 5;
+					break;
+				case 0xfd:
+					size = 3;
+					break;
+				default:
+					size = 1;
+					break;
+			}
+
+			break;
+		case 'varint2':
+			// A 64 bit varint (type 2) never exceeds 10 bytes.
+			for (size = 1; size < 10; size++) {
+				if (off + size > data.length)
+					return -1;
+
+				if ((data[off + size - 1] & 0x80) === 0)
+					break;
+			}
+
+			break;
+		default:
+			size = sizePrefix(type, 0);
+			break;
+	}
+
+	if (off + size > data.length)
+		return -1;
+
+	return size;
+}
+
+/**
+ * Read a length prefix.
+ * @param {PrefixType} type
+ * @param {Uint8Array} data
+ * @param {Number} off
+ * @returns {Object}
+ */
+
+export function readPrefix(type: PrefixType, data: Uint8Array, off: number): Varint {
+	switch (type) {
+		case 'varint':
+			return encoding.readVarint(data, off);
+		case 'varint2':
+			return encoding.readVarint2(data, off);
+	}
+
+	const size = sizePrefix(type, 0);
+
+	if (off + size > data.length)
+		throw new OutOfBoundsError(off, 'Out of bounds read', readPrefix);
+
+	switch (type) {
+		case 'u8':
+			return new Varint(size, data[off]);
+		case 'u16':
+			return new Varint(size, encoding.readU16(data, off));
+		case 'u16be':
+			return new Varint(size, encoding.readU16BE(data, off));
+		case 'u32':
+			return new Varint(size, encoding.readU32(data, off));
+		default:
+			return new Varint(size, encoding.readU32BE(data, off));
+	}
+}
+
+/**
+ * Ensure a length fits in a prefix.
+ * @param {PrefixType} type
+ * @param {Number} num
+ * @param {Number} off
+ * @throws {LimitError} if the length is too large.
+ */
+
+export function checkPrefix(type: PrefixType, num: number, off: number) {
+	if (type === 'varint' || type === 'varint2')
+		return;
+
+	const size = sizePrefix(type, num);
+
+	if (num > 2 ** (size * 8) - 1)
+		throw new LimitError(off, 'Length exceeds prefix', checkPrefix);
+}
+
+/**
+ * Write a length prefix.
+ * @param {Uint8Array} dst
+ * @param {PrefixType} type
+ * @param {Number} num
+ * @param {Number} off
+ * @returns {Number} Buffer offset.
+ */
+
+export function writePrefix(dst: Uint8Array, type: PrefixType, num: number, off: number): number {
+	switch (type) {
+		case 'varint':
+			return encoding.writeVarint(dst, num, off);
+		case 'varint2':
+			return encoding.writeVarint2(dst, num, off);
+	}
+
+	checkPrefix(type, num, off);
+
+	switch (type) {
+		case 'u8':
+			dst[off] = num;
+			return off + 1;
+		case 'u16':
+			return encoding.writeU16(dst, num, off);
+		case 'u16be':
+			return encoding.writeU16BE(dst, num, off);
+		case 'u32':
+			return encoding.writeU32(dst, num, off);
+		default:
+			return encoding.writeU32BE(dst, num, off);
+	}
+}
@@ -0,0 +1,643 @@
+/*!
+ * protobuf.js - protocol buffers wire format for bufio
+ * Copyright (c) 2018, Andrew Sun (MIT License).
+ * https://github.com/as-com/bufio
+ */
+
+'use strict';
+
+import EncodingError, {LimitError, OutOfBoundsError} from "./error";
+import BufferReader from "./reader";
+import SizeWriter from "./sizewriter";
+import BufferWriter, {IWriter} from "./writer";
+
+/*
+ * Constants
+ */
+
+/**
+ * Wire types.
+ * @enum {Number}
+ */
+
+export const types = {
+	VARINT: 0,
+	I64: 1,
+	LEN: 2,
+	SGROUP: 3,
+	EGROUP: 4,
+	I32: 5
+};
+
+const MAX_FIELD = 0x1fffffff;
+const MAX_DEPTH = 100;
+const U64_MAX = (1n << 64n) - 1n;
+const I64_MAX = (1n << 63n) - 1n;
+const I64_MIN = -(1n << 63n);
+
+/**
+ * Field tag.
+ */
+
+export class Tag {
+	field: number;
+	type: number;
+
+	constructor(field: number, type: number) {
+		this.field = field;
+		this.type = type;
+	}
+}
+
+/*
+ * Varints
+ */
+
+/**
+ * Read a LEB128 varint as a number.
+ * @param {BufferReader} br
+ * @returns {Number}
+ * @throws {LimitError} If the value exceeds 2^53-1.
+ */
+
+export function readVarint(br: BufferReader) {
+	const off = br.offset;
+
+	let num = 0;
+	let mul = 1;
+
+	for (let i = 0; i < 10; i++) {
+		const ch = br.readU8();
+
+		num += (ch & 0x7f) * mul;
+		mul *= 0x80;
+
+		if (num > Number.MAX_SAFE_INTEGER)
+			throw new LimitError(off, 'Number exceeds 2^53-1');
+
+		if ((ch & 0x80) === 0)
+			return num;
+	}
+
+	throw new EncodingError(off, 'Varint exceeds 10 bytes');
+}
+
+/**
+ * Read a LEB128 varint as a bigint.
+ * @param {BufferReader} br
+ * @returns {BigInt}
+ * @throws {LimitError} If the value exceeds 2^64-1.
+ */
+
+export function readVarintBig(br: BufferReader) {
+	const off = br.offset;
+
+	let num = 0n;
+
+	for (let i = 0; i < 10; i++) {
+		const ch = br.readU8();
+
+		num |= BigInt(ch & 0x7f) << BigInt(i * 7);
+
+		if ((ch & 0x80) === 0) {
+			if (num > U64_MAX)
+				throw new LimitError(off, 'Number exceeds 2^64-1');
+			return num;
+		}
+	}
+
+	throw new EncodingError(off, 'Varint exceeds 10 bytes');
+}
+
+/**
+ * Write a number as a LEB128 varint.
+ * @param {IWriter} bw
+ * @param {Number} num
+ */
+
+export function writeVarint(bw: IWriter, num: number) {
+	check(Number.isSafeInteger(num) && num >= 0, bw, 'Invalid varint');
+
+	while (num >= 0x80) {
+		bw.writeU8((num % 0x80) | 0x80);
+		num = Math.floor(num / 0x80);
+	}
+
+	bw.writeU8(num);
+
+	return bw;
+}
+
+/**
+ * Write a bigint as a LEB128 varint.
+ * @param {IWriter} bw
+ * @param {BigInt} num
+ */
+
+export function writeVarintBig(bw: IWriter, num: bigint) {
+	check(num >= 0n && num <= U64_MAX, bw, 'Invalid varint');
+
+	while (num >= 0x80n) {
+		bw.writeU8(Number(num & 0x7fn) | 0x80);
+		num >>= 7n;
+	}
+
+	bw.writeU8(Number(num));
+
+	return bw;
+}
+
+/**
+ * Calculate size of a LEB128 varint.
+ * @param {Number} num
+ * @returns {Number}
+ */
+
+export function sizeVarint(num: number) {
+	let size = 1;
+
+	while (num >= 0x80) {
+		num = Math.floor(num / 0x80);
+		size += 1;
+	}
+
+	return size;
+}
+
+/**
+ * Calculate size of a bigint LEB128 varint.
+ * @param {BigInt} num
+ * @returns {Number}
+ */
+
+export function sizeVarintBig(num: bigint) {
+	let size = 1;
+
+	while (num >= 0x80n) {
+		num >>= 7n;
+		size += 1;
+	}
+
+	return size;
+}
+
+/*
+ * Scalars
+ */
+
+/**
+ * Read an int32. Negative values are
+ * sign-extended to ten bytes on the wire.
+ * @param {BufferReader} br
+ * @returns {Number}
+ */
+
+export function readInt32(br: BufferReader) {
+	return Number(BigInt.asIntN(32, readVarintBig(br)));
+}
+
+/**
+ * Write an int32.
+ * @param {IWriter} bw
+ * @param {Number} num
+ */
+
+export function writeInt32(bw: IWriter, num: number) {
+	check((num | 0) === num, bw, 'Invalid int32');
+
+	if (num < 0)
+		return writeVarintBig(bw, BigInt.asUintN(64, BigInt(num)));
+
+	return writeVarint(bw, num);
+}
+
+/**
+ * Read a uint32.
+ * @param {BufferReader} br
+ * @returns {Number}
+ */
+
+export function readUint32(br: BufferReader) {
+	return Number(BigInt.asUintN(32, readVarintBig(br)));
+}
+
+/**
+ * Write a uint32.
+ * @param {IWriter} bw
+ * @param {Number} num
+ */
+
+export function writeUint32(bw: IWriter, num: number) {
+	check((num >>> 0) === num, bw, 'Invalid uint32');
+	return writeVarint(bw, num);
+}
+
+/**
+ * Read an int64.
+ * @param {BufferReader} br
+ * @returns {BigInt}
+ */
+
+export function readInt64(br: BufferReader) {
+	return BigInt.asIntN(64, readVarintBig(br));
+}
+
+/**
+ * Write an int64.
+ * @param {IWriter} bw
+ * @param {BigInt} num
+ */
+
+export function writeInt64(bw: IWriter, num: bigint) {
+	check(num >= I64_MIN && num <= I64_MAX, bw, 'Invalid int64');
+	return writeVarintBig(bw, BigInt.asUintN(64, num));
+}
+
+/**
+ * Read a uint64.
+ * @param {BufferReader} br
+ * @returns {BigInt}
+ */
+
+export function readUint64(br: BufferReader) {
+	return readVarintBig(br);
+}
+
+/**
+ * Write a uint64.
+ * @param {IWriter} bw
+ * @param {BigInt} num
+ */
+
+export function writeUint64(bw: IWriter, num: bigint) {
+	return writeVarintBig(bw, num);
+}
+
+/**
+ * Read a zigzag-encoded sint32.
+ * @param {BufferReader} br
+ * @returns {Number}
+ */
+
+export function readSint32(br: BufferReader) {
+	const num = readUint32(br);
+	return (num >>> 1) ^ -(num & 1);
+}
+
+/**
+ * Write a zigzag-encoded sint32.
+ * @param {IWriter} bw
+ * @param {Number} num
+ */
+
+export function writeSint32(bw: IWriter, num: number) {
+	check((num | 0) === num, bw, 'Invalid sint32');
+	return writeVarint(bw, ((num << 1) ^ (num >> 31)) >>> 0);
+}
+
+/**
+ * Read a zigzag-encoded sint64.
+ * @param {BufferReader} br
+ * @returns {BigInt}
+ */
+
+export function readSint64(br: BufferReader) {
+	const num = readVarintBig(br);
+	return (num >> 1n) ^ -(num & 1n);
+}
+
+/**
+ * Write a zigzag-encoded sint64.
+ * @param {IWriter} bw
+ * @param {BigInt} num
+ */
+
+export function writeSint64(bw: IWriter, num: bigint) {
+	check(num >= I64_MIN && num <= I64_MAX, bw, 'Invalid sint64');
+	return writeVarintBig(bw, BigInt.asUintN(64, (num << 1n) ^ (num >> 63n)));
+}
+
+/**
+ * Read a bool.
+ * @param {BufferReader} br
+ * @returns {Boolean}
+ */
+
+export function readBool(br: BufferReader) {
+	return readVarintBig(br) !== 0n;
+}
+
+/**
+ * Write a bool.
+ * @param {IWriter} bw
+ * @param {Boolean} value
+ */
+
+export function writeBool(bw: IWriter, value: boolean) {
+	bw.writeU8(value ? 1 : 0);
+	return bw;
+}
+
+/**
+ * Read a fixed32.
+ * @param {BufferReader} br
+ * @returns {Number}
+ */
+
+export function readFixed32(br: BufferReader) {
+	return br.readU32();
+}
+
+/**
+ * Write a fixed32.
+ * @param {IWriter} bw
+ * @param {Number} num
+ */
+
+export function writeFixed32(bw: IWriter, num: number) {
+	bw.writeU32(num);
+	return bw;
+}
+
+/**
+ * Read an sfixed32.
+ * @param {BufferReader} br
+ * @returns {Number}
+ */
+
+export function readSfixed32(br: BufferReader) {
+	return br.readI32();
+}
+
+/**
+ * Write an sfixed32.
+ * @param {IWriter} bw
+ * @param {Number} num
+ */
+
+export function writeSfixed32(bw: IWriter, num: number) {
+	bw.writeI32(num);
+	return bw;
+}
+
+/**
+ * Read a fixed64.
+ * @param {BufferReader} br
+ * @returns {BigInt}
+ */
+
+export function readFixed64(br: BufferReader) {
+	return br.readU64Big();
+}
+
+/**
+ * Write a fixed64.
+ * @param {IWriter} bw
+ * @param {BigInt} num
+ */
+
+export function writeFixed64(bw: IWriter, num: bigint) {
+	bw.writeU64Big(num);
+	return bw;
+}
+
+/**
+ * Read an sfixed64.
+ * @param {BufferReader} br
+ * @returns {BigInt}
+ */
+
+export function readSfixed64(br: BufferReader) {
+	return br.readI64Big();
+}
+
+/**
+ * Write an sfixed64.
+ * @param {IWriter} bw
+ * @param {BigInt} num
+ */
+
+export function writeSfixed64(bw: IWriter, num: bigint) {
+	bw.writeI64Big(num);
+	return bw;
+}
+
+/*
+ * Tags
+ */
+
+/**
+ * Read a field tag.
+ * @param {BufferReader} br
+ * @returns {Tag}
+ */
+
+export function readTag(br: BufferReader) {
+	const off = br.offset;
+	const key = readVarint(br);
+	const field = Math.floor(key / 8);
+	const type = key & 7;
+
+	if (field < 1 || field > MAX_FIELD)
+		throw new EncodingError(off, 'Invalid field number');
+
+	if (type > types.I32)
+		throw new EncodingError(off, 'Invalid wire type');
+
+	return new Tag(field, type);
+}
+
+/**
+ * Write a field tag.
+ * @param {IWriter} bw
+ * @param {Number} field
+ * @param {Number} type - Wire type.
+ */
+
+export function writeTag(bw: IWriter, field: number, type: number) {
+	check((field >>> 0) === field && field >= 1 && field <= MAX_FIELD,
+		bw, 'Invalid field number');
+	check((type >>> 0) === type && type <= types.I32, bw, 'Invalid wire type');
+
+	return writeVarint(bw, field * 8 + type);
+}
+
+/**
+ * Calculate size of a field tag.
+ * @param {Number} field
+ * @returns {Number}
+ */
+
+export function sizeTag(field: number) {
+	return sizeVarint(field * 8);
+}
+
+/*
+ * Length-delimited
+ */
+
+/**
+ * Read length-delimited bytes.
+ * @param {BufferReader} br
+ * @param {Boolean?} zeroCopy
+ * @returns {Buffer}
+ */
+
+export function readBytes(br: BufferReader, zeroCopy?: boolean) {
+	return br.readBytes(readLength(br), zeroCopy);
+}
+
+/**
+ * Write length-delimited bytes.
+ * @param {IWriter} bw
+ * @param {Uint8Array} data
+ */
+
+export function writeBytes(bw: IWriter, data: Uint8Array) {
+	writeVarint(bw, data.length);
+	bw.writeBytes(data);
+	return bw;
+}
+
+/**
+ * Read a length-delimited utf8 string.
+ * @param {BufferReader} br
+ * @returns {String}
+ */
+
+export function readString(br: BufferReader) {
+	return br.readString('utf8', readLength(br));
+}
+
+/**
+ * Write a length-delimited utf8 string.
+ * @param {IWriter} bw
+ * @param {String} str
+ */
+
+export function writeString(bw: IWriter, str: string) {
+	const size = new SizeWriter();
+	size.writeString(str, 'utf8');
+
+	writeVarint(bw, size.render());
+	bw.writeString(str, 'utf8');
+
+	return bw;
+}
+
+/**
+ * Read a length-delimited embedded
+ * message as a child reader.
+ * @param {BufferReader} br
+ * @returns {BufferReader}
+ */
+
+export function readMessage(br: BufferReader) {
+	return br.readChild(readLength(br));
+}
+
+/**
+ * Write a length-delimited embedded message. The
+ * message body is rendered once to compute the
+ * length prefix and then copied to the destination
+ * writer.
+ * @param {IWriter} bw
+ * @param {Function} func - Called with the writer.
+ */
+
+export function writeMessage(bw: IWriter, func: (bw: IWriter) => void) {
+	const body = new BufferWriter();
+
+	func(body);
+
+	return writeBytes(bw, body.render());
+}
+
+/**
+ * Calculate size of a message body
+ * (excluding its length prefix).
+ * @param {Function} func - Called with a size writer.
+ * @returns {Number}
+ */
+
+export function sizeMessage(func: (bw: IWriter) => void) {
+	const size = new SizeWriter();
+	func(size);
+	return size.render();
+}
+
+/*
+ * Unknown Fields
+ */
+
+/**
+ * Skip the value of a field. Used to
+ * step over unknown fields, including
+ * nested groups.
+ * @param {BufferReader} br
+ * @param {Tag} tag
+ * @param {Number?} maxDepth - Maximum group nesting (default: 100).
+ * @throws {LimitError} If groups are nested too deeply.
+ */
+
+export function skip(br: BufferReader, tag: Tag, maxDepth = MAX_DEPTH) {
+	return skipField(br, tag, maxDepth);
+}
+
+/*
+ * Helpers
+ */
+
+function skipField(br: BufferReader, tag: Tag, depth: number) {
+	const off = br.offset;
+
+	switch (tag.type) {
+		case types.VARINT:
+			readVarintBig(br);
+			break;
+		case types.I64:
+			br.seek(8);
+			break;
+		case types.LEN:
+			br.seek(readLength(br));
+			break;
+		case types.SGROUP:
+			if (depth === 0)
+				throw new LimitError(off, 'Depth exceeds limit');
+
+			for (;;) {
+				const child = readTag(br);
+
+				if (child.type === types.EGROUP) {
+					if (child.field !== tag.field)
+						throw new EncodingError(off, 'Mismatched end group');
+					break;
+				}
+
+				skipField(br, child, depth - 1);
+			}
+			break;
+		case types.I32:
+			br.seek(4);
+			break;
+		default:
+			throw new EncodingError(off, 'Unexpected end group');
+	}
+
+	return br;
+}
+
+function readLength(br: BufferReader) {
+	const off = br.offset;
+	const size = readVarint(br);
+
+	if (size > br.left())
+		throw new OutOfBoundsError(off, 'Length exceeds data');
+
+	return size;
+}
+
+function check(value: boolean, bw: IWriter, reason: string) {
+	if (!value)
+		throw new EncodingError(bw.getSize(), reason, check);
+}
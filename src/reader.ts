@@ -8,8 +8,10 @@
 'use strict';
 
 import * as assert from "assert";
+import * as bytes from "./bytes";
 import * as encoding from "./encoding";
-import EncodingError from "./error";
+import EncodingError, {ChecksumError, LimitError, OutOfBoundsError} from "./error";
+import * as rlp from "./rlp";
 import {I64, U64} from "n64";
 
 let $HACK: I64;
@@ -18,7 +20,7 @@ let $HACK: I64;
  * Constants
  */
 
-const EMPTY = Buffer.alloc(0);
+const EMPTY = bytes.alloc(0);
 
 /**
  * Buffer Reader
@@ -26,6 +28,7 @@ const EMPTY = Buffer.alloc(0);
 
 export default class BufferReader {
 	data: Buffer;
+	view: DataView;
 	offset: number;
 	zeroCopy: boolean | undefined;
 	stack: number[];
@@ -33,16 +36,17 @@ export default class BufferReader {
 	/**
 	 * Create a buffer reader.
 	 * @constructor
-	 * @param {Buffer} data
+	 * @param {Uint8Array} data
 	 * @param {Boolean?} zeroCopy - Do not reallocate buffers when
 	 * slicing. Note that this can lead to memory leaks if not used
 	 * carefully.
 	 */
 
-	constructor(data: Buffer, zeroCopy?: boolean) {
-		// assert(Buffer.isBuffer(data), 'Must pass a Buffer.');
+	constructor(data: Uint8Array, zeroCopy?: boolean) {
+		// assert(data instanceof Uint8Array, 'Must pass a Uint8Array.');
 
-		this.data = data;
+		this.data = bytes.wrap(data);
+		this.view = bytes.view(data);
 		this.offset = 0;
 		this.zeroCopy = zeroCopy || false;
 		this.stack = [];
@@ -55,7 +59,7 @@ export default class BufferReader {
 
 	assert(value: boolean) {
 		if (!value)
-			throw new EncodingError(this.offset, 'Out of bounds read', this.assert);
+			throw new OutOfBoundsError(this.offset, 'Out of bounds read', this.assert);
 	}
 
 	/**
@@ -146,20 +150,40 @@ export default class BufferReader {
 			return data;
 
 		if (this.zeroCopy || zeroCopy)
-			return data.slice(start, end);
+			return bytes.slice(data, start, end);
 
-		const ret = Buffer.allocUnsafe(size);
-		data.copy(ret, 0, start, end);
+		const ret = bytes.allocUnsafe(size);
+		bytes.copy(data, ret, 0, start, end);
 
 		return ret;
 	}
 
+	/**
+	 * Run a read callback within a named field scope.
+	 * Any encoding error thrown by the callback has
+	 * `name` prepended to its field path.
+	 * @param {String} name - Field name or `[index]`.
+	 * @param {Function} func
+	 * @returns {*} Callback result.
+	 */
+
+	scope<T>(name: string, func: (br: this) => T): T {
+		try {
+			return func(this);
+		} catch (e) {
+			if (e instanceof EncodingError)
+				e.addPath(name);
+			throw e;
+		}
+	}
+
 	/**
 	 * Destroy the reader. Remove references to the data.
 	 */
 
 	destroy() {
 		this.data = EMPTY;
+		this.view = bytes.view(EMPTY);
 		this.offset = 0;
 		this.stack.length = 0;
 		return this;
@@ -184,7 +208,7 @@ export default class BufferReader {
 
 	readU16() {
 		this.assert(this.offset + 2 <= this.data.length);
-		const ret = this.data.readUInt16LE(this.offset, true);
+		const ret = this.view.getUint16(this.offset, true);
 		this.offset += 2;
 		return ret;
 	}
@@ -196,7 +220,7 @@ export default class BufferReader {
 
 	readU16BE() {
 		this.assert(this.offset + 2 <= this.data.length);
-		const ret = this.data.readUInt16BE(this.offset, true);
+		const ret = this.view.getUint16(this.offset, false);
 		this.offset += 2;
 		return ret;
 	}
@@ -208,7 +232,7 @@ export default class BufferReader {
 
 	readU32() {
 		this.assert(this.offset + 4 <= this.data.length);
-		const ret = this.data.readUInt32LE(this.offset, true);
+		const ret = this.view.getUint32(this.offset, true);
 		this.offset += 4;
 		return ret;
 	}
@@ -220,7 +244,7 @@ export default class BufferReader {
 
 	readU32BE() {
 		this.assert(this.offset + 4 <= this.data.length);
-		const ret = this.data.readUInt32BE(this.offset, true);
+		const ret = this.view.getUint32(this.offset, false);
 		this.offset += 4;
 		return ret;
 	}
@@ -258,7 +282,7 @@ export default class BufferReader {
 
 	readI8() {
 		this.assert(this.offset + 1 <= this.data.length);
-		const ret = this.data.readInt8(this.offset, true);
+		const ret = this.view.getInt8(this.offset);
 		this.offset += 1;
 		return ret;
 	}
@@ -270,7 +294,7 @@ export default class BufferReader {
 
 	readI16() {
 		this.assert(this.offset + 2 <= this.data.length);
-		const ret = this.data.readInt16LE(this.offset, true);
+		const ret = this.view.getInt16(this.offset, true);
 		this.offset += 2;
 		return ret;
 	}
@@ -282,7 +306,7 @@ export default class BufferReader {
 
 	readI16BE() {
 		this.assert(this.offset + 2 <= this.data.length);
-		const ret = this.data.readInt16BE(this.offset, true);
+		const ret = this.view.getInt16(this.offset, false);
 		this.offset += 2;
 		return ret;
 	}
@@ -294,7 +318,7 @@ export default class BufferReader {
 
 	readI32() {
 		this.assert(this.offset + 4 <= this.data.length);
-		const ret = this.data.readInt32LE(this.offset, true);
+		const ret = this.view.getInt32(this.offset, true);
 		this.offset += 4;
 		return ret;
 	}
@@ -306,7 +330,7 @@ export default class BufferReader {
 
 	readI32BE() {
 		this.assert(this.offset + 4 <= this.data.length);
-		const ret = this.data.readInt32BE(this.offset, true);
+		const ret = this.view.getInt32(this.offset, false);
 		this.offset += 4;
 		return ret;
 	}
@@ -385,6 +409,54 @@ export default class BufferReader {
 		return ret;
 	}
 
+	/**
+	 * Read uint64le as a bigint.
+	 * @returns {BigInt}
+	 */
+
+	readU64Big() {
+		this.assert(this.offset + 8 <= this.data.length);
+		const ret = encoding.readU64Big(this.data, this.offset);
+		this.offset += 8;
+		return ret;
+	}
+
+	/**
+	 * Read uint64be as a bigint.
+	 * @returns {BigInt}
+	 */
+
+	readU64BEBig() {
+		this.assert(this.offset + 8 <= this.data.length);
+		const ret = encoding.readU64BEBig(this.data, this.offset);
+		this.offset += 8;
+		return ret;
+	}
+
+	/**
+	 * Read int64le as a bigint.
+	 * @returns {BigInt}
+	 */
+
+	readI64Big() {
+		this.assert(this.offset + 8 <= this.data.length);
+		const ret = encoding.readI64Big(this.data, this.offset);
+		this.offset += 8;
+		return ret;
+	}
+
+	/**
+	 * Read int64be as a bigint.
+	 * @returns {BigInt}
+	 */
+
+	readI64BEBig() {
+		this.assert(this.offset + 8 <= this.data.length);
+		const ret = encoding.readI64BEBig(this.data, this.offset);
+		this.offset += 8;
+		return ret;
+	}
+
 	/**
 	 * Read float le.
 	 * @returns {Number}
@@ -392,7 +464,7 @@ export default class BufferReader {
 
 	readFloat() {
 		this.assert(this.offset + 4 <= this.data.length);
-		const ret = this.data.readFloatLE(this.offset, true);
+		const ret = this.view.getFloat32(this.offset, true);
 		this.offset += 4;
 		return ret;
 	}
@@ -404,7 +476,7 @@ export default class BufferReader {
 
 	readFloatBE() {
 		this.assert(this.offset + 4 <= this.data.length);
-		const ret = this.data.readFloatBE(this.offset, true);
+		const ret = this.view.getFloat32(this.offset, false);
 		this.offset += 4;
 		return ret;
 	}
@@ -416,7 +488,7 @@ export default class BufferReader {
 
 	readDouble() {
 		this.assert(this.offset + 8 <= this.data.length);
-		const ret = this.data.readDoubleLE(this.offset, true);
+		const ret = this.view.getFloat64(this.offset, true);
 		this.offset += 8;
 		return ret;
 	}
@@ -428,7 +500,7 @@ export default class BufferReader {
 
 	readDoubleBE() {
 		this.assert(this.offset + 8 <= this.data.length);
-		const ret = this.data.readDoubleBE(this.offset, true);
+		const ret = this.view.getFloat64(this.offset, false);
 		this.offset += 8;
 		return ret;
 	}
@@ -477,6 +549,127 @@ export default class BufferReader {
 		return value as U64;
 	}
 
+	/**
+	 * Read a varint.
+	 * @returns {BigInt}
+	 */
+
+	readVarintBig(): bigint {
+		const {size, value} = encoding.readVarintBig(this.data, this.offset);
+		this.offset += size;
+		return value as bigint;
+	}
+
+	/**
+	 * Read a varint (type 2).
+	 * @returns {BigInt}
+	 */
+
+	readVarint2Big(): bigint {
+		const {size, value} = encoding.readVarint2Big(this.data, this.offset);
+		this.offset += size;
+		return value as bigint;
+	}
+
+	/**
+	 * Read an unsigned LEB128 varint.
+	 * @returns {Number}
+	 */
+
+	readULEB128(): number {
+		const {size, value} = encoding.readULEB128(this.data, this.offset);
+		this.offset += size;
+		return value as number;
+	}
+
+	/**
+	 * Read an unsigned LEB128 varint.
+	 * @returns {U64}
+	 */
+
+	readULEB128N(): U64 {
+		const {size, value} = encoding.readULEB128N(this.data, this.offset);
+		this.offset += size;
+		return value as U64;
+	}
+
+	/**
+	 * Read an unsigned LEB128 varint.
+	 * @returns {BigInt}
+	 */
+
+	readULEB128Big(): bigint {
+		const {size, value} = encoding.readULEB128Big(this.data, this.offset);
+		this.offset += size;
+		return value as bigint;
+	}
+
+	/**
+	 * Read a signed LEB128 varint.
+	 * @returns {Number}
+	 */
+
+	readSLEB128(): number {
+		const {size, value} = encoding.readSLEB128(this.data, this.offset);
+		this.offset += size;
+		return value as number;
+	}
+
+	/**
+	 * Read a signed LEB128 varint.
+	 * @returns {I64}
+	 */
+
+	readSLEB128N(): I64 {
+		const {size, value} = encoding.readSLEB128N(this.data, this.offset);
+		this.offset += size;
+		return value as I64;
+	}
+
+	/**
+	 * Read a signed LEB128 varint.
+	 * @returns {BigInt}
+	 */
+
+	readSLEB128Big(): bigint {
+		const {size, value} = encoding.readSLEB128Big(this.data, this.offset);
+		this.offset += size;
+		return value as bigint;
+	}
+
+	/**
+	 * Read a zigzag-encoded LEB128 varint.
+	 * @returns {Number}
+	 */
+
+	readZigzag(): number {
+		const {size, value} = encoding.readZigzag(this.data, this.offset);
+		this.offset += size;
+		return value as number;
+	}
+
+	/**
+	 * Read a zigzag-encoded LEB128 varint.
+	 * @returns {I64}
+	 */
+
+	readZigzagN(): I64 {
+		const {size, value} = encoding.readZigzagN(this.data, this.offset);
+		this.offset += size;
+		return value as I64;
+	}
+
+	/**
+	 * Read a zigzag-encoded LEB128 varint.
+	 * @returns {BigInt}
+	 */
+
+	readZigzagBig(): bigint {
+		const {size, value} = encoding.readZigzagBig(this.data, this.offset);
+		this.offset += size;
+		return value as bigint;
+	}
+
 	/**
 	 * Read N bytes (will do a fast slice if zero copy).
 	 * @param {Number} size
@@ -487,15 +680,15 @@ export default class BufferReader {
 	 */
 
 	readBytes(size: number, zeroCopy?: boolean): Buffer {
-		assert(size >= 0);
+		this.assert(size >= 0);
 		this.assert(this.offset + size <= this.data.length);
 
 		let ret;
 		if (this.zeroCopy || zeroCopy) {
-			ret = this.data.slice(this.offset, this.offset + size);
+			ret = bytes.slice(this.data, this.offset, this.offset + size);
 		} else {
-			ret = Buffer.allocUnsafe(size);
-			this.data.copy(ret, 0, this.offset, this.offset + size);
+			ret = bytes.allocUnsafe(size);
+			bytes.copy(this.data, ret, 0, this.offset, this.offset + size);
 		}
 
 		this.offset += size;
@@ -522,10 +715,10 @@ export default class BufferReader {
 	 */
 
 	readChild(size: number) {
-		assert(size >= 0);
+		this.assert(size >= 0);
 		this.assert(this.offset + size <= this.data.length);
 
-		const data = this.data.slice(0, this.offset + size);
+		const data = bytes.slice(this.data, 0, this.offset + size);
 
 		const br = new BufferReader(data);
 		br.offset = this.offset;
@@ -543,9 +736,9 @@ export default class BufferReader {
 	 */
 
 	readString(enc: string, size: number) {
-		assert(size >= 0);
+		this.assert(size >= 0);
 		this.assert(this.offset + size <= this.data.length);
-		const ret = this.data.toString(enc, this.offset, this.offset + size);
+		const ret = bytes.toString(this.data, enc, this.offset, this.offset + size);
 		this.offset += size;
 		return ret;
 	}
@@ -571,7 +764,8 @@ export default class BufferReader {
 
 	readVarString(enc: string, limit?: number) {
 		const size = this.readVarint();
-		this.enforce(!limit || size <= limit, 'String exceeds limit.');
+		if (limit && size > limit)
+			throw new LimitError(this.offset, 'String exceeds limit.');
 		return this.readString(enc, size);
 	}
 
@@ -599,6 +793,25 @@ export default class BufferReader {
 		return ret;
 	}
 
+	/**
+	 * Read an RLP item.
+	 * @returns {RLPItem}
+	 */
+
+	readRLP() {
+		return rlp.read(this);
+	}
+
+	/**
+	 * Read an RLP item header, leaving the reader
+	 * at the start of the item's payload.
+	 * @returns {rlp.Header}
+	 */
+
+	readRLPHeader() {
+		return rlp.readHeader(this);
+	}
+
 	/**
 	 * Create a checksum from the last start position.
 	 * @param {Function} hash
@@ -611,9 +824,9 @@ export default class BufferReader {
 		if (this.stack.length > 0)
 			start = this.stack[this.stack.length - 1];
 
-		const data = this.data.slice(start, this.offset);
+		const data = bytes.slice(this.data, start, this.offset);
 
-		return hash(data).readUInt32LE(0, true);
+		return encoding.readU32(hash(data), 0);
 	}
 
 	/**
@@ -626,7 +839,8 @@ export default class BufferReader {
 	verifyChecksum(hash: Function) {
 		const chk = this.createChecksum(hash);
 		const checksum = this.readU32();
-		this.enforce(chk === checksum, 'Checksum mismatch.');
+		if (chk !== checksum)
+			throw new ChecksumError(this.offset, 'Checksum mismatch.');
 		return checksum;
 	}
 }
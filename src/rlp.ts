@@ -0,0 +1,352 @@
+/*!
+ * rlp.js - recursive length prefix encoding for bufio
+ * Copyright (c) 2018, Andrew Sun (MIT License).
+ * https://github.com/as-com/bufio
+ */
+
+'use strict';
+
+import * as bytes from "./bytes";
+import * as encoding from "./encoding";
+import EncodingError, {LimitError, NonCanonicalError, OutOfBoundsError, TrailingDataError} from "./error";
+import BufferReader from "./reader";
+import StaticWriter from "./staticwriter";
+import {IWriter} from "./writer";
+
+/*
+ * Constants
+ */
+
+const EMPTY = bytes.alloc(0);
+const MAX_DEPTH = 64;
+
+/**
+ * Decoded RLP item: a byte string or a list of items.
+ */
+
+export type RLPItem = Uint8Array | RLPList;
+export interface RLPList extends Array<RLPItem> {}
+
+/**
+ * Encodable RLP value. Numbers and bigints are
+ * encoded as big-endian integers with no leading
+ * zeroes (zero is the empty string).
+ */
+
+export type RLPValue = Uint8Array | number | bigint | RLPValueList;
+export interface RLPValueList extends Array<RLPValue> {}
+
+/**
+ * RLP item header.
+ */
+
+export class Header {
+	list: boolean;
+	size: number;
+
+	constructor(list: boolean, size: number) {
+		this.list = list;
+		this.size = size;
+	}
+}
+
+/**
+ * Read an item header, leaving the reader positioned
+ * at the start of the item's payload. A single byte
+ * below 0x80 is its own payload, so the reader is not
+ * advanced. Skipping an item is `br.seek(header.size)`.
+ * @param {BufferReader} br
+ * @returns {Header}
+ */
+
+export function readHeader(br: BufferReader) {
+	const off = br.offset;
+	const prefix = br.readU8();
+
+	if (prefix < 0x80) {
+		br.seek(-1);
+		return new Header(false, 1);
+	}
+
+	if (prefix <= 0xb7) {
+		const size = prefix - 0x80;
+
+		if (size === 1 && br.readU8() < 0x80)
+			throw new NonCanonicalError(off, 'Non-canonical single byte');
+
+		if (size === 1)
+			br.seek(-1);
+
+		return new Header(false, check(br, size, off));
+	}
+
+	if (prefix <= 0xbf)
+		return new Header(false, readLength(br, prefix - 0xb7, off));
+
+	if (prefix <= 0xf7)
+		return new Header(true, check(br, prefix - 0xc0, off));
+
+	return new Header(true, readLength(br, prefix - 0xf7, off));
+}
+
+/**
+ * Write an item header.
+ * @param {IWriter} bw
+ * @param {Boolean} list
+ * @param {Number} size - Payload size.
+ */
+
+export function writeHeader(bw: IWriter, list: boolean, size: number) {
+	const base = list ? 0xc0 : 0x80;
+
+	if (size < 56) {
+		bw.writeU8(base + size);
+		return bw;
+	}
+
+	const len = encoding.sizeUIntBE(size);
+
+	bw.writeU8(base + 55 + len);
+
+	for (let i = len - 1; i >= 0; i--)
+		bw.writeU8(Math.floor(size / 2 ** (i * 8)) & 0xff);
+
+	return bw;
+}
+
+/**
+ * Calculate size of an item header.
+ * @param {Number} size - Payload size.
+ * @returns {Number}
+ */
+
+export function sizeHeader(size: number) {
+	if (size < 56)
+		return 1;
+
+	return 1 + encoding.sizeUIntBE(size);
+}
+
+/**
+ * Read a single item.
+ * @param {BufferReader} br
+ * @param {Number?} maxDepth - Maximum list nesting (default: 64).
+ * @returns {RLPItem}
+ * @throws {LimitError} If lists are nested too deeply.
+ */
+
+export function read(br: BufferReader, maxDepth = MAX_DEPTH): RLPItem {
+	const off = br.offset;
+	const hdr = readHeader(br);
+
+	if (!hdr.list)
+		return br.readBytes(hdr.size);
+
+	if (maxDepth === 0)
+		throw new LimitError(off, 'Depth exceeds limit');
+
+	const end = br.offset + hdr.size;
+	const items = [];
+
+	while (br.offset < end) {
+		const off = br.offset;
+
+		items.push(read(br, maxDepth - 1));
+
+		if (br.offset > end)
+			throw new EncodingError(off, 'Item exceeds list');
+	}
+
+	return items;
+}
+
+/**
+ * Write a single item.
+ * @param {IWriter} bw
+ * @param {RLPValue} value
+ */
+
+export function write(bw: IWriter, value: RLPValue) {
+	const sizes = new Map();
+
+	sizeItem(value, sizes);
+	writeItem(bw, value, sizes);
+
+	return bw;
+}
+
+/**
+ * Calculate encoded size of an item.
+ * @param {RLPValue} value
+ * @returns {Number}
+ */
+
+export function size(value: RLPValue): number {
+	return sizeItem(value, new Map());
+}
+
+/**
+ * Encode an item.
+ * @param {RLPValue} value
+ * @returns {Buffer}
+ */
+
+export function encode(value: RLPValue) {
+	const sizes = new Map();
+	const bw = new StaticWriter(sizeItem(value, sizes));
+
+	writeItem(bw, value, sizes);
+
+	return bw.render();
+}
+
+/**
+ * Decode a single item, rejecting trailing data.
+ * @param {Uint8Array} data
+ * @param {Number?} maxDepth - Maximum list nesting (default: 64).
+ * @returns {RLPItem}
+ */
+
+export function decode(data: Uint8Array, maxDepth = MAX_DEPTH) {
+	const br = new BufferReader(data);
+	const item = read(br, maxDepth);
+
+	if (br.left() > 0)
+		throw new TrailingDataError(br.offset);
+
+	return item;
+}
+
+/**
+ * Convert a decoded byte string to a number.
+ * @param {RLPItem} item
+ * @returns {Number}
+ */
+
+export function toNumber(item: RLPItem) {
+	const num = toBigInt(item);
+
+	if (num > BigInt(Number.MAX_SAFE_INTEGER))
+		throw new EncodingError(0, 'Number exceeds 2^53-1');
+
+	return Number(num);
+}
+
+/**
+ * Convert a decoded byte string to a bigint.
+ * @param {RLPItem} item
+ * @returns {BigInt}
+ */
+
+export function toBigInt(item: RLPItem) {
+	if (!(item instanceof Uint8Array))
+		throw new EncodingError(0, 'Expected a byte string');
+
+	if (item.length === 0)
+		return 0n;
+
+	if (item[0] === 0)
+		throw new NonCanonicalError(0, 'Leading zero');
+
+	return BigInt('0x' + bytes.toString(item, 'hex'));
+}
+
+/*
+ * Helpers
+ */
+
+function toBytes(value: RLPValue): Uint8Array {
+	if (value instanceof Uint8Array)
+		return value;
+
+	if (typeof value === 'number') {
+		if (!Number.isSafeInteger(value) || value < 0)
+			throw new EncodingError(0, 'Invalid integer');
+		value = BigInt(value);
+	}
+
+	if (typeof value !== 'bigint')
+		throw new EncodingError(0, 'Unsupported type');
+
+	if (value < 0n)
+		throw new EncodingError(0, 'Invalid integer');
+
+	if (value === 0n)
+		return EMPTY;
+
+	let hex = value.toString(16);
+
+	if (hex.length & 1)
+		hex = '0' + hex;
+
+	return bytes.fromString(hex, 'hex');
+}
+
+// Records the payload size of every list so
+// that nested lists are only sized once.
+function sizeItem(value: RLPValue, sizes: Map<RLPValueList, number>): number {
+	if (Array.isArray(value)) {
+		let payload = 0;
+
+		for (const item of value)
+			payload += sizeItem(item, sizes);
+
+		sizes.set(value, payload);
+
+		return sizeHeader(payload) + payload;
+	}
+
+	const data = toBytes(value);
+
+	if (data.length === 1 && data[0] < 0x80)
+		return 1;
+
+	return sizeHeader(data.length) + data.length;
+}
+
+function writeItem(bw: IWriter, value: RLPValue, sizes: Map<RLPValueList, number>) {
+	if (Array.isArray(value)) {
+		writeHeader(bw, true, sizes.get(value));
+
+		for (const item of value)
+			writeItem(bw, item, sizes);
+
+		return;
+	}
+
+	const data = toBytes(value);
+
+	if (data.length === 1 && data[0] < 0x80) {
+		bw.writeU8(data[0]);
+		return;
+	}
+
+	writeHeader(bw, false, data.length);
+	bw.writeBytes(data);
+}
+
+
+function readLength(br: BufferReader, len: number, off: number) {
+	let size = 0;
+
+	for (let i = 0; i < len; i++) {
+		const ch = br.readU8();
+
+		if (i === 0 && ch === 0)
+			throw new NonCanonicalError(off, 'Leading zero in length');
+
+		size = size * 0x100 + ch;
+	}
+
+	if (size < 56)
+		throw new NonCanonicalError(off, 'Non-canonical length');
+
+	return check(br, size, off);
+}
+
+function check(br: BufferReader, size: number, off: number) {
+	if (size > br.left())
+		throw new OutOfBoundsError(off);
+
+	return size;
+}
@@ -0,0 +1,682 @@
+/*!
+ * schema.js - declarative struct layouts for bufio
+ * Copyright (c) 2018, Andrew Sun (MIT License).
+ * https://github.com/as-com/bufio
+ */
+
+'use strict';
+
+import * as assert from "assert";
+import {I64, U64} from "n64";
+import * as bytes from "./bytes";
+import * as encoding from "./encoding";
+import BufferReader from "./reader";
+import {IWriter} from "./writer";
+import Struct, {StructConstructor} from "./struct";
+import {PrefixType} from "./prefix";
+
+/**
+ * Field Type
+ * Describes how a single field is serialized.
+ */
+
+export interface FieldType<T = any> {
+	init(): T;
+	read(br: BufferReader): T;
+	write(bw: IWriter, value: T): void;
+	getSize(value: T): number;
+	toJSON(value: T): any;
+	fromJSON(json: any): T;
+}
+
+export type NumberTypeName =
+	'u8' | 'u16' | 'u16be' | 'u32' | 'u32be' | 'u64' | 'u64be'
+	| 'i8' | 'i16' | 'i16be' | 'i32' | 'i32be' | 'i64' | 'i64be'
+	| 'float' | 'floatbe' | 'double' | 'doublebe'
+	| 'varint' | 'varint2';
+
+export type BigIntTypeName =
+	'u64big' | 'u64bebig' | 'i64big' | 'i64bebig'
+	| 'varintbig' | 'varint2big';
+
+export type U64TypeName = 'u64n' | 'u64ben' | 'varintn' | 'varint2n';
+
+export type I64TypeName = 'i64n' | 'i64ben';
+
+export type StringEncoding =
+	'ascii' | 'utf8' | 'utf-8' | 'latin1' | 'binary'
+	| 'hex' | 'base64' | 'ucs2' | 'utf16le';
+
+export type StringTypeName =
+	'varstring' | 'nullstring'
+	| 'varstring:ascii' | 'varstring:utf8' | 'varstring:utf-8'
+	| 'varstring:latin1' | 'varstring:binary' | 'varstring:hex'
+	| 'varstring:base64' | 'varstring:ucs2' | 'varstring:utf16le'
+	| 'nullstring:ascii' | 'nullstring:utf8' | 'nullstring:utf-8'
+	| 'nullstring:latin1' | 'nullstring:binary' | 'nullstring:hex'
+	| 'nullstring:base64' | 'nullstring:ucs2' | 'nullstring:utf16le';
+
+/**
+ * Field specification: a type name (`'u32'`, `'varbytes'`,
+ * `'bytes:20'`, `'varstring:ascii'`, ...), a struct class
+ * or a field type object.
+ */
+
+export type FieldSpec = string | StructConstructor<Struct> | FieldType;
+
+export type FieldValue<T> =
+	T extends FieldType<infer V> ? V
+		: T extends NumberTypeName ? number
+		: T extends BigIntTypeName ? bigint
+		: T extends U64TypeName ? U64
+		: T extends I64TypeName ? I64
+		: T extends StringTypeName ? string
+		: T extends string ? Buffer
+		: T extends StructConstructor<infer S> ? S
+		: never;
+
+export interface Schema {
+	[name: string]: FieldSpec;
+}
+
+export type SchemaValues<S> = {
+	[K in keyof S]: FieldValue<S[K]>;
+};
+
+/*
+ * Constants
+ */
+
+const NUMBERS = {
+	u8: ['U8', 1],
+	u16: ['U16', 2],
+	u16be: ['U16BE', 2],
+	u32: ['U32', 4],
+	u32be: ['U32BE', 4],
+	u64: ['U64', 8],
+	u64be: ['U64BE', 8],
+	i8: ['I8', 1],
+	i16: ['I16', 2],
+	i16be: ['I16BE', 2],
+	i32: ['I32', 4],
+	i32be: ['I32BE', 4],
+	i64: ['I64', 8],
+	i64be: ['I64BE', 8],
+	float: ['Float', 4],
+	floatbe: ['FloatBE', 4],
+	double: ['Double', 8],
+	doublebe: ['DoubleBE', 8],
+	varint: ['Varint', encoding.sizeVarint],
+	varint2: ['Varint2', encoding.sizeVarint2]
+};
+
+const BIGINTS = {
+	u64big: ['U64Big', 8],
+	u64bebig: ['U64BEBig', 8],
+	i64big: ['I64Big', 8],
+	i64bebig: ['I64BEBig', 8],
+	varintbig: ['VarintBig', encoding.sizeVarintBig],
+	varint2big: ['Varint2Big', encoding.sizeVarint2Big]
+};
+
+const N64S = {
+	u64n: ['U64N', 8, U64],
+	u64ben: ['U64BEN', 8, U64],
+	i64n: ['I64N', 8, I64],
+	i64ben: ['I64BEN', 8, I64],
+	varintn: ['VarintN', encoding.sizeVarintN, U64],
+	varint2n: ['Varint2N', encoding.sizeVarint2N, U64]
+};
+
+const EMPTY = bytes.alloc(0);
+
+/**
+ * Number Type
+ * A field read and written through the
+ * reader/writer method of the same name.
+ */
+
+export class NumberType implements FieldType<number> {
+	method: string;
+	size: number | ((value: number) => number);
+
+	constructor(method: string, size: number | ((value: number) => number)) {
+		this.method = method;
+		this.size = size;
+	}
+
+	init() {
+		return 0;
+	}
+
+	read(br: BufferReader): number {
+		return br['read' + this.method]();
+	}
+
+	write(bw: IWriter, value: number) {
+		bw['write' + this.method](value);
+	}
+
+	getSize(value: number) {
+		if (typeof this.size === 'function')
+			return this.size(value);
+		return this.size;
+	}
+
+	toJSON(value: number) {
+		return value;
+	}
+
+	fromJSON(json: any) {
+		assert(typeof json === 'number', 'Number expected.');
+		return json;
+	}
+}
+
+/**
+ * BigInt Type
+ * A 64 bit field held as a bigint.
+ */
+
+export class BigIntType implements FieldType<bigint> {
+	method: string;
+	size: number | ((value: bigint) => number);
+
+	constructor(method: string, size: number | ((value: bigint) => number)) {
+		this.method = method;
+		this.size = size;
+	}
+
+	init() {
+		return 0n;
+	}
+
+	read(br: BufferReader): bigint {
+		return br['read' + this.method]();
+	}
+
+	write(bw: IWriter, value: bigint) {
+		bw['write' + this.method](value);
+	}
+
+	getSize(value: bigint) {
+		if (typeof this.size === 'function')
+			return this.size(value);
+		return this.size;
+	}
+
+	toJSON(value: bigint) {
+		return value.toString(10);
+	}
+
+	fromJSON(json: any) {
+		assert(typeof json === 'string', 'String expected.');
+		return BigInt(json);
+	}
+}
+
+/**
+ * N64 Type
+ * A field holding a `U64` or `I64`.
+ */
+
+export class N64Type implements FieldType<U64 | I64> {
+	method: string;
+	size: number | ((value: U64) => number);
+	ctor: typeof U64 | typeof I64;
+
+	constructor(method: string, size: number | ((value: U64) => number), ctor: typeof U64 | typeof I64) {
+		this.method = method;
+		this.size = size;
+		this.ctor = ctor;
+	}
+
+	init() {
+		return this.ctor.fromInt(0);
+	}
+
+	read(br: BufferReader): U64 | I64 {
+		return br['read' + this.method]();
+	}
+
+	write(bw: IWriter, value: U64 | I64) {
+		bw['write' + this.method](value);
+	}
+
+	getSize(value: U64 | I64) {
+		if (typeof this.size === 'function')
+			return this.size(value as U64);
+		return this.size;
+	}
+
+	toJSON(value: U64 | I64) {
+		return value.toJSON();
+	}
+
+	fromJSON(json: any) {
+		assert(typeof json === 'string', 'String expected.');
+		return this.ctor.fromJSON(json);
+	}
+}
+
+/**
+ * String Type
+ * A varint-prefixed or null-terminated string.
+ */
+
+export class StringType implements FieldType<string> {
+	enc: string;
+	nullTerminated: boolean;
+
+	constructor(enc: string, nullTerminated: boolean) {
+		this.enc = enc;
+		this.nullTerminated = nullTerminated;
+	}
+
+	init() {
+		return '';
+	}
+
+	read(br: BufferReader) {
+		if (this.nullTerminated)
+			return br.readNullString(this.enc);
+		return br.readVarString(this.enc);
+	}
+
+	write(bw: IWriter, value: string) {
+		if (this.nullTerminated)
+			bw.writeNullString(value, this.enc);
+		else
+			bw.writeVarString(value, this.enc);
+	}
+
+	getSize(value: string) {
+		if (this.nullTerminated)
+			return bytes.byteLength(value, this.enc) + 1;
+		return encoding.sizeVarString(value, this.enc);
+	}
+
+	toJSON(value: string) {
+		return value;
+	}
+
+	fromJSON(json: any) {
+		assert(typeof json === 'string', 'String expected.');
+		return json;
+	}
+}
+
+/**
+ * Bytes Type
+ * A fixed size or varint-prefixed buffer.
+ */
+
+export class BytesType implements FieldType<Buffer> {
+	size: number;
+
+	/**
+	 * @param {Number} size - Fixed size, or -1 for varbytes.
+	 */
+
+	constructor(size: number) {
+		this.size = size;
+	}
+
+	init() {
+		if (this.size === -1)
+			return EMPTY;
+		return bytes.alloc(this.size);
+	}
+
+	read(br: BufferReader) {
+		if (this.size === -1)
+			return br.readVarBytes();
+		return br.readBytes(this.size);
+	}
+
+	write(bw: IWriter, value: Buffer) {
+		if (this.size === -1) {
+			bw.writeVarBytes(value);
+			return;
+		}
+
+		assert(value.length === this.size, 'Invalid buffer size.');
+
+		bw.writeBytes(value);
+	}
+
+	getSize(value: Buffer) {
+		if (this.size === -1)
+			return encoding.sizeVarBytes(value);
+		return this.size;
+	}
+
+	toJSON(value: Buffer) {
+		return bytes.toString(value, 'hex');
+	}
+
+	fromJSON(json: any) {
+		assert(typeof json === 'string', 'String expected.');
+
+		const data = bytes.fromString(json, 'hex');
+
+		assert(data.length === json.length >>> 1, 'Invalid hex string.');
+		assert(this.size === -1 || data.length === this.size, 'Invalid buffer size.');
+
+		return data;
+	}
+}
+
+/**
+ * Struct Type
+ * A nested struct.
+ */
+
+export class StructType<T extends Struct> implements FieldType<T> {
+	ctor: StructConstructor<T>;
+
+	constructor(ctor: StructConstructor<T>) {
+		this.ctor = ctor;
+	}
+
+	init() {
+		return new this.ctor();
+	}
+
+	read(br: BufferReader) {
+		return new this.ctor().read(br);
+	}
+
+	write(bw: IWriter, value: T) {
+		value.write(bw);
+	}
+
+	getSize(value: T) {
+		return value.getSize();
+	}
+
+	toJSON(value: T) {
+		return value.getJSON();
+	}
+
+	fromJSON(json: any) {
+		return new this.ctor().fromJSON(json);
+	}
+}
+
+/**
+ * Array Type
+ * A length-prefixed list of items.
+ */
+
+export class ArrayType<T> implements FieldType<T[]> {
+	item: FieldType<T>;
+	count: FieldType<number>;
+
+	constructor(item: FieldType<T>, prefix: PrefixType = 'varint') {
+		this.item = item;
+		this.count = getType(prefix);
+	}
+
+	init(): T[] {
+		return [];
+	}
+
+	read(br: BufferReader) {
+		const count = this.count.read(br);
+		const items = [];
+
+		for (let i = 0; i < count; i++)
+			items.push(br.scope(`[${i}]`, () => this.item.read(br)));
+
+		return items;
+	}
+
+	write(bw: IWriter, value: T[]) {
+		this.count.write(bw, value.length);
+
+		for (const item of value)
+			this.item.write(bw, item);
+	}
+
+	getSize(value: T[]) {
+		let size = this.count.getSize(value.length);
+
+		for (const item of value) {
+			const len = this.item.getSize(item);
+
+			if (len === -1)
+				return -1;
+
+			size += len;
+		}
+
+		return size;
+	}
+
+	toJSON(value: T[]) {
+		return value.map(item => this.item.toJSON(item));
+	}
+
+	fromJSON(json: any) {
+		assert(Array.isArray(json), 'Array expected.');
+		return json.map(item => this.item.fromJSON(item));
+	}
+}
+
+/**
+ * Resolve a field specification to a field type.
+ * @param {FieldSpec} spec
+ * @returns {FieldType}
+ */
+
+export function getType(spec: FieldSpec): FieldType {
+	if (typeof spec === 'function') {
+		assert(spec.prototype instanceof Struct, 'Must pass a Struct class.');
+		return new StructType(spec);
+	}
+
+	if (typeof spec !== 'string') {
+		assert(spec && typeof spec.read === 'function', 'Invalid field type.');
+		return spec;
+	}
+
+	const [name, arg] = spec.split(':');
+
+	if (NUMBERS.hasOwnProperty(name)) {
+		const [method, size] = NUMBERS[name];
+		return new NumberType(method, size);
+	}
+
+	if (BIGINTS.hasOwnProperty(name)) {
+		const [method, size] = BIGINTS[name];
+		return new BigIntType(method, size);
+	}
+
+	if (N64S.hasOwnProperty(name)) {
+		const [method, size, ctor] = N64S[name];
+		return new N64Type(method, size, ctor);
+	}
+
+	switch (name) {
+		case 'varstring':
+			return new StringType(arg || 'utf8', false);
+		case 'nullstring':
+			return new StringType(arg || 'utf8', true);
+		case 'varbytes':
+			return new BytesType(-1);
+		case 'hash':
+			return new BytesType(32);
+		case 'bytes': {
+			const size = Number(arg);
+			assert((size >>> 0) === size, 'Invalid bytes size.');
+			return new BytesType(size);
+		}
+	}
+
+	throw new Error(`Unknown field type: ${spec}.`);
+}
+
+/**
+ * Layout
+ * An ordered list of named fields.
+ */
+
+export class Layout {
+	names: string[];
+	types: FieldType[];
+
+	constructor() {
+		this.names = [];
+		this.types = [];
+	}
+
+	/**
+	 * Append a field.
+	 * @param {String} name
+	 * @param {FieldSpec} spec
+	 */
+
+	add(name: string, spec: FieldSpec) {
+		assert(this.names.indexOf(name) === -1, `Duplicate field: ${name}.`);
+		this.names.push(name);
+		this.types.push(getType(spec));
+		return this;
+	}
+
+	/**
+	 * Clone the layout.
+	 * @returns {Layout}
+	 */
+
+	clone() {
+		const layout = new Layout();
+		layout.names = this.names.slice();
+		layout.types = this.types.slice();
+		return layout;
+	}
+
+	/**
+	 * Create a layout from a schema object.
+	 * @param {Schema} schema
+	 * @returns {Layout}
+	 */
+
+	static fromSchema(schema: Schema) {
+		const layout = new this();
+
+		for (const name of Object.keys(schema))
+			layout.add(name, schema[name]);
+
+		return layout;
+	}
+
+	/**
+	 * Set fields which are still undefined to their defaults.
+	 * Subclass field declarations compiled as class fields
+	 * reset fields after the base constructor has run, so
+	 * this is also done before sizing, writing and JSON.
+	 * @param {Object} obj
+	 * @returns {Object}
+	 */
+
+	init(obj: any) {
+		for (let i = 0; i < this.names.length; i++) {
+			const name = this.names[i];
+
+			if (obj[name] === undefined)
+				obj[name] = this.types[i].init();
+		}
+
+		return obj;
+	}
+
+	getSize(obj: any) {
+		let size = 0;
+
+		for (let i = 0; i < this.names.length; i++) {
+			const len = this.types[i].getSize(obj[this.names[i]]);
+
+			if (len === -1)
+				return -1;
+
+			size += len;
+		}
+
+		return size;
+	}
+
+	write(obj: any, bw: IWriter) {
+		for (let i = 0; i < this.names.length; i++)
+			this.types[i].write(bw, obj[this.names[i]]);
+		return bw;
+	}
+
+	read(obj: any, br: BufferReader) {
+		for (let i = 0; i < this.names.length; i++) {
+			const name = this.names[i];
+			const type = this.types[i];
+			obj[name] = br.scope(name, () => type.read(br));
+		}
+
+		return obj;
+	}
+
+	getJSON(obj: any) {
+		const json = {};
+
+		for (let i = 0; i < this.names.length; i++)
+			json[this.names[i]] = this.types[i].toJSON(obj[this.names[i]]);
+
+		return json;
+	}
+
+	fromJSON(obj: any, json: any) {
+		assert(json && typeof json === 'object', 'Object expected.');
+
+		for (let i = 0; i < this.names.length; i++) {
+			const name = this.names[i];
+			assert(json[name] !== undefined, `Missing field: ${name}.`);
+			obj[name] = this.types[i].fromJSON(json[name]);
+		}
+
+		return obj;
+	}
+}
+
+export interface SchemaStruct<S> {
+	new(...args: any[]): Struct & SchemaValues<S>;
+	layout: Layout;
+}
+
+export type SchemaStructClass<S> = SchemaStruct<S> & typeof Struct;
+
+/**
+ * Create a struct class from a schema.
+ * @example
+ * const Output = bio.struct({
+ *   value: 'u64',
+ *   script: 'varbytes'
+ * });
+ * @param {Schema} schema - Field names mapped to
+ * field specifications, in serialization order.
+ * @param {String?} name - Class name, used as the
+ * root of error field paths.
+ * @returns {Function}
+ */
+
+export function struct<
+	K extends string,
+	S extends {[name: string]: K | StructConstructor<Struct> | FieldType}
+>(schema: S, name?: string): SchemaStructClass<S> {
+	const layout = Layout.fromSchema(schema);
+
+	class SchemaStruct extends Struct {
+		static layout = layout;
+	}
+
+	if (name != null)
+		Object.defineProperty(SchemaStruct, 'name', {value: name});
+
+	return SchemaStruct as SchemaStructClass<S>;
+}
@@ -6,9 +6,15 @@
 
 'use strict';
 
+import * as bytes from "./bytes";
 import * as encoding from "./encoding";
 import {I64, U64} from "n64";
+import * as assert from "assert";
+import EncodingError from "./error";
 import {IWriter} from "./writer";
+import Placeholder from "./placeholder";
+import {PrefixType, checkPrefix, sizePrefix} from "./prefix";
+import * as rlp from "./rlp";
 
 /**
  * Size Writer
@@ -16,6 +22,8 @@ import {IWriter} from "./writer";
 
 export default class SizeWriter implements IWriter {
 	offset: number;
+	pending: Placeholder[];
+	sections: Placeholder[];
 
 	/**
 	 * Create a size writer.
@@ -24,6 +32,8 @@ export default class SizeWriter implements IWriter {
 
 	constructor() {
 		this.offset = 0;
+		this.pending = [];
+		this.sections = [];
 	}
 
 	/**
@@ -32,6 +42,9 @@ export default class SizeWriter implements IWriter {
 	 */
 
 	render() {
+		if (this.pending.length > 0)
+			throw new EncodingError(this.pending[0].offset, 'Unfilled placeholder');
+
 		const size = this.offset;
 		this.destroy();
 		return size;
@@ -62,6 +75,8 @@ export default class SizeWriter implements IWriter {
 
 	destroy() {
 		this.offset = 0;
+		this.pending.length = 0;
+		this.sections.length = 0;
 		return this;
 	}
 
@@ -245,6 +260,46 @@ export default class SizeWriter implements IWriter {
 		return this;
 	}
 
+	/**
+	 * Write uint64le.
+	 * @param {BigInt} value
+	 */
+
+	writeU64Big(value: bigint) {
+		this.offset += 8;
+		return this;
+	}
+
+	/**
+	 * Write uint64be.
+	 * @param {BigInt} value
+	 */
+
+	writeU64BEBig(value: bigint) {
+		this.offset += 8;
+		return this;
+	}
+
+	/**
+	 * Write int64le.
+	 * @param {BigInt} value
+	 */
+
+	writeI64Big(value: bigint) {
+		this.offset += 8;
+		return this;
+	}
+
+	/**
+	 * Write int64be.
+	 * @param {BigInt} value
+	 */
+
+	writeI64BEBig(value: bigint) {
+		this.offset += 8;
+		return this;
+	}
+
 	/**
 	 * Write float le.
 	 * @param {Number} value
@@ -325,9 +380,119 @@ export default class SizeWriter implements IWriter {
 		return this;
 	}
 
+	/**
+	 * Write a varint.
+	 * @param {BigInt} value
+	 */
+
+	writeVarintBig(value: bigint) {
+		this.offset += encoding.sizeVarintBig(value);
+		return this;
+	}
+
+	/**
+	 * Write a varint (type 2).
+	 * @param {BigInt} value
+	 */
+
+	writeVarint2Big(value: bigint) {
+		this.offset += encoding.sizeVarint2Big(value);
+		return this;
+	}
+
+	/**
+	 * Write an unsigned LEB128 varint.
+	 * @param {Number} value
+	 */
+
+	writeULEB128(value: number) {
+		this.offset += encoding.sizeULEB128(value);
+		return this;
+	}
+
+	/**
+	 * Write an unsigned LEB128 varint.
+	 * @param {U64} value
+	 */
+
+	writeULEB128N(value: U64) {
+		this.offset += encoding.sizeULEB128N(value);
+		return this;
+	}
+
+	/**
+	 * Write an unsigned LEB128 varint.
+	 * @param {BigInt} value
+	 */
+
+	writeULEB128Big(value: bigint) {
+		this.offset += encoding.sizeULEB128Big(value);
+		return this;
+	}
+
+	/**
+	 * Write a signed LEB128 varint.
+	 * @param {Number} value
+	 */
+
+	writeSLEB128(value: number) {
+		this.offset += encoding.sizeSLEB128(value);
+		return this;
+	}
+
+	/**
+	 * Write a signed LEB128 varint.
+	 * @param {I64} value
+	 */
+
+	writeSLEB128N(value: I64) {
+		this.offset += encoding.sizeSLEB128N(value);
+		return this;
+	}
+
+	/**
+	 * Write a signed LEB128 varint.
+	 * @param {BigInt} value
+	 */
+
+	writeSLEB128Big(value: bigint) {
+		this.offset += encoding.sizeSLEB128Big(value);
+		return this;
+	}
+
+	/**
+	 * Write a zigzag-encoded LEB128 varint.
+	 * @param {Number} value
+	 */
+
+	writeZigzag(value: number) {
+		this.offset += encoding.sizeZigzag(value);
+		return this;
+	}
+
+	/**
+	 * Write a zigzag-encoded LEB128 varint.
+	 * @param {I64} value
+	 */
+
+	writeZigzagN(value: I64) {
+		this.offset += encoding.sizeZigzagN(value);
+		return this;
+	}
+
+	/**
+	 * Write a zigzag-encoded LEB128 varint.
+	 * @param {BigInt} value
+	 */
+
+	writeZigzagBig(value: bigint) {
+		this.offset += encoding.sizeZigzagBig(value);
+		return this;
+	}
+
 	/**
 	 * Write bytes.
-	 * @param {Buffer} value
+	 * @param {Uint8Array} value
 	 */
 
 	writeBytes(value) {
@@ -337,10 +502,10 @@ export default class SizeWriter implements IWriter {
 
 	/**
 	 * Write bytes with a varint length before them.
-	 * @param {Buffer} value
+	 * @param {Uint8Array} value
 	 */
 
-	writeVarBytes(value: Buffer) {
+	writeVarBytes(value: Uint8Array) {
 		this.writeVarint(value.length);
 		this.writeBytes(value);
 		return this;
@@ -348,12 +513,12 @@ export default class SizeWriter implements IWriter {
 
 	/**
 	 * Copy bytes.
-	 * @param {Buffer} value
+	 * @param {Uint8Array} value
 	 * @param {Number} start
 	 * @param {Number} end
 	 */
 
-	copy(value: Buffer, start: number, end: number) {
+	copy(value: Uint8Array, start: number, end: number) {
 		this.offset += end - start;
 		return this;
 	}
@@ -364,11 +529,14 @@ export default class SizeWriter implements IWriter {
 	 * @param {String?} enc - Any buffer-supported encoding.
 	 */
 
-	writeString(value: string | Buffer, enc?: string) {
+	writeString(value: string | Uint8Array, enc?: string) {
 		if (value.length === 0)
 			return this;
 
-		this.offset += Buffer.byteLength(value, enc);
+		if (typeof value !== 'string')
+			return this.writeBytes(value);
+
+		this.offset += bytes.byteLength(value, enc);
 		return this;
 	}
 
@@ -394,7 +562,7 @@ export default class SizeWriter implements IWriter {
 			return this;
 		}
 
-		const size = Buffer.byteLength(value, enc);
+		const size = bytes.byteLength(value, enc);
 
 		this.writeVarint(size);
 
@@ -404,16 +572,26 @@ export default class SizeWriter implements IWriter {
 
 	/**
 	 * Write a null-terminated string.
-	 * @param {String|Buffer} value
+	 * @param {String|Uint8Array} value
 	 * @param {String?} enc - Any buffer-supported encoding.
 	 */
 
-	writeNullString(value: string | Buffer, enc: string) {
+	writeNullString(value: string | Uint8Array, enc: string) {
 		this.writeString(value, enc);
 		this.writeU8(0);
 		return this;
 	}
 
+	/**
+	 * Write an RLP item.
+	 * @param {RLPValue} value
+	 */
+
+	writeRLP(value: rlp.RLPValue) {
+		this.offset += rlp.size(value);
+		return this;
+	}
+
 	/**
 	 * Calculate and write a checksum for the data written so far.
 	 * @param {Function} hash
@@ -434,4 +612,138 @@ export default class SizeWriter implements IWriter {
 		this.offset += size;
 		return this;
 	}
+
+	/**
+	 * Reserve a length or count field to be filled in later.
+	 * @param {PrefixType} type
+	 * @returns {Placeholder}
+	 */
+
+	reserve(type: PrefixType) {
+		const ph = new Placeholder(this, type, this.offset);
+
+		if (!ph.isVariable())
+			this.offset += sizePrefix(type, 0);
+
+		this.pending.push(ph);
+
+		return ph;
+	}
+
+	/**
+	 * Reserve a uint8 to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveU8() {
+		return this.reserve('u8');
+	}
+
+	/**
+	 * Reserve a uint16le to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveU16() {
+		return this.reserve('u16');
+	}
+
+	/**
+	 * Reserve a uint16be to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveU16BE() {
+		return this.reserve('u16be');
+	}
+
+	/**
+	 * Reserve a uint32le to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveU32() {
+		return this.reserve('u32');
+	}
+
+	/**
+	 * Reserve a uint32be to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveU32BE() {
+		return this.reserve('u32be');
+	}
+
+	/**
+	 * Reserve a varint to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveVarint() {
+		return this.reserve('varint');
+	}
+
+	/**
+	 * Reserve a varint (type 2) to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveVarint2() {
+		return this.reserve('varint2');
+	}
+
+	/**
+	 * Begin a length-delimited section. The byte length of
+	 * everything written until the matching `endSection()`
+	 * is written before it using the given prefix.
+	 * @param {PrefixType?} type - Length prefix (default: varint).
+	 */
+
+	beginSection(type: PrefixType = 'varint') {
+		this.sections.push(this.reserve(type));
+		return this;
+	}
+
+	/**
+	 * End the current section and fill in its length.
+	 * @throws on empty stack.
+	 */
+
+	endSection() {
+		assert(this.sections.length > 0);
+
+		const ph = this.sections.pop();
+
+		ph.fill(this.offset - ph.getEnd());
+
+		return this;
+	}
+
+	/**
+	 * Write the value of a reserved field.
+	 * @private
+	 * @param {Placeholder} ph
+	 * @param {Number} value
+	 */
+
+	fillPlaceholder(ph: Placeholder, value: number) {
+		const index = this.pending.indexOf(ph);
+
+		assert(index !== -1, 'Unknown placeholder.');
+
+		checkPrefix(ph.type, value, ph.offset);
+
+		this.pending.splice(index, 1);
+
+		if (!ph.isVariable())
+			return;
+
+		const size = sizePrefix(ph.type, value);
+
+		this.offset += size;
+
+		for (let i = index; i < this.pending.length; i++)
+			this.pending[i].offset += size;
+	}
 }
@@ -0,0 +1,1079 @@
+/*!
+ * ssz.js - simple serialize for bufio
+ * Copyright (c) 2018, Andrew Sun (MIT License).
+ * https://github.com/as-com/bufio
+ */
+
+'use strict';
+
+import * as assert from "assert";
+import * as bytes from "./bytes";
+import EncodingError, {LimitError, TrailingDataError} from "./error";
+import HashWriter, {ICtx} from "./hashwriter";
+import BufferReader from "./reader";
+import StaticWriter from "./staticwriter";
+import {IWriter} from "./writer";
+
+/*
+ * Constants
+ */
+
+const OFFSET_SIZE = 4;
+const CHUNK_SIZE = 32;
+
+const ZERO_HASHES = new WeakMap<ICtx, Buffer[]>();
+
+/**
+ * SSZ Type
+ * Serializes, deserializes and merkleizes values
+ * of a single SSZ type.
+ */
+
+export abstract class SSZType<T = any> {
+	/**
+	 * Whether the type has a fixed serialized size.
+	 * @returns {Boolean}
+	 */
+
+	abstract isFixed(): boolean;
+
+	/**
+	 * Serialized size of a fixed-size type, or the
+	 * size of an offset for a variable-size type.
+	 * @returns {Number}
+	 */
+
+	abstract fixedSize(): number;
+
+	/**
+	 * Calculate serialized size of a value.
+	 * @param {*} value
+	 * @returns {Number}
+	 */
+
+	abstract getSize(value: T): number;
+
+	/**
+	 * Write a value.
+	 * @param {IWriter} bw
+	 * @param {*} value
+	 */
+
+	abstract write(bw: IWriter, value: T): void;
+
+	/**
+	 * Read a value occupying exactly `size` bytes.
+	 * @param {BufferReader} br
+	 * @param {Number} size
+	 * @returns {*}
+	 */
+
+	abstract read(br: BufferReader, size: number): T;
+
+	/**
+	 * Compute the hash tree root of a value.
+	 * @param {*} value
+	 * @param {ICtx} ctx - Hash context (e.g. SHA256).
+	 * @returns {Buffer}
+	 */
+
+	abstract hashTreeRoot(value: T, ctx: ICtx): Buffer;
+
+	/**
+	 * Get the default (zero) value.
+	 * @returns {*}
+	 */
+
+	abstract defaultValue(): T;
+
+	/**
+	 * Whether the type is a basic type.
+	 * @returns {Boolean}
+	 */
+
+	isBasic() {
+		return false;
+	}
+
+	/**
+	 * Serialize a value.
+	 * @param {*} value
+	 * @returns {Buffer}
+	 */
+
+	encode(value: T) {
+		const bw = new StaticWriter(this.getSize(value));
+		this.write(bw, value);
+		return bw.render();
+	}
+
+	/**
+	 * Deserialize a value, rejecting trailing data.
+	 * @param {Uint8Array} data
+	 * @returns {*}
+	 */
+
+	decode(data: Uint8Array) {
+		const br = new BufferReader(data);
+		const value = this.read(br, data.length);
+
+		if (br.left() > 0)
+			throw new TrailingDataError(br.offset);
+
+		return value;
+	}
+}
+
+/**
+ * Unsigned integer (uint8-uint256). Values
+ * up to 32 bits are numbers, larger values
+ * are bigints.
+ */
+
+export class UintType extends SSZType<number | bigint> {
+	bits: number;
+
+	constructor(bits: number) {
+		super();
+		assert([8, 16, 32, 64, 128, 256].indexOf(bits) !== -1, 'Invalid bit size.');
+		this.bits = bits;
+	}
+
+	isBasic() {
+		return true;
+	}
+
+	isFixed() {
+		return true;
+	}
+
+	fixedSize() {
+		return this.bits >>> 3;
+	}
+
+	getSize() {
+		return this.bits >>> 3;
+	}
+
+	write(bw: IWriter, value: number | bigint) {
+		if (this.bits <= 32) {
+			if (typeof value !== 'number'
+				|| !Number.isInteger(value)
+				|| value < 0
+				|| value >= 2 ** this.bits) {
+				throw new EncodingError(bw.getSize(), `Invalid uint${this.bits}`);
+			}
+
+			switch (this.bits) {
+				case 8:
+					bw.writeU8(value);
+					break;
+				case 16:
+					bw.writeU16(value);
+					break;
+				default:
+					bw.writeU32(value);
+					break;
+			}
+
+			return;
+		}
+
+		if (typeof value !== 'bigint'
+			|| value < 0n
+			|| value >= 1n << BigInt(this.bits)) {
+			throw new EncodingError(bw.getSize(), `Invalid uint${this.bits}`);
+		}
+
+		for (let i = 0; i < this.bits; i += 64)
+			bw.writeU64Big(BigInt.asUintN(64, value >> BigInt(i)));
+	}
+
+	read(br: BufferReader, size: number) {
+		checkSize(br, size, this.fixedSize());
+
+		switch (this.bits) {
+			case 8:
+				return br.readU8();
+			case 16:
+				return br.readU16();
+			case 32:
+				return br.readU32();
+		}
+
+		let value = 0n;
+
+		for (let i = 0; i < this.bits; i += 64)
+			value |= br.readU64Big() << BigInt(i);
+
+		return value;
+	}
+
+	hashTreeRoot(value: number | bigint, ctx: ICtx) {
+		return pack(this, [value])[0];
+	}
+
+	defaultValue() {
+		return this.bits <= 32 ? 0 : 0n;
+	}
+}
+
+/**
+ * Boolean.
+ */
+
+export class BooleanType extends SSZType<boolean> {
+	isBasic() {
+		return true;
+	}
+
+	isFixed() {
+		return true;
+	}
+
+	fixedSize() {
+		return 1;
+	}
+
+	getSize() {
+		return 1;
+	}
+
+	write(bw: IWriter, value: boolean) {
+		bw.writeU8(value ? 1 : 0);
+	}
+
+	read(br: BufferReader, size: number) {
+		const off = br.offset;
+
+		checkSize(br, size, 1);
+
+		const value = br.readU8();
+
+		if (value > 1)
+			throw new EncodingError(off, 'Invalid boolean');
+
+		return value === 1;
+	}
+
+	hashTreeRoot(value: boolean, ctx: ICtx) {
+		return pack(this, [value])[0];
+	}
+
+	defaultValue() {
+		return false;
+	}
+}
+
+/**
+ * Fixed-length vector.
+ */
+
+export class VectorType<T = any> extends SSZType<T[]> {
+	elem: SSZType<T>;
+	length: number;
+
+	constructor(elem: SSZType<T>, length: number) {
+		super();
+		assert((length >>> 0) === length && length > 0, 'Invalid length.');
+		this.elem = elem;
+		this.length = length;
+	}
+
+	isFixed() {
+		return this.elem.isFixed();
+	}
+
+	fixedSize() {
+		if (!this.elem.isFixed())
+			return OFFSET_SIZE;
+		return this.length * this.elem.fixedSize();
+	}
+
+	getSize(value: T[]) {
+		return sizeSequence(this.elem, value);
+	}
+
+	write(bw: IWriter, value: T[]) {
+		if (!Array.isArray(value) || value.length !== this.length)
+			throw new EncodingError(bw.getSize(), 'Invalid vector length');
+
+		writeSequence(bw, this.elem, value);
+	}
+
+	read(br: BufferReader, size: number) {
+		const off = br.offset;
+
+		if (this.elem.isFixed())
+			checkSize(br, size, this.length * this.elem.fixedSize());
+
+		const items = readSequence(br, this.elem, size, this.length);
+
+		if (items.length !== this.length)
+			throw new EncodingError(off, 'Invalid vector length');
+
+		return items;
+	}
+
+	hashTreeRoot(value: T[], ctx: ICtx) {
+		if (this.elem.isBasic()) {
+			const limit = chunkCount(this.length * this.elem.fixedSize());
+			return merkleize(ctx, pack(this.elem, value), limit);
+		}
+
+		return merkleize(ctx, value.map(item => this.elem.hashTreeRoot(item, ctx)));
+	}
+
+	defaultValue() {
+		const items = [];
+
+		for (let i = 0; i < this.length; i++)
+			items.push(this.elem.defaultValue());
+
+		return items;
+	}
+}
+
+/**
+ * Variable-length list with a maximum length.
+ */
+
+export class ListType<T = any> extends SSZType<T[]> {
+	elem: SSZType<T>;
+	limit: number;
+
+	constructor(elem: SSZType<T>, limit: number) {
+		super();
+		assert(Number.isSafeInteger(limit) && limit >= 0, 'Invalid limit.');
+		this.elem = elem;
+		this.limit = limit;
+	}
+
+	isFixed() {
+		return false;
+	}
+
+	fixedSize() {
+		return OFFSET_SIZE;
+	}
+
+	getSize(value: T[]) {
+		return sizeSequence(this.elem, value);
+	}
+
+	write(bw: IWriter, value: T[]) {
+		if (!Array.isArray(value))
+			throw new EncodingError(bw.getSize(), 'Invalid list');
+
+		if (value.length > this.limit)
+			throw new LimitError(bw.getSize(), 'List exceeds limit');
+
+		writeSequence(bw, this.elem, value);
+	}
+
+	read(br: BufferReader, size: number) {
+		const off = br.offset;
+
+		if (this.elem.isFixed()) {
+			const count = size / this.elem.fixedSize();
+
+			if (count > this.limit)
+				throw new LimitError(off, 'List exceeds limit');
+		}
+
+		const items = readSequence(br, this.elem, size, this.limit);
+
+		if (items.length > this.limit)
+			throw new LimitError(off, 'List exceeds limit');
+
+		return items;
+	}
+
+	hashTreeRoot(value: T[], ctx: ICtx) {
+		let root;
+
+		if (this.elem.isBasic()) {
+			const limit = chunkCount(this.limit * this.elem.fixedSize());
+			root = merkleize(ctx, pack(this.elem, value), limit);
+		} else {
+			const chunks = value.map(item => this.elem.hashTreeRoot(item, ctx));
+			root = merkleize(ctx, chunks, this.limit);
+		}
+
+		return mixInLength(ctx, root, value.length);
+	}
+
+	defaultValue(): T[] {
+		return [];
+	}
+}
+
+/**
+ * Fixed-length byte vector (`Vector[uint8, N]`).
+ */
+
+export class ByteVectorType extends SSZType<Uint8Array> {
+	length: number;
+
+	constructor(length: number) {
+		super();
+		assert((length >>> 0) === length && length > 0, 'Invalid length.');
+		this.length = length;
+	}
+
+	isFixed() {
+		return true;
+	}
+
+	fixedSize() {
+		return this.length;
+	}
+
+	getSize() {
+		return this.length;
+	}
+
+	write(bw: IWriter, value: Uint8Array) {
+		if (!(value instanceof Uint8Array) || value.length !== this.length)
+			throw new EncodingError(bw.getSize(), 'Invalid vector length');
+
+		bw.writeBytes(value);
+	}
+
+	read(br: BufferReader, size: number) {
+		checkSize(br, size, this.length);
+		return br.readBytes(size);
+	}
+
+	hashTreeRoot(value: Uint8Array, ctx: ICtx) {
+		return merkleize(ctx, packBytes(value), chunkCount(this.length));
+	}
+
+	defaultValue() {
+		return bytes.alloc(this.length);
+	}
+}
+
+/**
+ * Variable-length byte list (`List[uint8, N]`).
+ */
+
+export class ByteListType extends SSZType<Uint8Array> {
+	limit: number;
+
+	constructor(limit: number) {
+		super();
+		assert(Number.isSafeInteger(limit) && limit >= 0, 'Invalid limit.');
+		this.limit = limit;
+	}
+
+	isFixed() {
+		return false;
+	}
+
+	fixedSize() {
+		return OFFSET_SIZE;
+	}
+
+	getSize(value: Uint8Array) {
+		return value.length;
+	}
+
+	write(bw: IWriter, value: Uint8Array) {
+		if (!(value instanceof Uint8Array))
+			throw new EncodingError(bw.getSize(), 'Invalid list');
+
+		if (value.length > this.limit)
+			throw new LimitError(bw.getSize(), 'List exceeds limit');
+
+		bw.writeBytes(value);
+	}
+
+	read(br: BufferReader, size: number) {
+		if (size > this.limit)
+			throw new LimitError(br.offset, 'List exceeds limit');
+
+		return br.readBytes(size);
+	}
+
+	hashTreeRoot(value: Uint8Array, ctx: ICtx) {
+		const root = merkleize(ctx, packBytes(value), chunkCount(this.limit));
+		return mixInLength(ctx, root, value.length);
+	}
+
+	defaultValue() {
+		return bytes.alloc(0);
+	}
+}
+
+/**
+ * Fixed-length bit vector.
+ */
+
+export class BitvectorType extends SSZType<boolean[]> {
+	length: number;
+
+	constructor(length: number) {
+		super();
+		assert((length >>> 0) === length && length > 0, 'Invalid length.');
+		this.length = length;
+	}
+
+	isFixed() {
+		return true;
+	}
+
+	fixedSize() {
+		return (this.length + 7) >>> 3;
+	}
+
+	getSize() {
+		return this.fixedSize();
+	}
+
+	write(bw: IWriter, value: boolean[]) {
+		if (!Array.isArray(value) || value.length !== this.length)
+			throw new EncodingError(bw.getSize(), 'Invalid vector length');
+
+		bw.writeBytes(toBits(value, false));
+	}
+
+	read(br: BufferReader, size: number) {
+		const off = br.offset;
+
+		checkSize(br, size, this.fixedSize());
+
+		const data = br.readBytes(size, true);
+
+		if (this.length & 7) {
+			if (data[data.length - 1] >>> (this.length & 7))
+				throw new EncodingError(off, 'Invalid bitvector padding');
+		}
+
+		return fromBits(data, this.length);
+	}
+
+	hashTreeRoot(value: boolean[], ctx: ICtx) {
+		const chunks = packBytes(toBits(value, false));
+		return merkleize(ctx, chunks, chunkCount(this.fixedSize()));
+	}
+
+	defaultValue() {
+		return new Array(this.length).fill(false);
+	}
+}
+
+/**
+ * Variable-length bit list. A delimiting
+ * bit marks the end of the list.
+ */
+
+export class BitlistType extends SSZType<boolean[]> {
+	limit: number;
+
+	constructor(limit: number) {
+		super();
+		assert(Number.isSafeInteger(limit) && limit >= 0, 'Invalid limit.');
+		this.limit = limit;
+	}
+
+	isFixed() {
+		return false;
+	}
+
+	fixedSize() {
+		return OFFSET_SIZE;
+	}
+
+	getSize(value: boolean[]) {
+		return (value.length >>> 3) + 1;
+	}
+
+	write(bw: IWriter, value: boolean[]) {
+		if (!Array.isArray(value))
+			throw new EncodingError(bw.getSize(), 'Invalid list');
+
+		if (value.length > this.limit)
+			throw new LimitError(bw.getSize(), 'List exceeds limit');
+
+		bw.writeBytes(toBits(value, true));
+	}
+
+	read(br: BufferReader, size: number) {
+		const off = br.offset;
+		const data = br.readBytes(size, true);
+
+		if (size === 0 || data[size - 1] === 0)
+			throw new EncodingError(off, 'Missing bitlist delimiter');
+
+		const last = data[size - 1];
+		const length = (size - 1) * 8 + (31 - Math.clz32(last));
+
+		if (length > this.limit)
+			throw new LimitError(off, 'List exceeds limit');
+
+		return fromBits(data, length);
+	}
+
+	hashTreeRoot(value: boolean[], ctx: ICtx) {
+		const chunks = packBytes(toBits(value, false));
+		const limit = chunkCount((this.limit + 7) >>> 3);
+		return mixInLength(ctx, merkleize(ctx, chunks, limit), value.length);
+	}
+
+	defaultValue(): boolean[] {
+		return [];
+	}
+}
+
+/**
+ * Container with named fields, serialized
+ * in declaration order. Variable-size fields
+ * are referenced by an offset table.
+ */
+
+export class ContainerType<T = any> extends SSZType<T> {
+	fields: [string, SSZType][];
+
+	constructor(fields: {[name: string]: SSZType}) {
+		super();
+		this.fields = Object.keys(fields).map(name => [name, fields[name]] as [string, SSZType]);
+		assert(this.fields.length > 0, 'Empty container.');
+	}
+
+	isFixed() {
+		return this.fields.every(([, type]) => type.isFixed());
+	}
+
+	fixedSize() {
+		if (!this.isFixed())
+			return OFFSET_SIZE;
+
+		let size = 0;
+
+		for (const [, type] of this.fields)
+			size += type.fixedSize();
+
+		return size;
+	}
+
+	getSize(value: T) {
+		let size = 0;
+
+		for (const [name, type] of this.fields) {
+			size += type.fixedSize();
+
+			if (!type.isFixed())
+				size += type.getSize(value[name]);
+		}
+
+		return size;
+	}
+
+	write(bw: IWriter, value: T) {
+		writeParts(bw, this.fields.map(([name, type]) => [type, value[name]]));
+	}
+
+	read(br: BufferReader, size: number) {
+		const types = this.fields.map(([, type]) => type);
+		const values = readParts(br, types, size);
+		const obj: any = {};
+
+		for (let i = 0; i < types.length; i++)
+			obj[this.fields[i][0]] = values[i];
+
+		return obj as T;
+	}
+
+	hashTreeRoot(value: T, ctx: ICtx) {
+		const chunks = this.fields.map(([name, type]) => {
+			return type.hashTreeRoot(value[name], ctx);
+		});
+
+		return merkleize(ctx, chunks);
+	}
+
+	defaultValue() {
+		const obj: any = {};
+
+		for (const [name, type] of this.fields)
+			obj[name] = type.defaultValue();
+
+		return obj as T;
+	}
+}
+
+/*
+ * Types
+ */
+
+export const uint8 = new UintType(8);
+export const uint16 = new UintType(16);
+export const uint32 = new UintType(32);
+export const uint64 = new UintType(64);
+export const uint128 = new UintType(128);
+export const uint256 = new UintType(256);
+export const boolean = new BooleanType();
+
+/**
+ * Create a vector type.
+ * @param {SSZType} elem
+ * @param {Number} length
+ * @returns {VectorType}
+ */
+
+export function vector<T>(elem: SSZType<T>, length: number) {
+	return new VectorType(elem, length);
+}
+
+/**
+ * Create a list type.
+ * @param {SSZType} elem
+ * @param {Number} limit
+ * @returns {ListType}
+ */
+
+export function list<T>(elem: SSZType<T>, limit: number) {
+	return new ListType(elem, limit);
+}
+
+/**
+ * Create a byte vector type.
+ * @param {Number} length
+ * @returns {ByteVectorType}
+ */
+
+export function byteVector(length: number) {
+	return new ByteVectorType(length);
+}
+
+/**
+ * Create a byte list type.
+ * @param {Number} limit
+ * @returns {ByteListType}
+ */
+
+export function byteList(limit: number) {
+	return new ByteListType(limit);
+}
+
+/**
+ * Create a bit vector type.
+ * @param {Number} length
+ * @returns {BitvectorType}
+ */
+
+export function bitvector(length: number) {
+	return new BitvectorType(length);
+}
+
+/**
+ * Create a bit list type.
+ * @param {Number} limit
+ * @returns {BitlistType}
+ */
+
+export function bitlist(limit: number) {
+	return new BitlistType(limit);
+}
+
+/**
+ * Create a container type.
+ * @param {Object} fields - Field types by name, in order.
+ * @returns {ContainerType}
+ */
+
+export function container<T = any>(fields: {[name: string]: SSZType}) {
+	return new ContainerType<T>(fields);
+}
+
+/*
+ * Merkleization
+ */
+
+/**
+ * Merkleize 32 byte chunks, padding with zero
+ * chunks up to the next power of two of `limit`
+ * (default: the number of chunks).
+ * @param {ICtx} ctx
+ * @param {Buffer[]} chunks
+ * @param {Number?} limit - Maximum number of chunks.
+ * @returns {Buffer}
+ */
+
+export function merkleize(ctx: ICtx, chunks: Uint8Array[], limit?: number) {
+	if (limit == null)
+		limit = chunks.length;
+
+	if (chunks.length > limit)
+		throw new LimitError(0, 'Chunks exceed limit');
+
+	let depth = 0;
+
+	while (2 ** depth < limit)
+		depth += 1;
+
+	if (chunks.length === 0)
+		return zeroHash(ctx, depth);
+
+	let layer = chunks;
+
+	for (let i = 0; i < depth; i++) {
+		const next = [];
+
+		for (let j = 0; j < layer.length; j += 2) {
+			const right = j + 1 < layer.length
+				? layer[j + 1]
+				: zeroHash(ctx, i);
+
+			next.push(hash(ctx, layer[j], right));
+		}
+
+		layer = next;
+	}
+
+	return bytes.wrap(layer[0]);
+}
+
+/**
+ * Mix a length into a root.
+ * @param {ICtx} ctx
+ * @param {Uint8Array} root
+ * @param {Number} length
+ * @returns {Buffer}
+ */
+
+export function mixInLength(ctx: ICtx, root: Uint8Array, length: number) {
+	const bw = new StaticWriter(CHUNK_SIZE);
+	bw.writeU64(length);
+	bw.fill(0, CHUNK_SIZE - 8);
+	return hash(ctx, root, bw.render());
+}
+
+/*
+ * Helpers
+ */
+
+function hash(ctx: ICtx, left: Uint8Array, right: Uint8Array) {
+	const hw = new HashWriter(ctx);
+	hw.init();
+	hw.writeBytes(left);
+	hw.writeBytes(right);
+	return hw.final();
+}
+
+function zeroHash(ctx: ICtx, depth: number) {
+	let cache = ZERO_HASHES.get(ctx);
+
+	if (!cache) {
+		cache = [bytes.alloc(CHUNK_SIZE)];
+		ZERO_HASHES.set(ctx, cache);
+	}
+
+	while (cache.length <= depth) {
+		const last = cache[cache.length - 1];
+		cache.push(hash(ctx, last, last));
+	}
+
+	return cache[depth];
+}
+
+function chunkCount(size: number) {
+	return Math.ceil(size / CHUNK_SIZE);
+}
+
+function pack(elem: SSZType, values: any[]) {
+	const size = values.length * elem.fixedSize();
+	const bw = new StaticWriter(Math.max(1, chunkCount(size)) * CHUNK_SIZE);
+
+	for (const value of values)
+		elem.write(bw, value);
+
+	bw.fill(0, bw.data.length - size);
+
+	return split(bw.render(), size);
+}
+
+function packBytes(data: Uint8Array) {
+	const padded = bytes.alloc(Math.max(1, chunkCount(data.length)) * CHUNK_SIZE);
+	bytes.copy(data, padded, 0);
+	return split(padded, data.length);
+}
+
+function split(data: Buffer, size: number) {
+	const chunks = [];
+
+	if (size === 0)
+		return chunks;
+
+	for (let i = 0; i < data.length; i += CHUNK_SIZE)
+		chunks.push(bytes.slice(data, i, i + CHUNK_SIZE));
+
+	return chunks;
+}
+
+function toBits(bits: boolean[], delimit: boolean) {
+	const length = delimit ? bits.length + 1 : bits.length;
+	const data = bytes.alloc((length + 7) >>> 3);
+
+	for (let i = 0; i < bits.length; i++) {
+		if (bits[i])
+			data[i >>> 3] |= 1 << (i & 7);
+	}
+
+	if (delimit)
+		data[bits.length >>> 3] |= 1 << (bits.length & 7);
+
+	return data;
+}
+
+function fromBits(data: Uint8Array, length: number) {
+	const bits = [];
+
+	for (let i = 0; i < length; i++)
+		bits.push(((data[i >>> 3] >>> (i & 7)) & 1) === 1);
+
+	return bits;
+}
+
+function checkSize(br: BufferReader, size: number, expect: number) {
+	if (size !== expect)
+		throw new EncodingError(br.offset, 'Invalid size');
+}
+
+function sizeSequence(elem: SSZType, values: any[]) {
+	if (elem.isFixed())
+		return values.length * elem.fixedSize();
+
+	let size = values.length * OFFSET_SIZE;
+
+	for (const value of values)
+		size += elem.getSize(value);
+
+	return size;
+}
+
+function writeSequence(bw: IWriter, elem: SSZType, values: any[]) {
+	if (elem.isFixed()) {
+		for (const value of values)
+			elem.write(bw, value);
+		return;
+	}
+
+	writeParts(bw, values.map(value => [elem, value] as [SSZType, any]));
+}
+
+function readSequence(br: BufferReader, elem: SSZType, size: number, max: number) {
+	const off = br.offset;
+
+	if (elem.isFixed()) {
+		const itemSize = elem.fixedSize();
+		const items = [];
+
+		if (size % itemSize !== 0)
+			throw new EncodingError(off, 'Invalid size');
+
+		for (let i = 0; i < size; i += itemSize)
+			items.push(elem.read(br, itemSize));
+
+		return items;
+	}
+
+	if (size === 0)
+		return [];
+
+	if (size < OFFSET_SIZE)
+		throw new EncodingError(off, 'Invalid offset');
+
+	const first = br.readU32();
+
+	br.seek(-OFFSET_SIZE);
+
+	if (first % OFFSET_SIZE !== 0 || first === 0 || first > size)
+		throw new EncodingError(off, 'Invalid offset');
+
+	const count = first / OFFSET_SIZE;
+
+	if (count > max)
+		throw new LimitError(off, 'Too many elements');
+
+	const types = [];
+
+	for (let i = 0; i < count; i++)
+		types.push(elem);
+
+	return readParts(br, types, size);
+}
+
+function writeParts(bw: IWriter, parts: [SSZType, any][]) {
+	let offset = 0;
+
+	for (const [type] of parts)
+		offset += type.fixedSize();
+
+	for (const [type, value] of parts) {
+		if (type.isFixed()) {
+			type.write(bw, value);
+		} else {
+			bw.writeU32(offset);
+			offset += type.getSize(value);
+		}
+	}
+
+	for (const [type, value] of parts) {
+		if (!type.isFixed())
+			type.write(bw, value);
+	}
+}
+
+function readParts(br: BufferReader, types: SSZType[], size: number) {
+	const start = br.offset;
+	const values = [];
+	const offsets = [];
+	const variable = [];
+
+	let fixed = 0;
+
+	for (const type of types)
+		fixed += type.fixedSize();
+
+	if (fixed > size)
+		throw new EncodingError(start, 'Invalid size');
+
+	for (let i = 0; i < types.length; i++) {
+		const type = types[i];
+
+		if (type.isFixed()) {
+			values.push(type.read(br, type.fixedSize()));
+			continue;
+		}
+
+		const off = br.offset;
+		const offset = br.readU32();
+
+		if (offsets.length === 0 ? offset !== fixed : offset < offsets[offsets.length - 1])
+			throw new EncodingError(off, 'Invalid offset');
+
+		if (offset > size)
+			throw new EncodingError(off, 'Invalid offset');
+
+		values.push(null);
+		offsets.push(offset);
+		variable.push(i);
+	}
+
+	if (variable.length === 0 && fixed !== size)
+		throw new EncodingError(start, 'Invalid size');
+
+	for (let j = 0; j < variable.length; j++) {
+		const end = j + 1 < offsets.length ? offsets[j + 1] : size;
+		const type = types[variable[j]];
+
+		values[variable[j]] = type.read(br, end - offsets[j]);
+
+		if (br.offset !== start + end)
+			throw new EncodingError(start + offsets[j], 'Invalid size');
+	}
+
+	return values;
+}
@@ -7,15 +7,19 @@
 'use strict';
 
 import * as assert from "assert";
+import * as bytes from "./bytes";
 import * as encoding from "./encoding";
-import EncodingError from "./error";
+import EncodingError, {OutOfBoundsError} from "./error";
 import {I64, U64} from "n64";
 import {IWriter} from "./writer";
+import Placeholder from "./placeholder";
+import {PrefixType, sizePrefix, writePrefix} from "./prefix";
+import * as rlp from "./rlp";
 /*
  * Constants
  */
 
-const EMPTY = Buffer.alloc(0);
+const EMPTY = bytes.alloc(0);
 const POOLSIZE = 100 << 10;
 
 let POOL = null;
@@ -26,17 +30,23 @@ let POOL = null;
 
 export default class StaticWriter implements IWriter {
 	data: Buffer;
+	view: DataView;
 	offset: number;
+	pending: Placeholder[];
+	sections: Placeholder[];
 
 	/**
 	 * Statically allocated buffer writer.
 	 * @constructor
-	 * @param {Number|Buffer} options
+	 * @param {Number|Uint8Array} options
 	 */
 
-	constructor(options?: number | Buffer) {
+	constructor(options?: number | Uint8Array) {
 		this.data = EMPTY;
+		this.view = bytes.view(EMPTY);
 		this.offset = 0;
+		this.pending = [];
+		this.sections = [];
 
 		if (options != null)
 			this.init(options);
@@ -47,16 +57,18 @@ export default class StaticWriter implements IWriter {
 	 * @param {Object} options
 	 */
 
-	init(options: Buffer | number) {
-		if (Buffer.isBuffer(options)) {
-			this.data = options;
+	init(options: Uint8Array | number) {
+		if (options instanceof Uint8Array) {
+			this.data = bytes.wrap(options);
+			this.view = bytes.view(options);
 			this.offset = 0;
 			return this;
 		}
 
 		assert((options >>> 0) === options);
 
-		this.data = Buffer.allocUnsafe(options);
+		this.data = bytes.allocUnsafe(options);
+		this.view = bytes.view(this.data);
 		this.offset = 0;
 
 		return this;
@@ -71,16 +83,25 @@ export default class StaticWriter implements IWriter {
 	static pool(size: number) {
 		if (size <= POOLSIZE) {
 			if (!POOL)
-				POOL = Buffer.allocUnsafeSlow(POOLSIZE);
+				POOL = bytes.alloc(POOLSIZE);
 
-			const bw = new StaticWriter();
-			bw.data = POOL.slice(0, size);
-			return bw;
+			return new StaticWriter(POOL.subarray(0, size));
 		}
 
 		return new StaticWriter(size);
 	}
 
+	/**
+	 * Ensure there is room for `size` more bytes.
+	 * @param {Number} size
+	 * @throws on overflow.
+	 */
+
+	check(size: number) {
+		if (this.offset + size > this.data.length)
+			throw new OutOfBoundsError(this.offset, 'Out of bounds write', this.check);
+	}
+
 	/**
 	 * Allocate and render the final buffer.
 	 * @returns {Buffer} Rendered buffer.
@@ -90,7 +111,10 @@ export default class StaticWriter implements IWriter {
 		const {data, offset} = this;
 
 		if (offset !== data.length)
-			throw new EncodingError(offset, 'Out of bounds write');
+			throw new OutOfBoundsError(offset, 'Out of bounds write');
+
+		if (this.pending.length > 0)
+			throw new EncodingError(this.pending[0].offset, 'Unfilled placeholder');
 
 		this.destroy();
 
@@ -106,11 +130,14 @@ export default class StaticWriter implements IWriter {
 		const {data, offset} = this;
 
 		if (offset > data.length)
-			throw new EncodingError(offset, 'Out of bounds write');
+			throw new OutOfBoundsError(offset, 'Out of bounds write');
+
+		if (this.pending.length > 0)
+			throw new EncodingError(this.pending[0].offset, 'Unfilled placeholder');
 
 		this.destroy();
 
-		return data.slice(0, offset);
+		return bytes.slice(data, 0, offset);
 	}
 
 	/**
@@ -138,7 +165,10 @@ export default class StaticWriter implements IWriter {
 
 	destroy() {
 		this.data = EMPTY;
+		this.view = bytes.view(EMPTY);
 		this.offset = 0;
+		this.pending.length = 0;
+		this.sections.length = 0;
 		return this;
 	}
 
@@ -148,7 +178,9 @@ export default class StaticWriter implements IWriter {
 	 */
 
 	writeU8(value: number) {
-		this.offset = this.data.writeUInt8(value, this.offset, true);
+		this.check(1);
+		this.view.setUint8(this.offset, value);
+		this.offset += 1;
 		return this;
 	}
 
@@ -158,7 +190,9 @@ export default class StaticWriter implements IWriter {
 	 */
 
 	writeU16(value: number) {
-		this.offset = this.data.writeUInt16LE(value, this.offset, true);
+		this.check(2);
+		this.view.setUint16(this.offset, value, true);
+		this.offset += 2;
 		return this;
 	}
 
@@ -168,7 +202,9 @@ export default class StaticWriter implements IWriter {
 	 */
 
 	writeU16BE(value: number) {
-		this.offset = this.data.writeUInt16BE(value, this.offset, true);
+		this.check(2);
+		this.view.setUint16(this.offset, value, false);
+		this.offset += 2;
 		return this;
 	}
 
@@ -178,7 +214,9 @@ export default class StaticWriter implements IWriter {
 	 */
 
 	writeU32(value: number) {
-		this.offset = this.data.writeUInt32LE(value, this.offset, true);
+		this.check(4);
+		this.view.setUint32(this.offset, value, true);
+		this.offset += 4;
 		return this;
 	}
 
@@ -188,7 +226,9 @@ export default class StaticWriter implements IWriter {
 	 */
 
 	writeU32BE(value: number) {
-		this.offset = this.data.writeUInt32BE(value, this.offset, true);
+		this.check(4);
+		this.view.setUint32(this.offset, value, false);
+		this.offset += 4;
 		return this;
 	}
 
@@ -238,7 +278,9 @@ export default class StaticWriter implements IWriter {
 	 */
 
 	writeI8(value: number) {
-		this.offset = this.data.writeInt8(value, this.offset, true);
+		this.check(1);
+		this.view.setInt8(this.offset, value);
+		this.offset += 1;
 		return this;
 	}
 
@@ -248,7 +290,9 @@ export default class StaticWriter implements IWriter {
 	 */
 
 	writeI16(value: number) {
-		this.offset = this.data.writeInt16LE(value, this.offset, true);
+		this.check(2);
+		this.view.setInt16(this.offset, value, true);
+		this.offset += 2;
 		return this;
 	}
 
@@ -258,7 +302,9 @@ export default class StaticWriter implements IWriter {
 	 */
 
 	writeI16BE(value: number) {
-		this.offset = this.data.writeInt16BE(value, this.offset, true);
+		this.check(2);
+		this.view.setInt16(this.offset, value, false);
+		this.offset += 2;
 		return this;
 	}
 
@@ -268,7 +314,9 @@ export default class StaticWriter implements IWriter {
 	 */
 
 	writeI32(value: number) {
-		this.offset = this.data.writeInt32LE(value, this.offset, true);
+		this.check(4);
+		this.view.setInt32(this.offset, value, true);
+		this.offset += 4;
 		return this;
 	}
 
@@ -278,7 +326,9 @@ export default class StaticWriter implements IWriter {
 	 */
 
 	writeI32BE(value: number) {
-		this.offset = this.data.writeInt32BE(value, this.offset, true);
+		this.check(4);
+		this.view.setInt32(this.offset, value, false);
+		this.offset += 4;
 		return this;
 	}
 
@@ -322,13 +372,55 @@ export default class StaticWriter implements IWriter {
 		return this;
 	}
 
+	/**
+	 * Write uint64le.
+	 * @param {BigInt} value
+	 */
+
+	writeU64Big(value: bigint) {
+		this.offset = encoding.writeU64Big(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write uint64be.
+	 * @param {BigInt} value
+	 */
+
+	writeU64BEBig(value: bigint) {
+		this.offset = encoding.writeU64BEBig(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write int64le.
+	 * @param {BigInt} value
+	 */
+
+	writeI64Big(value: bigint) {
+		this.offset = encoding.writeI64Big(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write int64be.
+	 * @param {BigInt} value
+	 */
+
+	writeI64BEBig(value: bigint) {
+		this.offset = encoding.writeI64BEBig(this.data, value, this.offset);
+		return this;
+	}
+
 	/**
 	 * Write float le.
 	 * @param {Number} value
 	 */
 
 	writeFloat(value: number) {
-		this.offset = this.data.writeFloatLE(value, this.offset, true);
+		this.check(4);
+		this.view.setFloat32(this.offset, value, true);
+		this.offset += 4;
 		return this;
 	}
 
@@ -338,7 +430,9 @@ export default class StaticWriter implements IWriter {
 	 */
 
 	writeFloatBE(value: number) {
-		this.offset = this.data.writeFloatBE(value, this.offset, true);
+		this.check(4);
+		this.view.setFloat32(this.offset, value, false);
+		this.offset += 4;
 		return this;
 	}
 
@@ -348,7 +442,9 @@ export default class StaticWriter implements IWriter {
 	 */
 
 	writeDouble(value: number) {
-		this.offset = this.data.writeDoubleLE(value, this.offset, true);
+		this.check(8);
+		this.view.setFloat64(this.offset, value, true);
+		this.offset += 8;
 		return this;
 	}
 
@@ -358,7 +454,9 @@ export default class StaticWriter implements IWriter {
 	 */
 
 	writeDoubleBE(value: number) {
-		this.offset = this.data.writeDoubleBE(value, this.offset, true);
+		this.check(8);
+		this.view.setFloat64(this.offset, value, false);
+		this.offset += 8;
 		return this;
 	}
 
@@ -402,16 +500,128 @@ export default class StaticWriter implements IWriter {
 		return this;
 	}
 
+	/**
+	 * Write a varint.
+	 * @param {BigInt} value
+	 */
+
+	writeVarintBig(value: bigint) {
+		this.offset = encoding.writeVarintBig(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write a varint (type 2).
+	 * @param {BigInt} value
+	 */
+
+	writeVarint2Big(value: bigint) {
+		this.offset = encoding.writeVarint2Big(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write an unsigned LEB128 varint.
+	 * @param {Number} value
+	 */
+
+	writeULEB128(value: number) {
+		this.offset = encoding.writeULEB128(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write an unsigned LEB128 varint.
+	 * @param {U64} value
+	 */
+
+	writeULEB128N(value: U64) {
+		this.offset = encoding.writeULEB128N(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write an unsigned LEB128 varint.
+	 * @param {BigInt} value
+	 */
+
+	writeULEB128Big(value: bigint) {
+		this.offset = encoding.writeULEB128Big(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write a signed LEB128 varint.
+	 * @param {Number} value
+	 */
+
+	writeSLEB128(value: number) {
+		this.offset = encoding.writeSLEB128(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write a signed LEB128 varint.
+	 * @param {I64} value
+	 */
+
+	writeSLEB128N(value: I64) {
+		this.offset = encoding.writeSLEB128N(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write a signed LEB128 varint.
+	 * @param {BigInt} value
+	 */
+
+	writeSLEB128Big(value: bigint) {
+		this.offset = encoding.writeSLEB128Big(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write a zigzag-encoded LEB128 varint.
+	 * @param {Number} value
+	 */
+
+	writeZigzag(value: number) {
+		this.offset = encoding.writeZigzag(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write a zigzag-encoded LEB128 varint.
+	 * @param {I64} value
+	 */
+
+	writeZigzagN(value: I64) {
+		this.offset = encoding.writeZigzagN(this.data, value, this.offset);
+		return this;
+	}
+
+	/**
+	 * Write a zigzag-encoded LEB128 varint.
+	 * @param {BigInt} value
+	 */
+
+	writeZigzagBig(value: bigint) {
+		this.offset = encoding.writeZigzagBig(this.data, value, this.offset);
+		return this;
+	}
+
 	/**
 	 * Write bytes.
-	 * @param {Buffer} value
+	 * @param {Uint8Array} value
 	 */
 
-	writeBytes(value: Buffer) {
+	writeBytes(value: Uint8Array) {
 		if (value.length === 0)
 			return this;
 
-		value.copy(this.data, this.offset);
+		this.check(value.length);
+
+		bytes.copy(value, this.data, this.offset);
 
 		this.offset += value.length;
 		return this;
@@ -419,10 +629,10 @@ export default class StaticWriter implements IWriter {
 
 	/**
 	 * Write bytes with a varint length before them.
-	 * @param {Buffer} value
+	 * @param {Uint8Array} value
 	 */
 
-	writeVarBytes(value: Buffer) {
+	writeVarBytes(value: Uint8Array) {
 		this.writeVarint(value.length);
 		this.writeBytes(value);
 		return this;
@@ -430,18 +640,20 @@ export default class StaticWriter implements IWriter {
 
 	/**
 	 * Copy bytes.
-	 * @param {Buffer} value
+	 * @param {Uint8Array} value
 	 * @param {Number} start
 	 * @param {Number} end
 	 */
 
-	copy(value: Buffer, start: number, end: number) {
+	copy(value: Uint8Array, start: number, end: number) {
 		const len = end - start;
 
 		if (len === 0)
 			return this;
 
-		value.copy(this.data, this.offset, start, end);
+		this.check(len);
+
+		bytes.copy(value, this.data, this.offset, start, end);
 		this.offset += len;
 
 		return this;
@@ -457,9 +669,11 @@ export default class StaticWriter implements IWriter {
 		if (value.length === 0)
 			return this;
 
-		const size = Buffer.byteLength(value, enc);
+		const size = bytes.byteLength(value, enc);
+
+		this.check(size);
 
-		this.data.write(value, this.offset, undefined, enc); // TODO
+		bytes.write(this.data, value, this.offset, enc);
 
 		this.offset += size;
 
@@ -478,7 +692,8 @@ export default class StaticWriter implements IWriter {
 			return this;
 		}
 		assert(value.length === 64);
-		this.data.write(value, this.offset, undefined, 'hex'); // TODO
+		this.check(32);
+		bytes.write(this.data, value, this.offset, 'hex');
 		this.offset += 32;
 		return this;
 	}
@@ -495,10 +710,11 @@ export default class StaticWriter implements IWriter {
 			return this;
 		}
 
-		const size = Buffer.byteLength(value, enc);
+		const size = bytes.byteLength(value, enc);
 
 		this.writeVarint(size);
-		this.data.write(value, this.offset, undefined, enc); // TODO
+		this.check(size);
+		bytes.write(this.data, value, this.offset, enc);
 
 		this.offset += size;
 
@@ -507,7 +723,7 @@ export default class StaticWriter implements IWriter {
 
 	/**
 	 * Write a null-terminated string.
-	 * @param {String|Buffer} value
+	 * @param {String|Uint8Array} value
 	 * @param {String?} enc - Any buffer-supported encoding.
 	 */
 
@@ -517,14 +733,25 @@ export default class StaticWriter implements IWriter {
 		return this;
 	}
 
+	/**
+	 * Write an RLP item.
+	 * @param {RLPValue} value
+	 */
+
+	writeRLP(value: rlp.RLPValue) {
+		rlp.write(this, value);
+		return this;
+	}
+
 	/**
 	 * Calculate and write a checksum for the data written so far.
 	 * @param {Function} hash
 	 */
 
 	writeChecksum(hash) {
-		const data = this.data.slice(0, this.offset);
-		hash(data).copy(this.data, this.offset, 0, 4);
+		this.check(4);
+		const data = bytes.slice(this.data, 0, this.offset);
+		bytes.copy(hash(data), this.data, this.offset, 0, 4);
 		this.offset += 4;
 		return this;
 	}
@@ -541,9 +768,152 @@ export default class StaticWriter implements IWriter {
 		if (size === 0)
 			return this;
 
+		this.check(size);
+
 		this.data.fill(value, this.offset, this.offset + size);
 		this.offset += size;
 
 		return this;
 	}
+
+	/**
+	 * Reserve a length or count field to be filled in later.
+	 * @param {PrefixType} type
+	 * @returns {Placeholder}
+	 */
+
+	reserve(type: PrefixType) {
+		const ph = new Placeholder(this, type, this.offset);
+
+		if (!ph.isVariable())
+			this.seek(sizePrefix(type, 0));
+
+		this.pending.push(ph);
+
+		return ph;
+	}
+
+	/**
+	 * Reserve a uint8 to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveU8() {
+		return this.reserve('u8');
+	}
+
+	/**
+	 * Reserve a uint16le to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveU16() {
+		return this.reserve('u16');
+	}
+
+	/**
+	 * Reserve a uint16be to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveU16BE() {
+		return this.reserve('u16be');
+	}
+
+	/**
+	 * Reserve a uint32le to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveU32() {
+		return this.reserve('u32');
+	}
+
+	/**
+	 * Reserve a uint32be to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveU32BE() {
+		return this.reserve('u32be');
+	}
+
+	/**
+	 * Reserve a varint to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveVarint() {
+		return this.reserve('varint');
+	}
+
+	/**
+	 * Reserve a varint (type 2) to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveVarint2() {
+		return this.reserve('varint2');
+	}
+
+	/**
+	 * Begin a length-delimited section. The byte length of
+	 * everything written until the matching `endSection()`
+	 * is written before it using the given prefix.
+	 * @param {PrefixType?} type - Length prefix (default: varint).
+	 */
+
+	beginSection(type: PrefixType = 'varint') {
+		this.sections.push(this.reserve(type));
+		return this;
+	}
+
+	/**
+	 * End the current section and fill in its length.
+	 * @throws on empty stack.
+	 */
+
+	endSection() {
+		assert(this.sections.length > 0);
+
+		const ph = this.sections.pop();
+
+		ph.fill(this.offset - ph.getEnd());
+
+		return this;
+	}
+
+	/**
+	 * Write the value of a reserved field.
+	 * @private
+	 * @param {Placeholder} ph
+	 * @param {Number} value
+	 */
+
+	fillPlaceholder(ph: Placeholder, value: number) {
+		const index = this.pending.indexOf(ph);
+
+		assert(index !== -1, 'Unknown placeholder.');
+
+		if (!ph.isVariable()) {
+			writePrefix(this.data, ph.type, value, ph.offset);
+			this.pending.splice(index, 1);
+			return;
+		}
+
+		const size = sizePrefix(ph.type, value);
+
+		this.check(size);
+
+		// Shift everything written since the
+		// reservation to make room for the field.
+		this.data.copyWithin(ph.offset + size, ph.offset, this.offset);
+		writePrefix(this.data, ph.type, value, ph.offset);
+
+		this.offset += size;
+		this.pending.splice(index, 1);
+
+		for (let i = index; i < this.pending.length; i++)
+			this.pending[i].offset += size;
+	}
 }
@@ -6,9 +6,12 @@
 
 'use strict';
 
+import * as bytes from "./bytes";
 import BufferReader from "./reader";
+import {TrailingDataError} from "./error";
 import BufferWriter, {IWriter} from "./writer";
 import StaticWriter from "./staticwriter";
+import {Layout} from "./schema";
 
 export interface StructConstructor<T> {
 	new(...args: any[]): T;
@@ -19,7 +22,17 @@ export interface StructConstructor<T> {
  */
 
 export default class Struct {
+	/**
+	 * Reject trailing bytes when decoding by default.
+	 */
+
+	static strict = false;
+
 	constructor() {
+		const layout = getLayout(this);
+
+		if (layout)
+			layout.init(this);
 	}
 
 	inject(obj: Struct) {
@@ -37,14 +50,29 @@ export default class Struct {
      */
 
 	getSize(extra?) {
+		const layout = getLayout(this);
+
+		if (layout)
+			return layout.getSize(layout.init(this));
+
 		return -1;
 	}
 
 	write(bw: IWriter, extra?): any {
+		const layout = getLayout(this);
+
+		if (layout)
+			return layout.write(layout.init(this), bw);
+
 		return bw;
 	}
 
 	read(br: BufferReader, extra?) {
+		const layout = getLayout(this);
+
+		if (layout)
+			return layout.read(this, br);
+
 		return this;
 	}
 
@@ -57,10 +85,20 @@ export default class Struct {
 	}
 
 	getJSON(): any {
+		const layout = getLayout(this);
+
+		if (layout)
+			return layout.getJSON(layout.init(this));
+
 		return this;
 	}
 
 	fromJSON(json: any, extra?) {
+		const layout = getLayout(this);
+
+		if (layout)
+			return layout.fromJSON(this, json);
+
 		return this;
 	}
 
@@ -89,42 +127,56 @@ export default class Struct {
 		return bw.render();
 	}
 
-	decode(data: Buffer, extra?) {
+	decode(data: Uint8Array, extra?, strict?: boolean) {
 		const br = new BufferReader(data);
-		this.read(br, extra);
+
+		br.scope(this.constructor.name, () => this.read(br, extra));
+
+		if (strict == null)
+			strict = (this.constructor as typeof Struct).strict;
+
+		if (strict && br.left() !== 0)
+			throw new TrailingDataError(br.offset, 'Trailing data');
+
 		return this;
 	}
 
+	decodePartial(data: Uint8Array, extra?): PartialResult<this> {
+		const br = new BufferReader(data);
+		br.scope(this.constructor.name, () => this.read(br, extra));
+		return new PartialResult(this, br.offset);
+	}
+
 	toHex(extra?) {
-		return this.encode(extra).toString('hex');
+		return bytes.toString(this.encode(extra), 'hex');
 	}
 
-	fromHex(str: string, extra?) {
+	fromHex(str: string, extra?, strict?: boolean) {
 		// assert(typeof str === 'string');
 
 		const size = str.length >>> 1;
-		const data = Buffer.from(str, 'hex');
+		const data = bytes.fromString(str, 'hex');
 
 		if (data.length !== size)
 			throw new Error('Invalid hex string.');
 
-		return this.decode(data, extra);
+		return this.decode(data, extra, strict);
 	}
 
 	toBase64(extra?) {
-		return this.encode(extra).toString('base64');
+		return bytes.toString(this.encode(extra), 'base64');
 	}
 
-	fromBase64(str: string, extra?) {
+	fromBase64(str: string, extra?, strict?: boolean) {
 		// assert(typeof str === 'string');
 
 		const min = (((str.length - 3) & ~3) * 3) / 4 | 0;
-		const data = Buffer.from(str, 'base64');
+		const data = bytes.fromString(str, 'base64');
 
 		if (data.length < min)
 			throw new Error('Invalid base64 string.');
 
-		return this.decode(data, extra);
+		return this.decode(data, extra, strict);
 	}
 
 	toJSON() {
@@ -139,20 +191,30 @@ export default class Struct {
      * Static API
      */
 
+	/**
+	 * Read a struct. Encoding errors get the class name
+	 * added to their field path, so nested reads in a
+	 * hand-written `read()` are reported as well.
+	 */
+
 	static read<T extends Struct>(this: { new(...args: any[]): T }, br: BufferReader, extra?): T {
-		return new this().read(br, extra);
+		return br.scope(this.name, () => new this().read(br, extra));
+	}
+
+	static decode<T extends Struct>(this: { new(...args: any[]): T }, data: Uint8Array, extra?, strict?: boolean): T {
+		return new this().decode(data, extra, strict);
 	}
 
-	static decode<T extends Struct>(this: { new(...args: any[]): T }, data: Buffer, extra?): T {
-		return new this().decode(data, extra);
+	static decodePartial<T extends Struct>(this: { new(...args: any[]): T }, data: Uint8Array, extra?): PartialResult<T> {
+		return new this().decodePartial(data, extra);
 	}
 
-	static fromHex<T extends Struct>(this: { new(...args: any[]): T }, str: string, extra?): T {
-		return new this().fromHex(str, extra);
+	static fromHex<T extends Struct>(this: { new(...args: any[]): T }, str: string, extra?, strict?: boolean): T {
+		return new this().fromHex(str, extra, strict);
 	}
 
-	static fromBase64<T extends Struct>(this: { new(...args: any[]): T }, str: string, extra?): T {
-		return new this().fromBase64(str, extra);
+	static fromBase64<T extends Struct>(this: { new(...args: any[]): T }, str: string, extra?, strict?: boolean): T {
+		return new this().fromBase64(str, extra, strict);
 	}
 
 	static fromString<T extends Struct>(this: { new(...args: any[]): T }, str: string, extra?): T {
@@ -187,8 +249,8 @@ export default class Struct {
 		return this.encode(extra);
 	}
 
-	fromRaw(data: Buffer, extra?) {
-		return this.decode(data, extra);
+	fromRaw(data: Uint8Array, extra?, strict?: boolean) {
+		return this.decode(data, extra, strict);
 	}
 
 	/*
@@ -199,8 +261,25 @@ export default class Struct {
 		return this.read(br, extra);
 	}
 
-	static fromRaw(data: Buffer, extra?) {
-		return this.decode(data, extra);
+	static fromRaw(data: Uint8Array, extra?, strict?: boolean) {
+		return this.decode(data, extra, strict);
 	}
 }
 
+/*
+ * Helpers
+ */
+
+export class PartialResult<T extends Struct> {
+	struct: T;
+	size: number;
+
+	constructor(struct: T, size: number) {
+		this.struct = struct;
+		this.size = size;
+	}
+}
+
+function getLayout(obj: Struct): Layout | null {
+	return (obj.constructor as any).layout || null;
+}
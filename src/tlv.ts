@@ -0,0 +1,486 @@
+/*!
+ * tlv.js - type-length-value records for bufio
+ * Copyright (c) 2018, Andrew Sun (MIT License).
+ * https://github.com/as-com/bufio
+ */
+
+'use strict';
+
+import * as assert from "assert";
+import * as bytes from "./bytes";
+import EncodingError, {LimitError, NonCanonicalError, OutOfBoundsError} from "./error";
+import {PrefixType, sizePrefix, writePrefix} from "./prefix";
+import BufferReader from "./reader";
+import SizeWriter from "./sizewriter";
+import {IWriter} from "./writer";
+
+/**
+ * Width of a type or length field: any length prefix
+ * type, or `bigsize` (the big-endian varint used by
+ * the Lightning Network).
+ */
+
+export type FieldWidth = PrefixType | 'bigsize';
+
+/**
+ * Record ordering rule.
+ * - `any` - no constraint.
+ * - `unique` - each type appears at most once.
+ * - `increasing` - types are strictly increasing.
+ */
+
+export type Order = 'any' | 'unique' | 'increasing';
+
+export interface TLVOptions {
+	type?: FieldWidth;
+	length?: FieldWidth;
+	order?: Order;
+	known?: number[];
+	skipUnknown?: boolean | ((type: number) => boolean);
+}
+
+/**
+ * Options for Lightning (BOLT #1) TLV streams: bigsize
+ * types and lengths, strictly increasing types, and
+ * unknown odd types ignored ("it's ok to be odd").
+ */
+
+export const bolt: TLVOptions = {
+	type: 'bigsize',
+	length: 'bigsize',
+	order: 'increasing',
+	skipUnknown: type => (type & 1) === 1
+};
+
+/**
+ * TLV Record
+ */
+
+export class TLVRecord {
+	type: number;
+	value: BufferReader;
+	offset: number;
+
+	/**
+	 * Create a record.
+	 * @constructor
+	 * @param {Number} type
+	 * @param {BufferReader} value - Child reader over the value.
+	 * @param {Number} offset - Offset of the record.
+	 */
+
+	constructor(type: number, value: BufferReader, offset: number) {
+		this.type = type;
+		this.value = value;
+		this.offset = offset;
+	}
+
+	/**
+	 * Get the size of the value.
+	 * @returns {Number}
+	 */
+
+	getSize() {
+		return this.value.left();
+	}
+
+	/**
+	 * Read the remaining value bytes.
+	 * @param {Boolean?} zeroCopy
+	 * @returns {Buffer}
+	 */
+
+	getData(zeroCopy?: boolean) {
+		const br = this.value;
+		const offset = br.offset;
+		const data = br.readBytes(br.left(), zeroCopy);
+		br.offset = offset;
+		return data;
+	}
+}
+
+/**
+ * Ordering Checker
+ * @private
+ */
+
+class Checker {
+	order: Order;
+	last: number;
+	seen: Set<number>;
+
+	constructor(order: Order) {
+		assert(order === 'any' || order === 'unique' || order === 'increasing',
+			'Invalid order.');
+
+		this.order = order;
+		this.last = -1;
+		this.seen = new Set();
+	}
+
+	check(type: number, off: number) {
+		switch (this.order) {
+			case 'unique':
+				if (this.seen.has(type))
+					throw new NonCanonicalError(off, 'Duplicate type');
+				this.seen.add(type);
+				break;
+			case 'increasing':
+				if (type === this.last)
+					throw new NonCanonicalError(off, 'Duplicate type');
+				if (type < this.last)
+					throw new NonCanonicalError(off, 'Unsorted type');
+				this.last = type;
+				break;
+		}
+	}
+}
+
+/**
+ * TLV Reader
+ * Iterates over the records of a TLV stream.
+ */
+
+export class TLVReader {
+	br: BufferReader;
+	type: FieldWidth;
+	length: FieldWidth;
+	known: Set<number> | null;
+	skipUnknown: boolean | ((type: number) => boolean);
+	checker: Checker;
+
+	/**
+	 * Create a TLV reader.
+	 * @constructor
+	 * @param {BufferReader} br - Reads until the end of its data.
+	 * @param {Object?} options
+	 * @param {FieldWidth?} options.type - Type width (default: u8).
+	 * @param {FieldWidth?} options.length - Length width (default: u8).
+	 * @param {Order?} options.order - Ordering rule (default: any).
+	 * @param {Number[]?} options.known - Known types. If given,
+	 * other types are unknown.
+	 * @param {Boolean|Function?} options.skipUnknown - Whether
+	 * unknown records are skipped or rejected (default: true).
+	 */
+
+	constructor(br: BufferReader, options: TLVOptions = {}) {
+		this.br = br;
+		this.type = options.type || 'u8';
+		this.length = options.length || 'u8';
+		this.known = options.known ? new Set(options.known) : null;
+		this.skipUnknown = options.skipUnknown != null ? options.skipUnknown : true;
+		this.checker = new Checker(options.order || 'any');
+
+		sizeField(this.type, 0);
+		sizeField(this.length, 0);
+	}
+
+	/**
+	 * Read the next known record.
+	 * @returns {TLVRecord|null} Null at the end of the stream.
+	 */
+
+	next() {
+		while (this.br.left() > 0) {
+			const off = this.br.offset;
+			const type = readField(this.br, this.type);
+			const size = readField(this.br, this.length);
+
+			if (size > this.br.left())
+				throw new OutOfBoundsError(off);
+
+			this.checker.check(type, off);
+
+			const value = this.br.readChild(size);
+
+			if (this.isKnown(type))
+				return new TLVRecord(type, value, off);
+
+			if (!this.shouldSkip(type))
+				throw new EncodingError(off, 'Unknown type');
+		}
+
+		return null;
+	}
+
+	/**
+	 * Read all remaining known records.
+	 * @returns {TLVRecord[]}
+	 */
+
+	readAll() {
+		const records = [];
+
+		for (const record of this)
+			records.push(record);
+
+		return records;
+	}
+
+	isKnown(type: number) {
+		return !this.known || this.known.has(type);
+	}
+
+	shouldSkip(type: number) {
+		if (typeof this.skipUnknown === 'function')
+			return this.skipUnknown(type);
+		return this.skipUnknown;
+	}
+
+	* [Symbol.iterator]() {
+		for (;;) {
+			const record = this.next();
+
+			if (!record)
+				break;
+
+			yield record;
+		}
+	}
+}
+
+/**
+ * TLV Writer
+ * Writes records with automatically computed lengths.
+ */
+
+export class TLVWriter {
+	bw: IWriter;
+	type: FieldWidth;
+	length: FieldWidth;
+	checker: Checker;
+
+	/**
+	 * Create a TLV writer.
+	 * @constructor
+	 * @param {IWriter} bw
+	 * @param {Object?} options
+	 * @param {FieldWidth?} options.type - Type width (default: u8).
+	 * @param {FieldWidth?} options.length - Length width (default: u8).
+	 * @param {Order?} options.order - Ordering rule (default: any).
+	 */
+
+	constructor(bw: IWriter, options: TLVOptions = {}) {
+		this.bw = bw;
+		this.type = options.type || 'u8';
+		this.length = options.length || 'u8';
+		this.checker = new Checker(options.order || 'any');
+
+		sizeField(this.type, 0);
+		sizeField(this.length, 0);
+	}
+
+	/**
+	 * Write a record.
+	 * @param {Number} type
+	 * @param {Uint8Array} data
+	 */
+
+	write(type: number, data: Uint8Array) {
+		this.writeHeader(type, data.length);
+		this.bw.writeBytes(data);
+		return this;
+	}
+
+	/**
+	 * Write a record whose value is written by `func`.
+	 * The value is sized with a `SizeWriter` first.
+	 * @param {Number} type
+	 * @param {Function} func
+	 */
+
+	writeRecord(type: number, func: (bw: IWriter) => any) {
+		const sw = new SizeWriter();
+
+		func(sw);
+
+		const size = sw.render();
+
+		this.writeHeader(type, size);
+
+		const start = this.bw.getSize();
+
+		func(this.bw);
+
+		assert(this.bw.getSize() - start === size, 'Inconsistent record size.');
+
+		return this;
+	}
+
+	/**
+	 * Calculate size of a record.
+	 * @param {Number} type
+	 * @param {Number} size - Size of the value.
+	 * @returns {Number}
+	 */
+
+	getSize(type: number, size: number) {
+		return sizeField(this.type, type) + sizeField(this.length, size) + size;
+	}
+
+	writeHeader(type: number, size: number) {
+		this.checker.check(type, this.bw.getSize());
+		writeField(this.bw, this.type, type);
+		writeField(this.bw, this.length, size);
+	}
+}
+
+/*
+ * Fields
+ */
+
+/**
+ * Read a type or length field.
+ * @param {BufferReader} br
+ * @param {FieldWidth} width
+ * @returns {Number}
+ */
+
+export function readField(br: BufferReader, width: FieldWidth): number {
+	switch (width) {
+		case 'bigsize':
+			return readBigSize(br);
+		case 'varint':
+			return br.readVarint();
+		case 'varint2':
+			return br.readVarint2();
+		case 'u8':
+			return br.readU8();
+		case 'u16':
+			return br.readU16();
+		case 'u16be':
+			return br.readU16BE();
+		case 'u32':
+			return br.readU32();
+		case 'u32be':
+			return br.readU32BE();
+		default:
+			throw new Error('Unknown field width.');
+	}
+}
+
+/**
+ * Write a type or length field.
+ * @param {IWriter} bw
+ * @param {FieldWidth} width
+ * @param {Number} value
+ */
+
+export function writeField(bw: IWriter, width: FieldWidth, value: number) {
+	if (!Number.isSafeInteger(value) || value < 0)
+		throw new EncodingError(bw.getSize(), 'Invalid field value');
+
+	if (width === 'bigsize')
+		return writeBigSize(bw, value);
+
+	const size = sizePrefix(width, value);
+
+	if (value > 2 ** (size * 8) - 1)
+		throw new LimitError(bw.getSize(), 'Value exceeds field width');
+
+	const data = bytes.allocUnsafe(size);
+
+	writePrefix(data, width, value, 0);
+
+	return bw.writeBytes(data);
+}
+
+/**
+ * Calculate size of a type or length field.
+ * @param {FieldWidth} width
+ * @param {Number} value
+ * @returns {Number}
+ */
+
+export function sizeField(width: FieldWidth, value: number): number {
+	if (width === 'bigsize')
+		return sizeBigSize(value);
+
+	return sizePrefix(width, value);
+}
+
+/**
+ * Read a bigsize (big-endian, canonically encoded varint).
+ * @param {BufferReader} br
+ * @returns {Number}
+ */
+
+export function readBigSize(br: BufferReader) {
+	const off = br.offset;
+	const prefix = br.readU8();
+
+	let value, min;
+
+	switch (prefix) {
+		case 0xff: {
+			const num = br.readU64BEBig();
+
+			if (num > BigInt(Number.MAX_SAFE_INTEGER))
+				throw new LimitError(off, 'Number exceeds 2^53-1');
+
+			value = Number(num);
+			min = 0x100000000;
+
+			break;
+		}
+		case 0xfe:
+			value = br.readU32BE();
+			min = 0x10000;
+			break;
+		case 0xfd:
+			value = br.readU16BE();
+			min = 0xfd;
+			break;
+		default:
+			return prefix;
+	}
+
+	if (value < min)
+		throw new NonCanonicalError(off, 'Non-canonical bigsize');
+
+	return value;
+}
+
+/**
+ * Write a bigsize.
+ * @param {IWriter} bw
+ * @param {Number} value
+ */
+
+export function writeBigSize(bw: IWriter, value: number) {
+	if (value < 0xfd)
+		return bw.writeU8(value);
+
+	if (value <= 0xffff) {
+		bw.writeU8(0xfd);
+		return bw.writeU16BE(value);
+	}
+
+	if (value <= 0xffffffff) {
+		bw.writeU8(0xfe);
+		return bw.writeU32BE(value);
+	}
+
+	bw.writeU8(0xff);
+
+	return bw.writeU64BEBig(BigInt(value));
+}
+
+/**
+ * Calculate size of a bigsize.
+ * @param {Number} value
+ * @returns {Number}
+ */
+
+export function sizeBigSize(value: number) {
+	if (value < 0xfd)
+		return 1;
+
+	if (value <= 0xffff)
+		return 3;
+
+	if (value <= 0xffffffff)
+		return 5;
+
+	return 9;
+}
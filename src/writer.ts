@@ -9,8 +9,12 @@
 
 import * as assert from "assert";
 import {I64 as I64_t, U64} from "n64";
+import * as bytes from "./bytes";
 import * as encoding from "./encoding";
-import EncodingError from "./error";
+import EncodingError, {OutOfBoundsError} from "./error";
+import Placeholder from "./placeholder";
+import {PrefixType, checkPrefix, sizePrefix, writePrefix} from "./prefix";
+import * as rlp from "./rlp";
 
 /*
  * Constants
@@ -47,6 +51,22 @@ const BYTES = 27;
 const STR = 28;
 const CHECKSUM = 29;
 const FILL = 30;
+const UI64BIG = 31;
+const UI64BEBIG = 32;
+const I64BIG = 33;
+const I64BEBIG = 34;
+const VARINTBIG = 35;
+const VARINT2BIG = 36;
+const PLACEHOLDER = 37;
+const ULEB128 = 38;
+const ULEB128N = 39;
+const ULEB128BIG = 40;
+const SLEB128 = 41;
+const SLEB128N = 42;
+const SLEB128BIG = 43;
+const ZIGZAG = 44;
+const ZIGZAGN = 45;
+const ZIGZAGBIG = 46;
 
 export interface IWriter {
 	/**
@@ -180,6 +200,30 @@ export interface IWriter {
 	 */
 
 	writeI64BEN(value: I64_t): this;
+	/**
+	 * Write uint64le.
+	 * @param {BigInt} value
+	 */
+
+	writeU64Big(value: bigint): this;
+	/**
+	 * Write uint64be.
+	 * @param {BigInt} value
+	 */
+
+	writeU64BEBig(value: bigint): this;
+	/**
+	 * Write int64le.
+	 * @param {BigInt} value
+	 */
+
+	writeI64Big(value: bigint): this;
+	/**
+	 * Write int64be.
+	 * @param {BigInt} value
+	 */
+
+	writeI64BEBig(value: bigint): this;
 	/**
 	 * Write float le.
 	 * @param {Number} value
@@ -228,33 +272,99 @@ export interface IWriter {
 	 */
 
 	writeVarint2N(value: U64): this;
+	/**
+	 * Write a varint.
+	 * @param {BigInt} value
+	 */
+
+	writeVarintBig(value: bigint): this;
+	/**
+	 * Write a varint (type 2).
+	 * @param {BigInt} value
+	 */
+
+	writeVarint2Big(value: bigint): this;
+	/**
+	 * Write an unsigned LEB128 varint.
+	 * @param {Number} value
+	 */
+
+	writeULEB128(value: number): this;
+	/**
+	 * Write an unsigned LEB128 varint.
+	 * @param {U64} value
+	 */
+
+	writeULEB128N(value: U64): this;
+	/**
+	 * Write an unsigned LEB128 varint.
+	 * @param {BigInt} value
+	 */
+
+	writeULEB128Big(value: bigint): this;
+	/**
+	 * Write a signed LEB128 varint.
+	 * @param {Number} value
+	 */
+
+	writeSLEB128(value: number): this;
+	/**
+	 * Write a signed LEB128 varint.
+	 * @param {I64} value
+	 */
+
+	writeSLEB128N(value: I64_t): this;
+	/**
+	 * Write a signed LEB128 varint.
+	 * @param {BigInt} value
+	 */
+
+	writeSLEB128Big(value: bigint): this;
+	/**
+	 * Write a zigzag-encoded LEB128 varint.
+	 * @param {Number} value
+	 */
+
+	writeZigzag(value: number): this;
+	/**
+	 * Write a zigzag-encoded LEB128 varint.
+	 * @param {I64} value
+	 */
+
+	writeZigzagN(value: I64_t): this;
+	/**
+	 * Write a zigzag-encoded LEB128 varint.
+	 * @param {BigInt} value
+	 */
+
+	writeZigzagBig(value: bigint): this;
 	/**
 	 * Write bytes.
-	 * @param {Buffer} value
+	 * @param {Uint8Array} value
 	 */
 
-	writeBytes(value: Buffer): this;
+	writeBytes(value: Uint8Array): this;
 	/**
 	 * Write bytes with a varint length before them.
-	 * @param {Buffer} value
+	 * @param {Uint8Array} value
 	 */
 
-	writeVarBytes(value: Buffer): this;
+	writeVarBytes(value: Uint8Array): this;
 	/**
 	 * Copy bytes.
-	 * @param {Buffer} value
+	 * @param {Uint8Array} value
 	 * @param {Number} start
 	 * @param {Number} end
 	 */
 
-	copy(value: Buffer, start: number, end: number): this;
+	copy(value: Uint8Array, start: number, end: number): this;
 	/**
 	 * Write string to buffer.
 	 * @param {String} value
 	 * @param {String?} enc - Any buffer-supported encoding.
 	 */
 
-	writeString(value: string | Buffer, enc?: string): this;
+	writeString(value: string | Uint8Array, enc?: string): this;
 	/**
 	 * Write a 32 byte hash.
 	 * @param {Hash} value
@@ -270,11 +380,17 @@ export interface IWriter {
 	writeVarString(value: string, enc?: string): this;
 	/**
 	 * Write a null-terminated string.
-	 * @param {String|Buffer} value
+	 * @param {String|Uint8Array} value
 	 * @param {String?} enc - Any buffer-supported encoding.
 	 */
 
-	writeNullString(value: string | Buffer, enc?: string): this;
+	writeNullString(value: string | Uint8Array, enc?: string): this;
+	/**
+	 * Write an RLP item.
+	 * @param {RLPValue} value
+	 */
+
+	writeRLP(value: rlp.RLPValue): this;
 	/**
 	 * Calculate and write a checksum for the data written so far.
 	 * @param {Function} hash
@@ -288,6 +404,68 @@ export interface IWriter {
 	 */
 
 	fill(value: number, size: number): this;
+	/**
+	 * Reserve a length or count field to be filled in later.
+	 * @param {PrefixType} type
+	 * @returns {Placeholder}
+	 */
+
+	reserve(type: PrefixType): Placeholder;
+	/**
+	 * Reserve a uint8 to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveU8(): Placeholder;
+	/**
+	 * Reserve a uint16le to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveU16(): Placeholder;
+	/**
+	 * Reserve a uint16be to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveU16BE(): Placeholder;
+	/**
+	 * Reserve a uint32le to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveU32(): Placeholder;
+	/**
+	 * Reserve a uint32be to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveU32BE(): Placeholder;
+	/**
+	 * Reserve a varint to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveVarint(): Placeholder;
+	/**
+	 * Reserve a varint (type 2) to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveVarint2(): Placeholder;
+	/**
+	 * Begin a length-delimited section. The byte length of
+	 * everything written until the matching `endSection()`
+	 * is written before it using the given prefix.
+	 * @param {PrefixType?} type - Length prefix (default: varint).
+	 */
+
+	beginSection(type?: PrefixType): this;
+	/**
+	 * End the current section and fill in its length.
+	 */
+
+	endSection(): this;
 }
 
 /**
@@ -297,6 +475,8 @@ export interface IWriter {
 export default class BufferWriter implements IWriter {
 	ops: WriteOp[];
 	offset: number;
+	pending: Placeholder[];
+	sections: Placeholder[];
 
 	/**
 	 * Create a buffer writer.
@@ -306,6 +486,8 @@ export default class BufferWriter implements IWriter {
 	constructor() {
 		this.ops = [];
 		this.offset = 0;
+		this.pending = [];
+		this.sections = [];
 	}
 
 	/**
@@ -314,7 +496,11 @@ export default class BufferWriter implements IWriter {
 	 */
 
 	render() {
-		const data = Buffer.allocUnsafe(this.offset);
+		if (this.pending.length > 0)
+			throw new EncodingError(this.pending[0].offset, 'Unfilled placeholder');
+
+		const data = bytes.allocUnsafe(this.offset);
+		const view = bytes.view(data);
 
 		let off = 0;
 
@@ -324,19 +510,24 @@ export default class BufferWriter implements IWriter {
 					off += op.value;
 					break;
 				case UI8:
-					off = data.writeUInt8(op.value, off, true);
+					view.setUint8(off, op.value);
+					off += 1;
 					break;
 				case UI16:
-					off = data.writeUInt16LE(op.value, off, true);
+					view.setUint16(off, op.value, true);
+					off += 2;
 					break;
 				case UI16BE:
-					off = data.writeUInt16BE(op.value, off, true);
+					view.setUint16(off, op.value, false);
+					off += 2;
 					break;
 				case UI32:
-					off = data.writeUInt32LE(op.value, off, true);
+					view.setUint32(off, op.value, true);
+					off += 4;
 					break;
 				case UI32BE:
-					off = data.writeUInt32BE(op.value, off, true);
+					view.setUint32(off, op.value, false);
+					off += 4;
 					break;
 				case UI64:
 					off = encoding.writeU64(data, op.value, off);
@@ -351,19 +542,24 @@ export default class BufferWriter implements IWriter {
 					off = encoding.writeU64BEN(data, op.value, off);
 					break;
 				case I8:
-					off = data.writeInt8(op.value, off, true);
+					view.setInt8(off, op.value);
+					off += 1;
 					break;
 				case I16:
-					off = data.writeInt16LE(op.value, off, true);
+					view.setInt16(off, op.value, true);
+					off += 2;
 					break;
 				case I16BE:
-					off = data.writeInt16BE(op.value, off, true);
+					view.setInt16(off, op.value, false);
+					off += 2;
 					break;
 				case I32:
-					off = data.writeInt32LE(op.value, off, true);
+					view.setInt32(off, op.value, true);
+					off += 4;
 					break;
 				case I32BE:
-					off = data.writeInt32BE(op.value, off, true);
+					view.setInt32(off, op.value, false);
+					off += 4;
 					break;
 				case I64:
 					off = encoding.writeI64(data, op.value, off);
@@ -378,16 +574,20 @@ export default class BufferWriter implements IWriter {
 					off = encoding.writeI64BEN(data, op.value, off);
 					break;
 				case FL:
-					off = data.writeFloatLE(op.value, off, true);
+					view.setFloat32(off, op.value, true);
+					off += 4;
 					break;
 				case FLBE:
-					off = data.writeFloatBE(op.value, off, true);
+					view.setFloat32(off, op.value, false);
+					off += 4;
 					break;
 				case DBL:
-					off = data.writeDoubleLE(op.value, off, true);
+					view.setFloat64(off, op.value, true);
+					off += 8;
 					break;
 				case DBLBE:
-					off = data.writeDoubleBE(op.value, off, true);
+					view.setFloat64(off, op.value, false);
+					off += 8;
 					break;
 				case VARINT:
 					off = encoding.writeVarint(data, op.value, off);
@@ -402,18 +602,66 @@ export default class BufferWriter implements IWriter {
 					off = encoding.writeVarint2N(data, op.value, off);
 					break;
 				case BYTES:
-					off += op.data.copy(data, off);
+					off += bytes.copy(op.data, data, off);
 					break;
 				case STR:
-					off += data.write(op.value, off, op.enc);
+					off += bytes.write(data, op.value, off, op.enc);
 					break;
 				case CHECKSUM:
-					off += op.func(data.slice(0, off)).copy(data, off, 0, 4);
+					off += bytes.copy(op.func(bytes.slice(data, 0, off)), data, off, 0, 4);
 					break;
 				case FILL:
 					data.fill(op.value, off, off + op.size);
 					off += op.size;
 					break;
+				case UI64BIG:
+					off = encoding.writeU64Big(data, op.value, off);
+					break;
+				case UI64BEBIG:
+					off = encoding.writeU64BEBig(data, op.value, off);
+					break;
+				case I64BIG:
+					off = encoding.writeI64Big(data, op.value, off);
+					break;
+				case I64BEBIG:
+					off = encoding.writeI64BEBig(data, op.value, off);
+					break;
+				case VARINTBIG:
+					off = encoding.writeVarintBig(data, op.value, off);
+					break;
+				case VARINT2BIG:
+					off = encoding.writeVarint2Big(data, op.value, off);
+					break;
+				case ULEB128:
+					off = encoding.writeULEB128(data, op.value, off);
+					break;
+				case ULEB128N:
+					off = encoding.writeULEB128N(data, op.value, off);
+					break;
+				case ULEB128BIG:
+					off = encoding.writeULEB128Big(data, op.value, off);
+					break;
+				case SLEB128:
+					off = encoding.writeSLEB128(data, op.value, off);
+					break;
+				case SLEB128N:
+					off = encoding.writeSLEB128N(data, op.value, off);
+					break;
+				case SLEB128BIG:
+					off = encoding.writeSLEB128Big(data, op.value, off);
+					break;
+				case ZIGZAG:
+					off = encoding.writeZigzag(data, op.value, off);
+					break;
+				case ZIGZAGN:
+					off = encoding.writeZigzagN(data, op.value, off);
+					break;
+				case ZIGZAGBIG:
+					off = encoding.writeZigzagBig(data, op.value, off);
+					break;
+				case PLACEHOLDER:
+					off = writePrefix(data, op.ph.type, op.ph.value, off);
+					break;
 				default:
 					assert(false, 'Bad type.');
 					break;
@@ -421,7 +669,7 @@ export default class BufferWriter implements IWriter {
 		}
 
 		if (off !== data.length)
-			throw new EncodingError(off, 'Out of bounds write');
+			throw new OutOfBoundsError(off, 'Out of bounds write');
 
 		this.destroy();
 
@@ -455,6 +703,8 @@ export default class BufferWriter implements IWriter {
 	destroy() {
 		this.ops.length = 0;
 		this.offset = 0;
+		this.pending.length = 0;
+		this.sections.length = 0;
 		return this;
 	}
 
@@ -656,6 +906,50 @@ export default class BufferWriter implements IWriter {
 		return this;
 	}
 
+	/**
+	 * Write uint64le.
+	 * @param {BigInt} value
+	 */
+
+	writeU64Big(value: bigint) {
+		this.offset += 8;
+		this.ops.push(new NumberOp(UI64BIG, value));
+		return this;
+	}
+
+	/**
+	 * Write uint64be.
+	 * @param {BigInt} value
+	 */
+
+	writeU64BEBig(value: bigint) {
+		this.offset += 8;
+		this.ops.push(new NumberOp(UI64BEBIG, value));
+		return this;
+	}
+
+	/**
+	 * Write int64le.
+	 * @param {BigInt} value
+	 */
+
+	writeI64Big(value: bigint) {
+		this.offset += 8;
+		this.ops.push(new NumberOp(I64BIG, value));
+		return this;
+	}
+
+	/**
+	 * Write int64be.
+	 * @param {BigInt} value
+	 */
+
+	writeI64BEBig(value: bigint) {
+		this.offset += 8;
+		this.ops.push(new NumberOp(I64BEBIG, value));
+		return this;
+	}
+
 	/**
 	 * Write float le.
 	 * @param {Number} value
@@ -744,12 +1038,133 @@ export default class BufferWriter implements IWriter {
 		return this;
 	}
 
+	/**
+	 * Write a varint.
+	 * @param {BigInt} value
+	 */
+
+	writeVarintBig(value: bigint) {
+		this.offset += encoding.sizeVarintBig(value);
+		this.ops.push(new NumberOp(VARINTBIG, value));
+		return this;
+	}
+
+	/**
+	 * Write a varint (type 2).
+	 * @param {BigInt} value
+	 */
+
+	writeVarint2Big(value: bigint) {
+		this.offset += encoding.sizeVarint2Big(value);
+		this.ops.push(new NumberOp(VARINT2BIG, value));
+		return this;
+	}
+
+	/**
+	 * Write an unsigned LEB128 varint.
+	 * @param {Number} value
+	 */
+
+	writeULEB128(value: number) {
+		this.offset += encoding.sizeULEB128(value);
+		this.ops.push(new NumberOp(ULEB128, value));
+		return this;
+	}
+
+	/**
+	 * Write an unsigned LEB128 varint.
+	 * @param {U64} value
+	 */
+
+	writeULEB128N(value: U64) {
+		this.offset += encoding.sizeULEB128N(value);
+		this.ops.push(new NumberOp(ULEB128N, value));
+		return this;
+	}
+
+	/**
+	 * Write an unsigned LEB128 varint.
+	 * @param {BigInt} value
+	 */
+
+	writeULEB128Big(value: bigint) {
+		this.offset += encoding.sizeULEB128Big(value);
+		this.ops.push(new NumberOp(ULEB128BIG, value));
+		return this;
+	}
+
+	/**
+	 * Write a signed LEB128 varint.
+	 * @param {Number} value
+	 */
+
+	writeSLEB128(value: number) {
+		this.offset += encoding.sizeSLEB128(value);
+		this.ops.push(new NumberOp(SLEB128, value));
+		return this;
+	}
+
+	/**
+	 * Write a signed LEB128 varint.
+	 * @param {I64} value
+	 */
+
+	writeSLEB128N(value: I64_t) {
+		this.offset += encoding.sizeSLEB128N(value);
+		this.ops.push(new NumberOp(SLEB128N, value));
+		return this;
+	}
+
+	/**
+	 * Write a signed LEB128 varint.
+	 * @param {BigInt} value
+	 */
+
+	writeSLEB128Big(value: bigint) {
+		this.offset += encoding.sizeSLEB128Big(value);
+		this.ops.push(new NumberOp(SLEB128BIG, value));
+		return this;
+	}
+
+	/**
+	 * Write a zigzag-encoded LEB128 varint.
+	 * @param {Number} value
+	 */
+
+	writeZigzag(value: number) {
+		this.offset += encoding.sizeZigzag(value);
+		this.ops.push(new NumberOp(ZIGZAG, value));
+		return this;
+	}
+
+	/**
+	 * Write a zigzag-encoded LEB128 varint.
+	 * @param {I64} value
+	 */
+
+	writeZigzagN(value: I64_t) {
+		this.offset += encoding.sizeZigzagN(value);
+		this.ops.push(new NumberOp(ZIGZAGN, value));
+		return this;
+	}
+
+	/**
+	 * Write a zigzag-encoded LEB128 varint.
+	 * @param {BigInt} value
+	 */
+
+	writeZigzagBig(value: bigint) {
+		this.offset += encoding.sizeZigzagBig(value);
+		this.ops.push(new NumberOp(ZIGZAGBIG, value));
+		return this;
+	}
+
 	/**
 	 * Write bytes.
-	 * @param {Buffer} value
+	 * @param {Uint8Array} value
 	 */
 
-	writeBytes(value: Buffer) {
+	writeBytes(value: Uint8Array) {
 		if (value.length === 0)
 			return this;
 
@@ -761,10 +1176,10 @@ export default class BufferWriter implements IWriter {
 
 	/**
 	 * Write bytes with a varint length before them.
-	 * @param {Buffer} value
+	 * @param {Uint8Array} value
 	 */
 
-	writeVarBytes(value: Buffer) {
+	writeVarBytes(value: Uint8Array) {
 		this.offset += encoding.sizeVarint(value.length);
 		this.ops.push(new NumberOp(VARINT, value.length));
 
@@ -779,14 +1194,14 @@ export default class BufferWriter implements IWriter {
 
 	/**
 	 * Copy bytes.
-	 * @param {Buffer} value
+	 * @param {Uint8Array} value
 	 * @param {Number} start
 	 * @param {Number} end
 	 */
 
-	copy(value: Buffer, start: number, end: number) {
+	copy(value: Uint8Array, start: number, end: number) {
 		assert(end >= start);
-		value = value.slice(start, end);
+		value = bytes.slice(value, start, end);
 		this.writeBytes(value);
 		return this;
 	}
@@ -797,11 +1212,14 @@ export default class BufferWriter implements IWriter {
 	 * @param {String?} enc - Any buffer-supported encoding.
 	 */
 
-	writeString(value: string | Buffer, enc?: string) {
+	writeString(value: string | Uint8Array, enc?: string) {
 		if (value.length === 0)
 			return this;
 
-		this.offset += Buffer.byteLength(value, enc);
+		if (typeof value !== 'string')
+			return this.writeBytes(value);
+
+		this.offset += bytes.byteLength(value, enc);
 		this.ops.push(new StringOp(STR, value, enc));
 
 		return this;
@@ -835,7 +1253,7 @@ export default class BufferWriter implements IWriter {
 			return this;
 		}
 
-		const size = Buffer.byteLength(value, enc);
+		const size = bytes.byteLength(value, enc);
 
 		this.offset += encoding.sizeVarint(size);
 		this.offset += size;
@@ -848,16 +1266,26 @@ export default class BufferWriter implements IWriter {
 
 	/**
 	 * Write a null-terminated string.
-	 * @param {String|Buffer} value
+	 * @param {String|Uint8Array} value
 	 * @param {String?} enc - Any buffer-supported encoding.
 	 */
 
-	writeNullString(value: string | Buffer, enc?: string) {
+	writeNullString(value: string | Uint8Array, enc?: string) {
 		this.writeString(value, enc);
 		this.writeU8(0);
 		return this;
 	}
 
+	/**
+	 * Write an RLP item.
+	 * @param {RLPValue} value
+	 */
+
+	writeRLP(value: rlp.RLPValue) {
+		rlp.write(this, value);
+		return this;
+	}
+
 	/**
 	 * Calculate and write a checksum for the data written so far.
 	 * @param {Function} hash
@@ -886,6 +1314,141 @@ export default class BufferWriter implements IWriter {
 
 		return this;
 	}
+
+	/**
+	 * Reserve a length or count field to be filled in later.
+	 * @param {PrefixType} type
+	 * @returns {Placeholder}
+	 */
+
+	reserve(type: PrefixType) {
+		const ph = new Placeholder(this, type, this.offset);
+
+		if (!ph.isVariable())
+			this.offset += sizePrefix(type, 0);
+
+		this.ops.push(new PlaceholderOp(PLACEHOLDER, ph));
+		this.pending.push(ph);
+
+		return ph;
+	}
+
+	/**
+	 * Reserve a uint8 to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveU8() {
+		return this.reserve('u8');
+	}
+
+	/**
+	 * Reserve a uint16le to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveU16() {
+		return this.reserve('u16');
+	}
+
+	/**
+	 * Reserve a uint16be to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveU16BE() {
+		return this.reserve('u16be');
+	}
+
+	/**
+	 * Reserve a uint32le to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveU32() {
+		return this.reserve('u32');
+	}
+
+	/**
+	 * Reserve a uint32be to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveU32BE() {
+		return this.reserve('u32be');
+	}
+
+	/**
+	 * Reserve a varint to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveVarint() {
+		return this.reserve('varint');
+	}
+
+	/**
+	 * Reserve a varint (type 2) to be filled in later.
+	 * @returns {Placeholder}
+	 */
+
+	reserveVarint2() {
+		return this.reserve('varint2');
+	}
+
+	/**
+	 * Begin a length-delimited section. The byte length of
+	 * everything written until the matching `endSection()`
+	 * is written before it using the given prefix.
+	 * @param {PrefixType?} type - Length prefix (default: varint).
+	 */
+
+	beginSection(type: PrefixType = 'varint') {
+		this.sections.push(this.reserve(type));
+		return this;
+	}
+
+	/**
+	 * End the current section and fill in its length.
+	 * @throws on empty stack.
+	 */
+
+	endSection() {
+		assert(this.sections.length > 0);
+
+		const ph = this.sections.pop();
+
+		ph.fill(this.offset - ph.getEnd());
+
+		return this;
+	}
+
+	/**
+	 * Write the value of a reserved field.
+	 * @private
+	 * @param {Placeholder} ph
+	 * @param {Number} value
+	 */
+
+	fillPlaceholder(ph: Placeholder, value: number) {
+		const index = this.pending.indexOf(ph);
+
+		assert(index !== -1, 'Unknown placeholder.');
+
+		checkPrefix(ph.type, value, ph.offset);
+
+		this.pending.splice(index, 1);
+
+		if (!ph.isVariable())
+			return;
+
+		const size = sizePrefix(ph.type, value);
+
+		this.offset += size;
+
+		for (let i = index; i < this.pending.length; i++)
+			this.pending[i].offset += size;
+	}
 }
 
 /*
@@ -910,19 +1473,19 @@ class NumberOp extends WriteOp {
 }
 
 class BufferOp extends WriteOp {
-	data: Buffer;
+	data: Uint8Array;
 
-	constructor(type: number, data: Buffer) {
+	constructor(type: number, data: Uint8Array) {
 		super(type);
 		this.data = data;
 	}
 }
 
 class StringOp extends WriteOp {
-	value: string | Buffer;
+	value: string | Uint8Array;
 	enc: string;
 
-	constructor(type: number, value: string | Buffer, enc: string) {
+	constructor(type: number, value: string | Uint8Array, enc: string) {
 		super(type);
 		this.value = value;
 		this.enc = enc;
@@ -949,3 +1512,11 @@ class FillOp extends WriteOp {
 	}
 }
 
+class PlaceholderOp extends WriteOp {
+	ph: Placeholder;
+
+	constructor(type: number, ph: Placeholder) {
+		super(type);
+		this.ph = ph;
+	}
+}
@@ -0,0 +1,593 @@
+/*!
+ * xdr.js - external data representation (RFC 4506) for bufio
+ * Copyright (c) 2018, Andrew Sun (MIT License).
+ * https://github.com/as-com/bufio
+ */
+
+'use strict';
+
+import {I64, U64} from "n64";
+import * as bytes from "./bytes";
+import EncodingError, {LimitError, OutOfBoundsError} from "./error";
+import BufferReader from "./reader";
+import {IWriter} from "./writer";
+
+/*
+ * Constants
+ */
+
+const UNIT = 4;
+const MAX_LENGTH = 0xffffffff;
+
+/**
+ * Read function for an array element, optional
+ * datum or union arm.
+ */
+
+export type ReadFunc<T = any> = (br: BufferReader) => T;
+
+/**
+ * Write function for an array element, optional
+ * datum or union arm.
+ */
+
+export type WriteFunc<T = any> = (bw: IWriter, value: T) => any;
+
+/**
+ * Decoded discriminated union.
+ */
+
+export class Union<T = any> {
+	discriminant: number;
+	value: T;
+
+	constructor(discriminant: number, value: T) {
+		this.discriminant = discriminant;
+		this.value = value;
+	}
+}
+
+/*
+ * Integers
+ */
+
+/**
+ * Read a signed 32 bit integer.
+ * @param {BufferReader} br
+ * @returns {Number}
+ */
+
+export function readInt(br: BufferReader) {
+	return br.readI32BE();
+}
+
+/**
+ * Write a signed 32 bit integer.
+ * @param {IWriter} bw
+ * @param {Number} value
+ */
+
+export function writeInt(bw: IWriter, value: number) {
+	return bw.writeI32BE(value);
+}
+
+/**
+ * Read an unsigned 32 bit integer.
+ * @param {BufferReader} br
+ * @returns {Number}
+ */
+
+export function readUnsignedInt(br: BufferReader) {
+	return br.readU32BE();
+}
+
+/**
+ * Write an unsigned 32 bit integer.
+ * @param {IWriter} bw
+ * @param {Number} value
+ */
+
+export function writeUnsignedInt(bw: IWriter, value: number) {
+	return bw.writeU32BE(value);
+}
+
+/**
+ * Read a signed 64 bit integer (hyper).
+ * @param {BufferReader} br
+ * @returns {I64}
+ */
+
+export function readHyper(br: BufferReader): I64 {
+	return br.readI64BEN();
+}
+
+/**
+ * Write a signed 64 bit integer (hyper).
+ * @param {IWriter} bw
+ * @param {I64} value
+ */
+
+export function writeHyper(bw: IWriter, value: I64) {
+	return bw.writeI64BEN(value);
+}
+
+/**
+ * Read an unsigned 64 bit integer (unsigned hyper).
+ * @param {BufferReader} br
+ * @returns {U64}
+ */
+
+export function readUnsignedHyper(br: BufferReader): U64 {
+	return br.readU64BEN();
+}
+
+/**
+ * Write an unsigned 64 bit integer (unsigned hyper).
+ * @param {IWriter} bw
+ * @param {U64} value
+ */
+
+export function writeUnsignedHyper(bw: IWriter, value: U64) {
+	return bw.writeU64BEN(value);
+}
+
+/**
+ * Read a signed 64 bit integer as a bigint.
+ * @param {BufferReader} br
+ * @returns {BigInt}
+ */
+
+export function readHyperBig(br: BufferReader) {
+	return br.readI64BEBig();
+}
+
+/**
+ * Write a signed 64 bit integer from a bigint.
+ * @param {IWriter} bw
+ * @param {BigInt} value
+ */
+
+export function writeHyperBig(bw: IWriter, value: bigint) {
+	return bw.writeI64BEBig(value);
+}
+
+/**
+ * Read an unsigned 64 bit integer as a bigint.
+ * @param {BufferReader} br
+ * @returns {BigInt}
+ */
+
+export function readUnsignedHyperBig(br: BufferReader) {
+	return br.readU64BEBig();
+}
+
+/**
+ * Write an unsigned 64 bit integer from a bigint.
+ * @param {IWriter} bw
+ * @param {BigInt} value
+ */
+
+export function writeUnsignedHyperBig(bw: IWriter, value: bigint) {
+	return bw.writeU64BEBig(value);
+}
+
+/**
+ * Read an enum, optionally checking it against
+ * a list of valid values.
+ * @param {BufferReader} br
+ * @param {Number[]?} values
+ * @returns {Number}
+ */
+
+export function readEnum(br: BufferReader, values?: number[]) {
+	const off = br.offset;
+	const value = br.readI32BE();
+
+	if (values && values.indexOf(value) === -1)
+		throw new EncodingError(off, 'Invalid enum value');
+
+	return value;
+}
+
+/**
+ * Write an enum.
+ * @param {IWriter} bw
+ * @param {Number} value
+ */
+
+export function writeEnum(bw: IWriter, value: number) {
+	return bw.writeI32BE(value);
+}
+
+/**
+ * Read a boolean.
+ * @param {BufferReader} br
+ * @returns {Boolean}
+ */
+
+export function readBool(br: BufferReader) {
+	const off = br.offset;
+	const value = br.readI32BE();
+
+	if (value !== 0 && value !== 1)
+		throw new EncodingError(off, 'Invalid boolean');
+
+	return value === 1;
+}
+
+/**
+ * Write a boolean.
+ * @param {IWriter} bw
+ * @param {Boolean} value
+ */
+
+export function writeBool(bw: IWriter, value: boolean) {
+	return bw.writeI32BE(value ? 1 : 0);
+}
+
+/*
+ * Floating Point
+ */
+
+/**
+ * Read a single-precision float.
+ * @param {BufferReader} br
+ * @returns {Number}
+ */
+
+export function readFloat(br: BufferReader) {
+	return br.readFloatBE();
+}
+
+/**
+ * Write a single-precision float.
+ * @param {IWriter} bw
+ * @param {Number} value
+ */
+
+export function writeFloat(bw: IWriter, value: number) {
+	return bw.writeFloatBE(value);
+}
+
+/**
+ * Read a double-precision float.
+ * @param {BufferReader} br
+ * @returns {Number}
+ */
+
+export function readDouble(br: BufferReader) {
+	return br.readDoubleBE();
+}
+
+/**
+ * Write a double-precision float.
+ * @param {IWriter} bw
+ * @param {Number} value
+ */
+
+export function writeDouble(bw: IWriter, value: number) {
+	return bw.writeDoubleBE(value);
+}
+
+/*
+ * Opaque Data and Strings
+ */
+
+/**
+ * Read fixed-length opaque data and its padding.
+ * @param {BufferReader} br
+ * @param {Number} size
+ * @param {Boolean?} zeroCopy
+ * @returns {Buffer}
+ */
+
+export function readFixedOpaque(br: BufferReader, size: number, zeroCopy?: boolean) {
+	const data = br.readBytes(size, zeroCopy);
+	readPadding(br, size);
+	return data;
+}
+
+/**
+ * Write fixed-length opaque data and its padding.
+ * @param {IWriter} bw
+ * @param {Uint8Array} data
+ * @param {Number?} size - Expected size.
+ */
+
+export function writeFixedOpaque(bw: IWriter, data: Uint8Array, size?: number) {
+	if (size != null && data.length !== size)
+		throw new EncodingError(bw.getSize(), 'Invalid opaque size');
+
+	bw.writeBytes(data);
+	writePadding(bw, data.length);
+
+	return bw;
+}
+
+/**
+ * Read variable-length opaque data.
+ * @param {BufferReader} br
+ * @param {Number?} max - Maximum length.
+ * @param {Boolean?} zeroCopy
+ * @returns {Buffer}
+ */
+
+export function readOpaque(br: BufferReader, max?: number, zeroCopy?: boolean) {
+	return readFixedOpaque(br, readLength(br, max), zeroCopy);
+}
+
+/**
+ * Write variable-length opaque data.
+ * @param {IWriter} bw
+ * @param {Uint8Array} data
+ * @param {Number?} max - Maximum length.
+ */
+
+export function writeOpaque(bw: IWriter, data: Uint8Array, max?: number) {
+	writeLength(bw, data.length, max);
+	return writeFixedOpaque(bw, data);
+}
+
+/**
+ * Calculate size of variable-length opaque data.
+ * @param {Uint8Array} data
+ * @returns {Number}
+ */
+
+export function sizeOpaque(data: Uint8Array) {
+	return UNIT + pad(data.length);
+}
+
+/**
+ * Read a string.
+ * @param {BufferReader} br
+ * @param {Number?} max - Maximum length in bytes.
+ * @param {String?} enc - Defaults to ascii, per the RFC.
+ * @returns {String}
+ */
+
+export function readString(br: BufferReader, max?: number, enc = 'ascii') {
+	const data = readOpaque(br, max, true);
+	return bytes.toString(data, enc);
+}
+
+/**
+ * Write a string.
+ * @param {IWriter} bw
+ * @param {String} str
+ * @param {Number?} max - Maximum length in bytes.
+ * @param {String?} enc
+ */
+
+export function writeString(bw: IWriter, str: string, max?: number, enc = 'ascii') {
+	return writeOpaque(bw, bytes.fromString(str, enc), max);
+}
+
+/**
+ * Calculate size of a string.
+ * @param {String} str
+ * @param {String?} enc
+ * @returns {Number}
+ */
+
+export function sizeString(str: string, enc = 'ascii') {
+	return UNIT + pad(bytes.byteLength(str, enc));
+}
+
+/**
+ * Round a size up to the 4 byte alignment.
+ * @param {Number} size
+ * @returns {Number}
+ */
+
+export function pad(size: number) {
+	return (size + UNIT - 1) & ~(UNIT - 1);
+}
+
+/**
+ * Read and verify zero padding after `size` bytes of data.
+ * @param {BufferReader} br
+ * @param {Number} size - Size of the padded data.
+ */
+
+export function readPadding(br: BufferReader, size: number) {
+	const off = br.offset;
+	const len = pad(size) - size;
+
+	for (let i = 0; i < len; i++) {
+		if (br.readU8() !== 0)
+			throw new EncodingError(off, 'Non-zero padding');
+	}
+
+	return br;
+}
+
+/**
+ * Write zero padding after `size` bytes of data.
+ * @param {IWriter} bw
+ * @param {Number} size - Size of the padded data.
+ */
+
+export function writePadding(bw: IWriter, size: number) {
+	const len = pad(size) - size;
+
+	if (len > 0)
+		bw.fill(0, len);
+
+	return bw;
+}
+
+/*
+ * Arrays
+ */
+
+/**
+ * Read a fixed-length array.
+ * @param {BufferReader} br
+ * @param {Number} count
+ * @param {Function} func
+ * @returns {Array}
+ */
+
+export function readFixedArray<T>(br: BufferReader, count: number, func: ReadFunc<T>) {
+	const items: T[] = [];
+
+	for (let i = 0; i < count; i++)
+		items.push(func(br));
+
+	return items;
+}
+
+/**
+ * Write a fixed-length array.
+ * @param {IWriter} bw
+ * @param {Array} items
+ * @param {Function} func
+ * @param {Number?} count - Expected length.
+ */
+
+export function writeFixedArray<T>(bw: IWriter, items: T[], func: WriteFunc<T>,
+                                   count?: number) {
+	if (count != null && items.length !== count)
+		throw new EncodingError(bw.getSize(), 'Invalid array length');
+
+	for (const item of items)
+		func(bw, item);
+
+	return bw;
+}
+
+/**
+ * Read a variable-length array.
+ * @param {BufferReader} br
+ * @param {Function} func
+ * @param {Number?} max - Maximum length.
+ * @returns {Array}
+ */
+
+export function readArray<T>(br: BufferReader, func: ReadFunc<T>, max?: number) {
+	return readFixedArray(br, readLength(br, max), func);
+}
+
+/**
+ * Write a variable-length array.
+ * @param {IWriter} bw
+ * @param {Array} items
+ * @param {Function} func
+ * @param {Number?} max - Maximum length.
+ */
+
+export function writeArray<T>(bw: IWriter, items: T[], func: WriteFunc<T>,
+                              max?: number) {
+	writeLength(bw, items.length, max);
+	return writeFixedArray(bw, items, func);
+}
+
+/*
+ * Optional Data and Unions
+ */
+
+/**
+ * Read optional data (`*type`).
+ * @param {BufferReader} br
+ * @param {Function} func
+ * @returns {*|null}
+ */
+
+export function readOptional<T>(br: BufferReader, func: ReadFunc<T>) {
+	return readBool(br) ? func(br) : null;
+}
+
+/**
+ * Write optional data (`*type`). `null` and
+ * `undefined` are written as absent.
+ * @param {IWriter} bw
+ * @param {*} value
+ * @param {Function} func
+ */
+
+export function writeOptional<T>(bw: IWriter, value: T | null, func: WriteFunc<T>) {
+	writeBool(bw, value != null);
+
+	if (value != null)
+		func(bw, value);
+
+	return bw;
+}
+
+/**
+ * Read a discriminated union. Arms map discriminants
+ * to read functions, or `null` for void arms.
+ * @param {BufferReader} br
+ * @param {Object} arms
+ * @param {Function|null?} def - Default arm.
+ * @returns {Union}
+ */
+
+export function readUnion(br: BufferReader, arms: {[disc: number]: ReadFunc | null},
+                          def?: ReadFunc | null) {
+	const off = br.offset;
+	const disc = br.readI32BE();
+	const func = getArm(arms, disc, def);
+
+	if (func === undefined)
+		throw new EncodingError(off, 'Invalid union discriminant');
+
+	return new Union(disc, func ? func(br) : null);
+}
+
+/**
+ * Write a discriminated union.
+ * @param {IWriter} bw
+ * @param {Number} disc
+ * @param {*} value
+ * @param {Object} arms
+ * @param {Function|null?} def - Default arm.
+ */
+
+export function writeUnion(bw: IWriter, disc: number, value: any,
+                           arms: {[disc: number]: WriteFunc | null},
+                           def?: WriteFunc | null) {
+	const func = getArm(arms, disc, def);
+
+	if (func === undefined)
+		throw new EncodingError(bw.getSize(), 'Invalid union discriminant');
+
+	bw.writeI32BE(disc);
+
+	if (func)
+		func(bw, value);
+
+	return bw;
+}
+
+/*
+ * Helpers
+ */
+
+function getArm<T>(arms: {[disc: number]: T}, disc: number, def?: T) {
+	if (Object.prototype.hasOwnProperty.call(arms, disc))
+		return arms[disc];
+
+	return def;
+}
+
+function readLength(br: BufferReader, max = MAX_LENGTH) {
+	const off = br.offset;
+	const size = br.readU32BE();
+
+	if (size > max)
+		throw new LimitError(off, 'Length exceeds limit');
+
+	if (size > br.left())
+		throw new OutOfBoundsError(off);
+
+	return size;
+}
+
+function writeLength(bw: IWriter, size: number, max = MAX_LENGTH) {
+	if (size > max)
+		throw new LimitError(bw.getSize(), 'Length exceeds limit');
+
+	bw.writeU32BE(size);
+}
@@ -0,0 +1,310 @@
+/* eslint-env mocha */
+/* eslint prefer-arrow-callback: "off" */
+
+'use strict';
+
+const assert = require('./util/assert');
+const bio = require('../src/bufio');
+const {asn1} = bio;
+
+function encode(func) {
+  const bw = bio.write();
+  func(bw);
+  return bw.render();
+}
+
+function read(hex) {
+  return bio.read(Buffer.from(hex, 'hex'));
+}
+
+// ECDSA signature from bitcoin tx 0437cd7f..., r and s.
+const sig = '3045'
+  + '022100' + '8b9d1dc26ba6a9cb62127b02742fa9d754cd3bebf337f7a55d114c8e5cdd30be'
+  + '0220' + '40529b194ba3f9281a99f2b1c0a19c0489bc22ede944ccf4ecbab4cc618ef3ed';
+
+describe('ASN1', function() {
+  it('should parse an ecdsa signature', () => {
+    const br = read(sig);
+    const seq = asn1.readSequence(br);
+
+    const r = asn1.readInteger(seq);
+    const s = asn1.readInteger(seq);
+
+    assert.strictEqual(seq.left(), 0);
+    assert.strictEqual(br.left(), 0);
+
+    assert.strictEqual(r,
+      0x8b9d1dc26ba6a9cb62127b02742fa9d754cd3bebf337f7a55d114c8e5cdd30ben);
+    assert.strictEqual(s,
+      0x40529b194ba3f9281a99f2b1c0a19c0489bc22ede944ccf4ecbab4cc618ef3edn);
+
+    const data = encode(bw => asn1.writeSequence(bw, (bw) => {
+      asn1.writeInteger(bw, r);
+      asn1.writeInteger(bw, s);
+    }));
+
+    assert.strictEqual(data.toString('hex'), sig);
+  });
+
+  it('should encode integers', () => {
+    const vectors = [
+      [0, '020100'],
+      [127, '02017f'],
+      [128, '02020080'],
+      [256, '02020100'],
+      [-1, '0201ff'],
+      [-128, '020180'],
+      [-129, '0202ff7f'],
+      [-(2n ** 64n), '0209ff0000000000000000']
+    ];
+
+    for (const [num, hex] of vectors) {
+      assert.strictEqual(encode(bw => asn1.writeInteger(bw, num)).toString('hex'), hex);
+      assert.strictEqual(asn1.readInteger(read(hex)), BigInt(num));
+    }
+
+    assert.strictEqual(asn1.readEnum(read('0a0102')), 2n);
+
+    assert.throws(() => asn1.readInteger(read('0200')), {
+      reason: 'Invalid integer'
+    });
+  });
+
+  it('should encode long-form lengths and tags', () => {
+    const data = Buffer.alloc(300, 0xaa);
+    const raw = encode(bw => asn1.writeOctetString(bw, data));
+
+    assert.strictEqual(raw.slice(0, 4).toString('hex'), '0482012c');
+    assert.strictEqual(asn1.sizeHeader(asn1.types.OCTSTRING, 300), 4);
+    assert.bufferEqual(asn1.readOctetString(bio.read(raw)), data);
+
+    const high = encode(bw => asn1.writeHeader(bw, 1000, false, 0, asn1.classes.CONTEXT));
+    assert.strictEqual(high.toString('hex'), '9f876800');
+
+    const hdr = asn1.readHeader(bio.read(high));
+    assert.strictEqual(hdr.cls, asn1.classes.CONTEXT);
+    assert.strictEqual(hdr.tag, 1000);
+    assert.strictEqual(hdr.constructed, false);
+    assert.strictEqual(hdr.size, 0);
+  });
+
+  it('should encode bit strings', () => {
+    const raw = encode(bw => asn1.writeBitString(bw, Buffer.from('6e5dc0', 'hex'), 6));
+    assert.strictEqual(raw.toString('hex'), '0304066e5dc0');
+
+    const bits = asn1.readBitString(bio.read(raw));
+    assert.strictEqual(bits.unused, 6);
+    assert.bufferEqual(bits.data, Buffer.from('6e5dc0', 'hex'));
+
+    assert.throws(() => asn1.readBitString(read('0304066e5de0')), {
+      code: 'ERR_NON_CANONICAL'
+    });
+
+    assert.throws(() => asn1.readBitString(read('030101')), {
+      reason: 'Invalid bit string'
+    });
+  });
+
+  it('should encode object identifiers', () => {
+    const vectors = [
+      ['1.2.840.10045.2.1', '06072a8648ce3d0201'],
+      ['1.3.132.0.10', '06052b8104000a'],
+      ['2.999.3', '0603883703']
+    ];
+
+    for (const [oid, hex] of vectors) {
+      assert.strictEqual(encode(bw => asn1.writeOID(bw, oid)).toString('hex'), hex);
+      assert.strictEqual(asn1.readOID(read(hex)), oid);
+    }
+
+    const big = '2.25.329800735698586629295641978511506172918';
+    assert.strictEqual(asn1.readOID(bio.read(encode(bw => asn1.writeOID(bw, big)))), big);
+
+    assert.throws(() => asn1.readOID(read('06032a8001')), {
+      code: 'ERR_NON_CANONICAL'
+    });
+
+    assert.throws(() => asn1.readOID(read('06022a86')), {
+      reason: 'Invalid OID'
+    });
+
+    assert.throws(() => encode(bw => asn1.writeOID(bw, '1.40')), {
+      reason: 'Invalid OID'
+    });
+  });
+
+  it('should encode primitives', () => {
+    const data = encode((bw) => {
+      asn1.writeBoolean(bw, true);
+      asn1.writeNull(bw);
+      asn1.writeString(bw, 'héllo');
+      asn1.writeString(bw, 'test', asn1.types.PRINTSTRING);
+    });
+
+    assert.strictEqual(data.toString('hex'),
+      '0101ff' + '0500' + '0c0668c3a96c6c6f' + '130474657374');
+
+    const br = bio.read(data);
+    assert.strictEqual(asn1.readBoolean(br), true);
+    assert.strictEqual(asn1.readNull(br), null);
+    assert.strictEqual(asn1.readString(br), 'héllo');
+    assert.strictEqual(asn1.readString(br), 'test');
+
+    assert.throws(() => asn1.readBoolean(read('010101')), {
+      code: 'ERR_NON_CANONICAL'
+    });
+
+    assert.throws(() => asn1.readBoolean(read('0500')), {
+      reason: 'Unexpected tag'
+    });
+  });
+
+  it('should encode times', () => {
+    const date = new Date('2019-12-16T03:02:10Z');
+
+    let raw = encode(bw => asn1.writeUTCTime(bw, date));
+    assert.strictEqual(raw.toString('latin1').slice(2), '191216030210Z');
+    assert.strictEqual(asn1.readTime(bio.read(raw)).getTime(), date.getTime());
+
+    raw = encode(bw => asn1.writeGeneralizedTime(bw, date));
+    assert.strictEqual(raw.toString('latin1').slice(2), '20191216030210Z');
+    assert.strictEqual(asn1.readTime(bio.read(raw)).getTime(), date.getTime());
+
+    const frac = new Date('2050-01-01T00:00:00.120Z');
+    raw = encode(bw => asn1.writeGeneralizedTime(bw, frac));
+    assert.strictEqual(raw.toString('latin1').slice(2), '20500101000000.12Z');
+    assert.strictEqual(asn1.readGeneralizedTime(bio.read(raw)).getTime(), frac.getTime());
+
+    const old = asn1.readUTCTime(bio.read(Buffer.from('170d3530303130313030303030305a', 'hex')));
+    assert.strictEqual(old.toISOString(), '1950-01-01T00:00:00.000Z');
+
+    const invalid = [
+      '1912160302Z',
+      '191216030210+0000',
+      '191316030210Z',
+      '191232030210Z'
+    ];
+
+    for (const str of invalid) {
+      const raw = Buffer.concat([Buffer.from([0x17, str.length]), Buffer.from(str)]);
+
+      assert.throws(() => asn1.readUTCTime(bio.read(raw)), {
+        reason: 'Invalid time'
+      });
+    }
+
+    assert.throws(() => {
+      const str = '20191216030210.10Z';
+      const raw = Buffer.concat([Buffer.from([0x18, str.length]), Buffer.from(str)]);
+      asn1.readGeneralizedTime(bio.read(raw));
+    }, {
+      reason: 'Invalid time'
+    });
+
+    assert.throws(() => encode(bw => asn1.writeUTCTime(bw, frac)), {
+      reason: 'Invalid time'
+    });
+  });
+
+  it('should read explicit tags and sets', () => {
+    // [0] EXPLICIT INTEGER 2, SET {OID}
+    const data = encode((bw) => {
+      asn1.writeExplicit(bw, 0, bw => asn1.writeInteger(bw, 2));
+      asn1.writeSet(bw, bw => asn1.writeOID(bw, '2.5.4.3'));
+    });
+
+    assert.strictEqual(data.toString('hex'), 'a003020102' + '31050603550403');
+
+    const br = bio.read(data);
+
+    const hdr = asn1.peekHeader(br);
+    assert.strictEqual(hdr.cls, asn1.classes.CONTEXT);
+    assert.strictEqual(hdr.constructed, true);
+    assert.strictEqual(br.offset, 0);
+
+    const version = asn1.readExplicit(br, 0);
+    assert.strictEqual(asn1.readInteger(version), 2n);
+
+    const set = asn1.readSet(br);
+    assert.strictEqual(asn1.readOID(set), '2.5.4.3');
+    assert.strictEqual(br.left(), 0);
+  });
+
+  it('should write nested sequences once per level', () => {
+    let calls = 0;
+
+    function nest(bw, depth) {
+      calls += 1;
+
+      if (depth === 0) {
+        asn1.writeNull(bw);
+        return;
+      }
+
+      asn1.writeSequence(bw, bw => nest(bw, depth - 1));
+    }
+
+    const data = encode(bw => nest(bw, 20));
+
+    assert.strictEqual(calls, 21);
+    assert.strictEqual(data.length, 20 * 2 + 2);
+    assert.strictEqual(data.toString('hex', 0, 4), '3028' + '3026');
+  });
+
+  it('should sort set elements', () => {
+    const data = encode((bw) => {
+      asn1.writeSet(bw, (bw) => {
+        asn1.writeInteger(bw, 256);
+        asn1.writeOctetString(bw, Buffer.from('ff', 'hex'));
+        asn1.writeInteger(bw, 2);
+        asn1.writeInteger(bw, 2);
+      });
+    });
+
+    assert.strictEqual(data.toString('hex'),
+      '310d' + '020102' + '020102' + '02020100' + '0401ff');
+
+    const set = asn1.readSet(bio.read(data));
+    assert.strictEqual(asn1.readInteger(set), 2n);
+    assert.strictEqual(asn1.readInteger(set), 2n);
+    assert.strictEqual(asn1.readInteger(set), 256n);
+    assert.bufferEqual(asn1.readOctetString(set), Buffer.from('ff', 'hex'));
+    assert.strictEqual(set.left(), 0);
+
+    const unsorted = Buffer.from('3107' + '02020100' + '020102', 'hex');
+
+    assert.throws(() => asn1.readSet(bio.read(unsorted)), {
+      code: 'ERR_NON_CANONICAL',
+      reason: 'Unsorted set',
+      offset: 6
+    });
+  });
+
+  it('should enforce DER lengths', () => {
+    const vectors = [
+      ['0480', 'ERR_NON_CANONICAL', 'Indefinite length'],
+      ['04810100', 'ERR_NON_CANONICAL', 'Non-minimal length'],
+      ['0482000100', 'ERR_NON_CANONICAL', 'Non-minimal length'],
+      ['0487000000000000000000', 'ERR_LIMIT', 'Length exceeds limit'],
+      ['1f1e00', 'ERR_NON_CANONICAL', 'Non-minimal tag'],
+      ['1f801f00', 'ERR_NON_CANONICAL', 'Non-minimal tag'],
+      ['0202007f', 'ERR_NON_CANONICAL', 'Non-minimal integer'],
+      ['0202ff80', 'ERR_NON_CANONICAL', 'Non-minimal integer'],
+      ['0403aabb', 'ERR_OUT_OF_BOUNDS', 'Out of bounds read']
+    ];
+
+    for (const [hex, code, reason] of vectors) {
+      assert.throws(() => {
+        const br = read(hex);
+        const hdr = asn1.readHeader(br);
+        if (hdr.tag === asn1.types.INTEGER) {
+          br.seek(-2);
+          asn1.readInteger(br);
+        }
+      }, {
+        code,
+        reason
+      });
+    }
+  });
+});
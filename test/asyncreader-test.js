@@ -0,0 +1,128 @@
+/* eslint-env mocha */
+/* eslint prefer-arrow-callback: "off" */
+
+'use strict';
+
+const assert = require('./util/assert');
+const {PassThrough} = require('stream');
+const bio = require('../src/bufio');
+
+async function* chunks(data, size) {
+  for (let i = 0; i < data.length; i += size)
+    yield data.slice(i, i + size);
+}
+
+function encode() {
+  const bw = bio.write();
+  bw.writeU32(0xdeadbeef);
+  bw.writeVarint(0x10000);
+  bw.writeVarint2(16511);
+  bw.writeVarBytes(Buffer.alloc(300, 0xaa));
+  bw.writeNullString('hello world', 'ascii');
+  bw.writeU64Big(1n << 60n);
+  return bw.render();
+}
+
+describe('AsyncBufferReader', function() {
+  for (const size of [1, 3, 1000]) {
+    it(`should read from ${size} byte chunks`, async () => {
+      const data = encode();
+      const br = new bio.AsyncBufferReader(chunks(data, size));
+
+      br.start();
+      assert.strictEqual(await br.readU32(), 0xdeadbeef);
+      assert.strictEqual(await br.readVarint(), 0x10000);
+      assert.strictEqual(await br.readVarint2(), 16511);
+      assert.bufferEqual(await br.readVarBytes(), Buffer.alloc(300, 0xaa));
+      assert.strictEqual(await br.readNullString('ascii'), 'hello world');
+      assert.strictEqual(await br.readU64Big(), 1n << 60n);
+      assert.strictEqual(br.end(), data.length);
+
+      await assert.rejects(br.readU8(), bio.EncodingError);
+    });
+  }
+
+  it('should read from a stream', async () => {
+    const stream = new PassThrough();
+    const br = new bio.AsyncBufferReader(stream);
+
+    stream.write(Buffer.from([0x01, 0x02]));
+    setImmediate(() => stream.end(Buffer.from([0x03, 0x04])));
+
+    assert.strictEqual(await br.readU32BE(), 0x01020304);
+  });
+
+  it('should enforce the buffer limit', async () => {
+    const data = Buffer.alloc(64);
+    const br = new bio.AsyncBufferReader(chunks(data, 8), 16);
+
+    assert.bufferEqual(await br.readBytes(16), Buffer.alloc(16));
+    await assert.rejects(br.readBytes(17), bio.EncodingError);
+
+    await br.seek(32);
+    assert.strictEqual(br.offset, 48);
+  });
+
+  it('should read null strings spanning many chunks', async () => {
+    const str = 'a'.repeat(4096);
+    const bw = bio.write();
+
+    bw.writeNullString(str, 'ascii');
+    bw.writeU32(1);
+
+    const br = new bio.AsyncBufferReader(chunks(bw.render(), 1));
+
+    assert.strictEqual(await br.readNullString('ascii'), str);
+    assert.strictEqual(await br.readU32(), 1);
+    assert.strictEqual(br.offset, 4097 + 4);
+
+    const long = new bio.AsyncBufferReader(chunks(Buffer.alloc(64, 0x61), 1), 16);
+
+    await assert.rejects(long.readNullString('ascii'), {code: 'ERR_LIMIT'});
+
+    const open = new bio.AsyncBufferReader(chunks(Buffer.from('6162', 'hex'), 1));
+
+    await assert.rejects(open.readNullString('ascii'), {
+      code: 'ERR_OUT_OF_BOUNDS'
+    });
+  });
+
+  it('should ignore errors when closing the source', async () => {
+    let closed = false;
+    let unhandled = null;
+
+    const source = {
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+      async next() {
+        return {value: Buffer.alloc(4), done: false};
+      },
+      async return() {
+        closed = true;
+        throw new Error('Close failed.');
+      }
+    };
+
+    const onUnhandled = (err) => {
+      unhandled = err;
+    };
+
+    process.on('unhandledRejection', onUnhandled);
+
+    try {
+      const br = new bio.AsyncBufferReader(source);
+
+      assert.strictEqual(await br.readU32(), 0);
+
+      br.destroy();
+
+      await new Promise(resolve => setTimeout(resolve, 10));
+    } finally {
+      process.removeListener('unhandledRejection', onUnhandled);
+    }
+
+    assert.strictEqual(closed, true);
+    assert.strictEqual(unhandled, null);
+  });
+});
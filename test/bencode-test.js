@@ -0,0 +1,150 @@
+/* eslint-env mocha */
+/* eslint prefer-arrow-callback: "off" */
+
+'use strict';
+
+const assert = require('./util/assert');
+const crypto = require('crypto');
+const bio = require('../src/bufio');
+const {bencode} = bio;
+
+const raw = s => Buffer.from(s, 'latin1');
+
+describe('Bencode', function() {
+  it('should encode and decode values', () => {
+    const vectors = [
+      [0, 'i0e'],
+      [42, 'i42e'],
+      [-42, 'i-42e'],
+      [2n ** 64n, 'i18446744073709551616e'],
+      [raw(''), '0:'],
+      [raw('spam'), '4:spam'],
+      [[], 'le'],
+      [[raw('spam'), 42], 'l4:spami42ee'],
+      [{}, 'de'],
+      [{cow: raw('moo'), spam: raw('eggs')}, 'd3:cow3:moo4:spam4:eggse'],
+      [{spam: [raw('a'), raw('b')]}, 'd4:spaml1:a1:bee']
+    ];
+
+    for (const [value, str] of vectors) {
+      const data = bencode.encode(value);
+
+      assert.strictEqual(data.toString('latin1'), str);
+      assert.strictEqual(bencode.size(value), data.length);
+      assert.deepStrictEqual(bencode.decode(data), value);
+    }
+  });
+
+  it('should encode strings and maps', () => {
+    assert.strictEqual(bencode.encode('ü').toString('latin1'), '2:\xc3\xbc');
+
+    const map = new Map([[raw('b'), 1], ['a', 2]]);
+    assert.strictEqual(bencode.encode(map).toString('latin1'), 'd1:ai2e1:bi1ee');
+
+    assert.throws(() => bencode.encode(1.5), {
+      reason: 'Invalid integer'
+    });
+
+    assert.throws(() => bencode.encode(null), {
+      reason: 'Unsupported type'
+    });
+
+    assert.throws(() => bencode.encode(new Map([[raw('a'), 1], ['a', 2]])), {
+      reason: 'Duplicate dictionary key'
+    });
+  });
+
+  it('should decode zero-copy byte strings', () => {
+    const data = Buffer.from(Uint8Array.from(raw('l4:spam4:eggse')).buffer);
+
+    const copy = bencode.decode(data);
+    assert.notStrictEqual(copy[0].buffer, data.buffer);
+
+    const slice = bencode.decode(data, {zeroCopy: true});
+    assert.strictEqual(slice[0].buffer, data.buffer);
+    assert.bufferEqual(slice[1], raw('eggs'));
+  });
+
+  it('should validate dictionary key order', () => {
+    const unsorted = raw('d4:spami1e3:cowi2ee');
+
+    assert.throws(() => bencode.decode(unsorted), {
+      code: 'ERR_NON_CANONICAL',
+      reason: 'Unsorted dictionary key'
+    });
+
+    assert.throws(() => bencode.decode(raw('d1:ai1e1:ai2ee')), {
+      code: 'ERR_NON_CANONICAL',
+      reason: 'Duplicate dictionary key'
+    });
+
+    assert.deepStrictEqual(bencode.decode(unsorted, {strict: false}), {
+      spam: 1,
+      cow: 2
+    });
+  });
+
+  it('should reject malformed data', () => {
+    const vectors = [
+      ['i-0e', 'ERR_NON_CANONICAL', 'Non-canonical integer'],
+      ['i03e', 'ERR_NON_CANONICAL', 'Non-canonical integer'],
+      ['02:ab', 'ERR_NON_CANONICAL', 'Non-canonical integer'],
+      ['ie', 'ERR_ENCODING', 'Invalid integer'],
+      ['i1-e', 'ERR_ENCODING', 'Invalid integer'],
+      ['-1:a', 'ERR_ENCODING', 'Invalid type'],
+      ['x', 'ERR_ENCODING', 'Invalid type'],
+      ['di1ei2ee', 'ERR_ENCODING', 'Invalid dictionary key'],
+      ['5:abc', 'ERR_OUT_OF_BOUNDS', 'Out of bounds read'],
+      ['l1:a', 'ERR_OUT_OF_BOUNDS', 'Out of bounds read'],
+      ['i1', 'ERR_OUT_OF_BOUNDS', 'Out of bounds read'],
+      ['i1ei2e', 'ERR_TRAILING', 'Trailing data']
+    ];
+
+    for (const [str, code, reason] of vectors) {
+      assert.throws(() => bencode.decode(raw(str)), {
+        code,
+        reason
+      });
+    }
+
+    assert.throws(() => bencode.decode(raw('l'.repeat(65) + 'e'.repeat(65))), {
+      code: 'ERR_LIMIT'
+    });
+  });
+
+  it('should capture the raw info dictionary', () => {
+    const info = {
+      'length': 1024,
+      'name': raw('file.bin'),
+      'piece length': 16384,
+      'pieces': Buffer.alloc(20, 0xab)
+    };
+
+    const torrent = bencode.encode({
+      'announce': raw('http://tracker.example/announce'),
+      'info': info,
+      'url-list': [raw('http://mirror.example/file.bin')]
+    });
+
+    const expect = bencode.encode(info);
+    const hash = crypto.createHash('sha1').update(expect).digest();
+
+    const data = bencode.getRaw(torrent, 'info');
+    assert.bufferEqual(data, expect);
+    assert.bufferEqual(crypto.createHash('sha1').update(data).digest(), hash);
+
+    assert.strictEqual(bencode.getRaw(torrent, 'missing'), null);
+
+    // Manually, with start()/endData().
+    const br = bio.read(torrent);
+    br.seek(1);
+    assert.bufferEqual(bencode.read(br), raw('announce'));
+    bencode.skip(br);
+    assert.bufferEqual(bencode.read(br), raw('info'));
+
+    const slice = bencode.readRaw(br, {zeroCopy: true});
+    assert.bufferEqual(slice, expect);
+    assert.strictEqual(slice.buffer, torrent.buffer);
+    assert.deepStrictEqual(bencode.decode(slice), info);
+  });
+});
@@ -0,0 +1,104 @@
+/* eslint-env mocha */
+/* eslint prefer-arrow-callback: "off" */
+
+'use strict';
+
+const assert = require('./util/assert');
+const bio = require('../src/bufio');
+
+describe('Bits', function() {
+  it('should write and read msb-first bits', () => {
+    const bits = new bio.BitWriter();
+
+    bits.writeBits(5, 3);
+    bits.writeBit(0);
+    bits.writeBits(0x1ff, 9);
+    bits.writeBool(true);
+
+    assert.strictEqual(bits.getSize(), 2);
+
+    const data = bits.render();
+
+    assert.bufferEqual(data, Buffer.from('affc', 'hex'));
+
+    const br = new bio.BitReader(data);
+
+    assert.strictEqual(br.readBits(3), 5);
+    assert.strictEqual(br.readBit(), 0);
+    assert.strictEqual(br.readBits(9), 0x1ff);
+    assert.strictEqual(br.readBool(), true);
+    assert.strictEqual(br.left(), 2);
+  });
+
+  it('should write and read lsb-first bits', () => {
+    const bits = new bio.BitWriter(null, 'lsb');
+
+    bits.writeBits(5, 3);
+    bits.writeBits(0x1234, 13);
+
+    const data = bits.render();
+
+    assert.bufferEqual(data, Buffer.from('a591', 'hex'));
+
+    const br = new bio.BitReader(data, 'lsb');
+
+    assert.strictEqual(br.readBits(3), 5);
+    assert.strictEqual(br.readBits(13), 0x1234);
+  });
+
+  it('should handle wide values', () => {
+    for (const order of ['msb', 'lsb']) {
+      const bits = new bio.BitWriter(null, order);
+      const value = 2 ** 53 - 3;
+
+      bits.writeBit(1);
+      bits.writeBits(value, 53);
+      bits.writeBits(0, 0);
+
+      const br = new bio.BitReader(bits.render(), order);
+
+      assert.strictEqual(br.readBit(), 1);
+      assert.strictEqual(br.readBits(53), value);
+      assert.strictEqual(br.readBits(0), 0);
+    }
+  });
+
+  it('should hand off to and from byte readers and writers', () => {
+    const bw = bio.write();
+
+    bw.writeU16(0xbeef);
+
+    const bits = new bio.BitWriter(bw);
+    bits.writeBits(3, 2);
+    bits.alignToByte();
+
+    bw.writeU8(0xff);
+
+    const data = bw.render();
+
+    assert.bufferEqual(data, Buffer.from('efbec0ff', 'hex'));
+
+    const br = bio.read(data);
+
+    assert.strictEqual(br.readU16(), 0xbeef);
+
+    const bits2 = new bio.BitReader(br);
+    assert.strictEqual(bits2.readBits(2), 3);
+    bits2.alignToByte();
+
+    assert.strictEqual(br.readU8(), 0xff);
+    assert.strictEqual(bits2.left(), 0);
+  });
+
+  it('should fail on bad input', () => {
+    const bits = new bio.BitWriter();
+
+    assert.throws(() => bits.writeBits(8, 3), bio.LimitError);
+
+    const br = new bio.BitReader(Buffer.from([0xff]));
+
+    br.readBits(7);
+
+    assert.throws(() => br.readBits(2), bio.OutOfBoundsError);
+  });
+});
@@ -0,0 +1,191 @@
+/* eslint-env mocha */
+/* eslint prefer-arrow-callback: "off" */
+
+'use strict';
+
+const assert = require('./util/assert');
+const bio = require('../src/bufio');
+const {borsh} = bio;
+
+const hex = s => Buffer.from(s, 'hex');
+
+describe('Borsh', function() {
+  it('should encode primitives', () => {
+    const vectors = [
+      ['u8', 0xff, 'ff'],
+      ['u16', 0x0102, '0201'],
+      ['u32', 0x01020304, '04030201'],
+      ['u64', 0x0102030405060708n, '0807060504030201'],
+      ['u128', (1n << 64n) + 1n, '0100000000000000' + '0100000000000000'],
+      ['i8', -1, 'ff'],
+      ['i16', -2, 'feff'],
+      ['i32', -0x80000000, '00000080'],
+      ['i64', -1n, 'ffffffffffffffff'],
+      ['i128', -(1n << 127n), '00'.repeat(15) + '80'],
+      ['f32', 1.5, '0000c03f'],
+      ['f64', -2, '00000000000000c0'],
+      ['bool', true, '01'],
+      ['string', 'abc', '03000000616263'],
+      ['bytes', hex('beef'), '02000000beef']
+    ];
+
+    for (const [schema, value, expect] of vectors) {
+      const data = borsh.encode(schema, value);
+
+      assert.bufferEqual(data, hex(expect));
+      assert.strictEqual(borsh.size(schema, value), data.length);
+      assert.deepStrictEqual(borsh.decode(schema, data), value);
+    }
+  });
+
+  it('should reject invalid primitives', () => {
+    assert.throws(() => borsh.encode('u8', 256), {code: 'ERR_ENCODING'});
+    assert.throws(() => borsh.encode('i8', -129), {code: 'ERR_ENCODING'});
+    assert.throws(() => borsh.encode('u64', 1), {reason: 'Invalid integer'});
+    assert.throws(() => borsh.encode('u128', 1n << 128n), {
+      reason: 'Integer out of range'
+    });
+    assert.throws(() => borsh.encode('f64', NaN), {reason: 'Invalid float'});
+    assert.throws(() => borsh.decode('f32', hex('0000c07f')), {
+      reason: 'Invalid float'
+    });
+    assert.throws(() => borsh.decode('bool', hex('02')), {
+      reason: 'Invalid boolean'
+    });
+    assert.throws(() => borsh.decode('string', hex('01000000ff')), {
+      reason: 'Invalid utf8 string'
+    });
+    assert.throws(() => borsh.decode('bytes', hex('05000000beef')), {
+      code: 'ERR_OUT_OF_BOUNDS'
+    });
+    assert.throws(() => borsh.decode('u8', hex('0000')), {code: 'ERR_TRAILING'});
+  });
+
+  it('should encode options and arrays', () => {
+    const opt = {option: 'u32'};
+
+    assert.bufferEqual(borsh.encode(opt, null), hex('00'));
+    assert.bufferEqual(borsh.encode(opt, 7), hex('0107000000'));
+    assert.strictEqual(borsh.decode(opt, hex('00')), null);
+    assert.strictEqual(borsh.decode(opt, hex('0107000000')), 7);
+    assert.throws(() => borsh.decode(opt, hex('02')), {reason: 'Invalid option'});
+
+    const vec = {array: {type: 'u16'}};
+    const fixed = {array: {type: 'u16', len: 2}};
+
+    assert.bufferEqual(borsh.encode(vec, [1, 2]), hex('0200000001000200'));
+    assert.bufferEqual(borsh.encode(fixed, [1, 2]), hex('01000200'));
+    assert.deepStrictEqual(borsh.decode(vec, hex('0200000001000200')), [1, 2]);
+    assert.deepStrictEqual(borsh.decode(fixed, hex('01000200')), [1, 2]);
+    assert.throws(() => borsh.encode(fixed, [1]), {reason: 'Invalid array length'});
+  });
+
+  it('should bound array lengths by element size', () => {
+    const vec = {array: {type: 'u16'}};
+
+    // Three bytes cannot hold two u16 elements.
+    assert.throws(() => borsh.decode(vec, hex('02000000010002')), {
+      code: 'ERR_OUT_OF_BOUNDS',
+      offset: 0
+    });
+
+    const empty = {array: {type: {struct: {}}}};
+    const data = borsh.encode(empty, [{}, {}]);
+
+    assert.bufferEqual(data, hex('02000000'));
+    assert.deepStrictEqual(borsh.decode(empty, data), [{}, {}]);
+    assert.throws(() => borsh.decode(empty, hex('ffffffff')), {
+      code: 'ERR_LIMIT',
+      offset: 0
+    });
+  });
+
+  it('should encode maps and sets with sorted keys', () => {
+    const schema = {map: {key: 'u8', value: 'string'}};
+    const value = new Map([[2, 'b'], [1, 'a']]);
+    const data = borsh.encode(schema, value);
+
+    assert.bufferEqual(data, hex('02000000' + '0101000000' + '61'
+                                 + '0201000000' + '62'));
+
+    const result = borsh.decode(schema, data);
+
+    assert.deepStrictEqual(Array.from(result), [[1, 'a'], [2, 'b']]);
+
+    assert.throws(() => borsh.decode(schema, hex('02000000' + '0201000000' + '62'
+                                                 + '0101000000' + '61')), {
+      code: 'ERR_NON_CANONICAL',
+      reason: 'Unsorted key'
+    });
+
+    assert.throws(() => borsh.decode(schema, hex('02000000' + '0101000000' + '61'
+                                                 + '0101000000' + '62')), {
+      code: 'ERR_NON_CANONICAL',
+      reason: 'Duplicate key'
+    });
+
+    const names = borsh.encode({set: 'string'}, new Set(['b', 'ab', 'a']));
+
+    assert.bufferEqual(names, hex('03000000' + '0100000061' + '020000006162'
+                                  + '0100000062'));
+    assert.deepStrictEqual(Array.from(borsh.decode({set: 'string'}, names)),
+                           ['a', 'ab', 'b']);
+  });
+
+  it('should encode structs and enums', () => {
+    const Point = {struct: {x: 'i32', y: 'i32'}};
+
+    const Shape = {
+      enum: {
+        Empty: null,
+        Circle: {struct: {center: Point, radius: 'u32'}},
+        Label: 'string'
+      }
+    };
+
+    const schema = {
+      struct: {
+        id: 'u64',
+        shapes: {array: {type: Shape}},
+        owner: {option: {array: {type: 'u8', len: 4}}}
+      }
+    };
+
+    const value = {
+      id: 1n,
+      shapes: [
+        {Empty: null},
+        {Circle: {center: {x: -1, y: 2}, radius: 3}},
+        {Label: 'hi'}
+      ],
+      owner: [1, 2, 3, 4]
+    };
+
+    const data = borsh.encode(schema, value);
+
+    assert.bufferEqual(data, hex('0100000000000000'
+                                 + '03000000'
+                                 + '00'
+                                 + '01' + 'ffffffff' + '02000000' + '03000000'
+                                 + '02' + '02000000' + '6869'
+                                 + '01' + '01020304'));
+
+    assert.strictEqual(borsh.size(schema, value), data.length);
+    assert.deepStrictEqual(borsh.decode(schema, data), value);
+
+    assert.throws(() => borsh.encode(Shape, {Square: 1}), {
+      reason: 'Invalid enum variant'
+    });
+    assert.throws(() => borsh.decode(Shape, hex('03')), {
+      reason: 'Invalid enum variant'
+    });
+  });
+
+  it('should size with a size writer', () => {
+    const sw = new bio.SizeWriter();
+
+    borsh.write(sw, {array: {type: 'string'}}, ['a', 'bc']);
+
+    assert.strictEqual(sw.render(), 4 + 5 + 6);
+  });
+});
@@ -0,0 +1,142 @@
+/* eslint-env mocha */
+/* eslint prefer-arrow-callback: "off" */
+
+'use strict';
+
+const assert = require('./util/assert');
+const bio = require('../src/bufio');
+const {bson} = bio;
+
+const hex = s => Buffer.from(s, 'hex');
+
+describe('BSON', function() {
+  it('should encode specification examples', () => {
+    const vectors = [
+      [{hello: 'world'},
+       '16000000' + '02' + '68656c6c6f00' + '06000000' + '776f726c6400' + '00'],
+      [{BSON: ['awesome', 5.05, 1986]},
+       '31000000' + '04' + '42534f4e00' + '26000000'
+       + '02' + '3000' + '08000000' + '617765736f6d6500'
+       + '01' + '3100' + '333333333333' + '1440'
+       + '10' + '3200' + 'c2070000'
+       + '00' + '00']
+    ];
+
+    for (const [doc, expect] of vectors) {
+      const data = bson.encode(doc);
+
+      assert.bufferEqual(data, hex(expect));
+      assert.deepStrictEqual(bson.decode(data), doc);
+    }
+  });
+
+  it('should encode all element types', () => {
+    const doc = {
+      int32: -1,
+      int64: 1n << 40n,
+      double: 0.5,
+      big: 2 ** 40,
+      str: 'ü',
+      yes: true,
+      no: false,
+      nil: null,
+      date: new Date(1500000000000),
+      oid: bson.ObjectId.fromString('5f1d7f3e2a4b5c6d7e8f9012'),
+      bin: new bson.Binary(hex('0102'), bson.subtypes.UUID),
+      dec: new bson.Decimal128(hex('01000000000000000000000000004030')),
+      ts: new bson.Timestamp(1, 2),
+      re: new bson.Regex('^a', 'mi'),
+      min: new bson.MinKey(),
+      max: new bson.MaxKey(),
+      sub: {a: {b: [1, [2]]}}
+    };
+
+    const data = bson.encode(doc);
+    const result = bson.decode(data);
+
+    assert.deepStrictEqual(result, doc);
+    assert.strictEqual(result.re.flags, 'im');
+    assert.strictEqual(result.oid.toString(), '5f1d7f3e2a4b5c6d7e8f9012');
+    assert.strictEqual(result.oid.getTime(), 0x5f1d7f3e);
+    assert.strictEqual(data.readInt32LE(0), data.length);
+  });
+
+  it('should encode binary data, maps and regexps', () => {
+    assert.bufferEqual(bson.encode({b: hex('ff')}),
+                       hex('0e000000' + '056200' + '01000000' + '00' + 'ff' + '00'));
+
+    assert.bufferEqual(bson.encode(new Map([['a', 1]])),
+                       hex('0c000000' + '106100' + '01000000' + '00'));
+
+    assert.deepStrictEqual(bson.decode(bson.encode({r: /x/im})),
+                           {r: new bson.Regex('x', 'im')});
+
+    assert.deepStrictEqual(bson.decode(bson.encode({a: undefined, b: [undefined]})),
+                           {b: [null]});
+  });
+
+  it('should backfill lengths in any writer', () => {
+    const doc = {a: {b: 'c'}};
+    const sw = new bio.SizeWriter();
+
+    bson.write(sw, doc);
+
+    const bw = new bio.StaticWriter(sw.render());
+
+    bson.write(bw, doc);
+
+    assert.bufferEqual(bw.render(), bson.encode(doc));
+  });
+
+  it('should decode concatenated documents', () => {
+    const data = Buffer.concat([bson.encode({a: 1}), bson.encode({b: 2})]);
+
+    assert.deepStrictEqual(bson.decodeAll(data), [{a: 1}, {b: 2}]);
+    assert.throws(() => bson.decode(data), {code: 'ERR_TRAILING'});
+  });
+
+  it('should reject invalid documents', () => {
+    assert.throws(() => bson.decode(hex('04000000')), {
+      reason: 'Invalid document length'
+    });
+
+    assert.throws(() => bson.decode(hex('06000000')), {
+      code: 'ERR_OUT_OF_BOUNDS'
+    });
+
+    assert.throws(() => bson.decode(hex('0500000001')), {
+      reason: 'Invalid document terminator'
+    });
+
+    assert.throws(() => bson.decode(hex('0b000000' + '106100' + '01000000' + '00')), {
+      reason: 'Element exceeds document'
+    });
+
+    assert.throws(() => bson.decode(hex('0c000000' + '106100' + '01000000' + '01')), {
+      reason: 'Invalid document terminator'
+    });
+
+    assert.throws(() => bson.decode(hex('0e000000' + '026100' + '02000000' + '6161' + '00')), {
+      reason: 'Invalid string terminator'
+    });
+
+    assert.throws(() => bson.decode(hex('09000000' + '086100' + '02' + '00')), {
+      reason: 'Invalid boolean'
+    });
+
+    assert.throws(() => bson.decode(hex('08000000' + '0e6100' + '00')), {
+      reason: 'Unsupported type'
+    });
+
+    assert.throws(() => bson.encode({'a\0': 1}), {reason: 'Invalid key'});
+    assert.throws(() => bson.encode({a: () => {}}), {reason: 'Unsupported type'});
+    assert.throws(() => bson.encode({a: 1n << 63n}), {reason: 'Integer out of range'});
+
+    let doc = {};
+
+    for (let i = 0; i < 101; i++)
+      doc = {a: doc};
+
+    assert.throws(() => bson.decode(bson.encode(doc)), {code: 'ERR_LIMIT'});
+  });
+});
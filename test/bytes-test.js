@@ -0,0 +1,134 @@
+/* eslint-env mocha */
+/* eslint prefer-arrow-callback: "off" */
+
+'use strict';
+
+const assert = require('./util/assert');
+const bio = require('../src/bufio');
+const {bytes} = bio;
+
+const strings = [
+  '',
+  'a',
+  'ab',
+  'abc',
+  'hello world',
+  'héllo',
+  '€ü',
+  '𝄞',
+  'lone \ud800 surrogate',
+  'trailing \udc00'
+];
+
+const invalid = [
+  '61e28241',
+  'c080',
+  'ff',
+  'f09f92',
+  'eda080',
+  'f4908080'
+];
+
+describe('Bytes', function() {
+  for (const enc of ['utf8', 'ascii', 'latin1']) {
+    it(`should match node for ${enc}`, () => {
+      const codec = bytes.getCodec(enc);
+
+      for (const str of strings) {
+        const expect = Buffer.from(str, enc);
+        const data = new Uint8Array(codec.byteLength(str));
+
+        assert.strictEqual(data.length, expect.length);
+        assert.strictEqual(codec.write(data, str, 0), expect.length);
+        assert.bufferEqual(Buffer.from(data), expect);
+        assert.strictEqual(codec.read(data, 0, data.length),
+          expect.toString(enc));
+      }
+    });
+  }
+
+  it('should decode invalid utf8 like node', () => {
+    for (const hex of invalid) {
+      const data = Buffer.from(hex, 'hex');
+      assert.strictEqual(bytes.utf8.read(data, 0, data.length),
+        data.toString('utf8'));
+    }
+  });
+
+  it('should match node for hex and base64', () => {
+    for (let size = 0; size < 8; size++) {
+      const data = Buffer.alloc(size);
+
+      for (let i = 0; i < size; i++)
+        data[i] = (i * 97 + 13) & 0xff;
+
+      for (const enc of ['hex', 'base64']) {
+        const codec = bytes.getCodec(enc);
+        const str = data.toString(enc);
+        const out = new Uint8Array(codec.byteLength(str));
+
+        assert.strictEqual(codec.read(data, 0, size), str);
+        assert.strictEqual(codec.write(out, str, 0), size);
+        assert.bufferEqual(Buffer.from(out), data);
+      }
+    }
+
+    const out = new Uint8Array(4);
+    assert.strictEqual(bytes.hex.write(out, '0102zz04', 0), 2);
+    assert.strictEqual(bytes.base64.write(out, '-_8=', 0), 2);
+    assert.bufferEqual(Buffer.from(out.subarray(0, 2)), Buffer.from('fbff', 'hex'));
+  });
+
+  it('should reject unknown encodings', () => {
+    assert.throws(() => bytes.getCodec('utf32'), {
+      message: 'Unknown encoding: utf32.'
+    });
+  });
+
+  it('should read from a plain Uint8Array', () => {
+    const data = new Uint8Array([1, 0, 0, 0, 0xc0, 0x3f, 3, 0x61, 0x62, 0x63]);
+    const br = bio.read(data.subarray(0));
+
+    assert.strictEqual(br.readU16(), 1);
+    assert.strictEqual(br.readFloat(), 1.5);
+
+    const str = br.readVarBytes(true);
+
+    assert(Buffer.isBuffer(str));
+    assert.strictEqual(str.toString('ascii'), 'abc');
+  });
+
+  it('should write to a plain Uint8Array', () => {
+    const data = new Uint8Array(13);
+    const sw = new bio.StaticWriter(data);
+
+    sw.writeU32BE(0x01020304);
+    sw.writeDoubleBE(-2);
+    sw.writeString('z', 'ascii');
+
+    const raw = sw.render();
+
+    assert(Buffer.isBuffer(raw));
+    assert.strictEqual(raw.buffer, data.buffer);
+    assert.strictEqual(raw.toString('hex'), '01020304c0000000000000007a');
+  });
+
+  it('should compare like node', () => {
+    const vectors = [
+      ['', ''],
+      ['', '00'],
+      ['01', '0100'],
+      ['0102', '0201'],
+      ['ff', '00ff'],
+      ['abcd', 'abcd']
+    ];
+
+    for (const [x, y] of vectors) {
+      const a = Buffer.from(x, 'hex');
+      const b = Buffer.from(y, 'hex');
+
+      assert.strictEqual(bytes.compare(a, b), Buffer.compare(a, b));
+      assert.strictEqual(bytes.compare(b, a), Buffer.compare(b, a));
+    }
+  });
+});
@@ -0,0 +1,316 @@
+/* eslint-env mocha */
+/* eslint prefer-arrow-callback: "off" */
+
+'use strict';
+
+const assert = require('./util/assert');
+const {U64, I64} = require('n64');
+const bio = require('../src/bufio');
+const {cbor} = bio;
+
+// RFC 8949, Appendix A.
+const vectors = [
+  [0, '00'],
+  [1, '01'],
+  [10, '0a'],
+  [23, '17'],
+  [24, '1818'],
+  [25, '1819'],
+  [100, '1864'],
+  [1000, '1903e8'],
+  [1000000, '1a000f4240'],
+  [1000000000000, '1b000000e8d4a51000'],
+  [18446744073709551615n, '1bffffffffffffffff'],
+  [18446744073709551616n, 'c249010000000000000000'],
+  [-18446744073709551616n, '3bffffffffffffffff'],
+  [-18446744073709551617n, 'c349010000000000000000'],
+  [-1, '20'],
+  [-10, '29'],
+  [-100, '3863'],
+  [-1000, '3903e7'],
+  [-0, 'f98000'],
+  [0.5, 'f93800'],
+  [1.1, 'fb3ff199999999999a'],
+  [1.5, 'f93e00'],
+  [65504, '19ffe0'],
+  [100000.5, 'fa47c35040'],
+  [3.4028234663852886e+38, 'fa7f7fffff'],
+  [1.0e+300, 'fb7e37e43c8800759c'],
+  [5.960464477539063e-8, 'f90001'],
+  [0.00006103515625, 'f90400'],
+  [-4.1, 'fbc010666666666666'],
+  [Infinity, 'f97c00'],
+  [NaN, 'f97e00'],
+  [-Infinity, 'f9fc00'],
+  [false, 'f4'],
+  [true, 'f5'],
+  [null, 'f6'],
+  [undefined, 'f7'],
+  [new cbor.Simple(16), 'f0'],
+  [new cbor.Simple(255), 'f8ff'],
+  [new cbor.Tag(1, 1363896240), 'c11a514b67b0'],
+  [new cbor.Tag(32, 'http://www.example.com'),
+    'd82076687474703a2f2f7777772e6578616d706c652e636f6d'],
+  [Buffer.alloc(0), '40'],
+  [Buffer.from('01020304', 'hex'), '4401020304'],
+  ['', '60'],
+  ['a', '6161'],
+  ['IETF', '6449455446'],
+  ['"\\', '62225c'],
+  ['ü', '62c3bc'],
+  ['水', '63e6b0b4'],
+  ['𐅑', '64f0908591'],
+  [[], '80'],
+  [[1, 2, 3], '83010203'],
+  [[1, [2, 3], [4, 5]], '8301820203820405'],
+  [{}, 'a0'],
+  [new Map([[1, 2], [3, 4]]), 'a201020304'],
+  [{a: 1, b: [2, 3]}, 'a26161016162820203'],
+  [['a', {b: 'c'}], '826161a161626163']
+];
+
+describe('CBOR', function() {
+  for (const [value, hex] of vectors) {
+    it(`should encode and decode ${hex}`, () => {
+      const data = cbor.encode(value);
+
+      assert.strictEqual(data.toString('hex'), hex);
+      assert.strictEqual(cbor.size(value), data.length);
+
+      const result = cbor.decode(data);
+
+      if (typeof value === 'number' && value !== value)
+        assert(result !== result);
+      else if (typeof value === 'object' && value !== null)
+        assert.deepStrictEqual(result, value);
+      else
+        assert(Object.is(result, value));
+    });
+  }
+
+  it('should decode indefinite-length items', () => {
+    const decode = hex => cbor.decode(Buffer.from(hex, 'hex'));
+
+    assert.bufferEqual(decode('5f42010243030405ff'),
+      Buffer.from('0102030405', 'hex'));
+    assert.strictEqual(decode('7f657374726561646d696e67ff'), 'streaming');
+    assert.deepStrictEqual(decode('9fff'), []);
+    assert.deepStrictEqual(decode('9f018202039f0405ffff'), [1, [2, 3], [4, 5]]);
+    assert.deepStrictEqual(decode('83018202039f0405ff'), [1, [2, 3], [4, 5]]);
+    assert.deepStrictEqual(decode('bf61610161629f0203ffff'), {a: 1, b: [2, 3]});
+    assert.deepStrictEqual(decode('bf6346756ef563416d7421ff'),
+      {Fun: true, Amt: -2});
+
+    assert.throws(() => decode('5f6161ff'), {
+      reason: 'Invalid string chunk'
+    });
+
+    assert.throws(() => decode('ff'), {
+      reason: 'Unexpected break'
+    });
+
+    assert.throws(() => decode('9f01'), {
+      code: 'ERR_OUT_OF_BOUNDS'
+    });
+  });
+
+  it('should write indefinite-length items', () => {
+    const bw = bio.write();
+
+    cbor.writeIndefinite(bw, cbor.types.ARRAY);
+    cbor.write(bw, 1);
+    cbor.write(bw, 'a');
+    cbor.writeBreak(bw);
+
+    const data = bw.render();
+
+    assert.strictEqual(data.toString('hex'), '9f016161ff');
+    assert.deepStrictEqual(cbor.decode(data), [1, 'a']);
+  });
+
+  it('should map 64 bit integers and bignums', () => {
+    const max = Buffer.from('1bffffffffffffffff', 'hex');
+    const min = Buffer.from('3b7fffffffffffffff', 'hex');
+
+    assert.strictEqual(cbor.decode(max), (1n << 64n) - 1n);
+    assert.strictEqual(cbor.decode(min), -(1n << 63n));
+
+    const u64 = cbor.decode(max, {n64: true});
+    assert(U64.isU64(u64));
+    assert.strictEqual(u64.toString(), '18446744073709551615');
+
+    const i64 = cbor.decode(min, {n64: true});
+    assert(I64.isI64(i64));
+    assert.strictEqual(i64.toString(), '-9223372036854775808');
+
+    assert.bufferEqual(cbor.encode(u64), max);
+    assert.bufferEqual(cbor.encode(i64), min);
+    assert.bufferEqual(cbor.encode(I64.fromNumber(-1)), Buffer.from('20', 'hex'));
+
+    // Bignums which fit in 64 bits are accepted outside of canonical mode.
+    const small = Buffer.from('c24101', 'hex');
+    assert.strictEqual(cbor.decode(small), 1);
+
+    assert.throws(() => cbor.decode(small, {canonical: true}), {
+      code: 'ERR_NON_CANONICAL'
+    });
+
+    assert.throws(() => cbor.decode(Buffer.from('c201', 'hex')), {
+      reason: 'Invalid bignum'
+    });
+  });
+
+  it('should decode tags', () => {
+    const data = Buffer.from('c11a514b67b0', 'hex');
+    const tag = cbor.decode(data);
+
+    assert(tag instanceof cbor.Tag);
+    assert.strictEqual(tag.tag, 1);
+    assert.strictEqual(tag.value, 1363896240);
+
+    const date = cbor.decode(data, {
+      tags: {1: value => new Date(value * 1000)}
+    });
+
+    assert(date instanceof Date);
+    assert.strictEqual(date.toISOString(), '2013-03-21T20:04:00.000Z');
+  });
+
+  it('should decode maps with non-string keys', () => {
+    // COSE_Key: {1: 2, 3: -7}
+    const key = cbor.decode(Buffer.from('a201020326', 'hex'));
+
+    assert(key instanceof Map);
+    assert.strictEqual(key.get(1), 2);
+    assert.strictEqual(key.get(3), -7);
+
+    const obj = cbor.decode(Buffer.from('a161610a', 'hex'), {maps: true});
+    assert(obj instanceof Map);
+    assert.strictEqual(obj.get('a'), 10);
+
+    const proto = cbor.decode(Buffer.from('a1695f5f70726f746f5f5f01', 'hex'));
+    assert.strictEqual(Object.getPrototypeOf(proto), Object.prototype);
+    assert.strictEqual(proto.__proto__, 1);
+    assert.deepStrictEqual(Object.keys(proto), ['__proto__']);
+  });
+
+  it('should encode canonically', () => {
+    const value = new Map([
+      ['aa', 1],
+      [100, 2],
+      [-1, 3],
+      ['z', 4],
+      [10, 5],
+      [false, 6],
+      [[100], 7],
+      [[-1], 8]
+    ]);
+
+    const data = cbor.encode(value, {canonical: true});
+
+    assert.strictEqual(data.toString('hex'),
+      'a8' + '0a05' + '186402' + '2003' + '617a04'
+      + '62616101' + '81186407' + '812008' + 'f406');
+
+    assert.deepStrictEqual(cbor.decode(data, {canonical: true}), value);
+
+    assert.strictEqual(cbor.encode({b: 1, a: 2}, {canonical: true})
+      .toString('hex'), 'a2616102616201');
+
+    assert.throws(() => {
+      cbor.encode(new Map([[1n, 1], [1, 2]]), {canonical: true});
+    }, {
+      reason: 'Duplicate map key'
+    });
+  });
+
+  it('should reject non-canonical input in canonical mode', () => {
+    const vectors = [
+      ['1817', 'Non-canonical argument'],
+      ['190017', 'Non-canonical argument'],
+      ['1a0000ffff', 'Non-canonical argument'],
+      ['1b00000000ffffffff', 'Non-canonical argument'],
+      ['9f01ff', 'Indefinite length'],
+      ['a2616201616101', 'Unsorted map key'],
+      ['a2616101616102', 'Unsorted map key'],
+      ['fa3fc00000', 'Non-canonical float'],
+      ['fb3ff8000000000000', 'Non-canonical float'],
+      ['f97e01', 'Non-canonical float']
+    ];
+
+    for (const [hex, reason] of vectors) {
+      const data = Buffer.from(hex, 'hex');
+
+      cbor.decode(data);
+
+      assert.throws(() => cbor.decode(data, {canonical: true}), {
+        code: 'ERR_NON_CANONICAL',
+        reason
+      });
+    }
+  });
+
+  it('should enforce decode limits', () => {
+    const deep = Buffer.from('81'.repeat(65) + '00', 'hex');
+
+    assert.throws(() => cbor.decode(deep), {
+      code: 'ERR_LIMIT',
+      reason: 'Depth exceeds limit'
+    });
+
+    assert.deepStrictEqual(cbor.decode(Buffer.from('818100', 'hex'), {
+      maxDepth: 2
+    }), [[0]]);
+
+    assert.throws(() => cbor.decode(Buffer.from('5a00100000', 'hex'), {
+      maxLength: 0xffff
+    }), {
+      code: 'ERR_LIMIT',
+      reason: 'Length exceeds limit'
+    });
+
+    assert.throws(() => cbor.decode(Buffer.from('9b0000000100000000', 'hex')), {
+      code: 'ERR_LIMIT'
+    });
+
+    assert.throws(() => cbor.decode(Buffer.from('5f4101410241035f', 'hex'), {
+      maxLength: 2
+    }), {
+      code: 'ERR_LIMIT'
+    });
+
+    assert.throws(() => cbor.decode(Buffer.from('5affffffff00', 'hex')), {
+      code: 'ERR_LIMIT'
+    });
+
+    assert.throws(() => cbor.decode(Buffer.from('0000', 'hex')), {
+      code: 'ERR_TRAILING'
+    });
+  });
+
+  it('should reject unsupported values', () => {
+    const cycle = [];
+    cycle.push(cycle);
+
+    assert.throws(() => cbor.encode(cycle), {
+      code: 'ERR_LIMIT'
+    });
+
+    assert.throws(() => cbor.encode(new Date()), {
+      reason: 'Unsupported type'
+    });
+
+    assert.throws(() => cbor.encode(new cbor.Simple(24)), {
+      reason: 'Invalid simple value'
+    });
+  });
+
+  it('should write to a static writer', () => {
+    const value = {a: [1, 2, 3], b: Buffer.from('ff', 'hex')};
+    const bw = bio.write(cbor.size(value));
+
+    cbor.write(bw, value);
+
+    assert.deepStrictEqual(cbor.read(bio.read(bw.render())), value);
+  });
+});
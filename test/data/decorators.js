@@ -0,0 +1,91 @@
+"use strict";
+/*!
+ * decorators.ts - decorated struct fixtures
+ *
+ * Compiled with class field [[Define]] semantics (the default for
+ * newer targets), so field declarations reset fields after the
+ * Struct constructor has run. decorators.js is checked in because
+ * these flags (and `declare` fields) need TypeScript 3.7 or later.
+ * Regenerate it after any change to this file with:
+ *
+ *   tsc --target es2020 --useDefineForClassFields --experimentalDecorators \
+ *     --module commonjs test/data/decorators.ts
+ */
+var __decorate = (this && this.__decorate) || function (decorators, target, key, desc) {
+    var c = arguments.length, r = c < 3 ? target : desc === null ? desc = Object.getOwnPropertyDescriptor(target, key) : desc, d;
+    if (typeof Reflect === "object" && typeof Reflect.decorate === "function") r = Reflect.decorate(decorators, target, key, desc);
+    else for (var i = decorators.length - 1; i >= 0; i--) if (d = decorators[i]) r = (c < 3 ? d(r) : c > 3 ? d(target, key, r) : d(target, key)) || r;
+    return c > 3 && r && Object.defineProperty(target, key, r), r;
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.DeclaredTx = exports.Tx = exports.Output = void 0;
+const bufio_1 = require("../../src/bufio");
+class Output extends bufio_1.Struct {
+    constructor() {
+        super(...arguments);
+        Object.defineProperty(this, "value", {
+            enumerable: true,
+            configurable: true,
+            writable: true,
+            value: void 0
+        });
+        Object.defineProperty(this, "script", {
+            enumerable: true,
+            configurable: true,
+            writable: true,
+            value: void 0
+        });
+    }
+}
+exports.Output = Output;
+__decorate([
+    bufio_1.field.u64()
+], Output.prototype, "value", void 0);
+__decorate([
+    bufio_1.field.varBytes()
+], Output.prototype, "script", void 0);
+class Tx extends bufio_1.Struct {
+    constructor() {
+        super(...arguments);
+        Object.defineProperty(this, "version", {
+            enumerable: true,
+            configurable: true,
+            writable: true,
+            value: void 0
+        });
+        Object.defineProperty(this, "outputs", {
+            enumerable: true,
+            configurable: true,
+            writable: true,
+            value: void 0
+        });
+        Object.defineProperty(this, "locktime", {
+            enumerable: true,
+            configurable: true,
+            writable: true,
+            value: void 0
+        });
+    }
+}
+exports.Tx = Tx;
+__decorate([
+    bufio_1.field.u32()
+], Tx.prototype, "version", void 0);
+__decorate([
+    bufio_1.field.array(Output, 'varint')
+], Tx.prototype, "outputs", void 0);
+__decorate([
+    bufio_1.field.u32()
+], Tx.prototype, "locktime", void 0);
+class DeclaredTx extends bufio_1.Struct {
+}
+exports.DeclaredTx = DeclaredTx;
+__decorate([
+    bufio_1.field.u32()
+], DeclaredTx.prototype, "version", void 0);
+__decorate([
+    bufio_1.field.array(Output, 'varint')
+], DeclaredTx.prototype, "outputs", void 0);
+__decorate([
+    bufio_1.field.u32()
+], DeclaredTx.prototype, "locktime", void 0);
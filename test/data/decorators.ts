@@ -0,0 +1,31 @@
+/*!
+ * decorators.ts - decorated struct fixtures
+ *
+ * Compiled with class field [[Define]] semantics (the default for
+ * newer targets), so field declarations reset fields after the
+ * Struct constructor has run. decorators.js is checked in because
+ * these flags (and `declare` fields) need TypeScript 3.7 or later.
+ * Regenerate it after any change to this file with:
+ *
+ *   tsc --target es2020 --useDefineForClassFields --experimentalDecorators \
+ *     --module commonjs test/data/decorators.ts
+ */
+
+import {Struct, field} from "../../src/bufio";
+
+export class Output extends Struct {
+	@field.u64() value: number;
+	@field.varBytes() script: Buffer;
+}
+
+export class Tx extends Struct {
+	@field.u32() version: number;
+	@field.array(Output, 'varint') outputs: Output[];
+	@field.u32() locktime: number;
+}
+
+export class DeclaredTx extends Struct {
+	@field.u32() declare version: number;
+	@field.array(Output, 'varint') declare outputs: Output[];
+	@field.u32() declare locktime: number;
+}
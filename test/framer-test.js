@@ -0,0 +1,143 @@
+/* eslint-env mocha */
+/* eslint prefer-arrow-callback: "off" */
+
+'use strict';
+
+const assert = require('./util/assert');
+const bio = require('../src/bufio');
+const prefix = require('../src/prefix');
+
+const Point = bio.struct({
+  x: 'u16',
+  y: 'u16'
+});
+
+function run(stream, chunks) {
+  return new Promise((resolve, reject) => {
+    const items = [];
+
+    stream.on('data', item => items.push(item));
+    stream.on('error', reject);
+    stream.on('end', () => resolve(items));
+
+    for (const chunk of chunks)
+      stream.write(chunk);
+
+    stream.end();
+  });
+}
+
+function split(data, size) {
+  const chunks = [];
+
+  for (let i = 0; i < data.length; i += size)
+    chunks.push(data.slice(i, i + size));
+
+  return chunks;
+}
+
+describe('Framer', function() {
+  describe('Prefix', function() {
+    it('should read and write prefixes', () => {
+      const vectors = [
+        ['varint', 0xfd, 'fdfd00'],
+        ['varint2', 0x80, '8000'],
+        ['u8', 0xff, 'ff'],
+        ['u16', 0x0102, '0201'],
+        ['u16be', 0x0102, '0102'],
+        ['u32', 0x01020304, '04030201'],
+        ['u32be', 0x01020304, '01020304']
+      ];
+
+      for (const [type, num, expect] of vectors) {
+        const size = prefix.sizePrefix(type, num);
+        const data = Buffer.alloc(size);
+
+        assert.strictEqual(prefix.writePrefix(data, type, num, 0), size);
+        assert.bufferEqual(data, Buffer.from(expect, 'hex'));
+        assert.strictEqual(prefix.peekPrefix(type, data, 0), size);
+        assert.strictEqual(prefix.peekPrefix(type, data.slice(0, -1), 0), -1);
+        assert.strictEqual(prefix.readPrefix(type, data, 0).value, num);
+      }
+
+      assert.throws(() => prefix.writePrefix(Buffer.alloc(1), 'u8', 256, 0), {
+        code: 'ERR_LIMIT'
+      });
+      assert.throws(() => prefix.sizePrefix('u64', 0), /Unknown prefix type/);
+    });
+  });
+
+  describe('Streams', function() {
+    it('should deframe frames split across chunks', async () => {
+      const frames = [
+        Buffer.alloc(0),
+        Buffer.from('01', 'hex'),
+        Buffer.alloc(300, 0xaa),
+        Buffer.alloc(70000, 0xbb)
+      ];
+
+      for (const type of ['varint', 'varint2', 'u32', 'u32be']) {
+        const encoded = await run(new bio.Framer({prefix: type}), frames);
+        const data = Buffer.concat(encoded);
+
+        for (const size of [1, 7, data.length]) {
+          const deframer = new bio.Deframer({prefix: type});
+          const result = await run(deframer, split(data, size));
+
+          assert.strictEqual(result.length, frames.length);
+
+          for (let i = 0; i < frames.length; i++)
+            assert.bufferEqual(result[i], frames[i]);
+
+          assert.strictEqual(deframer.offset, data.length);
+        }
+      }
+    });
+
+    it('should frame and deframe structs', async () => {
+      const point = new Point();
+      point.x = 1;
+      point.y = 2;
+
+      const data = Buffer.concat(await run(new bio.Framer(), [point, point]));
+
+      assert.bufferEqual(data, Buffer.from('0401000200' + '0401000200', 'hex'));
+
+      const result = await run(new bio.Deframer({struct: Point}), split(data, 3));
+
+      assert.strictEqual(result.length, 2);
+      assert(result[1] instanceof Point);
+      assert.strictEqual(result[1].x, 1);
+      assert.strictEqual(result[1].y, 2);
+    });
+
+    it('should enforce the frame size limit', async () => {
+      await assert.rejects(run(new bio.Framer({maxSize: 3}), [Buffer.alloc(4)]), {
+        code: 'ERR_LIMIT'
+      });
+
+      const deframer = new bio.Deframer({prefix: 'u32', maxSize: 3});
+      const data = Buffer.from('03000000616263' + '04000000', 'hex');
+
+      await assert.rejects(run(deframer, [data]), {
+        code: 'ERR_LIMIT',
+        offset: 7
+      });
+    });
+
+    it('should reject a truncated frame', async () => {
+      const deframer = new bio.Deframer();
+
+      await assert.rejects(run(deframer, [Buffer.from('0161', 'hex'),
+                                          Buffer.from('0561', 'hex')]), {
+        code: 'ERR_OUT_OF_BOUNDS',
+        reason: 'Truncated frame',
+        offset: 2
+      });
+
+      await assert.rejects(run(new bio.Deframer(), [Buffer.from('fd01', 'hex')]), {
+        reason: 'Truncated frame'
+      });
+    });
+  });
+});
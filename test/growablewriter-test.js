@@ -0,0 +1,94 @@
+/* eslint-env mocha */
+/* eslint prefer-arrow-callback: "off" */
+
+'use strict';
+
+const assert = require('./util/assert');
+const bio = require('../src/bufio');
+
+describe('GrowableWriter', function() {
+  it('should grow the backing buffer', () => {
+    const bw = new bio.GrowableWriter(4);
+
+    bw.writeU32(1);
+    assert.strictEqual(bw.data.length, 4);
+
+    bw.writeU8(2);
+    assert.strictEqual(bw.data.length, 256);
+
+    bw.writeBytes(Buffer.alloc(300, 0xaa));
+    assert.strictEqual(bw.data.length, 512);
+
+    bw.writeString('abc', 'ascii');
+    bw.writeHash(Buffer.alloc(32, 0xbb));
+    bw.writeNullString(Buffer.from('de', 'ascii'));
+
+    assert.strictEqual(bw.getSize(), 4 + 1 + 300 + 3 + 32 + 3);
+
+    const data = bw.render();
+    const expect = new bio.BufferWriter();
+
+    expect.writeU32(1);
+    expect.writeU8(2);
+    expect.writeBytes(Buffer.alloc(300, 0xaa));
+    expect.writeString('abc', 'ascii');
+    expect.writeHash(Buffer.alloc(32, 0xbb));
+    expect.writeNullString('de', 'ascii');
+
+    assert.bufferEqual(data, expect.render());
+  });
+
+  it('should copy on render when capacity is unused', () => {
+    const full = new bio.GrowableWriter(8);
+    const backing = full.data;
+
+    full.writeU64Big(1n);
+
+    const data = full.render();
+
+    backing[0] = 0xff;
+    assert.strictEqual(data[0], 0xff);
+
+    const sparse = new bio.GrowableWriter(1024);
+    const unused = sparse.data;
+
+    sparse.writeU32(1);
+
+    const small = sparse.render();
+
+    unused[0] = 0xff;
+    assert.bufferEqual(small, Buffer.from('01000000', 'hex'));
+  });
+
+  it('should seek and fill', () => {
+    const bw = new bio.GrowableWriter(1);
+
+    bw.seek(3);
+    bw.fill(0xff, 5);
+    bw.seek(-8);
+    bw.writeU16BE(0x0102);
+    bw.writeU8(0);
+    bw.seek(5);
+
+    assert.strictEqual(bw.getSize(), 8);
+    assert.bufferEqual(bw.render(), Buffer.from('0102' + '00' + 'ffffffffff',
+                                                'hex'));
+  });
+
+  it('should backpatch placeholders across growth', () => {
+    const bw = new bio.GrowableWriter(1);
+    const count = bw.reserveU16BE();
+    const len = bw.reserveVarint();
+
+    bw.writeBytes(Buffer.alloc(1000, 0x01));
+
+    len.fill(1000);
+    count.fill(2);
+
+    const data = bw.render();
+
+    assert.strictEqual(data.length, 2 + 3 + 1000);
+    assert.bufferEqual(data.slice(0, 5), Buffer.from('0002' + 'fde803', 'hex'));
+    assert.bufferEqual(data.slice(5), Buffer.alloc(1000, 0x01));
+  });
+});
@@ -0,0 +1,245 @@
+/* eslint-env mocha */
+/* eslint prefer-arrow-callback: "off" */
+
+'use strict';
+
+const assert = require('./util/assert');
+const {U64, I64} = require('n64');
+const bio = require('../src/bufio');
+const {msgpack} = bio;
+
+const vectors = [
+  [null, 'c0'],
+  [false, 'c2'],
+  [true, 'c3'],
+  [0, '00'],
+  [127, '7f'],
+  [128, 'cc80'],
+  [255, 'ccff'],
+  [256, 'cd0100'],
+  [65536, 'ce00010000'],
+  [4294967296, 'cf0000000100000000'],
+  [-1, 'ff'],
+  [-32, 'e0'],
+  [-33, 'd0df'],
+  [-129, 'd1ff7f'],
+  [-32769, 'd2ffff7fff'],
+  [-2147483649, 'd3ffffffff7fffffff'],
+  [0.5, 'ca3f000000'],
+  [1.1, 'cb3ff199999999999a'],
+  [(1n << 64n) - 1n, 'cfffffffffffffffff'],
+  [-(1n << 63n), 'd38000000000000000'],
+  ['', 'a0'],
+  ['a', 'a161'],
+  ['x'.repeat(31), 'bf' + '78'.repeat(31)],
+  ['x'.repeat(32), 'd920' + '78'.repeat(32)],
+  ['x'.repeat(256), 'da0100' + '78'.repeat(256)],
+  [Buffer.from('0102', 'hex'), 'c4020102'],
+  [Buffer.alloc(256), 'c50100' + '00'.repeat(256)],
+  [[], '90'],
+  [[1, [2]], '92019102'],
+  [new Array(16).fill(0), 'dc0010' + '00'.repeat(16)],
+  [{}, '80'],
+  [{a: 1}, '81a16101'],
+  [new Map([[1, 'a']]), '8101a161'],
+  [new msgpack.Ext(5, Buffer.from('01', 'hex')), 'd40501'],
+  [new msgpack.Ext(5, Buffer.from('0102', 'hex')), 'd5050102'],
+  [new msgpack.Ext(-2, Buffer.alloc(16)), 'd8fe' + '00'.repeat(16)],
+  [new msgpack.Ext(5, Buffer.alloc(3)), 'c70305000000'],
+  [new msgpack.Ext(5, Buffer.alloc(0)), 'c70005']
+];
+
+describe('MessagePack', function() {
+  for (const [value, hex] of vectors) {
+    it(`should encode and decode ${hex.slice(0, 16)}`, () => {
+      const data = msgpack.encode(value);
+
+      assert.strictEqual(data.toString('hex'), hex);
+      assert.strictEqual(msgpack.size(value), data.length);
+      assert.deepStrictEqual(msgpack.decode(data), value);
+    });
+  }
+
+  it('should encode large containers', () => {
+    const str = 'y'.repeat(0x10000);
+    const arr = new Array(0x10000).fill(1);
+    const obj = {};
+
+    for (let i = 0; i < 16; i++)
+      obj[`k${i}`] = i;
+
+    let data = msgpack.encode(str);
+    assert.strictEqual(data.slice(0, 5).toString('hex'), 'db00010000');
+    assert.strictEqual(msgpack.decode(data), str);
+
+    data = msgpack.encode(arr);
+    assert.strictEqual(data.slice(0, 5).toString('hex'), 'dd00010000');
+    assert.deepStrictEqual(msgpack.decode(data), arr);
+
+    data = msgpack.encode(obj);
+    assert.strictEqual(data.slice(0, 3).toString('hex'), 'de0010');
+    assert.deepStrictEqual(msgpack.decode(data), obj);
+  });
+
+  it('should surface 64 bit integers as bigint or n64', () => {
+    const data = Buffer.from('cfffffffffffffffff', 'hex');
+
+    assert.strictEqual(msgpack.decode(data), (1n << 64n) - 1n);
+
+    const u64 = msgpack.decode(data, {n64: true});
+    assert(U64.isU64(u64));
+    assert.strictEqual(u64.toString(), '18446744073709551615');
+    assert.bufferEqual(msgpack.encode(u64), data);
+
+    const i64 = msgpack.decode(Buffer.from('d38000000000000000', 'hex'), {
+      n64: true
+    });
+    assert(I64.isI64(i64));
+    assert.strictEqual(i64.toString(), '-9223372036854775808');
+
+    assert.strictEqual(msgpack.decode(Buffer.from('cf0000000000000001', 'hex')), 1);
+
+    assert.throws(() => msgpack.encode(1n << 64n), {
+      code: 'ERR_LIMIT'
+    });
+  });
+
+  it('should encode timestamps', () => {
+    const vectors = [
+      [0, 'd6ff00000000'],
+      [1000, 'd6ff00000001'],
+      [1500, 'd7ff7735940000000001'],
+      [2 ** 34 * 1000, 'c70cff000000000000000400000000'],
+      [-1, 'c70cff3b8b87c0ffffffffffffffff']
+    ];
+
+    for (const [ms, hex] of vectors) {
+      const date = new Date(ms);
+      const data = msgpack.encode(date);
+
+      assert.strictEqual(data.toString('hex'), hex);
+
+      const result = msgpack.decode(data);
+      assert(result instanceof Date);
+      assert.strictEqual(result.getTime(), ms);
+    }
+
+    assert.throws(() => msgpack.decode(Buffer.from('91d5ff0000', 'hex')), {
+      reason: 'Invalid timestamp',
+      offset: 3
+    });
+  });
+
+  it('should use registered extension codecs', () => {
+    class Point {
+      constructor(x, y) {
+        this.x = x;
+        this.y = y;
+      }
+    }
+
+    const extensions = msgpack.extensions.clone();
+
+    let calls = 0;
+
+    extensions.register({
+      type: 1,
+      match: value => value instanceof Point,
+      encode: (p) => {
+        calls += 1;
+        const bw = bio.write(2);
+        bw.writeI8(p.x);
+        bw.writeI8(p.y);
+        return bw.render();
+      },
+      decode: (data) => {
+        const br = bio.read(data);
+        return new Point(br.readI8(), br.readI8());
+      }
+    });
+
+    const value = [new Point(1, -1), new Date(0)];
+    const data = msgpack.encode(value, {extensions});
+
+    assert.strictEqual(data.toString('hex'), '92d50101ffd6ff00000000');
+    assert.strictEqual(calls, 1);
+
+    const result = msgpack.decode(data, {extensions});
+    assert(result[0] instanceof Point);
+    assert.deepStrictEqual(result[0], new Point(1, -1));
+    assert(result[1] instanceof Date);
+
+    const raw = msgpack.decode(data);
+    assert(raw[0] instanceof msgpack.Ext);
+    assert.strictEqual(raw[0].type, 1);
+    assert.bufferEqual(raw[0].data, Buffer.from('01ff', 'hex'));
+
+    assert.throws(() => msgpack.encode(new Point(0, 0)), {
+      reason: 'Unsupported type'
+    });
+
+    assert.throws(() => extensions.register({type: 128}));
+
+    assert.throws(() => msgpack.decode(Buffer.from('d40101', 'hex'), {extensions}), {
+      code: 'ERR_OUT_OF_BOUNDS',
+      offset: 3
+    });
+
+    extensions.register({
+      type: 2,
+      match: () => false,
+      encode: () => Buffer.alloc(0),
+      decode: () => {
+        throw new Error('Bad point.');
+      }
+    });
+
+    assert.throws(() => msgpack.decode(Buffer.from('91d40200', 'hex'), {extensions}), {
+      code: 'ERR_ENCODING',
+      reason: 'Invalid extension: Bad point.',
+      offset: 1
+    });
+  });
+
+  it('should enforce decode limits', () => {
+    assert.throws(() => msgpack.decode(Buffer.from('91'.repeat(65) + '00', 'hex')), {
+      code: 'ERR_LIMIT',
+      reason: 'Depth exceeds limit'
+    });
+
+    assert.throws(() => msgpack.decode(Buffer.from('ddffffffff', 'hex')), {
+      code: 'ERR_LIMIT',
+      reason: 'Length exceeds limit'
+    });
+
+    assert.throws(() => msgpack.decode(Buffer.from('c403', 'hex'), {
+      maxLength: 2
+    }), {
+      code: 'ERR_LIMIT'
+    });
+
+    assert.throws(() => msgpack.decode(Buffer.from('c40301', 'hex')), {
+      code: 'ERR_OUT_OF_BOUNDS'
+    });
+
+    assert.throws(() => msgpack.decode(Buffer.from('c1', 'hex')), {
+      reason: 'Invalid type'
+    });
+
+    assert.throws(() => msgpack.decode(Buffer.from('c0c0', 'hex')), {
+      code: 'ERR_TRAILING'
+    });
+  });
+
+  it('should write to any writer', () => {
+    const value = {a: [1, 2, 3], b: 'c'};
+    const bw = bio.write();
+
+    msgpack.write(bw, value);
+
+    const data = bw.render();
+
+    assert.bufferEqual(data, msgpack.encode(value));
+    assert.deepStrictEqual(msgpack.read(bio.read(data)), value);
+  });
+});
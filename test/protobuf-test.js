@@ -0,0 +1,296 @@
+/* eslint-env mocha */
+/* eslint prefer-arrow-callback: "off" */
+
+'use strict';
+
+const assert = require('./util/assert');
+const bio = require('../src/bufio');
+const {protobuf} = bio;
+const {types} = protobuf;
+
+function encode(func) {
+  const bw = bio.write();
+  func(bw);
+  return bw.render();
+}
+
+describe('Protobuf', function() {
+  it('should encode varints', () => {
+    const vectors = [
+      [0, '00'],
+      [1, '01'],
+      [127, '7f'],
+      [128, '8001'],
+      [150, '9601'],
+      [300, 'ac02'],
+      [2 ** 32, '8080808010'],
+      [Number.MAX_SAFE_INTEGER, 'ffffffffffffff0f']
+    ];
+
+    for (const [num, hex] of vectors) {
+      const data = encode(bw => protobuf.writeVarint(bw, num));
+      assert.strictEqual(data.toString('hex'), hex);
+      assert.strictEqual(protobuf.sizeVarint(num), data.length);
+      assert.strictEqual(protobuf.readVarint(bio.read(data)), num);
+      assert.strictEqual(protobuf.readVarintBig(bio.read(data)), BigInt(num));
+    }
+  });
+
+  it('should encode 64 bit varints', () => {
+    const max = (1n << 64n) - 1n;
+    const data = encode(bw => protobuf.writeVarintBig(bw, max));
+
+    assert.strictEqual(data.toString('hex'), 'ffffffffffffffffff01');
+    assert.strictEqual(protobuf.sizeVarintBig(max), 10);
+    assert.strictEqual(protobuf.readUint64(bio.read(data)), max);
+
+    assert.throws(() => protobuf.readVarint(bio.read(data)), {
+      code: 'ERR_LIMIT'
+    });
+
+    assert.throws(() => {
+      protobuf.readVarintBig(bio.read(Buffer.from('ffffffffffffffffff02', 'hex')));
+    }, {
+      code: 'ERR_LIMIT'
+    });
+
+    assert.throws(() => {
+      protobuf.readVarintBig(bio.read(Buffer.from('8080808080808080808001', 'hex')));
+    }, {
+      reason: 'Varint exceeds 10 bytes'
+    });
+
+    assert.throws(() => protobuf.readVarint(bio.read(Buffer.from('80', 'hex'))), {
+      code: 'ERR_OUT_OF_BOUNDS'
+    });
+  });
+
+  it('should encode signed integers', () => {
+    let data = encode(bw => protobuf.writeInt32(bw, -1));
+    assert.strictEqual(data.toString('hex'), 'ffffffffffffffffff01');
+    assert.strictEqual(protobuf.readInt32(bio.read(data)), -1);
+
+    data = encode(bw => protobuf.writeInt64(bw, -2n));
+    assert.strictEqual(data.toString('hex'), 'feffffffffffffffff01');
+    assert.strictEqual(protobuf.readInt64(bio.read(data)), -2n);
+
+    data = encode(bw => protobuf.writeUint32(bw, 0xffffffff));
+    assert.strictEqual(protobuf.readUint32(bio.read(data)), 0xffffffff);
+
+    assert.throws(() => encode(bw => protobuf.writeInt32(bw, 2 ** 31)), {
+      reason: 'Invalid int32'
+    });
+  });
+
+  it('should zigzag encode sint32 and sint64', () => {
+    const vectors = [
+      [0, '00'],
+      [-1, '01'],
+      [1, '02'],
+      [-2, '03'],
+      [2147483647, 'feffffff0f'],
+      [-2147483648, 'ffffffff0f']
+    ];
+
+    for (const [num, hex] of vectors) {
+      let data = encode(bw => protobuf.writeSint32(bw, num));
+      assert.strictEqual(data.toString('hex'), hex);
+      assert.strictEqual(protobuf.readSint32(bio.read(data)), num);
+
+      data = encode(bw => protobuf.writeSint64(bw, BigInt(num)));
+      assert.strictEqual(data.toString('hex'), hex);
+      assert.strictEqual(protobuf.readSint64(bio.read(data)), BigInt(num));
+    }
+
+    const min = -(1n << 63n);
+    const data = encode(bw => protobuf.writeSint64(bw, min));
+    assert.strictEqual(data.toString('hex'), 'ffffffffffffffffff01');
+    assert.strictEqual(protobuf.readSint64(bio.read(data)), min);
+  });
+
+  it('should encode fixed width fields', () => {
+    const data = encode((bw) => {
+      protobuf.writeFixed32(bw, 0xdeadbeef);
+      protobuf.writeSfixed32(bw, -2);
+      protobuf.writeFixed64(bw, 0x0102030405060708n);
+      protobuf.writeSfixed64(bw, -3n);
+    });
+
+    assert.strictEqual(data.toString('hex'),
+      'efbeadde'
+      + 'feffffff'
+      + '0807060504030201'
+      + 'fdffffffffffffff');
+
+    const br = bio.read(data);
+    assert.strictEqual(protobuf.readFixed32(br), 0xdeadbeef);
+    assert.strictEqual(protobuf.readSfixed32(br), -2);
+    assert.strictEqual(protobuf.readFixed64(br), 0x0102030405060708n);
+    assert.strictEqual(protobuf.readSfixed64(br), -3n);
+  });
+
+  it('should encode tags', () => {
+    const data = encode(bw => protobuf.writeTag(bw, 1, types.VARINT));
+    assert.strictEqual(data.toString('hex'), '08');
+    assert.strictEqual(protobuf.sizeTag(1), 1);
+    assert.strictEqual(protobuf.sizeTag(16), 2);
+
+    const tag = protobuf.readTag(bio.read(Buffer.from('12', 'hex')));
+    assert.strictEqual(tag.field, 2);
+    assert.strictEqual(tag.type, types.LEN);
+
+    assert.throws(() => protobuf.readTag(bio.read(Buffer.from('02', 'hex'))), {
+      reason: 'Invalid field number'
+    });
+
+    assert.throws(() => protobuf.readTag(bio.read(Buffer.from('0e', 'hex'))), {
+      reason: 'Invalid wire type'
+    });
+  });
+
+  it('should encode length-delimited fields', () => {
+    const data = encode((bw) => {
+      protobuf.writeTag(bw, 2, types.LEN);
+      protobuf.writeString(bw, 'testing');
+      protobuf.writeTag(bw, 3, types.LEN);
+      protobuf.writeBytes(bw, Buffer.from('0102', 'hex'));
+    });
+
+    assert.strictEqual(data.toString('hex'),
+      '120774657374696e67' + '1a020102');
+
+    const br = bio.read(data);
+    assert.strictEqual(protobuf.readTag(br).field, 2);
+    assert.strictEqual(protobuf.readString(br), 'testing');
+    assert.strictEqual(protobuf.readTag(br).field, 3);
+    assert.bufferEqual(protobuf.readBytes(br), Buffer.from('0102', 'hex'));
+    assert.strictEqual(br.left(), 0);
+
+    assert.throws(() => protobuf.readBytes(bio.read(Buffer.from('0301', 'hex'))), {
+      code: 'ERR_OUT_OF_BOUNDS',
+      reason: 'Length exceeds data'
+    });
+  });
+
+  it('should encode embedded messages', () => {
+    const writeInner = (bw) => {
+      protobuf.writeTag(bw, 1, types.VARINT);
+      protobuf.writeVarint(bw, 150);
+    };
+
+    assert.strictEqual(protobuf.sizeMessage(writeInner), 3);
+
+    const data = encode((bw) => {
+      protobuf.writeTag(bw, 3, types.LEN);
+      protobuf.writeMessage(bw, writeInner);
+    });
+
+    assert.strictEqual(data.toString('hex'), '1a03089601');
+
+    const size = bio.size();
+    protobuf.writeTag(size, 3, types.LEN);
+    protobuf.writeMessage(size, writeInner);
+    assert.strictEqual(size.render(), data.length);
+
+    const br = bio.read(data);
+    protobuf.readTag(br);
+
+    const child = protobuf.readMessage(br);
+    assert.strictEqual(protobuf.readTag(child).field, 1);
+    assert.strictEqual(protobuf.readVarint(child), 150);
+    assert.strictEqual(child.left(), 0);
+    assert.strictEqual(br.left(), 0);
+  });
+
+  it('should write nested messages once per level', () => {
+    let calls = 0;
+
+    function nest(bw, depth) {
+      calls += 1;
+
+      if (depth === 0)
+        return;
+
+      protobuf.writeTag(bw, 1, types.LEN);
+      protobuf.writeMessage(bw, bw => nest(bw, depth - 1));
+    }
+
+    const data = encode(bw => nest(bw, 20));
+
+    assert.strictEqual(calls, 21);
+    assert.strictEqual(data.length, 20 * 2);
+    assert.strictEqual(data.toString('hex', 0, 4), '0a26' + '0a24');
+  });
+
+  it('should skip unknown fields', () => {
+    const data = encode((bw) => {
+      protobuf.writeTag(bw, 10, types.VARINT);
+      protobuf.writeInt64(bw, -1n);
+      protobuf.writeTag(bw, 11, types.I64);
+      protobuf.writeFixed64(bw, 1n);
+      protobuf.writeTag(bw, 12, types.LEN);
+      protobuf.writeString(bw, 'unknown');
+      protobuf.writeTag(bw, 13, types.SGROUP);
+      protobuf.writeTag(bw, 1, types.I32);
+      protobuf.writeFixed32(bw, 1);
+      protobuf.writeTag(bw, 13, types.EGROUP);
+      protobuf.writeTag(bw, 1, types.VARINT);
+      protobuf.writeVarint(bw, 42);
+    });
+
+    const br = bio.read(data);
+
+    let value = -1;
+
+    while (br.left() > 0) {
+      const tag = protobuf.readTag(br);
+
+      if (tag.field === 1)
+        value = protobuf.readVarint(br);
+      else
+        protobuf.skip(br, tag);
+    }
+
+    assert.strictEqual(value, 42);
+
+    assert.throws(() => {
+      const br = bio.read(Buffer.from('1b0c', 'hex'));
+      protobuf.skip(br, protobuf.readTag(br));
+    }, {
+      reason: 'Mismatched end group'
+    });
+
+    assert.throws(() => {
+      const br = bio.read(Buffer.from('0c', 'hex'));
+      protobuf.skip(br, protobuf.readTag(br));
+    }, {
+      reason: 'Unexpected end group'
+    });
+  });
+
+  it('should limit group nesting when skipping', () => {
+    const nested = depth => Buffer.concat([Buffer.alloc(depth, 0x0b),
+                                           Buffer.alloc(depth, 0x0c)]);
+
+    const br = bio.read(nested(3));
+    protobuf.skip(br, protobuf.readTag(br), 3);
+    assert.strictEqual(br.left(), 0);
+
+    assert.throws(() => {
+      const br = bio.read(nested(4));
+      protobuf.skip(br, protobuf.readTag(br), 3);
+    }, {
+      code: 'ERR_LIMIT',
+      reason: 'Depth exceeds limit',
+      offset: 4
+    });
+
+    assert.throws(() => {
+      const br = bio.read(Buffer.alloc(100000, 0x0b));
+      protobuf.skip(br, protobuf.readTag(br));
+    }, {
+      code: 'ERR_LIMIT',
+      offset: 101
+    });
+  });
+});
@@ -0,0 +1,220 @@
+/* eslint-env mocha */
+/* eslint prefer-arrow-callback: "off" */
+
+'use strict';
+
+const assert = require('./util/assert');
+const bio = require('../src/bufio');
+const {rlp} = bio;
+
+const str = s => Buffer.from(s, 'binary');
+
+// Ethereum wiki / ethereum/tests rlptest.json.
+const vectors = [
+  [str(''), '80'],
+  [str('\x00'), '00'],
+  [str('\x7f'), '7f'],
+  [str('\x80'), '8180'],
+  [str('dog'), '83646f67'],
+  [[], 'c0'],
+  [[str('cat'), str('dog')], 'c88363617483646f67'],
+  [str('Lorem ipsum dolor sit amet, consectetur adipisicing elit'),
+    'b838' + Buffer.from('Lorem ipsum dolor sit amet, consectetur adipisicing elit').toString('hex')],
+  [[[], [[]], [[], [[]]]], 'c7c0c1c0c3c0c1c0'],
+  [Buffer.alloc(1024, 0x61), 'b90400' + '61'.repeat(1024)]
+];
+
+describe('RLP', function() {
+  for (const [value, hex] of vectors) {
+    it(`should encode and decode ${hex.slice(0, 16)}`, () => {
+      const data = rlp.encode(value);
+
+      assert.strictEqual(data.toString('hex'), hex);
+      assert.strictEqual(rlp.size(value), data.length);
+      assert.deepStrictEqual(rlp.decode(data), value);
+    });
+  }
+
+  it('should encode integers', () => {
+    const vectors = [
+      [0, '80'],
+      [1, '01'],
+      [127, '7f'],
+      [128, '8180'],
+      [1000, '8203e8'],
+      [100000, '830186a0'],
+      [2n ** 64n, '89010000000000000000']
+    ];
+
+    for (const [num, hex] of vectors) {
+      const data = rlp.encode(num);
+
+      assert.strictEqual(data.toString('hex'), hex);
+      assert.strictEqual(rlp.toBigInt(rlp.decode(data)), BigInt(num));
+    }
+
+    assert.strictEqual(rlp.toNumber(rlp.decode(rlp.encode(1000))), 1000);
+
+    assert.throws(() => rlp.toNumber(Buffer.from('0001', 'hex')), {
+      code: 'ERR_NON_CANONICAL'
+    });
+
+    assert.throws(() => rlp.toNumber([]), {
+      reason: 'Expected a byte string'
+    });
+
+    assert.throws(() => rlp.encode(-1), {
+      reason: 'Invalid integer'
+    });
+  });
+
+  it('should encode long lists', () => {
+    const list = [];
+
+    for (let i = 0; i < 20; i++)
+      list.push(str('abc'));
+
+    const data = rlp.encode(list);
+
+    assert.strictEqual(data.slice(0, 2).toString('hex'), 'f850');
+    assert.deepStrictEqual(rlp.decode(data), list);
+  });
+
+  it('should reject non-canonical encodings', () => {
+    const vectors = [
+      ['8100', 'Non-canonical single byte'],
+      ['817f', 'Non-canonical single byte'],
+      ['b800', 'Leading zero in length'],
+      ['b80100', 'Non-canonical length'],
+      ['b837' + '00'.repeat(0x37), 'Non-canonical length'],
+      ['f800', 'Leading zero in length'],
+      ['f80100', 'Non-canonical length'],
+      ['b9003a' + '00'.repeat(0x3a), 'Leading zero in length']
+    ];
+
+    for (const [hex, reason] of vectors) {
+      assert.throws(() => rlp.decode(Buffer.from(hex, 'hex')), {
+        code: 'ERR_NON_CANONICAL',
+        reason
+      });
+    }
+  });
+
+  it('should reject malformed encodings', () => {
+    assert.throws(() => rlp.decode(Buffer.from('83646f', 'hex')), {
+      code: 'ERR_OUT_OF_BOUNDS'
+    });
+
+    assert.throws(() => rlp.decode(Buffer.from('c28363', 'hex')), {
+      code: 'ERR_OUT_OF_BOUNDS'
+    });
+
+    assert.throws(() => rlp.decode(Buffer.from('c1820102', 'hex')), {
+      reason: 'Item exceeds list'
+    });
+
+    assert.throws(() => rlp.decode(Buffer.from('8000', 'hex')), {
+      code: 'ERR_TRAILING'
+    });
+
+    assert.throws(() => rlp.decode(Buffer.from('bf0fffffffffffffff', 'hex')), {
+      code: 'ERR_OUT_OF_BOUNDS'
+    });
+  });
+
+  it('should read and write with readers and writers', () => {
+    const value = [str('cat'), [1, 2n], str('')];
+    const expect = rlp.encode(value);
+
+    const writers = [
+      bio.write(),
+      bio.write(expect.length + 1),
+      bio.grow()
+    ];
+
+    for (const bw of writers) {
+      bw.writeU8(0xff);
+      bw.writeRLP(value);
+      assert.bufferEqual(bw.render().slice(1), expect);
+    }
+
+    const size = bio.size();
+    size.writeRLP(value);
+    assert.strictEqual(size.render(), expect.length);
+
+    const br = bio.read(expect);
+
+    assert.deepStrictEqual(br.readRLP(), [str('cat'), [str('\x01'), str('\x02')], str('')]);
+    assert.strictEqual(br.left(), 0);
+  });
+
+  it('should size nested lists once', () => {
+    let walks = 0;
+
+    class List extends Array {
+      [Symbol.iterator]() {
+        walks += 1;
+        return super[Symbol.iterator]();
+      }
+    }
+
+    let value = List.of(str('cat'));
+
+    for (let i = 1; i < 10; i++)
+      value = List.of(value);
+
+    const data = rlp.encode(value);
+
+    // Each list is walked once to size and once to write.
+    assert.strictEqual(walks, 20);
+    assert.strictEqual(data.length, 9 + 5);
+    assert.strictEqual(data.toString('hex', 0, 2), 'cdcc');
+  });
+
+  it('should skip items by header', () => {
+    const data = rlp.encode([str('dog'), [str('cat'), str('cow')], 5, str('pig')]);
+    const br = bio.read(data);
+
+    const list = br.readRLPHeader();
+    assert.strictEqual(list.list, true);
+    assert.strictEqual(list.size, data.length - 1);
+
+    const skip = [
+      [false, 3],
+      [true, 8],
+      [false, 1]
+    ];
+
+    for (const [isList, size] of skip) {
+      const hdr = br.readRLPHeader();
+      assert.strictEqual(hdr.list, isList);
+      assert.strictEqual(hdr.size, size);
+      br.seek(hdr.size);
+    }
+
+    assert.deepStrictEqual(br.readRLP(), str('pig'));
+    assert.strictEqual(br.left(), 0);
+  });
+
+  it('should limit list nesting', () => {
+    const nested = (depth) => {
+      let value = [];
+      for (let i = 1; i < depth; i++)
+        value = [value];
+      return rlp.encode(value);
+    };
+
+    assert.strictEqual(rlp.decode(nested(64)).length, 1);
+    assert.deepStrictEqual(rlp.decode(nested(2), 2), [[]]);
+
+    assert.throws(() => rlp.decode(nested(65)), {
+      code: 'ERR_LIMIT',
+      reason: 'Depth exceeds limit'
+    });
+
+    assert.throws(() => rlp.decode(nested(3), 2), {
+      code: 'ERR_LIMIT',
+      offset: 2
+    });
+  });
+});
@@ -0,0 +1,241 @@
+/* eslint-env mocha */
+/* eslint prefer-arrow-callback: "off" */
+
+'use strict';
+
+const assert = require('./util/assert');
+const crypto = require('crypto');
+const bio = require('../src/bufio');
+const {ssz} = bio;
+
+const sha256 = {
+  init() {
+    this.hash = crypto.createHash('sha256');
+  },
+  update(data) {
+    this.hash.update(data);
+  },
+  final() {
+    return this.hash.digest();
+  }
+};
+
+const hex = s => Buffer.from(s, 'hex');
+const chunk = s => Buffer.concat([hex(s), Buffer.alloc(32 - s.length / 2)]);
+
+const hash = (a, b) => {
+  return crypto.createHash('sha256').update(a).update(b).digest();
+};
+
+describe('SSZ', function() {
+  it('should encode and decode basic types', () => {
+    const vectors = [
+      [ssz.uint8, 0x01, '01'],
+      [ssz.uint16, 0x0102, '0201'],
+      [ssz.uint32, 0x01020304, '04030201'],
+      [ssz.uint64, 0x0102030405060708n, '0807060504030201'],
+      [ssz.uint128, 1n << 64n, '00000000000000000100000000000000'],
+      [ssz.uint256, (1n << 256n) - 1n, 'ff'.repeat(32)],
+      [ssz.boolean, true, '01'],
+      [ssz.boolean, false, '00']
+    ];
+
+    for (const [type, value, expect] of vectors) {
+      const data = type.encode(value);
+
+      assert.bufferEqual(data, hex(expect));
+      assert.strictEqual(type.getSize(value), data.length);
+      assert.strictEqual(type.decode(data), value);
+    }
+  });
+
+  it('should reject invalid basic values', () => {
+    assert.throws(() => ssz.uint8.encode(256), {code: 'ERR_ENCODING'});
+    assert.throws(() => ssz.uint64.encode(1), {code: 'ERR_ENCODING'});
+    assert.throws(() => ssz.uint64.encode(1n << 64n), {code: 'ERR_ENCODING'});
+    assert.throws(() => ssz.boolean.decode(hex('02')), {
+      code: 'ERR_ENCODING',
+      reason: 'Invalid boolean'
+    });
+    assert.throws(() => ssz.uint32.decode(hex('010203')), {
+      reason: 'Invalid size'
+    });
+  });
+
+  it('should encode containers with offsets', () => {
+    const Type = ssz.container({
+      a: ssz.uint8,
+      b: ssz.list(ssz.uint16, 16),
+      c: ssz.uint8
+    });
+
+    const value = {a: 1, b: [2, 3], c: 4};
+    const data = Type.encode(value);
+
+    assert.bufferEqual(data, hex('0106000000040200' + '0300'));
+    assert.strictEqual(Type.isFixed(), false);
+    assert.deepStrictEqual(Type.decode(data), value);
+
+    assert.throws(() => Type.decode(hex('0107000000040200' + '0300')), {
+      code: 'ERR_ENCODING',
+      reason: 'Invalid offset'
+    });
+
+    assert.throws(() => Type.decode(hex('0106000000040200' + '03')), {
+      code: 'ERR_ENCODING',
+      reason: 'Invalid size'
+    });
+  });
+
+  it('should encode lists of variable-size items', () => {
+    const Type = ssz.list(ssz.byteList(8), 4);
+    const value = [hex('aa'), hex(''), hex('bbcc')];
+    const data = Type.encode(value);
+
+    assert.bufferEqual(data, hex('0c0000000d0000000d000000aabbcc'));
+    assert.deepStrictEqual(Type.decode(data), value);
+    assert.deepStrictEqual(Type.decode(hex('')), []);
+
+    assert.throws(() => Type.decode(hex('0d0000000d000000')), {
+      reason: 'Invalid offset'
+    });
+
+    assert.throws(() => Type.decode(hex('0800000007000000aabb')), {
+      reason: 'Invalid offset'
+    });
+
+    assert.throws(() => Type.encode([hex(''), hex(''), hex(''), hex(''), hex('')]), {
+      code: 'ERR_LIMIT'
+    });
+
+    assert.throws(() => Type.decode(hex('00000001')), {
+      reason: 'Invalid offset'
+    });
+
+    assert.throws(() => Type.decode(hex('fcffffff')), {
+      reason: 'Invalid offset'
+    });
+
+    assert.throws(() => Type.decode(hex('14000000' + '00'.repeat(16))), {
+      code: 'ERR_LIMIT',
+      reason: 'Too many elements'
+    });
+
+    const Pair = ssz.vector(ssz.byteList(8), 2);
+
+    assert.deepStrictEqual(Pair.decode(hex('0800000009000000aa')), [hex('aa'), hex('')]);
+
+    assert.throws(() => Pair.decode(hex('0c000000' + '00'.repeat(8))), {
+      code: 'ERR_LIMIT'
+    });
+  });
+
+  it('should encode vectors', () => {
+    const Type = ssz.vector(ssz.uint16, 3);
+
+    assert.bufferEqual(Type.encode([1, 2, 3]), hex('010002000300'));
+    assert.deepStrictEqual(Type.decode(hex('010002000300')), [1, 2, 3]);
+    assert.deepStrictEqual(Type.defaultValue(), [0, 0, 0]);
+    assert.throws(() => Type.encode([1, 2]), {reason: 'Invalid vector length'});
+    assert.throws(() => Type.decode(hex('01000200')), {reason: 'Invalid size'});
+  });
+
+  it('should encode bitfields', () => {
+    const bits = [true, true, false, true, false, true, false, false];
+
+    assert.bufferEqual(ssz.bitvector(8).encode(bits), hex('2b'));
+    assert.bufferEqual(ssz.bitlist(8).encode(bits), hex('2b01'));
+    assert.bufferEqual(ssz.bitlist(8).encode([]), hex('01'));
+    assert.bufferEqual(ssz.bitlist(8).encode([true, false, true]), hex('0d'));
+
+    assert.deepStrictEqual(ssz.bitlist(8).decode(hex('2b01')), bits);
+    assert.deepStrictEqual(ssz.bitlist(8).decode(hex('0d')), [true, false, true]);
+    assert.deepStrictEqual(ssz.bitvector(4).decode(hex('0b')),
+                           [true, true, false, true]);
+
+    assert.throws(() => ssz.bitvector(4).decode(hex('1b')), {
+      reason: 'Invalid bitvector padding'
+    });
+
+    assert.throws(() => ssz.bitlist(8).decode(hex('2b00')), {
+      reason: 'Missing bitlist delimiter'
+    });
+
+    assert.throws(() => ssz.bitlist(4).decode(hex('2b')), {
+      code: 'ERR_LIMIT'
+    });
+  });
+
+  it('should compute hash tree roots of basic types', () => {
+    assert.bufferEqual(ssz.uint64.hashTreeRoot(0x0102n, sha256), chunk('0201'));
+    assert.bufferEqual(ssz.boolean.hashTreeRoot(true, sha256), chunk('01'));
+
+    const Type = ssz.vector(ssz.uint64, 4);
+
+    assert.bufferEqual(Type.hashTreeRoot([1n, 2n, 3n, 4n], sha256),
+      chunk('0100000000000000020000000000000003000000000000000400000000000000'));
+
+    const Big = ssz.vector(ssz.uint64, 5);
+
+    assert.bufferEqual(Big.hashTreeRoot([1n, 2n, 3n, 4n, 5n], sha256),
+      hash(chunk('0100000000000000020000000000000003000000000000000400000000000000'),
+           chunk('0500000000000000')));
+  });
+
+  it('should compute hash tree roots of lists', () => {
+    const zero = Buffer.alloc(32);
+    const zero1 = hash(zero, zero);
+    const zero2 = hash(zero1, zero1);
+
+    // 4 uint64 per chunk, limit 16 -> 4 chunks.
+    const Type = ssz.list(ssz.uint64, 16);
+
+    assert.bufferEqual(Type.hashTreeRoot([], sha256), hash(zero2, chunk('')));
+    assert.bufferEqual(Type.hashTreeRoot([1n, 2n], sha256),
+      hash(hash(hash(chunk('01000000000000000200000000000000'), zero), zero1),
+           chunk('02')));
+
+    const Bytes = ssz.byteList(64);
+
+    assert.bufferEqual(Bytes.hashTreeRoot(hex('aabb'), sha256),
+      hash(hash(chunk('aabb'), zero), chunk('02')));
+
+    const Bits = ssz.bitlist(256);
+
+    assert.bufferEqual(Bits.hashTreeRoot([true, true, false, true], sha256),
+      hash(chunk('0b'), chunk('04')));
+  });
+
+  it('should compute hash tree roots of containers', () => {
+    const Checkpoint = ssz.container({
+      epoch: ssz.uint64,
+      root: ssz.byteVector(32)
+    });
+
+    const value = {epoch: 3n, root: Buffer.alloc(32, 0x11)};
+
+    assert.bufferEqual(Checkpoint.encode(value),
+      Buffer.concat([hex('0300000000000000'), Buffer.alloc(32, 0x11)]));
+
+    assert.bufferEqual(Checkpoint.hashTreeRoot(value, sha256),
+      hash(chunk('03'), Buffer.alloc(32, 0x11)));
+
+    const zero = Checkpoint.defaultValue();
+
+    assert.deepStrictEqual(zero, {epoch: 0n, root: Buffer.alloc(32)});
+    assert.bufferEqual(Checkpoint.hashTreeRoot(zero, sha256),
+      hash(Buffer.alloc(32), Buffer.alloc(32)));
+  });
+
+  it('should merkleize with a hash writer context', () => {
+    const zero = Buffer.alloc(32);
+
+    assert.bufferEqual(ssz.merkleize(sha256, [], 4),
+      hash(hash(zero, zero), hash(zero, zero)));
+    assert.bufferEqual(ssz.mixInLength(sha256, zero, 3),
+      hash(zero, chunk('03')));
+    assert.throws(() => ssz.merkleize(sha256, [zero, zero], 1), {
+      code: 'ERR_LIMIT'
+    });
+  });
+});
@@ -0,0 +1,339 @@
+/* eslint-env mocha */
+/* eslint prefer-arrow-callback: "off" */
+
+'use strict';
+
+const assert = require('./util/assert');
+const {U64} = require('n64');
+const bio = require('../src/bufio');
+
+const Outpoint = bio.struct({
+  hash: 'hash',
+  index: 'u32'
+});
+
+const Input = bio.struct({
+  prevout: Outpoint,
+  script: 'varbytes',
+  sequence: 'u32'
+});
+
+const Record = bio.struct({
+  version: 'u32',
+  name: 'varstring:ascii',
+  amount: 'u64',
+  big: 'u64big',
+  wide: 'u64n',
+  tag: 'nullstring',
+  flags: 'bytes:4',
+  input: Input
+});
+
+function createRecord() {
+  const rec = new Record();
+  rec.version = 2;
+  rec.name = 'alice';
+  rec.amount = 50000000;
+  rec.big = (1n << 64n) - 1n;
+  rec.wide = U64.fromInt(7);
+  rec.tag = 'tag';
+  rec.flags = Buffer.from('01020304', 'hex');
+  rec.input.prevout.hash = Buffer.alloc(32, 0xaa);
+  rec.input.prevout.index = 1;
+  rec.input.script = Buffer.from('0014', 'hex');
+  rec.input.sequence = 0xffffffff;
+  return rec;
+}
+
+function decorate(ctor, fields) {
+  for (const key of Object.keys(fields))
+    fields[key](ctor.prototype, key);
+  return ctor;
+}
+
+describe('Struct', function() {
+  describe('Schema', function() {
+    it('should initialize fields', () => {
+      const rec = new Record();
+      assert.strictEqual(rec.version, 0);
+      assert.strictEqual(rec.name, '');
+      assert.strictEqual(rec.big, 0n);
+      assert.bufferEqual(rec.flags, Buffer.alloc(4));
+      assert.instanceOf(rec.input.prevout, Outpoint);
+    });
+
+    it('should encode and decode', () => {
+      const rec = createRecord();
+      const size = rec.getSize();
+      const data = rec.encode();
+
+      assert.strictEqual(data.length, size);
+
+      const br = bio.read(data);
+      assert.strictEqual(br.readU32(), 2);
+      assert.strictEqual(br.readVarString('ascii'), 'alice');
+
+      const dec = Record.decode(data);
+      assert.strictEqual(dec.version, 2);
+      assert.strictEqual(dec.name, 'alice');
+      assert.strictEqual(dec.amount, 50000000);
+      assert.strictEqual(dec.big, (1n << 64n) - 1n);
+      assert.strictEqual(dec.wide.toNumber(), 7);
+      assert.strictEqual(dec.tag, 'tag');
+      assert.bufferEqual(dec.input.prevout.hash, Buffer.alloc(32, 0xaa));
+      assert.strictEqual(dec.input.sequence, 0xffffffff);
+      assert.bufferEqual(dec.encode(), data);
+    });
+
+    it('should convert to and from json', () => {
+      const rec = createRecord();
+      const json = rec.toJSON();
+
+      assert.strictEqual(json.big, '18446744073709551615');
+      assert.strictEqual(json.input.script, '0014');
+
+      const dec = Record.fromJSON(JSON.parse(JSON.stringify(json)));
+      assert.bufferEqual(dec.encode(), rec.encode());
+    });
+
+    it('should reject bad schemas', () => {
+      assert.throws(() => bio.struct({a: 'u33'}));
+      assert.throws(() => bio.struct({a: 'bytes:x'}));
+      assert.throws(() => bio.struct({a: Object}));
+    });
+  });
+
+  describe('Decorators', function() {
+    const {field} = bio;
+
+    const Output = decorate(class Output extends bio.Struct {}, {
+      value: field.u64(),
+      script: field.varBytes()
+    });
+
+    const Tx = decorate(class Tx extends bio.Struct {}, {
+      version: field.u32(),
+      outputs: field.array(Output, 'varint'),
+      locktime: field.u32BE()
+    });
+
+    const WitnessTx = decorate(class WitnessTx extends Tx {}, {
+      witness: field.array('varbytes', 'u8')
+    });
+
+    it('should implement struct methods', () => {
+      const tx = new Tx();
+      tx.version = 1;
+      tx.locktime = 0x01020304;
+
+      for (let i = 0; i < 2; i++) {
+        const output = new Output();
+        output.value = i;
+        output.script = Buffer.alloc(i + 1, i);
+        tx.outputs.push(output);
+      }
+
+      const data = tx.encode();
+      assert.strictEqual(data.length, tx.getSize());
+      assert.strictEqual(data.toString('hex'),
+        '01000000' + '02'
+        + '0000000000000000' + '0100'
+        + '0100000000000000' + '020101'
+        + '01020304');
+
+      const dec = Tx.decode(data);
+      assert.strictEqual(dec.outputs.length, 2);
+      assert.strictEqual(dec.outputs[1].value, 1);
+      assert.instanceOf(dec.outputs[1], Output);
+
+      const json = Tx.fromJSON(tx.toJSON());
+      assert.bufferEqual(json.encode(), data);
+    });
+
+    it('should inherit fields', () => {
+      const tx = new WitnessTx();
+      assert.deepStrictEqual(tx.outputs, []);
+      tx.witness.push(Buffer.from([0xff]));
+
+      const dec = WitnessTx.decode(tx.encode());
+      assert.strictEqual(dec.getSize(), 4 + 1 + 4 + 1 + 2);
+      assert.bufferEqual(dec.witness[0], Buffer.from([0xff]));
+
+      assert.strictEqual(new Tx().getSize(), 9);
+    });
+
+    it('should initialize fields reset by class field declarations', () => {
+      const compiled = require('./data/decorators');
+      const tx = new compiled.Tx();
+
+      assert.strictEqual(tx.outputs, undefined);
+      assert.deepStrictEqual(tx.toJSON(), {
+        version: 0,
+        outputs: [],
+        locktime: 0
+      });
+
+      const output = new compiled.Output();
+      output.value = 1;
+      output.script = Buffer.from([0xaa]);
+      tx.outputs.push(output);
+
+      const data = tx.encode();
+      assert.strictEqual(data.toString('hex'),
+        '00000000' + '01' + '0100000000000000' + '01aa' + '00000000');
+
+      const dec = compiled.Tx.decode(data);
+      assert.strictEqual(dec.outputs[0].value, 1);
+      assert.bufferEqual(dec.outputs[0].script, Buffer.from([0xaa]));
+
+      const declared = new compiled.DeclaredTx();
+      assert.deepStrictEqual(declared.outputs, []);
+      assert.bufferEqual(declared.encode(), Buffer.alloc(9));
+    });
+  });
+
+  describe('Strict Decoding', function() {
+    const Point = bio.struct({x: 'u8', y: 'u8'});
+
+    class StrictPoint extends Point {}
+    StrictPoint.strict = true;
+
+    const data = Buffer.from('010203', 'hex');
+
+    it('should ignore trailing bytes by default', () => {
+      assert.strictEqual(Point.decode(data).y, 2);
+      assert.strictEqual(Point.fromHex('010203').y, 2);
+    });
+
+    it('should reject trailing bytes', () => {
+      assert.throws(() => Point.decode(data, null, true), {
+        message: 'Trailing data (offset=2).'
+      });
+      assert.throws(() => Point.fromBase64(data.toString('base64'), null, true),
+        bio.EncodingError);
+      assert.throws(() => StrictPoint.fromHex('010203'), bio.EncodingError);
+      assert.strictEqual(StrictPoint.decode(data, null, false).y, 2);
+      assert.strictEqual(StrictPoint.decode(data.slice(0, 2)).y, 2);
+    });
+
+    it('should decode partially', () => {
+      const {struct, size} = StrictPoint.decodePartial(data);
+      assert.instanceOf(struct, StrictPoint);
+      assert.strictEqual(struct.x, 1);
+      assert.strictEqual(size, 2);
+    });
+  });
+
+  describe('Field Paths', function() {
+    const {field} = bio;
+
+    const Output = bio.struct({
+      value: 'u64',
+      script: 'varbytes'
+    }, 'Output');
+
+    const Tx = decorate(class Tx extends bio.Struct {}, {
+      version: field.u32(),
+      outputs: field.array(Output)
+    });
+
+    const Block = decorate(class Block extends bio.Struct {}, {
+      txs: field.array(Tx)
+    });
+
+    function createBlock() {
+      const block = new Block();
+
+      for (let i = 0; i < 4; i++) {
+        const tx = new Tx();
+        tx.version = i;
+
+        for (let j = 0; j < 2; j++) {
+          const output = new Output();
+          output.value = j;
+          output.script = Buffer.alloc(3, j);
+          tx.outputs.push(output);
+        }
+
+        block.txs.push(tx);
+      }
+
+      return block;
+    }
+
+    it('should report the path of a nested failure', () => {
+      const data = createBlock().encode();
+      const size = data.length;
+
+      let err;
+      try {
+        Block.decode(data.slice(0, size - 2));
+      } catch (e) {
+        err = e;
+      }
+
+      assert.instanceOf(err, bio.EncodingError);
+      assert.strictEqual(err.code, 'ERR_OUT_OF_BOUNDS');
+      assert.strictEqual(err.reason, 'Out of bounds read');
+      assert.strictEqual(err.offset, size - 3);
+      assert.strictEqual(err.path, 'Block.txs[3].outputs[1].script');
+      assert.strictEqual(err.message,
+        'Out of bounds read (offset=' + (size - 3) + ','
+        + ' path=Block.txs[3].outputs[1].script).');
+    });
+
+    it('should report the path of a hand-written read', () => {
+      class Input extends bio.Struct {
+        read(br) {
+          this.outputs = [];
+          for (let i = 0; i < 2; i++)
+            this.outputs.push(br.scope(`[${i}]`, () => Output.read(br)));
+          return this;
+        }
+      }
+
+      class Spend extends bio.Struct {
+        read(br) {
+          this.version = br.readU32();
+          this.input = Input.read(br);
+          return this;
+        }
+      }
+
+      const output = new Output();
+      output.script = Buffer.alloc(3);
+
+      const data = Buffer.concat([Buffer.alloc(4), output.encode(),
+                                  output.encode().slice(0, 10)]);
+
+      assert.throws(() => Spend.decode(data), {
+        offset: 25,
+        path: 'Spend.Input[1].Output.script'
+      });
+
+      assert.throws(() => Output.read(new bio.BufferReader(Buffer.alloc(2))), {
+        path: 'Output.value'
+      });
+    });
+
+    it('should name schema structs', () => {
+      assert.strictEqual(Output.name, 'Output');
+      assert.throws(() => Output.decode(Buffer.alloc(4)), {
+        message: 'Out of bounds read (offset=0, path=Output.value).'
+      });
+    });
+
+    it('should accumulate reader scopes', () => {
+      const br = new bio.BufferReader(Buffer.from([1]));
+
+      assert.strictEqual(br.scope('a', () => br.readU8()), 1);
+
+      assert.throws(() => {
+        br.scope('list', () => br.scope('[0]', () => br.readU32()));
+      }, {
+        path: 'list[0]',
+        message: 'Out of bounds read (offset=1, path=list[0]).'
+      });
+    });
+  });
+});
@@ -0,0 +1,165 @@
+/* eslint-env mocha */
+/* eslint prefer-arrow-callback: "off" */
+
+'use strict';
+
+const assert = require('./util/assert');
+const bio = require('../src/bufio');
+const {tlv, TLVReader, TLVWriter} = bio;
+
+const hex = s => Buffer.from(s, 'hex');
+
+const records = (data, options) => {
+  return new TLVReader(bio.read(data), options).readAll().map((record) => {
+    return [record.type, record.getData().toString('hex'), record.offset];
+  });
+};
+
+describe('TLV', function() {
+  it('should read records with child readers', () => {
+    const data = hex('0102aabb' + '0300' + '0201ff');
+    const reader = new TLVReader(bio.read(data));
+    const first = reader.next();
+
+    assert.strictEqual(first.type, 1);
+    assert.strictEqual(first.offset, 0);
+    assert.strictEqual(first.getSize(), 2);
+    assert.strictEqual(first.value.readU16BE(), 0xaabb);
+    assert.throws(() => first.value.readU8(), {code: 'ERR_OUT_OF_BOUNDS'});
+
+    assert.deepStrictEqual(Array.from(reader).map(r => r.type), [3, 2]);
+    assert.strictEqual(reader.next(), null);
+
+    assert.throws(() => records(hex('0105aabb')), {code: 'ERR_OUT_OF_BOUNDS'});
+  });
+
+  it('should support field widths', () => {
+    const options = {type: 'u16be', length: 'u32'};
+    const bw = bio.write();
+    const writer = new TLVWriter(bw, options);
+
+    writer.write(0x1234, hex('aa'));
+    writer.writeRecord(0x10, (bw) => {
+      bw.writeU32BE(0xdeadbeef);
+      bw.writeVarString('hi');
+    });
+
+    const data = bw.render();
+
+    assert.bufferEqual(data, hex('1234' + '01000000' + 'aa'
+                                 + '0010' + '07000000' + 'deadbeef' + '026869'));
+
+    assert.deepStrictEqual(records(data, options), [
+      [0x1234, 'aa', 0],
+      [0x10, 'deadbeef026869', 7]
+    ]);
+
+    assert.strictEqual(writer.getSize(0x10, 7), 13);
+
+    const varint = {type: 'varint', length: 'varint2'};
+    const vw = bio.write();
+
+    new TLVWriter(vw, varint).write(0x1000, Buffer.alloc(200));
+
+    const vdata = vw.render();
+
+    assert.strictEqual(vdata.length, 3 + 2 + 200);
+    assert.deepStrictEqual(records(vdata, varint).map(r => r[0]), [0x1000]);
+
+    assert.throws(() => new TLVWriter(bio.write()).write(256, hex('')), {
+      code: 'ERR_LIMIT'
+    });
+  });
+
+  it('should encode bigsize values', () => {
+    const vectors = [
+      [0, '00'],
+      [252, 'fc'],
+      [253, 'fd00fd'],
+      [65535, 'fdffff'],
+      [65536, 'fe00010000'],
+      [4294967295, 'feffffffff'],
+      [4294967296, 'ff0000000100000000']
+    ];
+
+    for (const [value, expect] of vectors) {
+      const bw = bio.write();
+
+      tlv.writeBigSize(bw, value);
+
+      assert.bufferEqual(bw.render(), hex(expect));
+      assert.strictEqual(tlv.sizeBigSize(value), expect.length / 2);
+      assert.strictEqual(tlv.readBigSize(bio.read(hex(expect))), value);
+    }
+
+    for (const str of ['fd00fc', 'fe0000ffff', 'ff00000000ffffffff']) {
+      assert.throws(() => tlv.readBigSize(bio.read(hex(str))), {
+        code: 'ERR_NON_CANONICAL'
+      });
+    }
+  });
+
+  it('should skip unknown types', () => {
+    const data = hex('0100' + '0201aa' + '0301bb');
+
+    assert.deepStrictEqual(records(data, {known: [1, 3]}).map(r => r[0]), [1, 3]);
+
+    assert.throws(() => records(data, {known: [1, 3], skipUnknown: false}), {
+      code: 'ERR_ENCODING',
+      reason: 'Unknown type'
+    });
+  });
+
+  it('should check record ordering', () => {
+    const dup = hex('0100' + '0100');
+    const unsorted = hex('0200' + '0100');
+
+    assert.strictEqual(records(dup).length, 2);
+    assert.throws(() => records(dup, {order: 'unique'}), {
+      code: 'ERR_NON_CANONICAL',
+      reason: 'Duplicate type'
+    });
+    assert.strictEqual(records(unsorted, {order: 'unique'}).length, 2);
+    assert.throws(() => records(unsorted, {order: 'increasing'}), {
+      code: 'ERR_NON_CANONICAL',
+      reason: 'Unsorted type'
+    });
+
+    const writer = new TLVWriter(bio.write(), {order: 'increasing'});
+
+    writer.write(1, hex(''));
+
+    assert.throws(() => writer.write(1, hex('')), {reason: 'Duplicate type'});
+    assert.throws(() => writer.write(0, hex('')), {reason: 'Unsorted type'});
+  });
+
+  it('should parse BOLT #1 streams', () => {
+    const known = [1, 2, 3, 254];
+    const options = Object.assign({known}, tlv.bolt);
+
+    assert.deepStrictEqual(records(hex('0100'), options), [[1, '', 0]]);
+    assert.strictEqual(records(hex('0208000000000000022601012a'),
+                               Object.assign({}, options, {order: 'any'})).length, 2);
+
+    // Unknown odd types are ignored.
+    assert.deepStrictEqual(records(hex('0100' + '2100' + 'fd00fe0101'), options),
+                           [[1, '', 0], [254, '01', 4]]);
+
+    // Unknown even types are rejected.
+    assert.throws(() => records(hex('1200'), options), {reason: 'Unknown type'});
+
+    // Types must be strictly increasing.
+    assert.throws(() => records(hex('0208000000000000022601012a'), options), {
+      reason: 'Unsorted type'
+    });
+
+    assert.throws(() => records(hex('0100' + '0100'), options), {
+      reason: 'Duplicate type'
+    });
+
+    // Lengths must be canonical.
+    assert.throws(() => records(hex('01fd0001' + '00'), options), {
+      code: 'ERR_NON_CANONICAL'
+    });
+  });
+});
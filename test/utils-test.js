@@ -4,8 +4,9 @@
 'use strict';
 
 const assert = require('./util/assert');
-const {U64, I64_t} = require('n64');
+const {U64, I64} = require('n64');
 const encoding = require('../src/encoding');
+const bio = require('../src/bufio');
 
 const unsigned = [
   new U64('ffeeffee', 16),
@@ -148,5 +149,252 @@ describe('bufio', function() {
         assert.strictEqual(n1.toNumber(), n2);
       }
     });
+
+    it(`should write+read a ${bits} bit ${sign} bigint`, () => {
+      const buf1 = Buffer.allocUnsafe(8);
+      const buf2 = Buffer.allocUnsafe(8);
+      const big = BigInt(num.toString(10));
+
+      encoding.writeI64BEN(buf1, num, 0);
+      encoding.writeI64BEBig(buf2, big, 0);
+      assert.bufferEqual(buf1, buf2);
+
+      assert.strictEqual(encoding.readI64BEBig(buf2, 0), big);
+    });
+  }
+
+  for (const num of unsigned) {
+    const bits = num.bitLength();
+
+    it(`should write+read a ${bits} bit unsigned bigint`, () => {
+      const buf1 = Buffer.allocUnsafe(8);
+      const buf2 = Buffer.allocUnsafe(8);
+      const big = BigInt(num.toString(10));
+
+      encoding.writeU64N(buf1, num, 0);
+      encoding.writeU64Big(buf2, big, 0);
+      assert.bufferEqual(buf1, buf2);
+
+      assert.strictEqual(encoding.readU64Big(buf2, 0), big);
+    });
   }
+
+  it('should write+read bigints above 2^53', () => {
+    const max = (1n << 64n) - 1n;
+    const buf = Buffer.allocUnsafe(8);
+
+    encoding.writeU64Big(buf, max, 0);
+    assert.bufferEqual(buf, Buffer.alloc(8, 0xff));
+    assert.strictEqual(encoding.readU64Big(buf, 0), max);
+    assert.strictEqual(encoding.readI64Big(buf, 0), -1n);
+    assert.throws(() => encoding.readU64(buf, 0));
+
+    assert.throws(() => encoding.writeU64Big(buf, max + 1n, 0));
+    assert.throws(() => encoding.writeU64Big(buf, -1n, 0));
+    assert.throws(() => encoding.writeI64Big(buf, 1n << 63n, 0));
+  });
+
+  it('should write+read bigint varints', () => {
+    const values = [0n, 0xfcn, 0xfdn, 0xffffn, 0x10000n,
+      0xffffffffn, 0x100000000n, (1n << 64n) - 1n];
+
+    for (const value of values) {
+      const num = U64.fromString(value.toString(10), 10);
+
+      const size = encoding.sizeVarintBig(value);
+      assert.strictEqual(size, encoding.sizeVarintN(num));
+
+      const buf1 = Buffer.allocUnsafe(size);
+      const buf2 = Buffer.allocUnsafe(size);
+      encoding.writeVarintN(buf1, num, 0);
+      encoding.writeVarintBig(buf2, value, 0);
+      assert.bufferEqual(buf1, buf2);
+
+      const {size: read, value: res} = encoding.readVarintBig(buf2, 0);
+      assert.strictEqual(read, size);
+      assert.strictEqual(res, value);
+
+      const size2 = encoding.sizeVarint2Big(value);
+      assert.strictEqual(size2, encoding.sizeVarint2N(num));
+
+      const buf3 = Buffer.allocUnsafe(size2);
+      const buf4 = Buffer.allocUnsafe(size2);
+      encoding.writeVarint2N(buf3, num, 0);
+      encoding.writeVarint2Big(buf4, value, 0);
+      assert.bufferEqual(buf3, buf4);
+
+      const {size: read2, value: res2} = encoding.readVarint2Big(buf4, 0);
+      assert.strictEqual(read2, size2);
+      assert.strictEqual(res2, value);
+    }
+  });
+
+  it('should write+read LEB128 and zigzag varints', () => {
+    const vectors = [
+      ['ULEB128', 0n, '00'],
+      ['ULEB128', 127n, '7f'],
+      ['ULEB128', 128n, '8001'],
+      ['ULEB128', 624485n, 'e58e26'],
+      ['ULEB128', (1n << 64n) - 1n, 'ffffffffffffffffff01'],
+      ['SLEB128', 0n, '00'],
+      ['SLEB128', -1n, '7f'],
+      ['SLEB128', 63n, '3f'],
+      ['SLEB128', 64n, 'c000'],
+      ['SLEB128', -64n, '40'],
+      ['SLEB128', -65n, 'bf7f'],
+      ['SLEB128', -123456n, 'c0bb78'],
+      ['SLEB128', (1n << 63n) - 1n, 'ffffffffffffffffff00'],
+      ['SLEB128', -(1n << 63n), '8080808080808080807f'],
+      ['Zigzag', 0n, '00'],
+      ['Zigzag', -1n, '01'],
+      ['Zigzag', 1n, '02'],
+      ['Zigzag', -2n, '03'],
+      ['Zigzag', 2147483647n, 'feffffff0f'],
+      ['Zigzag', -2147483648n, 'ffffffff0f'],
+      ['Zigzag', -(1n << 63n), 'ffffffffffffffffff01']
+    ];
+
+    for (const [name, value, hex] of vectors) {
+      const expect = Buffer.from(hex, 'hex');
+      const ctor = name === 'ULEB128' ? U64 : I64;
+      const num = ctor.fromString(value.toString(10), 10);
+      const safe = value >= -BigInt(Number.MAX_SAFE_INTEGER)
+        && value <= BigInt(Number.MAX_SAFE_INTEGER);
+
+      const flavors = [['Big', value], ['N', num]];
+
+      if (safe)
+        flavors.push(['', Number(value)]);
+
+      for (const [suffix, v] of flavors) {
+        const method = name + suffix;
+
+        assert.strictEqual(encoding['size' + method](v), expect.length);
+
+        const buf = Buffer.alloc(expect.length);
+
+        assert.strictEqual(encoding['write' + method](buf, v, 0), expect.length);
+        assert.bufferEqual(buf, expect);
+
+        const {size, value: res} = encoding['read' + method](expect, 0);
+
+        assert.strictEqual(size, expect.length);
+
+        if (suffix === 'N')
+          assert.strictEqual(res.toString(), v.toString());
+        else
+          assert.strictEqual(res, v);
+
+        const bw = bio.write();
+        const sw = bio.write(expect.length);
+        const size2 = new bio.SizeWriter();
+
+        bw['write' + method](v);
+        sw['write' + method](v);
+        size2['write' + method](v);
+
+        assert.bufferEqual(bw.render(), expect);
+        assert.bufferEqual(sw.render(), expect);
+        assert.strictEqual(size2.render(), expect.length);
+
+        const br = bio.read(expect);
+        const out = br['read' + method]();
+
+        assert.strictEqual(out.toString(), v.toString());
+        assert.strictEqual(br.left(), 0);
+      }
+    }
+
+    if (!process.browser) {
+      const crypto = require('crypto');
+      const hw = new bio.HashWriter(crypto.createHash('sha256'));
+
+      hw.writeSLEB128(-65);
+
+      assert.bufferEqual(hw.render(),
+        crypto.createHash('sha256').update(Buffer.from('bf7f', 'hex')).digest());
+    }
+  });
+
+  describe('Errors', function() {
+    function check(func, ctor, code) {
+      assert.throws(func, (err) => {
+        return err instanceof ctor
+          && err instanceof bio.EncodingError
+          && err.code === code;
+      });
+    }
+
+    it('should throw out of bounds errors', () => {
+      const br = new bio.BufferReader(Buffer.alloc(2));
+
+      check(() => br.readU32(), bio.OutOfBoundsError, 'ERR_OUT_OF_BOUNDS');
+      check(() => br.readBytes(-1), bio.OutOfBoundsError, 'ERR_OUT_OF_BOUNDS');
+      check(() => encoding.readU64(Buffer.alloc(4), 0),
+        bio.OutOfBoundsError, 'ERR_OUT_OF_BOUNDS');
+      check(() => encoding.writeVarint(Buffer.alloc(2), 0x10000, 0),
+        bio.OutOfBoundsError, 'ERR_OUT_OF_BOUNDS');
+
+      const sw = new bio.StaticWriter(2);
+
+      check(() => sw.writeU32(1), bio.OutOfBoundsError, 'ERR_OUT_OF_BOUNDS');
+      check(() => sw.writeU64(1), bio.OutOfBoundsError, 'ERR_OUT_OF_BOUNDS');
+      check(() => sw.writeBytes(Buffer.alloc(3)),
+        bio.OutOfBoundsError, 'ERR_OUT_OF_BOUNDS');
+      check(() => sw.render(), bio.OutOfBoundsError, 'ERR_OUT_OF_BOUNDS');
+    });
+
+    it('should throw non-canonical errors', () => {
+      const data = Buffer.from('fd1000', 'hex');
+
+      check(() => encoding.readVarint(data, 0),
+        bio.NonCanonicalError, 'ERR_NON_CANONICAL');
+      check(() => new bio.BufferReader(data).readVarint(),
+        bio.NonCanonicalError, 'ERR_NON_CANONICAL');
+
+      for (const hex of ['8000', 'ff00']) {
+        check(() => encoding.readULEB128(Buffer.from(hex, 'hex'), 0),
+          bio.NonCanonicalError, 'ERR_NON_CANONICAL');
+        check(() => encoding.readZigzagBig(Buffer.from(hex, 'hex'), 0),
+          bio.NonCanonicalError, 'ERR_NON_CANONICAL');
+      }
+
+      for (const hex of ['8000', 'ff7f', 'c07f', 'bf00']) {
+        check(() => encoding.readSLEB128Big(Buffer.from(hex, 'hex'), 0),
+          bio.NonCanonicalError, 'ERR_NON_CANONICAL');
+      }
+    });
+
+    it('should throw checksum errors', () => {
+      const hash = data => Buffer.alloc(4, data.length);
+      const br = new bio.BufferReader(Buffer.from('0100000000', 'hex'));
+
+      br.readU8();
+
+      check(() => br.verifyChecksum(hash), bio.ChecksumError, 'ERR_CHECKSUM');
+    });
+
+    it('should throw limit errors', () => {
+      const br = new bio.BufferReader(Buffer.from('03616263', 'hex'));
+
+      check(() => br.readVarString('ascii', 2), bio.LimitError, 'ERR_LIMIT');
+      check(() => encoding.readU64(Buffer.alloc(8, 0xff), 0),
+        bio.LimitError, 'ERR_LIMIT');
+      check(() => encoding.readULEB128(Buffer.from('ffffffffffffff7f', 'hex'), 0),
+        bio.LimitError, 'ERR_LIMIT');
+      check(() => encoding.readULEB128Big(Buffer.from('ffffffffffffffffff02', 'hex'), 0),
+        bio.LimitError, 'ERR_LIMIT');
+      check(() => encoding.readSLEB128Big(Buffer.from('80808080808080808080', 'hex'), 0),
+        bio.LimitError, 'ERR_LIMIT');
+      check(() => encoding.writeZigzag(Buffer.alloc(9), Number.MAX_SAFE_INTEGER, 0),
+        bio.LimitError, 'ERR_LIMIT');
+    });
+
+    it('should throw trailing data errors', () => {
+      const Point = bio.struct({x: 'u8'});
+
+      check(() => Point.decode(Buffer.alloc(2), null, true),
+        bio.TrailingDataError, 'ERR_TRAILING');
+    });
+  });
 });
@@ -0,0 +1,132 @@
+/* eslint-env mocha */
+/* eslint prefer-arrow-callback: "off" */
+
+'use strict';
+
+const assert = require('./util/assert');
+const bio = require('../src/bufio');
+
+const writers = [
+  ['BufferWriter', () => new bio.BufferWriter()],
+  ['StaticWriter', size => new bio.StaticWriter(size)],
+  ['GrowableWriter', () => new bio.GrowableWriter(1)]
+];
+
+function getSize(write) {
+  const sw = new bio.SizeWriter();
+  write(sw);
+  return sw.render();
+}
+
+describe('Writer', function() {
+  describe('Placeholders', function() {
+    function write(bw) {
+      const count = bw.reserveU32();
+      const len = bw.reserveVarint();
+
+      bw.writeBytes(Buffer.alloc(300, 0x01));
+
+      const len2 = bw.reserveVarint2();
+      bw.writeU8(0x02);
+
+      len2.fill(100000);
+      len.fill(301);
+      count.fill(0xdeadbeef);
+
+      return bw;
+    }
+
+    for (const [name, create] of writers) {
+      it(`should backpatch reserved fields (${name})`, () => {
+        const size = getSize(write);
+        const data = write(create(size)).render();
+
+        assert.strictEqual(data.length, size);
+
+        const br = bio.read(data);
+        assert.strictEqual(br.readU32(), 0xdeadbeef);
+        assert.strictEqual(br.readVarint(), 301);
+        assert.bufferEqual(br.readBytes(300), Buffer.alloc(300, 0x01));
+        assert.strictEqual(br.readVarint2(), 100000);
+        assert.strictEqual(br.readU8(), 0x02);
+        assert.strictEqual(br.left(), 0);
+      });
+
+      it(`should fail to render unfilled fields (${name})`, () => {
+        const bw = create(5);
+        bw.reserveU32();
+        bw.writeU8(0);
+        assert.throws(() => bw.render(), bio.EncodingError);
+      });
+
+      it(`should keep fields pending after a failed fill (${name})`, () => {
+        const bw = create(2);
+        const ph = bw.reserveU8();
+        bw.writeU8(0);
+
+        assert.throws(() => ph.fill(300), {code: 'ERR_LIMIT', offset: 0});
+        assert.strictEqual(ph.filled, false);
+        assert.throws(() => bw.render(), bio.EncodingError);
+
+        ph.fill(0xff);
+        assert.bufferEqual(bw.render(), Buffer.from('ff00', 'hex'));
+      });
+    }
+
+    it('should not count unfilled varints', () => {
+      const sw = new bio.SizeWriter();
+      const ph = sw.reserveVarint();
+      sw.writeU16(0);
+      assert.strictEqual(sw.getSize(), 2);
+      ph.fill(0xffff);
+      assert.strictEqual(sw.render(), 5);
+    });
+  });
+
+  describe('Sections', function() {
+    function write(bw) {
+      bw.beginSection('u32be');
+      bw.writeU8(0x01);
+
+      bw.beginSection();
+      bw.writeBytes(Buffer.alloc(300, 0x02));
+      bw.beginSection('varint2');
+      bw.writeU16(0x0303);
+      bw.endSection();
+      bw.endSection();
+
+      bw.beginSection('u16');
+      bw.endSection();
+
+      bw.endSection();
+
+      return bw;
+    }
+
+    for (const [name, create] of writers) {
+      it(`should write nested sections (${name})`, () => {
+        const size = getSize(write);
+        const data = write(create(size)).render();
+
+        assert.strictEqual(data.length, size);
+
+        const br = bio.read(data);
+        assert.strictEqual(br.readU32BE(), size - 4);
+        assert.strictEqual(br.readU8(), 0x01);
+        assert.strictEqual(br.readVarint(), 303);
+        assert.bufferEqual(br.readBytes(300), Buffer.alloc(300, 0x02));
+        assert.strictEqual(br.readVarint2(), 2);
+        assert.strictEqual(br.readU16(), 0x0303);
+        assert.strictEqual(br.readU16(), 0);
+        assert.strictEqual(br.left(), 0);
+      });
+    }
+
+    it('should fail on unbalanced sections', () => {
+      const bw = new bio.BufferWriter();
+      assert.throws(() => bw.endSection());
+      bw.beginSection();
+      assert.throws(() => bw.render(), bio.EncodingError);
+    });
+  });
+});
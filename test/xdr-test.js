@@ -0,0 +1,193 @@
+/* eslint-env mocha */
+/* eslint prefer-arrow-callback: "off" */
+
+'use strict';
+
+const assert = require('./util/assert');
+const {I64, U64} = require('n64');
+const bio = require('../src/bufio');
+const {xdr} = bio;
+
+const hex = s => Buffer.from(s, 'hex');
+
+const encode = (func) => {
+  const bw = bio.write();
+  func(bw);
+  return bw.render();
+};
+
+describe('XDR', function() {
+  it('should encode integers and floats', () => {
+    const data = encode((bw) => {
+      xdr.writeInt(bw, -2);
+      xdr.writeUnsignedInt(bw, 0xdeadbeef);
+      xdr.writeHyper(bw, I64.fromInt(-1));
+      xdr.writeUnsignedHyper(bw, U64.fromString('0102030405060708', 16));
+      xdr.writeHyperBig(bw, -2n);
+      xdr.writeUnsignedHyperBig(bw, 1n);
+      xdr.writeBool(bw, true);
+      xdr.writeEnum(bw, 3);
+      xdr.writeFloat(bw, 1.5);
+      xdr.writeDouble(bw, -2);
+    });
+
+    assert.bufferEqual(data, hex('fffffffe'
+                                 + 'deadbeef'
+                                 + 'ffffffffffffffff'
+                                 + '0102030405060708'
+                                 + 'fffffffffffffffe'
+                                 + '0000000000000001'
+                                 + '00000001'
+                                 + '00000003'
+                                 + '3fc00000'
+                                 + 'c000000000000000'));
+
+    const br = bio.read(data);
+
+    assert.strictEqual(xdr.readInt(br), -2);
+    assert.strictEqual(xdr.readUnsignedInt(br), 0xdeadbeef);
+    assert.strictEqual(xdr.readHyper(br).toString(), '-1');
+    assert.strictEqual(xdr.readUnsignedHyper(br).toString(16), '102030405060708');
+    assert.strictEqual(xdr.readHyperBig(br), -2n);
+    assert.strictEqual(xdr.readUnsignedHyperBig(br), 1n);
+    assert.strictEqual(xdr.readBool(br), true);
+    assert.strictEqual(xdr.readEnum(br, [1, 2, 3]), 3);
+    assert.strictEqual(xdr.readFloat(br), 1.5);
+    assert.strictEqual(xdr.readDouble(br), -2);
+    assert.strictEqual(br.left(), 0);
+
+    assert.throws(() => xdr.readBool(bio.read(hex('00000002'))), {
+      reason: 'Invalid boolean'
+    });
+    assert.throws(() => xdr.readEnum(bio.read(hex('00000004')), [1, 2, 3]), {
+      reason: 'Invalid enum value'
+    });
+  });
+
+  it('should pad opaque data and strings', () => {
+    const data = encode((bw) => {
+      xdr.writeFixedOpaque(bw, hex('010203'), 3);
+      xdr.writeOpaque(bw, hex('0405060708'));
+      xdr.writeString(bw, 'hello');
+      xdr.writeOpaque(bw, hex(''));
+    });
+
+    assert.bufferEqual(data, hex('01020300'
+                                 + '00000005' + '0405060708000000'
+                                 + '00000005' + '68656c6c6f000000'
+                                 + '00000000'));
+
+    assert.strictEqual(xdr.sizeOpaque(hex('0405060708')), 12);
+    assert.strictEqual(xdr.sizeString('hello'), 12);
+
+    const br = bio.read(data);
+
+    assert.bufferEqual(xdr.readFixedOpaque(br, 3), hex('010203'));
+    assert.bufferEqual(xdr.readOpaque(br), hex('0405060708'));
+    assert.strictEqual(xdr.readString(br), 'hello');
+    assert.bufferEqual(xdr.readOpaque(br), hex(''));
+    assert.strictEqual(br.left(), 0);
+  });
+
+  it('should reject non-zero padding and long data', () => {
+    assert.throws(() => xdr.readFixedOpaque(bio.read(hex('01020301')), 3), {
+      code: 'ERR_ENCODING',
+      reason: 'Non-zero padding'
+    });
+
+    assert.throws(() => xdr.readString(bio.read(hex('0000000161000100'))), {
+      code: 'ERR_ENCODING',
+      reason: 'Non-zero padding'
+    });
+
+    assert.throws(() => xdr.readOpaque(bio.read(hex('000000050102030405000000')), 4), {
+      code: 'ERR_LIMIT'
+    });
+
+    assert.throws(() => xdr.readOpaque(bio.read(hex('00000008010203'))), {
+      code: 'ERR_OUT_OF_BOUNDS'
+    });
+
+    assert.throws(() => xdr.writeString(bio.write(), 'hello', 4), {
+      code: 'ERR_LIMIT'
+    });
+
+    assert.throws(() => xdr.writeFixedOpaque(bio.write(), hex('01'), 2), {
+      reason: 'Invalid opaque size'
+    });
+  });
+
+  it('should encode arrays and optional data', () => {
+    const data = encode((bw) => {
+      xdr.writeFixedArray(bw, [1, 2], xdr.writeInt, 2);
+      xdr.writeArray(bw, ['a', 'bc'], (bw, s) => xdr.writeString(bw, s));
+      xdr.writeOptional(bw, 7, xdr.writeUnsignedInt);
+      xdr.writeOptional(bw, null, xdr.writeUnsignedInt);
+    });
+
+    assert.bufferEqual(data, hex('0000000100000002'
+                                 + '00000002'
+                                 + '0000000161000000'
+                                 + '0000000262630000'
+                                 + '0000000100000007'
+                                 + '00000000'));
+
+    const br = bio.read(data);
+
+    assert.deepStrictEqual(xdr.readFixedArray(br, 2, xdr.readInt), [1, 2]);
+    assert.deepStrictEqual(xdr.readArray(br, br => xdr.readString(br)), ['a', 'bc']);
+    assert.strictEqual(xdr.readOptional(br, xdr.readUnsignedInt), 7);
+    assert.strictEqual(xdr.readOptional(br, xdr.readUnsignedInt), null);
+
+    assert.throws(() => xdr.writeFixedArray(bio.write(), [1], xdr.writeInt, 2), {
+      reason: 'Invalid array length'
+    });
+
+    assert.throws(() => xdr.readArray(bio.read(hex('0000000300000001')),
+                                      xdr.readInt, 2), {
+      code: 'ERR_LIMIT'
+    });
+  });
+
+  it('should encode discriminated unions', () => {
+    const arms = {
+      0: null,
+      1: xdr.writeInt,
+      2: (bw, s) => xdr.writeString(bw, s)
+    };
+
+    const readArms = {
+      0: null,
+      1: xdr.readInt,
+      2: br => xdr.readString(br)
+    };
+
+    const data = encode((bw) => {
+      xdr.writeUnion(bw, 1, -1, arms);
+      xdr.writeUnion(bw, 0, null, arms);
+      xdr.writeUnion(bw, 2, 'x', arms);
+      xdr.writeUnion(bw, 9, 5, arms, xdr.writeUnsignedInt);
+    });
+
+    assert.bufferEqual(data, hex('00000001ffffffff'
+                                 + '00000000'
+                                 + '000000020000000178000000'
+                                 + '0000000900000005'));
+
+    const br = bio.read(data);
+
+    assert.deepStrictEqual(xdr.readUnion(br, readArms), new xdr.Union(1, -1));
+    assert.deepStrictEqual(xdr.readUnion(br, readArms), new xdr.Union(0, null));
+    assert.deepStrictEqual(xdr.readUnion(br, readArms), new xdr.Union(2, 'x'));
+    assert.deepStrictEqual(xdr.readUnion(br, readArms, xdr.readUnsignedInt),
+                           new xdr.Union(9, 5));
+
+    assert.throws(() => xdr.readUnion(bio.read(hex('00000003')), readArms), {
+      reason: 'Invalid union discriminant'
+    });
+
+    assert.throws(() => xdr.writeUnion(bio.write(), 3, null, arms), {
+      reason: 'Invalid union discriminant'
+    });
+  });
+});